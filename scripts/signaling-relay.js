@@ -0,0 +1,141 @@
+// Local WebSocket relay for video call signalling, for trying calls without
+// Supabase Realtime. Run `npm run signaling`, then start the app with
+// VITE_SIGNALING_URL=ws://localhost:8787 (see src/lib/signaling.ts).
+//
+// Each socket's first frame is {"join": "<room>"}; every text frame after
+// that is passed on as-is to the other sockets in the same room.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.SIGNALING_PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls whole frames off the front of the buffer; browsers always mask
+// what they send and offers fit well inside one frame
+const decodeFrames = (client) => {
+  const frames = [];
+  let buffer = client.buffer;
+
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+    }
+
+    frames.push({ opcode, payload });
+    buffer = buffer.subarray(offset + length);
+  }
+
+  client.buffer = buffer;
+  return frames;
+};
+
+const leave = (client) => {
+  if (!client.room) return;
+  const members = rooms.get(client.room);
+  members?.delete(client);
+  if (members?.size === 0) rooms.delete(client.room);
+  client.room = null;
+};
+
+const handleText = (client, text) => {
+  if (!client.room) {
+    try {
+      const { join } = JSON.parse(text);
+      if (typeof join !== 'string' || !join) throw new Error('missing room');
+      client.room = join;
+      if (!rooms.has(join)) rooms.set(join, new Set());
+      rooms.get(join).add(client);
+    } catch {
+      client.socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    }
+    return;
+  }
+
+  const frame = encodeFrame(0x1, Buffer.from(text));
+  rooms.get(client.room)?.forEach(other => {
+    if (other !== client) other.socket.write(frame);
+  });
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Signalling relay: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  const client = { socket, room: null, buffer: Buffer.alloc(0) };
+
+  socket.on('data', chunk => {
+    client.buffer = Buffer.concat([client.buffer, chunk]);
+    decodeFrames(client).forEach(({ opcode, payload }) => {
+      if (opcode === 0x1) handleText(client, payload.toString('utf8'));
+      else if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+      else if (opcode === 0x8) socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    });
+  });
+  socket.on('close', () => leave(client));
+  socket.on('error', () => leave(client));
+});
+
+server.listen(PORT, () => {
+  console.log(`Signalling relay on ws://localhost:${PORT}`);
+});
@@ -6,13 +6,20 @@ import LoginPage from './components/auth/LoginPage';
 import RequireAuth from './components/auth/RequireAuth';
 import ManufacturerAnalytics from './components/manufacturers/ManufacturerAnalytics';
 import InventoryList from './components/inventory/InventoryList';
+import StockTake from './components/inventory/StockTake';
+import ScrapInventory from './components/inventory/ScrapInventory';
 import SettingsTabs from './components/settings/SettingsTabs';
 import BillMaker from './components/pos/BillMaker';
+import SalesReturn from './components/pos/SalesReturn';
+import ApprovalMemos from './components/pos/ApprovalMemos';
 import SalesAnalytics from './components/dashboard/SalesAnalytics';
+import GSTReturns from './components/dashboard/GSTReturns';
 import CustomerList from './components/customers/CustomerList';
+import CustomerReceivables from './components/customers/CustomerReceivables';
 import VideoCallList from './components/video-calls/VideoCallList';
 import VideoCallDetails from './components/video-calls/pages/VideoCallDetails';
 import VideoCallRoom from './components/video-calls/pages/VideoCallRoom';
+import CustomerCallRoom from './components/video-calls/pages/CustomerCallRoom';
 import VideoCallQuotation from './components/video-calls/pages/VideoCallQuotation';
 import VideoCallProfiling from './components/video-calls/pages/VideoCallProfiling';
 import VideoCallPayment from './components/video-calls/pages/VideoCallPayment';
@@ -78,6 +85,7 @@ function App() {
             )
           } 
         />
+        <Route path="/call/join/:token" element={<CustomerCallRoom />} />
         <Route
           path="/"
           element={
@@ -101,11 +109,36 @@ function App() {
               <InventoryList />
             </RequireAuth>
           } />
+          <Route path="stock-take" element={
+            <RequireAuth permissions={['view_inventory']} fallback={<UnauthorizedContent />}>
+              <StockTake />
+            </RequireAuth>
+          } />
+          <Route path="old-gold" element={
+            <RequireAuth permissions={['view_inventory']} fallback={<UnauthorizedContent />}>
+              <ScrapInventory />
+            </RequireAuth>
+          } />
           <Route path="bill" element={
             <RequireAuth permissions={['view_inventory']} fallback={<UnauthorizedContent />}>
               <BillMaker />
             </RequireAuth>
           } />
+          <Route path="returns" element={
+            <RequireAuth permissions={['view_inventory']} fallback={<UnauthorizedContent />}>
+              <SalesReturn />
+            </RequireAuth>
+          } />
+          <Route path="approvals" element={
+            <RequireAuth permissions={['view_inventory']} fallback={<UnauthorizedContent />}>
+              <ApprovalMemos />
+            </RequireAuth>
+          } />
+          <Route path="gst-returns" element={
+            <RequireAuth permissions={['view_analytics']} fallback={<UnauthorizedContent />}>
+              <GSTReturns />
+            </RequireAuth>
+          } />
           <Route path="settings" element={
             <RequireAuth permissions={['manage_settings']} fallback={<UnauthorizedContent />}>
               <SettingsTabs />
@@ -116,6 +149,11 @@ function App() {
               <CustomerList />
             </RequireAuth>
           } />
+          <Route path="receivables" element={
+            <RequireAuth permissions={['manage_customers']} fallback={<UnauthorizedContent />}>
+              <CustomerReceivables />
+            </RequireAuth>
+          } />
           <Route path="video-calls" element={
             <RequireAuth permissions={['manage_video_calls']} fallback={<UnauthorizedContent />}>
               <VideoCallList />
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Link, Outlet, useNavigate } from 'react-router-dom';
-import { Diamond, Users, ShoppingCart, Bell, Settings, LogOut, BarChart, Menu, X, Calculator, Video } from 'lucide-react';
+import { Diamond, Users, ShoppingCart, Bell, Settings, LogOut, BarChart, Menu, X, Calculator, Video, ClipboardList, FileSpreadsheet, Recycle, RotateCcw, Wallet, PackageOpen } from 'lucide-react';
 import { signOut } from '../lib/auth';
 import { supabase } from '../lib/supabase';
 import { useScanningMode } from '../hooks/useScanningMode';
@@ -118,8 +118,14 @@ const Layout = () => {
     { to: '/', icon: Diamond, label: 'Dashboard' },
     { to: '/manufacturers', icon: BarChart, label: 'Manufacturers' },
     { to: '/inventory', icon: ShoppingCart, label: 'Inventory' },
+    { to: '/stock-take', icon: ClipboardList, label: 'Stock Take' },
+    { to: '/old-gold', icon: Recycle, label: 'Old Gold' },
     { to: '/bill', icon: Calculator, label: 'Bill Maker' },
+    { to: '/returns', icon: RotateCcw, label: 'Returns' },
+    { to: '/approvals', icon: PackageOpen, label: 'Approvals' },
     { to: '/customers', icon: Users, label: 'Customers' },
+    { to: '/receivables', icon: Wallet, label: 'Receivables' },
+    { to: '/gst-returns', icon: FileSpreadsheet, label: 'GST Returns' },
     { to: '/video-calls', icon: Video, label: 'Video Calls' },
   ];
 
@@ -23,6 +23,8 @@ const CustomerForm: React.FC<CustomerFormProps> = ({ customer, onClose, onSubmit
     pincode: customer?.pincode || '',
     gst_number: customer?.gst_number || '',
     pan_number: customer?.pan_number || '',
+    credit_limit: customer?.credit_limit ?? 0,
+    credit_terms_days: customer?.credit_terms_days ?? 30,
     preferences: customer?.preferences || {
       categories: [],
       priceRange: { min: 0, max: 100000 },
@@ -103,6 +105,8 @@ const CustomerForm: React.FC<CustomerFormProps> = ({ customer, onClose, onSubmit
         ...formData,
         email: formData.email || null,
         phone: formData.phone,
+        credit_limit: Number(formData.credit_limit) || 0,
+        credit_terms_days: Number(formData.credit_terms_days) || 0,
         updated_at: new Date().toISOString()
       };
 
@@ -381,6 +385,36 @@ const CustomerForm: React.FC<CustomerFormProps> = ({ customer, onClose, onSubmit
                     />
                   </div>
 
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Credit Limit (₹)
+                      </label>
+                      <input
+                        type="number"
+                        name="credit_limit"
+                        min="0"
+                        className="input bg-white/80"
+                        value={formData.credit_limit}
+                        onChange={handleChange}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">0 means bills are paid in full</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Credit Days
+                      </label>
+                      <input
+                        type="number"
+                        name="credit_terms_days"
+                        min="0"
+                        className="input bg-white/80"
+                        value={formData.credit_terms_days}
+                        onChange={handleChange}
+                      />
+                    </div>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Notes
@@ -1,11 +1,14 @@
 import React from 'react';
-import { Plus, Search, Phone, Mail, Edit, Trash2, Clock, Calendar, MapPin, User, UserCheck } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Plus, Search, Phone, Mail, Edit, Trash2, Clock, Calendar, MapPin, User, UserCheck, PackageOpen } from 'lucide-react';
 import type { Customer } from '../../types';
 import CustomerForm from './CustomerForm';
 import { supabase, fetchWithRetry } from '../../lib/supabase';
 import { format } from 'date-fns';
 import { formatPhoneNumber, searchPhoneNumber } from '../../utils/phoneUtils';
 import { useToast } from '../../hooks/useToast';
+import { getOutstandingApprovals, type OutstandingApprovals } from '../../utils/approvalMemos';
+import { formatCurrency } from '../../utils/quotation';
 
 const CustomerList = () => {
   const [customers, setCustomers] = React.useState<Customer[]>([]);
@@ -15,10 +18,14 @@ const CustomerList = () => {
   const [loading, setLoading] = React.useState(true);
   const [showDeleteConfirm, setShowDeleteConfirm] = React.useState<string | null>(null);
   const [error, setError] = React.useState<string | null>(null);
+  const [approvals, setApprovals] = React.useState<Record<string, OutstandingApprovals>>({});
   const { addToast } = useToast();
 
   React.useEffect(() => {
     fetchCustomers();
+    getOutstandingApprovals()
+      .then(setApprovals)
+      .catch(() => setApprovals({}));
   }, []);
 
   const fetchCustomers = async () => {
@@ -307,6 +314,20 @@ const CustomerList = () => {
                       Last: {formatDate(customer.last_purchase_date)}
                     </div>
                   )}
+                  {approvals[customer.id] && (
+                    <Link
+                      to={`/approvals?customer=${customer.id}`}
+                      className={`text-sm flex items-center gap-1 hover:underline ${
+                        approvals[customer.id].overdue > 0 ? 'text-red-600' : 'text-amber-700'
+                      }`}
+                      title={`${approvals[customer.id].memos} open memo${approvals[customer.id].memos === 1 ? '' : 's'}${
+                        approvals[customer.id].overdue > 0 ? `, ${approvals[customer.id].overdue} overdue` : ''
+                      }`}
+                    >
+                      <PackageOpen className="h-3 w-3" />
+                      On approval: {approvals[customer.id].pieces} pcs · {formatCurrency(approvals[customer.id].value)}
+                    </Link>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                   <div className="flex justify-end items-center space-x-3">
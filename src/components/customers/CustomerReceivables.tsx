@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Customer, ReceivableEntry } from '../../types';
+import { supabase } from '../../lib/supabase';
+import { getReceivableEntries } from '../../utils/receivables';
+import { calculateAgeing, AGEING_BUCKETS, type AgeingBucket } from '../../utils/payables';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+import CustomerStatement from './CustomerStatement';
+import PaymentFollowUps from './PaymentFollowUps';
+import PaymentReconciliation from './PaymentReconciliation';
+
+interface ReceivableRow {
+  customer: Customer;
+  balance: number;
+  overdue: number;
+  buckets: Record<AgeingBucket, number>;
+  lastEntryDate: string | null;
+}
+
+type ReceivablesView = 'balances' | 'follow-ups' | 'reconciliation';
+
+const VIEW_LABELS: Record<ReceivablesView, string> = {
+  balances: 'Balances',
+  'follow-ups': 'Follow-ups',
+  reconciliation: 'Reconciliation'
+};
+
+const emptyBuckets = (): Record<AgeingBucket, number> =>
+  Object.fromEntries(AGEING_BUCKETS.map(bucket => [bucket, 0])) as Record<AgeingBucket, number>;
+
+const CustomerReceivables: React.FC = () => {
+  const [rows, setRows] = useState<ReceivableRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showSettled, setShowSettled] = useState(false);
+  const [view, setView] = useState<ReceivablesView>('balances');
+  const [selected, setSelected] = useState<Customer | null>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchReceivables();
+  }, []);
+
+  const fetchReceivables = async () => {
+    try {
+      setLoading(true);
+      const [{ data: customers, error }, entries] = await Promise.all([
+        supabase.from('customers').select('*').order('name'),
+        getReceivableEntries()
+      ]);
+      if (error) throw error;
+
+      const byCustomer = new Map<string, ReceivableEntry[]>();
+      entries.forEach(entry => {
+        byCustomer.set(entry.customer_id, [...(byCustomer.get(entry.customer_id) || []), entry]);
+      });
+
+      // Customers with no entries yet still get a row if they have been given credit
+      setRows((customers || [])
+        .filter((customer: Customer) => byCustomer.has(customer.id) || Number(customer.credit_limit) > 0)
+        .map((customer: Customer) => {
+          const customerEntries = byCustomer.get(customer.id) || [];
+          const ageing = calculateAgeing(customerEntries);
+          return {
+            customer,
+            balance: customerEntries.reduce((sum, entry) => sum + Number(entry.amount), 0),
+            overdue: AGEING_BUCKETS
+              .filter(bucket => bucket !== 'Not due')
+              .reduce((sum, bucket) => sum + ageing.buckets[bucket], 0),
+            buckets: ageing.buckets,
+            lastEntryDate: customerEntries.length > 0
+              ? customerEntries[customerEntries.length - 1].entry_date
+              : null
+          };
+        })
+        .sort((a, b) => b.overdue - a.overdue || b.balance - a.balance));
+    } catch (error) {
+      console.error('Error fetching receivables:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load receivables',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (selected) {
+    return (
+      <CustomerStatement
+        customer={selected}
+        onBack={() => setSelected(null)}
+        onChanged={fetchReceivables}
+      />
+    );
+  }
+
+  const totals = rows.reduce((sum, row) => {
+    AGEING_BUCKETS.forEach(bucket => { sum[bucket] += row.buckets[bucket]; });
+    return sum;
+  }, emptyBuckets());
+  const totalReceivable = rows.reduce((sum, row) => sum + Math.max(0, row.balance), 0);
+  const visibleRows = showSettled ? rows : rows.filter(row => row.balance !== 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Receivables</h2>
+          <p className="text-sm text-gray-500">Total owed by customers: {formatCurrency(totalReceivable)}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          {view === 'balances' && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showSettled}
+                onChange={e => setShowSettled(e.target.checked)}
+              />
+              Show settled accounts
+            </label>
+          )}
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+            {(Object.keys(VIEW_LABELS) as ReceivablesView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 ${view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                {VIEW_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {view === 'follow-ups' ? (
+        <PaymentFollowUps />
+      ) : view === 'reconciliation' ? (
+        <PaymentReconciliation />
+      ) : (
+        <>
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 p-6">
+            <h3 className="font-medium mb-3">Ageing as of {format(new Date(), 'dd/MM/yyyy')}</h3>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {AGEING_BUCKETS.map(bucket => (
+                <div key={bucket} className="border rounded-xl p-3">
+                  <p className="text-xs text-gray-500">{bucket}</p>
+                  <p className={`font-semibold ${bucket !== 'Not due' && totals[bucket] > 0 ? 'text-red-600' : ''}`}>
+                    {formatCurrency(totals[bucket])}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-x-auto">
+            {loading ? (
+              <div className="text-center py-8 text-gray-500">Loading receivables...</div>
+            ) : visibleRows.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No customer owes anything.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="px-4 py-3">Customer</th>
+                    <th className="px-4 py-3 text-right">Balance</th>
+                    {AGEING_BUCKETS.map(bucket => (
+                      <th key={bucket} className="px-4 py-3 text-right">{bucket}</th>
+                    ))}
+                    <th className="px-4 py-3 text-right">Credit limit</th>
+                    <th className="px-4 py-3">Terms</th>
+                    <th className="px-4 py-3">Last entry</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visibleRows.map(row => {
+                    const limit = Number(row.customer.credit_limit) || 0;
+                    return (
+                      <tr key={row.customer.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => setSelected(row.customer)}>
+                        <td className="px-4 py-3">
+                          <div className="font-medium">{row.customer.name}</div>
+                          <div className="text-xs text-gray-500">{row.customer.phone}</div>
+                        </td>
+                        <td className={`px-4 py-3 text-right ${row.balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatCurrency(row.balance)}
+                        </td>
+                        {AGEING_BUCKETS.map(bucket => (
+                          <td key={bucket} className="px-4 py-3 text-right">
+                            {row.buckets[bucket] > 0 ? formatCurrency(row.buckets[bucket]) : '—'}
+                          </td>
+                        ))}
+                        <td className={`px-4 py-3 text-right ${limit > 0 && row.balance > limit ? 'text-red-600' : ''}`}>
+                          {limit > 0 ? formatCurrency(limit) : '—'}
+                        </td>
+                        <td className="px-4 py-3">{row.customer.credit_terms_days ?? 30} days</td>
+                        <td className="px-4 py-3">
+                          {row.lastEntryDate ? format(new Date(row.lastEntryDate), 'dd/MM/yyyy') : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <ArrowRight className="h-4 w-4 text-gray-400 inline" />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomerReceivables;
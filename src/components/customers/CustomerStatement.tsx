@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Download, Plus } from 'lucide-react';
+import { format, startOfYear } from 'date-fns';
+import type { Customer, PaymentMethod, ReceivableEntry } from '../../types';
+import { calculateAgeing, withRunningBalance, AGEING_BUCKETS, type AgeingSummary } from '../../utils/payables';
+import {
+  getReceivableEntries,
+  getReceivableOpeningBalance,
+  RECEIVABLE_ENTRY_LABELS,
+  RECEIVABLE_ENTRY_COLORS
+} from '../../utils/receivables';
+import { PAYMENT_METHOD_LABELS } from '../../utils/paymentUtils';
+import { formatCurrency } from '../../utils/quotation';
+import { PDFService } from '../../utils/pdfService';
+import { useToast } from '../../hooks/useToast';
+import ReceivableEntryForm from './ReceivableEntryForm';
+
+interface CustomerStatementProps {
+  customer: Customer;
+  onBack: () => void;
+  onChanged: () => void;
+}
+
+const CustomerStatement: React.FC<CustomerStatementProps> = ({ customer, onBack, onChanged }) => {
+  const [range, setRange] = useState({
+    from: format(startOfYear(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+  const [entries, setEntries] = useState<ReceivableEntry[]>([]);
+  const [openingBalance, setOpeningBalance] = useState(0);
+  const [ageing, setAgeing] = useState<AgeingSummary<ReceivableEntry> | null>(null);
+  const [balance, setBalance] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const { addToast } = useToast();
+
+  const creditLimit = Number(customer.credit_limit) || 0;
+  const creditTermsDays = customer.credit_terms_days ?? 30;
+
+  useEffect(() => {
+    fetchStatement();
+  }, [customer.id, range.from, range.to]);
+
+  const fetchStatement = async () => {
+    try {
+      setLoading(true);
+      const [statementEntries, opening, allEntries] = await Promise.all([
+        getReceivableEntries(customer.id, range),
+        getReceivableOpeningBalance(customer.id, range.from),
+        getReceivableEntries(customer.id)
+      ]);
+      setEntries(statementEntries);
+      setOpeningBalance(opening);
+      setAgeing(calculateAgeing(allEntries));
+      setBalance(allEntries.reduce((sum, entry) => sum + Number(entry.amount), 0));
+    } catch (error) {
+      console.error('Error fetching statement:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load statement',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      await PDFService.sharePDF({
+        title: `Statement - ${customer.name}`,
+        filename: `statement-${customer.name.replace(/\s+/g, '-').toLowerCase()}-${range.to}.pdf`,
+        contentId: 'customer-statement'
+      });
+    } catch (error) {
+      console.error('Error exporting statement:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to export statement',
+        type: 'error'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const rows = withRunningBalance(entries, openingBalance);
+  const closingBalance = rows.length > 0 ? rows[rows.length - 1].balance : openingBalance;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <button onClick={onBack} className="btn btn-secondary flex items-center gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          All customers
+        </button>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="date"
+            className="input w-40"
+            value={range.from}
+            onChange={e => setRange(prev => ({ ...prev, from: e.target.value }))}
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            className="input w-40"
+            value={range.to}
+            onChange={e => setRange(prev => ({ ...prev, to: e.target.value }))}
+          />
+          <button onClick={() => setShowForm(true)} className="btn btn-secondary flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New Entry
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || loading}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            {exporting ? 'Preparing...' : 'Download PDF'}
+          </button>
+        </div>
+      </div>
+
+      <div id="customer-statement" className="bg-white rounded-2xl shadow-lg border border-gray-100/80 p-6 space-y-6">
+        <div className="flex justify-between">
+          <div>
+            <h3 className="text-xl font-semibold">{customer.name}</h3>
+            <p className="text-sm text-gray-500">
+              Statement {format(new Date(range.from), 'dd/MM/yyyy')} – {format(new Date(range.to), 'dd/MM/yyyy')}
+            </p>
+            <p className="text-xs text-gray-400">
+              Credit limit: {creditLimit > 0 ? formatCurrency(creditLimit) : 'none'} · Terms: {creditTermsDays} days
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-gray-500">Closing balance</p>
+            <p className={`text-2xl font-bold ${closingBalance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatCurrency(Math.abs(closingBalance))}
+            </p>
+            <p className="text-xs text-gray-500">{closingBalance > 0 ? 'receivable' : closingBalance < 0 ? 'advance' : 'settled'}</p>
+            {creditLimit > 0 && (
+              <p className="text-xs text-gray-500">Credit left: {formatCurrency(Math.max(creditLimit - balance, 0))}</p>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading statement...</div>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-3 py-2">Date</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Reference</th>
+                  <th className="px-3 py-2 text-right">Debit</th>
+                  <th className="px-3 py-2 text-right">Credit</th>
+                  <th className="px-3 py-2 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                <tr className="text-gray-500">
+                  <td className="px-3 py-2">{format(new Date(range.from), 'dd/MM/yyyy')}</td>
+                  <td className="px-3 py-2" colSpan={4}>Balance brought forward</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(openingBalance)}</td>
+                </tr>
+                {rows.map(({ entry, balance: running }) => (
+                  <tr key={entry.id}>
+                    <td className="px-3 py-2">{format(new Date(entry.entry_date), 'dd/MM/yyyy')}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${RECEIVABLE_ENTRY_COLORS[entry.entry_type]}`}>
+                        {RECEIVABLE_ENTRY_LABELS[entry.entry_type]}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div>{entry.reference || '—'}</div>
+                      {(entry.notes || entry.payment_method) && (
+                        <div className="text-xs text-gray-500">
+                          {[
+                            entry.payment_method && (PAYMENT_METHOD_LABELS[entry.payment_method as PaymentMethod] || entry.payment_method),
+                            entry.notes
+                          ].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                      {entry.due_date && (
+                        <div className="text-xs text-gray-500">Due {format(new Date(entry.due_date), 'dd/MM/yyyy')}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {Number(entry.amount) > 0 ? formatCurrency(Number(entry.amount)) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {Number(entry.amount) < 0 ? formatCurrency(-Number(entry.amount)) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium">{formatCurrency(running)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {ageing && (
+              <div>
+                <h4 className="font-medium mb-2">Ageing as of {format(new Date(), 'dd/MM/yyyy')}</h4>
+                <div className="grid grid-cols-5 gap-3">
+                  {AGEING_BUCKETS.map(bucket => (
+                    <div key={bucket} className="border rounded-xl p-3">
+                      <p className="text-xs text-gray-500">{bucket}</p>
+                      <p className={`font-semibold ${bucket !== 'Not due' && ageing.buckets[bucket] > 0 ? 'text-red-600' : ''}`}>
+                        {formatCurrency(ageing.buckets[bucket])}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                {ageing.unappliedCredit > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Unapplied receipts and credit notes: {formatCurrency(ageing.unappliedCredit)}
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {showForm && (
+        <ReceivableEntryForm
+          customerId={customer.id}
+          customerName={customer.name}
+          creditTermsDays={creditTermsDays}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            fetchStatement();
+            onChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CustomerStatement;
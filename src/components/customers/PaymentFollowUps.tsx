@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, CheckCircle } from 'lucide-react';
+import { format, isBefore, startOfDay } from 'date-fns';
+import {
+  getOpenFollowUps,
+  completeFollowUp,
+  runPaymentReminders,
+  FOLLOW_UP_LABELS,
+  FOLLOW_UP_COLORS,
+  type FollowUpWithBill
+} from '../../utils/paymentReminders';
+import { formatCurrency } from '../../utils/quotation';
+import { hasPermission } from '../../lib/auth';
+import { useToast } from '../../hooks/useToast';
+import PaymentNoteModal from '../pos/PaymentNoteModal';
+
+const PaymentFollowUps: React.FC = () => {
+  const [followUps, setFollowUps] = useState<FollowUpWithBill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [mineOnly, setMineOnly] = useState(!hasPermission('manage_staff'));
+  const [completing, setCompleting] = useState<FollowUpWithBill | null>(null);
+  const { addToast } = useToast();
+
+  const staffId = localStorage.getItem('staffId') || '';
+
+  useEffect(() => {
+    fetchFollowUps();
+  }, [mineOnly]);
+
+  const fetchFollowUps = async () => {
+    try {
+      setLoading(true);
+      setFollowUps(await getOpenFollowUps(mineOnly ? staffId : undefined));
+    } catch (error) {
+      console.error('Error fetching follow-ups:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load follow-ups',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      const result = await runPaymentReminders();
+      addToast({
+        title: 'Reminders run',
+        message: `${result.alerts} alerts raised, ${result.broken_promises} broken promises, ${result.closed} paid bills closed`,
+        type: 'success'
+      });
+      fetchFollowUps();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to run reminders',
+        type: 'error'
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleComplete = async (data: {
+    note: string;
+    status: string;
+    nextPaymentDate: string | null;
+    staffId: string;
+  }) => {
+    if (!completing) return;
+    try {
+      await completeFollowUp(completing, data);
+      setCompleting(null);
+      addToast({
+        title: 'Success',
+        message: 'Follow-up logged',
+        type: 'success'
+      });
+      fetchFollowUps();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to log follow-up',
+        type: 'error'
+      });
+    }
+  };
+
+  const today = startOfDay(new Date());
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={mineOnly}
+            onChange={e => setMineOnly(e.target.checked)}
+          />
+          Assigned to me
+        </label>
+        <button onClick={handleRun} disabled={running} className="btn btn-secondary flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${running ? 'animate-spin' : ''}`} />
+          {running ? 'Running...' : 'Run Reminders Now'}
+        </button>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-x-auto">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading follow-ups...</div>
+        ) : followUps.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No follow-ups pending.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Due</th>
+                <th className="px-4 py-3">Alert</th>
+                <th className="px-4 py-3">Customer</th>
+                <th className="px-4 py-3">Bill</th>
+                <th className="px-4 py-3 text-right">Outstanding</th>
+                <th className="px-4 py-3">Assigned to</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {followUps.map(followUp => (
+                <tr key={followUp.id}>
+                  <td className={`px-4 py-3 ${isBefore(new Date(followUp.due_date), today) ? 'text-red-600 font-medium' : ''}`}>
+                    {format(new Date(followUp.due_date), 'dd/MM/yyyy')}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${FOLLOW_UP_COLORS[followUp.event_type]}`}>
+                      {FOLLOW_UP_LABELS[followUp.event_type]}
+                    </span>
+                    <div className="text-xs text-gray-500 mt-1">{followUp.message}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="font-medium">{followUp.customers?.name || 'Walk-in customer'}</div>
+                    {followUp.customers?.phone && (
+                      <div className="text-xs text-gray-500">{followUp.customers.phone}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">{followUp.sales?.sale_number || '—'}</td>
+                  <td className="px-4 py-3 text-right">
+                    {formatCurrency(Number(followUp.sales?.payment_details?.pending_amount) || 0)}
+                  </td>
+                  <td className="px-4 py-3">{followUp.staff?.name || 'Admins'}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => setCompleting(followUp)}
+                      className="btn btn-secondary text-xs flex items-center gap-1 ml-auto"
+                    >
+                      <CheckCircle className="h-4 w-4" />
+                      Log Follow-up
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {completing && (
+        <PaymentNoteModal
+          onClose={() => setCompleting(null)}
+          onSubmit={handleComplete}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PaymentFollowUps;
@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import { Upload, Check, EyeOff, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import type { StatementLine } from '../../types';
+import {
+  parseStatementCsv,
+  importStatementLines,
+  getStatementLines,
+  getPendingBills,
+  findBillMatches,
+  reconcileStatementLine,
+  setStatementLineIgnored,
+  type PendingBill,
+  type StatementLineWithSale
+} from '../../utils/reconciliation';
+import { PAYMENT_METHOD_LABELS } from '../../utils/paymentUtils';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+
+const STATUSES: StatementLine['status'][] = ['unmatched', 'matched', 'ignored'];
+
+const billLabel = (bill: PendingBill) =>
+  `${bill.sale_number}${bill.invoice_number ? ` / ${bill.invoice_number}` : ''} · ${bill.customer_name} · ${formatCurrency(bill.pending_amount)} due`;
+
+const PaymentReconciliation: React.FC = () => {
+  const [status, setStatus] = useState<StatementLine['status']>('unmatched');
+  const [lines, setLines] = useState<StatementLineWithSale[]>([]);
+  const [bills, setBills] = useState<PendingBill[]>([]);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [method, setMethod] = useState<StatementLine['payment_method']>('upi');
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchLines();
+  }, [status]);
+
+  const fetchLines = async () => {
+    try {
+      setLoading(true);
+      const [statementLines, pendingBills] = await Promise.all([
+        getStatementLines(status),
+        status === 'unmatched' ? getPendingBills() : Promise.resolve([])
+      ]);
+      setLines(statementLines);
+      setBills(pendingBills);
+
+      // Preselect the bill when there is exactly one candidate
+      setSelection(Object.fromEntries(
+        statementLines
+          .map(line => [line.id, findBillMatches(line, pendingBills)] as const)
+          .filter(([, matches]) => matches.length === 1)
+          .map(([id, matches]) => [id, matches[0].bill.sale_id])
+      ));
+    } catch (error) {
+      console.error('Error fetching statement lines:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load statement lines',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      const { lines: parsed, skipped } = parseStatementCsv(await file.text());
+      const imported = await importStatementLines(parsed, method, file.name);
+      addToast({
+        title: 'Statement imported',
+        message: `${imported} new credits, ${parsed.length - imported} already imported, ${skipped} other rows skipped`,
+        type: 'success'
+      });
+      if (status === 'unmatched') {
+        fetchLines();
+      } else {
+        setStatus('unmatched');
+      }
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to import statement',
+        type: 'error'
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleMatch = async (line: StatementLineWithSale) => {
+    const saleId = selection[line.id];
+    if (!saleId) return;
+
+    try {
+      setBusyId(line.id);
+      const result = await reconcileStatementLine(line.id, saleId);
+      addToast({
+        title: 'Matched',
+        message: Number(result.applied_amount) < Number(line.amount)
+          ? `${formatCurrency(Number(result.applied_amount))} cleared the bill; the rest is held on the customer's account`
+          : `${formatCurrency(Number(line.amount))} applied to the bill`,
+        type: 'success'
+      });
+      fetchLines();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to match payment',
+        type: 'error'
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleIgnore = async (line: StatementLineWithSale, ignored: boolean) => {
+    try {
+      setBusyId(line.id);
+      await setStatementLineIgnored(line.id, ignored);
+      setLines(prev => prev.filter(item => item.id !== line.id));
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to update statement line',
+        type: 'error'
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+          {STATUSES.map(option => (
+            <button
+              key={option}
+              onClick={() => setStatus(option)}
+              className={`px-3 py-1.5 capitalize ${status === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            className="input w-40"
+            value={method}
+            onChange={e => setMethod(e.target.value as StatementLine['payment_method'])}
+          >
+            <option value="upi">{PAYMENT_METHOD_LABELS.upi} statement</option>
+            <option value="bank_transfer">{PAYMENT_METHOD_LABELS.bank_transfer} statement</option>
+          </select>
+          <label className={`btn btn-primary flex items-center gap-2 cursor-pointer ${importing ? 'opacity-50 pointer-events-none' : ''}`}>
+            <Upload className="h-4 w-4" />
+            {importing ? 'Importing...' : 'Import CSV'}
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-x-auto">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading statement lines...</div>
+        ) : lines.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No {status} credits.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Narration</th>
+                <th className="px-4 py-3 text-right">Amount</th>
+                <th className="px-4 py-3">{status === 'matched' ? 'Bill' : status === 'unmatched' ? 'Match to bill' : ''}</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {lines.map(line => {
+                const matches = status === 'unmatched' ? findBillMatches(line, bills) : [];
+                const suggested = new Set(matches.map(match => match.bill.sale_id));
+                return (
+                  <tr key={line.id}>
+                    <td className="px-4 py-3 whitespace-nowrap">{format(new Date(line.txn_date), 'dd/MM/yyyy')}</td>
+                    <td className="px-4 py-3">
+                      <div className="break-all">{line.description || '—'}</div>
+                      <div className="text-xs text-gray-500">
+                        {[line.reference, PAYMENT_METHOD_LABELS[line.payment_method]].filter(Boolean).join(' · ')}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium">{formatCurrency(Number(line.amount))}</td>
+                    <td className="px-4 py-3">
+                      {status === 'unmatched' && (
+                        <div className="space-y-1">
+                          <select
+                            className="input text-xs"
+                            value={selection[line.id] || ''}
+                            onChange={e => setSelection(prev => ({ ...prev, [line.id]: e.target.value }))}
+                          >
+                            <option value="">Select a pending bill</option>
+                            {matches.length > 0 && (
+                              <optgroup label="Suggested">
+                                {matches.map(({ bill }) => (
+                                  <option key={bill.sale_id} value={bill.sale_id}>{billLabel(bill)}</option>
+                                ))}
+                              </optgroup>
+                            )}
+                            <optgroup label="All pending bills">
+                              {bills.filter(bill => !suggested.has(bill.sale_id)).map(bill => (
+                                <option key={bill.sale_id} value={bill.sale_id}>{billLabel(bill)}</option>
+                              ))}
+                            </optgroup>
+                          </select>
+                          {matches.length > 0 && (
+                            <p className="text-xs text-gray-500">
+                              {matches[0].basis === 'reference' ? 'Bill number found in narration' : 'Amount matches what is due'}
+                              {matches.length > 1 ? ` · ${matches.length} candidates` : ''}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {status === 'matched' && (
+                        <div>
+                          <div>{line.sales?.sale_number || '—'}</div>
+                          {Number(line.applied_amount) < Number(line.amount) && (
+                            <div className="text-xs text-gray-500">
+                              {formatCurrency(Number(line.applied_amount))} to the bill, rest on account
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        {status === 'unmatched' && (
+                          <>
+                            <button
+                              onClick={() => handleMatch(line)}
+                              disabled={!selection[line.id] || busyId === line.id}
+                              className="btn btn-primary text-xs flex items-center gap-1"
+                            >
+                              <Check className="h-4 w-4" />
+                              Match
+                            </button>
+                            <button
+                              onClick={() => handleIgnore(line, true)}
+                              disabled={busyId === line.id}
+                              className="btn btn-secondary text-xs flex items-center gap-1"
+                              title="Not a customer payment"
+                            >
+                              <EyeOff className="h-4 w-4" />
+                              Ignore
+                            </button>
+                          </>
+                        )}
+                        {status === 'ignored' && (
+                          <button
+                            onClick={() => handleIgnore(line, false)}
+                            disabled={busyId === line.id}
+                            className="btn btn-secondary text-xs flex items-center gap-1"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                            Restore
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentReconciliation;
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import type { PaymentMethod, ReceivableEntryType } from '../../types';
+import {
+  recordCustomerReceipt,
+  recordReceivableEntry,
+  RECEIVABLE_ENTRY_LABELS
+} from '../../utils/receivables';
+import { PAYMENT_METHOD_LABELS, PAYMENT_REFERENCE_LABELS } from '../../utils/paymentUtils';
+import { useToast } from '../../hooks/useToast';
+
+interface ReceivableEntryFormProps {
+  customerId: string;
+  customerName: string;
+  creditTermsDays: number;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const ENTRY_TYPES: ReceivableEntryType[] = ['receipt', 'adjustment', 'opening_balance'];
+
+const RECEIPT_METHODS: PaymentMethod[] = ['cash', 'upi', 'bank_transfer', 'cheque', 'card'];
+
+const ReceivableEntryForm: React.FC<ReceivableEntryFormProps> = ({
+  customerId,
+  customerName,
+  creditTermsDays,
+  onClose,
+  onSaved
+}) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [entry, setEntry] = useState({
+    entry_type: 'receipt' as ReceivableEntryType,
+    entry_date: today,
+    due_date: format(addDays(new Date(), creditTermsDays), 'yyyy-MM-dd'),
+    reference: '',
+    amount: 0,
+    payment_method: 'cash' as PaymentMethod,
+    notes: ''
+  });
+  const [saving, setSaving] = useState(false);
+  const { addToast } = useToast();
+
+  const receipt = entry.entry_type === 'receipt';
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      if (receipt) {
+        await recordCustomerReceipt({
+          customerId,
+          amount: entry.amount,
+          method: entry.payment_method,
+          reference: entry.reference,
+          entryDate: entry.entry_date,
+          notes: entry.notes
+        });
+      } else {
+        await recordReceivableEntry({
+          customer_id: customerId,
+          entry_type: entry.entry_type as 'adjustment' | 'opening_balance',
+          entry_date: entry.entry_date,
+          due_date: entry.due_date,
+          reference: entry.reference,
+          amount: entry.amount,
+          notes: entry.notes
+        });
+      }
+      addToast({
+        title: 'Success',
+        message: `${RECEIVABLE_ENTRY_LABELS[entry.entry_type]} recorded`,
+        type: 'success'
+      });
+      onSaved();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to record entry',
+        type: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg">
+        <div className="flex items-center justify-between p-5 border-b">
+          <div>
+            <h3 className="text-lg font-semibold">New Ledger Entry</h3>
+            <p className="text-xs text-gray-500">{customerName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 grid grid-cols-2 gap-4">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entry type</label>
+            <select
+              className="input"
+              value={entry.entry_type}
+              onChange={e => setEntry(prev => ({ ...prev, entry_type: e.target.value as ReceivableEntryType }))}
+            >
+              {ENTRY_TYPES.map(type => (
+                <option key={type} value={type}>{RECEIVABLE_ENTRY_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <input
+              type="date"
+              className="input"
+              value={entry.entry_date}
+              max={today}
+              onChange={e => setEntry(prev => ({ ...prev, entry_date: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Amount (₹)</label>
+            <input
+              type="number"
+              step="0.01"
+              min={receipt ? '0' : undefined}
+              className="input"
+              value={entry.amount || ''}
+              onChange={e => setEntry(prev => ({ ...prev, amount: Number(e.target.value) || 0 }))}
+            />
+          </div>
+          {receipt ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Received by</label>
+                <select
+                  className="input"
+                  value={entry.payment_method}
+                  onChange={e => setEntry(prev => ({ ...prev, payment_method: e.target.value as PaymentMethod }))}
+                >
+                  {RECEIPT_METHODS.map(method => (
+                    <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                <input
+                  type="text"
+                  className="input"
+                  value={entry.reference}
+                  onChange={e => setEntry(prev => ({ ...prev, reference: e.target.value }))}
+                  placeholder={PAYMENT_REFERENCE_LABELS[entry.payment_method] || 'Receipt no.'}
+                />
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">The receipt clears the oldest unpaid bills first.</p>
+            </>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                <input
+                  type="text"
+                  className="input"
+                  value={entry.reference}
+                  onChange={e => setEntry(prev => ({ ...prev, reference: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Due date</label>
+                <input
+                  type="date"
+                  className="input"
+                  value={entry.due_date}
+                  disabled={entry.amount <= 0}
+                  onChange={e => setEntry(prev => ({ ...prev, due_date: e.target.value }))}
+                />
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">
+                A positive amount adds to what the customer owes; enter a negative amount to reduce it.
+              </p>
+            </>
+          )}
+
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              type="text"
+              className="input"
+              value={entry.notes}
+              onChange={e => setEntry(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t">
+          <button onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+            {saving ? 'Saving...' : 'Record Entry'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceivableEntryForm;
@@ -3,6 +3,8 @@ import { TrendingUp, Video, FileText, Users, DollarSign, Package, ArrowUp, Arrow
 import { supabase } from '../../lib/supabase';
 import { format } from 'date-fns';
 import { formatCurrency } from '../../utils/quotation';
+import { PAYMENT_METHOD_LABELS, getPaymentMethodTotals } from '../../utils/paymentUtils';
+import type { PaymentMethod } from '../../types';
 import { Link } from 'react-router-dom';
 
 interface DailyStats {
@@ -26,6 +28,7 @@ interface DailyStats {
 const DailyAnalytics = () => {
   const [todayStats, setTodayStats] = React.useState<DailyStats | null>(null);
   const [yesterdayStats, setYesterdayStats] = React.useState<DailyStats | null>(null);
+  const [paymentMethods, setPaymentMethods] = React.useState<Record<string, number>>({});
   const [loading, setLoading] = React.useState(true);
   const [totalSales, setTotalSales] = React.useState({ daily: 0, weekly: 0, monthly: 0, total: 0 });
   const [pendingCalls, setPendingCalls] = React.useState([]);
@@ -55,8 +58,49 @@ const DailyAnalytics = () => {
       const todayData = data?.find(d => d.date === format(today, 'yyyy-MM-dd'));
       const yesterdayData = data?.find(d => d.date === format(yesterday, 'yyyy-MM-dd'));
 
-      setTodayStats(todayData || null);
+      // Saved customers' payments, at the counter or later, are all receipts
+      // on their ledger; advance adjustments are not, as no money comes in
+      const { data: receiptData, error: receiptError } = await supabase
+        .from('customer_ledger')
+        .select('amount, payment_method')
+        .eq('entry_type', 'receipt')
+        .eq('entry_date', format(today, 'yyyy-MM-dd'));
+
+      if (receiptError) throw receiptError;
+
+      // Walk-in bills have no ledger, so their tenders come from the sale
+      const { data: salesData, error: salesError } = await supabase
+        .from('sales')
+        .select('payment_details')
+        .is('customer_id', null)
+        .gte('created_at', `${format(today, 'yyyy-MM-dd')}T00:00:00`);
+
+      if (salesError) throw salesError;
+
+      // Refunds paid out today come off the collections for their method
+      const { data: refundData, error: refundError } = await supabase
+        .from('credit_notes')
+        .select('note_total, adjusted_amount, refund_method')
+        .eq('settlement', 'refund')
+        .gte('created_at', `${format(today, 'yyyy-MM-dd')}T00:00:00`);
+
+      if (refundError) throw refundError;
+
+      const methodTotals = getPaymentMethodTotals([
+        ...(receiptData || []).map(entry => ({
+          method: entry.payment_method,
+          amount: -Number(entry.amount)
+        })),
+        ...(salesData || []).flatMap(sale => sale.payment_details?.payments || []),
+        ...(refundData || []).map(note => ({
+          method: note.refund_method,
+          amount: -(Number(note.note_total) - Number(note.adjusted_amount))
+        }))
+      ]);
+
+      setTodayStats(todayData ? { ...todayData, stats: { ...todayData.stats, payment_methods: methodTotals } } : null);
       setYesterdayStats(yesterdayData || null);
+      setPaymentMethods(methodTotals);
     } catch (error) {
       console.error('Error fetching daily stats:', error);
     } finally {
@@ -271,6 +315,21 @@ const DailyAnalytics = () => {
         </div>
       )}
 
+      {/* Payment Method Totals */}
+      {Object.keys(paymentMethods).length > 0 && (
+        <div className="bg-white rounded-2xl shadow-lg p-8">
+          <h3 className="text-lg font-semibold mb-4">Collections by Payment Method</h3>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {Object.entries(paymentMethods).map(([method, amount]) => (
+              <div key={method} className="bg-gradient-to-br from-gray-50 to-gray-100 rounded-xl p-6">
+                <p className="font-medium text-gray-800">{PAYMENT_METHOD_LABELS[method as PaymentMethod] || method}</p>
+                <p className="text-2xl font-bold mt-2 text-emerald-700">{formatCurrency(amount)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Customer Type Distribution */}
       {todayStats?.stats.customer_types && (
         <div className="bg-white rounded-2xl shadow-lg p-8">
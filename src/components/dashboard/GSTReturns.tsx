@@ -0,0 +1,381 @@
+import { useState, useEffect } from 'react';
+import { FileJson, FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { format, subMonths } from 'date-fns';
+import type { TaxInvoice } from '../../types';
+import {
+  buildGSTR1,
+  buildGSTR3B,
+  gstr3BToCSV,
+  downloadFile,
+  formatReturnPeriod,
+  getTaxInvoicesForPeriod,
+  getCreditNotesForPeriod,
+  getUninvoicedSalesCount,
+  B2CL_THRESHOLD,
+  type ReturnCreditNote
+} from '../../utils/gstReturns';
+import { getCompanySettings } from '../../utils/settings';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+
+type ReturnTab = 'b2b' | 'b2cl' | 'b2cs' | 'cdn' | 'hsn' | '3b';
+
+const TABS: { id: ReturnTab; label: string }[] = [
+  { id: 'b2b', label: 'B2B' },
+  { id: 'b2cl', label: 'B2C Large' },
+  { id: 'b2cs', label: 'B2C Small' },
+  { id: 'cdn', label: 'Credit Notes' },
+  { id: 'hsn', label: 'HSN Summary' },
+  { id: '3b', label: 'GSTR-3B' }
+];
+
+const GSTReturns = () => {
+  // Returns are filed for the month just closed
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [invoices, setInvoices] = useState<TaxInvoice[]>([]);
+  const [creditNotes, setCreditNotes] = useState<ReturnCreditNote[]>([]);
+  const [uninvoiced, setUninvoiced] = useState(0);
+  const [activeTab, setActiveTab] = useState<ReturnTab>('b2b');
+  const [loading, setLoading] = useState(true);
+  const company = getCompanySettings();
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchReturnData();
+  }, [period]);
+
+  const fetchReturnData = async () => {
+    try {
+      setLoading(true);
+      const [periodInvoices, periodNotes, missing] = await Promise.all([
+        getTaxInvoicesForPeriod(period),
+        getCreditNotesForPeriod(period),
+        getUninvoicedSalesCount(period)
+      ]);
+      setInvoices(periodInvoices);
+      setCreditNotes(periodNotes);
+      setUninvoiced(missing);
+    } catch (error) {
+      console.error('Error fetching return data:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load sales for the return period',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const gstr1 = buildGSTR1(invoices, creditNotes, company.gst_number, period);
+  const gstr3b = buildGSTR3B(invoices, creditNotes);
+  const outward = gstr3b[0];
+
+  const handleDownloadGSTR1 = () => {
+    if (!company.gst_number) {
+      addToast({
+        title: 'GSTIN missing',
+        message: 'Add the company GSTIN in settings before exporting',
+        type: 'error'
+      });
+      return;
+    }
+    downloadFile(
+      JSON.stringify(gstr1, null, 2),
+      `GSTR1_${company.gst_number}_${formatReturnPeriod(period)}.json`,
+      'application/json'
+    );
+  };
+
+  const handleDownloadGSTR3B = () => {
+    downloadFile(
+      gstr3BToCSV(gstr3b),
+      `GSTR3B_${company.gst_number || 'summary'}_${formatReturnPeriod(period)}.csv`,
+      'text/csv'
+    );
+  };
+
+  const renderEmpty = (message: string) => (
+    <div className="text-center py-8 text-gray-500">{message}</div>
+  );
+
+  const renderTab = () => {
+    switch (activeTab) {
+      case 'b2b':
+        return gstr1.b2b.length === 0 ? renderEmpty('No invoices to registered buyers this month.') : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Buyer GSTIN</th>
+                <th className="px-4 py-3">Invoice</th>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">POS</th>
+                <th className="px-4 py-3 text-right">Taxable</th>
+                <th className="px-4 py-3 text-right">Tax</th>
+                <th className="px-4 py-3 text-right">Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {gstr1.b2b.flatMap(buyer => buyer.inv.map(inv => {
+                const taxable = inv.itms.reduce((sum, item) => sum + item.itm_det.txval, 0);
+                const tax = inv.itms.reduce((sum, item) => sum + item.itm_det.iamt + (item.itm_det.camt || 0) + (item.itm_det.samt || 0), 0);
+                return (
+                  <tr key={inv.inum}>
+                    <td className="px-4 py-3 font-mono">{buyer.ctin}</td>
+                    <td className="px-4 py-3">{inv.inum}</td>
+                    <td className="px-4 py-3">{inv.idt}</td>
+                    <td className="px-4 py-3">{inv.pos}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(taxable)}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(tax)}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(inv.val)}</td>
+                  </tr>
+                );
+              }))}
+            </tbody>
+          </table>
+        );
+
+      case 'b2cl':
+        return gstr1.b2cl.length === 0
+          ? renderEmpty(`No inter-state invoices above ${formatCurrency(B2CL_THRESHOLD)} to unregistered buyers.`)
+          : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-4 py-3">POS</th>
+                  <th className="px-4 py-3">Invoice</th>
+                  <th className="px-4 py-3">Date</th>
+                  <th className="px-4 py-3 text-right">Taxable</th>
+                  <th className="px-4 py-3 text-right">IGST</th>
+                  <th className="px-4 py-3 text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {gstr1.b2cl.flatMap(group => group.inv.map(inv => (
+                  <tr key={inv.inum}>
+                    <td className="px-4 py-3">{group.pos}</td>
+                    <td className="px-4 py-3">{inv.inum}</td>
+                    <td className="px-4 py-3">{inv.idt}</td>
+                    <td className="px-4 py-3 text-right">
+                      {formatCurrency(inv.itms.reduce((sum, item) => sum + item.itm_det.txval, 0))}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatCurrency(inv.itms.reduce((sum, item) => sum + item.itm_det.iamt, 0))}
+                    </td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(inv.val)}</td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          );
+
+      case 'b2cs':
+        return gstr1.b2cs.length === 0 ? renderEmpty('No B2C small supplies this month.') : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Supply</th>
+                <th className="px-4 py-3">POS</th>
+                <th className="px-4 py-3 text-right">Rate</th>
+                <th className="px-4 py-3 text-right">Taxable</th>
+                <th className="px-4 py-3 text-right">IGST</th>
+                <th className="px-4 py-3 text-right">CGST</th>
+                <th className="px-4 py-3 text-right">SGST</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {gstr1.b2cs.map(row => (
+                <tr key={`${row.sply_ty}-${row.pos}-${row.rt}`}>
+                  <td className="px-4 py-3">{row.sply_ty === 'INTRA' ? 'Intra-state' : 'Inter-state'}</td>
+                  <td className="px-4 py-3">{row.pos}</td>
+                  <td className="px-4 py-3 text-right">{row.rt}%</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.txval)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.iamt)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.camt)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.samt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+
+      case 'cdn': {
+        const notes = [
+          ...gstr1.cdnr.flatMap(buyer => buyer.nt.map(nt => ({ party: buyer.ctin, section: 'CDNR', ...nt }))),
+          ...gstr1.cdnur.map(nt => ({ party: 'Unregistered', section: 'CDNUR', ...nt }))
+        ];
+        return notes.length === 0 ? renderEmpty('No credit notes issued this month.') : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Section</th>
+                <th className="px-4 py-3">Buyer</th>
+                <th className="px-4 py-3">Note</th>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">POS</th>
+                <th className="px-4 py-3 text-right">Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {notes.map(note => (
+                <tr key={note.nt_num}>
+                  <td className="px-4 py-3">{note.section}</td>
+                  <td className="px-4 py-3 font-mono">{note.party}</td>
+                  <td className="px-4 py-3">{note.nt_num}</td>
+                  <td className="px-4 py-3">{note.nt_dt}</td>
+                  <td className="px-4 py-3">{note.pos}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(note.val)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      }
+
+      case 'hsn':
+        return gstr1.hsn.data.length === 0 ? renderEmpty('No HSN-wise supplies this month.') : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">HSN</th>
+                <th className="px-4 py-3">UQC</th>
+                <th className="px-4 py-3 text-right">Qty</th>
+                <th className="px-4 py-3 text-right">Rate</th>
+                <th className="px-4 py-3 text-right">Taxable</th>
+                <th className="px-4 py-3 text-right">IGST</th>
+                <th className="px-4 py-3 text-right">CGST</th>
+                <th className="px-4 py-3 text-right">SGST</th>
+                <th className="px-4 py-3 text-right">Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {gstr1.hsn.data.map(row => (
+                <tr key={`${row.hsn_sc}-${row.rt}`}>
+                  <td className="px-4 py-3">{row.hsn_sc}</td>
+                  <td className="px-4 py-3">{row.uqc}</td>
+                  <td className="px-4 py-3 text-right">{row.qty}</td>
+                  <td className="px-4 py-3 text-right">{row.rt}%</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.txval)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.iamt)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.camt)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.samt)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.val)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+
+      case '3b':
+        return (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Table</th>
+                <th className="px-4 py-3">Nature of supply</th>
+                <th className="px-4 py-3">POS</th>
+                <th className="px-4 py-3 text-right">Taxable</th>
+                <th className="px-4 py-3 text-right">IGST</th>
+                <th className="px-4 py-3 text-right">CGST</th>
+                <th className="px-4 py-3 text-right">SGST</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {gstr3b.map(row => (
+                <tr key={`${row.section}-${row.place_of_supply}`}>
+                  <td className="px-4 py-3">{row.section}</td>
+                  <td className="px-4 py-3">{row.description}</td>
+                  <td className="px-4 py-3">{row.place_of_supply || '—'}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.taxable_value)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.igst)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.cgst)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.sgst)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">GST Returns</h2>
+          <p className="text-sm text-gray-500">GSTIN: {company.gst_number || 'not set'}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            value={period}
+            max={format(new Date(), 'yyyy-MM')}
+            onChange={(e) => e.target.value && setPeriod(e.target.value)}
+            className="input"
+          />
+          <button
+            onClick={handleDownloadGSTR1}
+            disabled={loading}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <FileJson className="h-4 w-4" />
+            GSTR-1 JSON
+          </button>
+          <button
+            onClick={handleDownloadGSTR3B}
+            disabled={loading}
+            className="btn btn-secondary flex items-center gap-2"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            GSTR-3B CSV
+          </button>
+        </div>
+      </div>
+
+      {uninvoiced > 0 && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-yellow-50 text-yellow-800 text-sm">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {uninvoiced} sale{uninvoiced === 1 ? '' : 's'} this month had no tax invoice and {uninvoiced === 1 ? 'is' : 'are'} not included.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Invoices', value: String(invoices.length) },
+          { label: 'Taxable value', value: formatCurrency(outward.taxable_value) },
+          { label: 'IGST', value: formatCurrency(outward.igst) },
+          { label: 'CGST', value: formatCurrency(outward.cgst) },
+          { label: 'SGST', value: formatCurrency(outward.sgst) }
+        ].map(card => (
+          <div key={card.label} className="bg-white/90 rounded-2xl shadow-lg border border-gray-100/80 p-4">
+            <p className="text-xs text-gray-500 uppercase">{card.label}</p>
+            <p className="text-lg font-semibold mt-1">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-hidden">
+        <div className="flex border-b overflow-x-auto">
+          {TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-3 text-sm font-medium whitespace-nowrap ${
+                activeTab === tab.id
+                  ? 'border-b-2 border-blue-600 text-blue-600'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <div className="overflow-x-auto">
+          {loading ? renderEmpty('Loading return data...') : renderTab()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GSTReturns;
@@ -75,7 +75,17 @@ const SalesAnalytics = () => {
         total: 0
       };
 
-      salesData?.forEach(quotation => {
+      // Credit notes come off sales on the day the goods came back
+      const { data: returnsData } = await supabase
+        .from('credit_notes')
+        .select('note_total, created_at');
+
+      const netSales = [
+        ...(salesData || []),
+        ...(returnsData || []).map(note => ({ total_amount: -Number(note.note_total), created_at: note.created_at }))
+      ];
+
+      netSales.forEach(quotation => {
         const amount = Number(quotation.total_amount);
         const date = new Date(quotation.created_at);
         
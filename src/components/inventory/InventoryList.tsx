@@ -1,13 +1,18 @@
 import React from 'react';
-import { Plus, Search, QrCode, Printer, Edit, Trash2, Copy } from 'lucide-react';
+import { Plus, Search, QrCode, Printer, Edit, Trash2, Copy, Boxes, History } from 'lucide-react';
 import type { Product } from '../../types';
 import { QRCodeSVG } from 'qrcode.react';
 import { format } from 'date-fns';
 import { supabase } from '../../lib/supabase';
 import { hasPermission } from '../../lib/auth';
 import ProductForm from './ProductForm';
+import ProductPieces from './ProductPieces';
+import StockMovementHistory from './StockMovementHistory';
 import { printQRCodes } from '../../utils/barcodeGenerator';
 import { useToast } from '../../hooks/useToast';
+import { METAL_LABELS } from '../../utils/metalRates';
+import { mapStones, stoneMatchesSearch, summarizeStones, formatStone } from '../../utils/stones';
+import { createProductWithPieces, getProductPieces } from '../../utils/pieces';
 
 interface FilterOptions {
   deadStock: boolean;
@@ -22,6 +27,8 @@ const InventoryList = () => {
   const [products, setProducts] = React.useState<Product[]>([]);
   const [showForm, setShowForm] = React.useState(false);
   const [editingProduct, setEditingProduct] = React.useState<Product | undefined>();
+  const [piecesProduct, setPiecesProduct] = React.useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = React.useState<Product | null>(null);
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = React.useState<string | null>(null);
@@ -58,7 +65,18 @@ const InventoryList = () => {
     additionalInfo: data.additional_info,
     lastSoldAt: data.last_sold_at,
     deadStockStatus: data.dead_stock_status,
-    deadStockDays: data.dead_stock_days
+    deadStockDays: data.dead_stock_days,
+    metalType: data.metal_type,
+    purity: data.purity,
+    grossWeight: data.gross_weight ? Number(data.gross_weight) : null,
+    netWeight: data.net_weight ? Number(data.net_weight) : null,
+    makingCharges: Number(data.making_charges) || 0,
+    makingChargeType: data.making_charge_type || 'per_piece',
+    wastagePercent: Number(data.wastage_percent) || 0,
+    stones: mapStones(data.stones),
+    huids: data.huids || [],
+    pricingMode: data.pricing_mode || 'fixed',
+    landedCost: data.landed_cost != null ? Number(data.landed_cost) : null
   });
 
   const fetchProducts = async () => {
@@ -115,21 +133,24 @@ const InventoryList = () => {
         stock_level: Number(productData.stock_level),
         image_url: productData.image_url,
         additional_info: productData.additional_info,
+        metal_type: productData.metal_type,
+        purity: productData.purity,
+        gross_weight: productData.gross_weight,
+        net_weight: productData.net_weight,
+        making_charges: productData.making_charges,
+        making_charge_type: productData.making_charge_type,
+        wastage_percent: productData.wastage_percent,
+        stones: productData.stones || [],
+        huids: productData.huids || [],
+        pricing_mode: productData.pricing_mode,
         sku: productData.sku,
         qr_code: productData.qr_code,
         code128: productData.code128,
         cipher: productData.cipher
       };
 
-      // Insert product
-      const { data, error } = await supabase
-        .from('products')
-        .insert([insertData])
-        .select()
-        .single();
-
-      if (error) throw error;
-      if (!data) throw new Error('No data returned from database');
+      // One piece per unit in stock, carrying the HUIDs in the order entered
+      const data = await createProductWithPieces(insertData, productData.huids || []);
 
       setProducts(prev => [transformProduct(data), ...prev]);
       setShowForm(false);
@@ -154,7 +175,7 @@ const InventoryList = () => {
     
     try {
       // Validate required numeric fields
-      const requiredFields = ['buy_price', 'wholesale_price', 'retail_price', 'stock_level'];
+      const requiredFields = ['buy_price', 'wholesale_price', 'retail_price'];
       for (const field of requiredFields) {
         if (!productData[field] || isNaN(Number(productData[field]))) {
           throw new Error(`Invalid ${field.replace('_', ' ')}`);
@@ -170,7 +191,8 @@ const InventoryList = () => {
         throw new Error('Retail price must be greater than wholesale price');
       }
 
-      // Transform the data to match database column names
+      // Transform the data to match database column names. Stock level and
+      // HUIDs follow the product's pieces, so they are not written here.
       const dbData = {
         name: productData.name,
         description: productData.description,
@@ -178,13 +200,21 @@ const InventoryList = () => {
         buy_price: Number(productData.buy_price),
         wholesale_price: Number(productData.wholesale_price),
         retail_price: Number(productData.retail_price),
-        stock_level: Number(productData.stock_level),
         category: productData.category,
         image_url: productData.imageUrl,
         qr_code: productData.qrCode,
         code128: productData.code128,
         cipher: productData.cipher,
-        additional_info: productData.additionalInfo
+        additional_info: productData.additionalInfo,
+        metal_type: productData.metal_type,
+        purity: productData.purity,
+        gross_weight: productData.gross_weight,
+        net_weight: productData.net_weight,
+        making_charges: productData.making_charges,
+        making_charge_type: productData.making_charge_type,
+        wastage_percent: productData.wastage_percent,
+        stones: productData.stones || [],
+        pricing_mode: productData.pricing_mode
       };
 
       const { data, error } = await supabase
@@ -229,10 +259,15 @@ const InventoryList = () => {
     }
   };
 
-  const handlePrintLabel = (product: Product) => {
-    if (!product.qrCode) return;
+  // One label per piece in stock, each carrying the piece serial
+  const handlePrintLabel = async (product: Product) => {
     try {
-      printQRCodes([product.qrCode], `Print Label - ${product.sku}`);
+      const pieces = (await getProductPieces(product.id)).filter(piece => piece.status === 'in_stock');
+      if (pieces.length === 0) {
+        if (product.qrCode) await printQRCodes([product.qrCode], `Print Label - ${product.sku}`);
+        return;
+      }
+      await printQRCodes(pieces.map(piece => piece.serial), `Print Labels - ${product.sku}`);
     } catch (error) {
       console.error('Error printing label:', error);
     }
@@ -272,7 +307,9 @@ const InventoryList = () => {
       (product.sku?.toLowerCase() || '').includes(searchLower) ||
       (product.category?.toLowerCase() || '').includes(searchLower) ||
       (product.manufacturer?.toLowerCase() || '').includes(searchLower) ||
-      (product.description?.toLowerCase() || '').includes(searchLower)
+      (product.description?.toLowerCase() || '').includes(searchLower) ||
+      stoneMatchesSearch(product.stones, searchLower) ||
+      (product.huids || []).some(huid => huid.toLowerCase().includes(searchLower))
     );
     
     // Apply category filter
@@ -332,7 +369,7 @@ const InventoryList = () => {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
             <input
               type="text"
-              placeholder="Search inventory..."
+              placeholder="Search inventory, HUIDs, stones or certificates..."
               className="input pl-10 w-full bg-white/80 backdrop-blur-sm border-gray-200/80 focus:border-blue-500/50 focus:ring-blue-500/50"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
@@ -450,6 +487,39 @@ const InventoryList = () => {
                     )}
                   </div>
 
+                  {product.metalType && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-500">Metal:</span>
+                      <span className="font-medium">
+                        {product.purity} {METAL_LABELS[product.metalType]}
+                        {product.netWeight ? ` • ${product.netWeight}g` : ''}
+                        {product.pricingMode === 'metal_rate' && (
+                          <span className="ml-1 text-xs text-amber-600">(rate)</span>
+                        )}
+                      </span>
+                    </div>
+                  )}
+
+                  {product.stones && product.stones.length > 0 && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-500">Stones:</span>
+                      <span className="font-medium" title={product.stones.map(formatStone).join('\n')}>
+                        {summarizeStones(product.stones)}
+                      </span>
+                    </div>
+                  )}
+
+                  {product.huids && product.huids.length > 0 && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-500">HUID:</span>
+                      <span className="font-mono text-xs" title={product.huids.join(', ')}>
+                        {product.huids.length === 1
+                          ? product.huids[0]
+                          : `${product.huids[0]} +${product.huids.length - 1}`}
+                      </span>
+                    </div>
+                  )}
+
                   <div className="flex justify-between items-center">
                     <span className="text-gray-500">Stock:</span>
                     <span className="font-medium">{product.stockLevel} units</span>
@@ -461,6 +531,12 @@ const InventoryList = () => {
                         <span className="text-gray-500">Buy Price:</span>
                         <span className="font-medium">₹{product.buyPrice.toLocaleString()}</span>
                       </div>
+                      {product.landedCost != null && (
+                        <div className="flex justify-between items-center">
+                          <span className="text-gray-500">Landed Cost:</span>
+                          <span className="font-medium">₹{product.landedCost.toLocaleString()}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between items-center">
                         <span className="text-gray-500">Wholesale:</span>
                         <span className="font-medium">₹{product.wholesalePrice.toLocaleString()}</span>
@@ -510,6 +586,20 @@ const InventoryList = () => {
               >
                 <QrCode className="h-4 w-4" />
               </button>
+              <button
+                onClick={() => setPiecesProduct(product)}
+                className="p-2 bg-white/90 backdrop-blur rounded-full shadow-lg hover:bg-white transition-colors duration-200"
+                title="Pieces"
+              >
+                <Boxes className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setHistoryProduct(product)}
+                className="p-2 bg-white/90 backdrop-blur rounded-full shadow-lg hover:bg-white transition-colors duration-200"
+                title="Stock History"
+              >
+                <History className="h-4 w-4" />
+              </button>
               <button
                 onClick={() => setEditingProduct(product)}
                 className="p-2 bg-white/90 backdrop-blur rounded-full shadow-lg hover:bg-white transition-colors duration-200"
@@ -539,6 +629,21 @@ const InventoryList = () => {
           onSubmit={editingProduct ? handleEditProduct : handleAddProduct}
         />
       )}
+
+      {piecesProduct && (
+        <ProductPieces
+          product={piecesProduct}
+          onClose={() => setPiecesProduct(null)}
+          onChanged={fetchProducts}
+        />
+      )}
+
+      {historyProduct && (
+        <StockMovementHistory
+          product={historyProduct}
+          onClose={() => setHistoryProduct(null)}
+        />
+      )}
     </div>
   );
 };
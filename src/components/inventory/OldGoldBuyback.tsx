@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import type { MetalRate, PaymentMethod } from '../../types';
+import { getCachedMetalRates } from '../../utils/metalRates';
+import { recordBuyback, type OldGoldEntry } from '../../utils/oldGold';
+import { PAYMENT_METHOD_LABELS } from '../../utils/paymentUtils';
+import { useToast } from '../../hooks/useToast';
+import OldGoldExchange from '../pos/OldGoldExchange';
+
+const PAYOUT_METHODS: PaymentMethod[] = ['cash', 'upi', 'bank_transfer', 'cheque'];
+
+interface OldGoldBuybackProps {
+  onClose: () => void;
+  onRecorded: (voucherNumber: string) => void;
+}
+
+const OldGoldBuyback: React.FC<OldGoldBuybackProps> = ({ onClose, onRecorded }) => {
+  const [customerName, setCustomerName] = useState('');
+  const [items, setItems] = useState<OldGoldEntry[]>([]);
+  const [payoutMethod, setPayoutMethod] = useState<PaymentMethod>('cash');
+  const [metalRates, setMetalRates] = useState<MetalRate[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    getCachedMetalRates()
+      .then(setMetalRates)
+      .catch(error => console.error('Error fetching metal rates:', error));
+  }, []);
+
+  const handleSubmit = async () => {
+    if (!customerName.trim()) {
+      addToast({ title: 'Seller required', message: 'Enter who the old gold was bought from', type: 'error' });
+      return;
+    }
+    if (items.length === 0) {
+      addToast({ title: 'No items', message: 'Add at least one item', type: 'error' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const voucherNumber = await recordBuyback({
+        customerName: customerName.trim(),
+        items,
+        payoutMethod
+      });
+      addToast({ title: 'Buyback recorded', message: `Voucher ${voucherNumber}`, type: 'success' });
+      onRecorded(voucherNumber);
+    } catch (error) {
+      console.error('Error recording buyback:', error);
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to record buyback',
+        type: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <h3 className="text-lg font-semibold">Buy Old Gold</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seller name *</label>
+              <input
+                type="text"
+                className="input"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Paid by</label>
+              <select
+                className="input"
+                value={payoutMethod}
+                onChange={(e) => setPayoutMethod(e.target.value as PaymentMethod)}
+              >
+                {PAYOUT_METHODS.map(method => (
+                  <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <OldGoldExchange
+            entries={items}
+            onChange={setItems}
+            metalRates={metalRates}
+            title="Items bought"
+          />
+        </div>
+
+        <div className="flex justify-end gap-3 p-5 border-t">
+          <button onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSubmit} disabled={saving} className="btn btn-primary">
+            {saving ? 'Saving...' : 'Record Buyback'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OldGoldBuyback;
@@ -1,14 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { 
   X, Info, Printer, QrCode, AlertCircle, FileText, Check, Camera, 
-  ChevronRight, ImageIcon, Tag, Package, DollarSign, Settings
+  ChevronRight, ImageIcon, Tag, Package, DollarSign, Settings, Gem
 } from 'lucide-react';
-import type { Product } from '../../types';
+import type { Product, MetalRate, MetalType, MarkupSetting, MakingChargeType, StoneComponent } from '../../types';
 import { generateBarcodes, printQRCodes, PrintTemplate, encodeCode128 } from '../../utils/barcodeGenerator';
 import { QRCodeSVG } from 'qrcode.react';
-import { getMarkupForProduct } from '../../utils/markupSettings';
+import { getMarkupForProduct, getMakingChargeModel, MAKING_CHARGE_TYPES } from '../../utils/markupSettings';
+import { getCachedMetalRates, calculateMetalPrice, PURITY_OPTIONS, METAL_LABELS } from '../../utils/metalRates';
 import { useToast } from '../../hooks/useToast';
 import ImageUpload from './ImageUpload';
+import StoneComponentsEditor from './StoneComponentsEditor';
+import { validateStones } from '../../utils/stones';
+import { parseHuids, validateHuids, findHuidConflicts, isHallmarkRequired } from '../../utils/hallmark';
 import { supabase } from '../../lib/supabase';
 
 interface ProductFormProps {
@@ -40,21 +44,32 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onClose, onSubmit })
     retail_price: product?.retailPrice ? product.retailPrice.toString() : '',
     stock_level: product?.stockLevel ? product.stockLevel.toString() : '',
     image_url: product?.imageUrl || '',
-    additional_info: product?.additionalInfo || ''
+    additional_info: product?.additionalInfo || '',
+    metal_type: product?.metalType || '',
+    purity: product?.purity || '',
+    gross_weight: product?.grossWeight ? product.grossWeight.toString() : '',
+    net_weight: product?.netWeight ? product.netWeight.toString() : '',
+    making_charges: product?.makingCharges ? product.makingCharges.toString() : '',
+    making_charge_type: product?.makingChargeType || 'per_piece',
+    wastage_percent: product?.wastagePercent ? product.wastagePercent.toString() : '',
+    huids: (product?.huids || []).join(', '),
+    pricing_mode: product?.pricingMode || 'fixed'
   });
+  const [metalRates, setMetalRates] = useState<MetalRate[]>([]);
+  const [stones, setStones] = useState<StoneComponent[]>(product?.stones || []);
 
   const [selectedMultiplier, setSelectedMultiplier] = useState<number | null>(null);
   const [qrCode, setQrCode] = useState<string>('');
   const [generatedSKU, setGeneratedSKU] = useState<string>('');
   const [imageError, setImageError] = useState<string>('');
   const [showMarkupInfo, setShowMarkupInfo] = useState(false);
-  const [manufacturers, setManufacturers] = useState<Array<{ name: string; markup: number; code: string }>>([]);
-  const [categories, setCategories] = useState<Array<{ name: string; markup: number }>>([]);
+  const [manufacturers, setManufacturers] = useState<MarkupSetting[]>([]);
+  const [categories, setCategories] = useState<MarkupSetting[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<PrintTemplate>('thermal');
   const [selectedBarcodeType, setSelectedBarcodeType] = useState<'qr' | 'code128'>('code128');
   const [error, setError] = useState<string | null>(null);
-  const [selectedManufacturer, setSelectedManufacturer] = useState<{name: string; code: string} | null>(null);
+  const [selectedManufacturer, setSelectedManufacturer] = useState<MarkupSetting | null>(null);
   const barcodeCanvasRef = useRef<HTMLCanvasElement>(null);
   const qrCanvasRef = useRef<HTMLDivElement>(null);
   const { addToast } = useToast();
@@ -68,6 +83,7 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onClose, onSubmit })
 
   useEffect(() => {
     fetchMarkupSettings();
+    fetchMetalRates();
   }, []);
 
   useEffect(() => {
@@ -254,6 +270,35 @@ const generateBarcodePattern = (text: string) => {
     }
   };
 
+  const fetchMetalRates = async () => {
+    try {
+      setMetalRates(await getCachedMetalRates());
+    } catch (error) {
+      console.error('Error fetching metal rates:', error);
+    }
+  };
+
+  const hallmarkRequired = isHallmarkRequired(formData.category, categories);
+  const enteredHuids = parseHuids(formData.huids);
+
+  // Value of the piece at today's rate, using the weights currently entered
+  const metalPrice = React.useMemo(() => {
+    if (!formData.metal_type || !formData.purity) return null;
+    return calculateMetalPrice({
+      pricingMode: 'metal_rate',
+      metalType: formData.metal_type as MetalType,
+      purity: formData.purity,
+      netWeight: Number(formData.net_weight),
+      makingCharges: Number(formData.making_charges),
+      makingChargeType: formData.making_charge_type as MakingChargeType,
+      wastagePercent: Number(formData.wastage_percent),
+      stones
+    } as Product, metalRates);
+  }, [
+    formData.metal_type, formData.purity, formData.net_weight,
+    formData.making_charges, formData.making_charge_type, formData.wastage_percent, stones, metalRates
+  ]);
+
   const generateBarcode = async () => {
     if (formData.manufacturer && formData.category && formData.wholesale_price && formData.retail_price) {
       try {
@@ -312,7 +357,7 @@ const generateBarcodePattern = (text: string) => {
   const updatePricesBasedOnMarkup = () => {
     const buyPrice = Number(formData.buy_price);
     if (buyPrice > 0) {
-      const markup = getMarkupForProduct(formData.manufacturer, formData.category);
+      const markup = getMarkupForProduct(formData.manufacturer, formData.category, [...manufacturers, ...categories]);
       const wholesalePrice = Math.round(buyPrice * (1 + markup));
       
       setFormData(prev => ({
@@ -345,6 +390,12 @@ const generateBarcodePattern = (text: string) => {
       if (['buy_price', 'wholesale_price', 'retail_price', 'stock_level'].includes(name)) {
         newValue = value.replace(/[^\d]/g, '');
       }
+      if (['gross_weight', 'net_weight', 'making_charges', 'wastage_percent'].includes(name)) {
+        newValue = value.replace(/[^\d.]/g, '');
+      }
+      if (name === 'huids') {
+        newValue = value.toUpperCase().replace(/[^A-Z0-9,\s]/g, '');
+      }
 
       setFormData(prev => {
         const newData = { ...prev, [name]: newValue };
@@ -360,6 +411,22 @@ const generateBarcodePattern = (text: string) => {
         if (name === 'stock_level') {
           setPrintQuantity(Number(newValue) || 1);
         }
+
+        // Default making and wastage terms from the manufacturer or category
+        if (name === 'manufacturer' || name === 'category') {
+          const model = getMakingChargeModel(newData.manufacturer, newData.category, [...manufacturers, ...categories]);
+          if (model.value > 0 || model.wastagePercent > 0) {
+            newData.making_charge_type = model.type;
+            newData.making_charges = model.value.toString();
+            newData.wastage_percent = model.wastagePercent ? model.wastagePercent.toString() : '';
+          }
+        }
+
+        // Purity options depend on the metal
+        if (name === 'metal_type') {
+          newData.purity = '';
+          if (!newValue) newData.pricing_mode = 'fixed';
+        }
         
         return newData;
       });
@@ -702,7 +769,8 @@ const printStandalone = () => {
         buy_price: 'Buy Price',
         wholesale_price: 'Wholesale Price',
         retail_price: 'Retail Price',
-        stock_level: 'Stock Level'
+        // Existing products count stock from their pieces
+        ...(!product && { stock_level: 'Stock Level' })
       };
 
       const missingFields = Object.entries(requiredFields)
@@ -721,6 +789,47 @@ const printStandalone = () => {
       if (wholesalePrice <= buyPrice) throw new Error('Wholesale price must be greater than buy price');
       if (retailPrice <= wholesalePrice) throw new Error('Retail price must be greater than wholesale price');
 
+      const badNumber = ([
+        ['gross_weight', 'Gross weight'],
+        ['net_weight', 'Net weight'],
+        ['making_charges', 'Making charges'],
+        ['wastage_percent', 'Wastage']
+      ] as const).find(([field]) => {
+        const value = Number(formData[field]);
+        return formData[field] !== '' && (!Number.isFinite(value) || value < 0);
+      });
+      if (badNumber) throw new Error(`${badNumber[1]} must be a number of 0 or more`);
+
+      const grossWeight = formData.gross_weight ? Number(formData.gross_weight) : null;
+      const netWeight = formData.net_weight ? Number(formData.net_weight) : null;
+
+      if (grossWeight !== null && netWeight !== null && netWeight > grossWeight) {
+        throw new Error('Net weight cannot be more than gross weight');
+      }
+      if (formData.pricing_mode === 'metal_rate') {
+        if (!formData.metal_type || !formData.purity) {
+          throw new Error('Metal and purity are required for metal rate pricing');
+        }
+        if (!netWeight || netWeight <= 0) {
+          throw new Error('Net weight is required for metal rate pricing');
+        }
+      }
+
+      const stoneError = validateStones(stones);
+      if (stoneError) throw new Error(stoneError);
+
+      // New pieces take these HUIDs; existing pieces keep theirs on the piece record
+      const huids = parseHuids(formData.huids);
+      if (!product) {
+        const huidError = validateHuids(huids, Number(formData.stock_level), hallmarkRequired);
+        if (huidError) throw new Error(huidError);
+
+        const huidConflicts = await findHuidConflicts(huids);
+        if (huidConflicts.length > 0) {
+          throw new Error(`HUID already assigned to another piece: ${huidConflicts.join(', ')}`);
+        }
+      }
+
       console.log('Form data before barcode generation:', {
         category: formData.category,
         manufacturer: formData.manufacturer,
@@ -761,6 +870,16 @@ const printStandalone = () => {
         stock_level: Number(formData.stock_level),
         image_url: formData.image_url,
         additional_info: formData.additional_info,
+        metal_type: formData.metal_type || null,
+        purity: formData.purity || null,
+        gross_weight: grossWeight,
+        net_weight: netWeight,
+        making_charges: Number(formData.making_charges) || 0,
+        making_charge_type: formData.making_charge_type,
+        wastage_percent: Number(formData.wastage_percent) || 0,
+        pricing_mode: formData.pricing_mode,
+        stones,
+        huids,
         sku: barcodes.sku,
         qr_code: barcodes.qrCode,
         code128: barcodes.code128,
@@ -1171,6 +1290,189 @@ const printStandalone = () => {
                 </div>
               </div>
 
+              <div className="bg-gray-50 p-5 rounded-lg shadow-sm border border-gray-100 hover:border-blue-100 transition-colors space-y-4">
+                <div className="flex items-center mb-1">
+                  <Gem className="h-5 w-5 text-blue-600 mr-2" />
+                  <h3 className="font-medium text-gray-900">Metal & Weight</h3>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Metal</label>
+                    <select
+                      name="metal_type"
+                      className="w-full px-3 py-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      value={formData.metal_type}
+                      onChange={handleChange}
+                    >
+                      <option value="">Not applicable</option>
+                      {(Object.keys(PURITY_OPTIONS) as MetalType[]).map(metal => (
+                        <option key={metal} value={metal}>{METAL_LABELS[metal]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Purity</label>
+                    <select
+                      name="purity"
+                      className="w-full px-3 py-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      value={formData.purity}
+                      onChange={handleChange}
+                      disabled={!formData.metal_type}
+                    >
+                      <option value="">Select Purity</option>
+                      {formData.metal_type && PURITY_OPTIONS[formData.metal_type as MetalType].map(option => (
+                        <option key={option.purity} value={option.purity}>{option.purity}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Gross Weight (g)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      name="gross_weight"
+                      className="w-full px-3 py-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      value={formData.gross_weight}
+                      onChange={handleChange}
+                      placeholder="0.000"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Net Weight (g)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      name="net_weight"
+                      className="w-full px-3 py-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      value={formData.net_weight}
+                      onChange={handleChange}
+                      placeholder="0.000"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Making Charges</label>
+                    <select
+                      name="making_charge_type"
+                      className="w-full px-3 py-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      value={formData.making_charge_type}
+                      onChange={handleChange}
+                    >
+                      {MAKING_CHARGE_TYPES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Rate ({MAKING_CHARGE_TYPES.find(option => option.value === formData.making_charge_type)?.unit})
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      name="making_charges"
+                      className="w-full px-3 py-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      value={formData.making_charges}
+                      onChange={handleChange}
+                      placeholder="0"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Wastage (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      name="wastage_percent"
+                      className="w-full px-3 py-2 rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      value={formData.wastage_percent}
+                      onChange={handleChange}
+                      placeholder="0"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    HUID (BIS hallmark){hallmarkRequired && ' *'}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {enteredHuids.length} of {Number(formData.stock_level) || 0} pieces
+                    </span>
+                  </label>
+                  <textarea
+                    name="huids"
+                    rows={2}
+                    disabled={!!product}
+                    className="w-full px-3 py-2 rounded-md border border-gray-300 font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    value={formData.huids}
+                    onChange={handleChange}
+                    placeholder="One 6-character HUID per piece, e.g., AB12C3, XY45Z6"
+                  />
+                  {product ? (
+                    <p className="text-xs text-gray-500 mt-1">
+                      HUIDs are kept on each piece. Use Pieces on the inventory card to change them.
+                    </p>
+                  ) : hallmarkRequired && (
+                    <p className="text-xs text-amber-700 mt-1">
+                      Hallmarking is mandatory for {formData.category}. Enter a HUID for every piece in stock.
+                    </p>
+                  )}
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.pricing_mode === 'metal_rate'}
+                    disabled={!formData.metal_type}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      pricing_mode: e.target.checked ? 'metal_rate' : 'fixed'
+                    }))}
+                    className="rounded border-gray-300"
+                  />
+                  Price by daily metal rate at the time of sale
+                </label>
+
+                {formData.metal_type && formData.purity && (
+                  <div className="p-3 bg-blue-50 rounded-md border border-blue-100 text-sm text-blue-800">
+                    {metalPrice ? (
+                      <div className="flex items-center justify-between gap-2">
+                        <div>
+                          <div>
+                            At today's rate: <span className="font-bold">₹{metalPrice.total.toLocaleString()}</span>
+                          </div>
+                          <div className="text-xs text-blue-600">
+                            {metalPrice.netWeight}g × ₹{metalPrice.ratePerGram.toLocaleString()}/g
+                            {metalPrice.wastageValue > 0 && ` + ₹${metalPrice.wastageValue.toLocaleString()} wastage (${metalPrice.wastagePercent}%)`}
+                            {` + ₹${metalPrice.makingCharges.toLocaleString()} making`}
+                            {metalPrice.stoneValue > 0 && ` + ₹${metalPrice.stoneValue.toLocaleString()} stones`}
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, retail_price: metalPrice.total.toString() }))}
+                          className="text-xs bg-white text-blue-600 hover:bg-blue-100 px-2 py-1 rounded border border-blue-200"
+                        >
+                          Use as MWP
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2 text-amber-700">
+                        <AlertCircle className="h-4 w-4" />
+                        {Number(formData.net_weight) > 0
+                          ? `No ${METAL_LABELS[formData.metal_type as MetalType].toLowerCase()} rate entered for today`
+                          : 'Enter net weight to see the value at today\'s rate'}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <StoneComponentsEditor stones={stones} onChange={setStones} />
+
               <div className="bg-gray-50 p-4 rounded-lg shadow-sm border border-gray-100 hover:border-blue-100 transition-colors">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Stock Level *
@@ -1179,7 +1481,8 @@ const printStandalone = () => {
                   <input
                     type="number"
                     name="stock_level"
-                    required
+                    required={!product}
+                    disabled={!!product}
                     min="0"
                     className="w-full px-3 py-2 rounded-l-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
                     value={formData.stock_level}
@@ -1189,6 +1492,7 @@ const printStandalone = () => {
                   <div className="flex items-center -ml-1">
                     <button
                       type="button"
+                      disabled={!!product}
                       onClick={() => {
                         const currentValue = Number(formData.stock_level) || 0;
                         if (currentValue > 0) {
@@ -1204,6 +1508,7 @@ const printStandalone = () => {
                     </button>
                     <button
                       type="button"
+                      disabled={!!product}
                       onClick={() => {
                         const currentValue = Number(formData.stock_level) || 0;
                         setFormData(prev => ({
@@ -1232,7 +1537,9 @@ const printStandalone = () => {
                 )}
                 
                 <div className="mt-3 text-xs text-gray-500">
-                  Enter the number of units currently available in inventory
+                  {product
+                    ? 'Counted from the pieces in stock. Use Pieces on the inventory card to add or update pieces.'
+                    : 'Enter the number of units currently available in inventory. Each unit becomes a piece with its own label.'}
                 </div>
               </div>
               
@@ -107,7 +107,7 @@ const ProductList = () => {
     
     try {
       // Validate required numeric fields
-      const requiredFields = ['buy_price', 'wholesale_price', 'retail_price', 'stock_level'];
+      const requiredFields = ['buy_price', 'wholesale_price', 'retail_price'];
       for (const field of requiredFields) {
         if (!productData[field] || isNaN(Number(productData[field]))) {
           throw new Error(`Invalid ${field.replace('_', ' ')}`);
@@ -131,7 +131,6 @@ const ProductList = () => {
         buy_price: Number(productData.buy_price),
         wholesale_price: Number(productData.wholesale_price),
         retail_price: Number(productData.retail_price),
-        stock_level: Number(productData.stock_level),
         category: productData.category,
         image_url: productData.imageUrl,
         qr_code: productData.qrCode,
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Printer, Boxes } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Product, ProductPiece, PieceStatus } from '../../types';
+import { getProductPieces, createPieces, updatePiece, PIECE_STATUS_LABELS, PIECE_STATUS_COLORS } from '../../utils/pieces';
+import { normalizeHuid, isValidHuid } from '../../utils/hallmark';
+import { printQRCodes } from '../../utils/barcodeGenerator';
+import { useToast } from '../../hooks/useToast';
+
+interface ProductPiecesProps {
+  product: Product;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+// Statuses staff can move a piece between by hand; sales mark pieces sold
+// and approval memos move them on and off approval
+const EDITABLE_STATUSES: PieceStatus[] = ['in_stock', 'in_repair', 'damaged'];
+
+const ProductPieces: React.FC<ProductPiecesProps> = ({ product, onClose, onChanged }) => {
+  const [pieces, setPieces] = useState<ProductPiece[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [addCount, setAddCount] = useState(1);
+  const [addLocation, setAddLocation] = useState('');
+  const [showSold, setShowSold] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchPieces();
+  }, [product.id]);
+
+  const fetchPieces = async () => {
+    try {
+      setLoading(true);
+      setPieces(await getProductPieces(product.id));
+    } catch (error) {
+      console.error('Error fetching pieces:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load pieces',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddPieces = async () => {
+    try {
+      const created = await createPieces(
+        {
+          id: product.id,
+          sku: product.sku,
+          gross_weight: product.grossWeight,
+          net_weight: product.netWeight
+        },
+        addCount,
+        [],
+        addLocation.trim() || null
+      );
+
+      setPieces(prev => [...prev, ...created]);
+      setAddCount(1);
+      onChanged();
+      addToast({
+        title: 'Success',
+        message: `${created.length} piece${created.length === 1 ? '' : 's'} added`,
+        type: 'success'
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to add pieces',
+        type: 'error'
+      });
+    }
+  };
+
+  const handleUpdate = async (piece: ProductPiece, changes: Partial<ProductPiece>) => {
+    try {
+      if (changes.huid && !isValidHuid(changes.huid)) {
+        throw new Error('HUID must be 6 letters or digits');
+      }
+
+      await updatePiece(piece.id, changes);
+      setPieces(prev => prev.map(p => p.id === piece.id ? { ...p, ...changes } : p));
+      if ('status' in changes || 'huid' in changes) onChanged();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to update piece',
+        type: 'error'
+      });
+    }
+  };
+
+  const handlePrint = (serials: string[]) => {
+    if (serials.length === 0) return;
+    printQRCodes(serials, `Print Labels - ${product.sku}`).catch(error => {
+      console.error('Error printing piece labels:', error);
+    });
+  };
+
+  const visiblePieces = showSold ? pieces : pieces.filter(piece => piece.status !== 'sold');
+  const inStock = pieces.filter(piece => piece.status === 'in_stock');
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <div className="flex items-center gap-2">
+            <Boxes className="h-5 w-5 text-blue-600" />
+            <div>
+              <h3 className="text-lg font-semibold">Pieces</h3>
+              <p className="text-xs text-gray-500 font-mono">{product.sku}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 border-b flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Add pieces</label>
+            <input
+              type="number"
+              min="1"
+              className="input w-24"
+              value={addCount}
+              onChange={e => setAddCount(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Location</label>
+            <input
+              type="text"
+              className="input w-40"
+              value={addLocation}
+              onChange={e => setAddLocation(e.target.value)}
+              placeholder="e.g., Tray A3"
+            />
+          </div>
+          <button onClick={handleAddPieces} className="btn btn-primary flex items-center gap-1 h-10">
+            <Plus className="h-4 w-4" />
+            Add
+          </button>
+          <div className="flex-1" />
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showSold}
+              onChange={e => setShowSold(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Show sold
+          </label>
+          <button
+            onClick={() => handlePrint(inStock.map(piece => piece.serial))}
+            disabled={inStock.length === 0}
+            className="btn btn-secondary flex items-center gap-1 h-10"
+          >
+            <Printer className="h-4 w-4" />
+            Print {inStock.length} label{inStock.length === 1 ? '' : 's'}
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading pieces...</div>
+          ) : visiblePieces.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No pieces recorded for this product.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2">Serial</th>
+                  <th className="py-2">HUID</th>
+                  <th className="py-2">Net wt (g)</th>
+                  <th className="py-2">Location</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {visiblePieces.map(piece => (
+                  <tr key={piece.id}>
+                    <td className="py-2 font-mono text-xs">{piece.serial}</td>
+                    <td className="py-2">
+                      <input
+                        type="text"
+                        className="input w-24 font-mono uppercase"
+                        defaultValue={piece.huid || ''}
+                        maxLength={6}
+                        disabled={piece.status === 'sold'}
+                        onBlur={e => {
+                          const huid = normalizeHuid(e.target.value) || null;
+                          if (huid !== (piece.huid || null)) handleUpdate(piece, { huid });
+                        }}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        className="input w-24"
+                        defaultValue={piece.net_weight ?? ''}
+                        disabled={piece.status === 'sold'}
+                        onBlur={e => {
+                          const netWeight = e.target.value ? Number(e.target.value) : null;
+                          if (netWeight !== (piece.net_weight ?? null)) handleUpdate(piece, { net_weight: netWeight });
+                        }}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <input
+                        type="text"
+                        className="input w-32"
+                        defaultValue={piece.location || ''}
+                        disabled={piece.status === 'sold'}
+                        onBlur={e => {
+                          const location = e.target.value.trim() || null;
+                          if (location !== (piece.location || null)) handleUpdate(piece, { location });
+                        }}
+                      />
+                    </td>
+                    <td className="py-2">
+                      {piece.status === 'sold' ? (
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${PIECE_STATUS_COLORS.sold}`}>
+                          Sold{piece.sold_at ? ` ${format(new Date(piece.sold_at), 'dd/MM/yyyy')}` : ''}
+                        </span>
+                      ) : piece.status === 'on_approval' ? (
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${PIECE_STATUS_COLORS.on_approval}`}>
+                          {PIECE_STATUS_LABELS.on_approval}
+                        </span>
+                      ) : (
+                        <select
+                          className={`text-xs rounded-full px-2 py-1 border-0 ${PIECE_STATUS_COLORS[piece.status]}`}
+                          value={piece.status}
+                          onChange={e => handleUpdate(piece, { status: e.target.value as PieceStatus })}
+                        >
+                          {EDITABLE_STATUSES.map(status => (
+                            <option key={status} value={status}>{PIECE_STATUS_LABELS[status]}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {piece.status !== 'sold' && (
+                        <button
+                          onClick={() => handlePrint([piece.serial])}
+                          className="text-gray-500 hover:text-blue-600"
+                          title="Print label"
+                        >
+                          <Printer className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductPieces;
@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { Plus, Flame, CheckCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import type { MetalType, OldGoldItem, OldGoldStatus } from '../../types';
+import {
+  OLD_GOLD_STATUS_COLORS,
+  OLD_GOLD_STATUS_LABELS,
+  getScrapInventory,
+  updateOldGoldStatus
+} from '../../utils/oldGold';
+import { METAL_LABELS } from '../../utils/metalRates';
+import { formatCurrency } from '../../utils/quotation';
+import { hasPermission } from '../../lib/auth';
+import { useToast } from '../../hooks/useToast';
+import OldGoldBuyback from './OldGoldBuyback';
+import OldGoldVoucherModal from '../pos/OldGoldVoucherModal';
+
+const ScrapInventory = () => {
+  const [items, setItems] = useState<OldGoldItem[]>([]);
+  const [statusFilter, setStatusFilter] = useState<OldGoldStatus | ''>('in_scrap');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [showBuyback, setShowBuyback] = useState(false);
+  const [voucherNumber, setVoucherNumber] = useState<string | null>(null);
+  const canManage = hasPermission('manage_inventory');
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchItems();
+  }, []);
+
+  const fetchItems = async () => {
+    try {
+      setLoading(true);
+      setItems(await getScrapInventory());
+      setSelected([]);
+    } catch (error) {
+      console.error('Error fetching scrap inventory:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load old gold',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (status: OldGoldStatus) => {
+    try {
+      setUpdating(true);
+      await updateOldGoldStatus(selected, status);
+      addToast({
+        title: 'Updated',
+        message: `${selected.length} item${selected.length === 1 ? '' : 's'} marked ${OLD_GOLD_STATUS_LABELS[status].toLowerCase()}`,
+        type: 'success'
+      });
+      await fetchItems();
+    } catch (error) {
+      console.error('Error updating old gold:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to update old gold',
+        type: 'error'
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const visible = statusFilter ? items.filter(item => item.status === statusFilter) : items;
+  const selectedItems = items.filter(item => selected.includes(item.id));
+
+  // Fine metal still on hand, waiting to be melted
+  const onHand = items
+    .filter(item => item.status !== 'melted')
+    .reduce<Partial<Record<MetalType, { fine: number; value: number }>>>((totals, item) => {
+      const row = totals[item.metal_type] || { fine: 0, value: 0 };
+      row.fine += Number(item.fine_weight);
+      row.value += Number(item.value);
+      totals[item.metal_type] = row;
+      return totals;
+    }, {});
+
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(value => value !== id) : [...prev, id]));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">Old Gold</h2>
+          <p className="text-sm text-gray-500">Exchanged and bought-back metal held for melting</p>
+        </div>
+        <button onClick={() => setShowBuyback(true)} className="btn btn-primary flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Buy Old Gold
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(Object.keys(METAL_LABELS) as MetalType[]).map(metal => (
+          <div key={metal} className="bg-white/90 rounded-2xl shadow-lg border border-gray-100/80 p-4">
+            <p className="text-xs text-gray-500 uppercase">{METAL_LABELS[metal]} to melt</p>
+            <p className="text-lg font-semibold mt-1">{(onHand[metal]?.fine || 0).toFixed(3)} g fine</p>
+            <p className="text-sm text-gray-500">{formatCurrency(onHand[metal]?.value || 0)} paid</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          {(['in_scrap', 'sent_for_melting', 'melted', ''] as Array<OldGoldStatus | ''>).map(status => (
+            <button
+              key={status || 'all'}
+              onClick={() => {
+                setStatusFilter(status);
+                setSelected([]);
+              }}
+              className={`px-3 py-1.5 rounded-lg text-sm ${
+                statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {status ? OLD_GOLD_STATUS_LABELS[status] : 'All'}
+            </button>
+          ))}
+        </div>
+        {canManage && selected.length > 0 && (
+          <div className="flex gap-2">
+            {selectedItems.every(item => item.status === 'in_scrap') && (
+              <button
+                onClick={() => handleStatusChange('sent_for_melting')}
+                disabled={updating}
+                className="btn btn-secondary flex items-center gap-2"
+              >
+                <Flame className="h-4 w-4" />
+                Send for Melting
+              </button>
+            )}
+            {selectedItems.every(item => item.status === 'sent_for_melting') && (
+              <button
+                onClick={() => handleStatusChange('melted')}
+                disabled={updating}
+                className="btn btn-primary flex items-center gap-2"
+              >
+                <CheckCircle className="h-4 w-4" />
+                Mark Melted
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-x-auto">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading old gold...</div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No old gold here.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                {canManage && <th className="px-4 py-3" />}
+                <th className="px-4 py-3">Voucher</th>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">From</th>
+                <th className="px-4 py-3">Item</th>
+                <th className="px-4 py-3 text-right">Net</th>
+                <th className="px-4 py-3 text-right">Purity</th>
+                <th className="px-4 py-3 text-right">Fine</th>
+                <th className="px-4 py-3 text-right">Value</th>
+                <th className="px-4 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {visible.map(item => (
+                <tr key={item.id} className="hover:bg-gray-50">
+                  {canManage && (
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(item.id)}
+                        disabled={item.status === 'melted'}
+                        onChange={() => toggle(item.id)}
+                      />
+                    </td>
+                  )}
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => setVoucherNumber(item.voucher_number)}
+                      className="text-blue-600 hover:text-blue-800 font-mono"
+                    >
+                      {item.voucher_number}
+                    </button>
+                    <div className="text-xs text-gray-500 capitalize">{item.kind}</div>
+                  </td>
+                  <td className="px-4 py-3">{format(new Date(item.created_at), 'dd/MM/yyyy')}</td>
+                  <td className="px-4 py-3">{item.customer_name || '—'}</td>
+                  <td className="px-4 py-3">
+                    {item.description}
+                    <div className="text-xs text-gray-500">{METAL_LABELS[item.metal_type]}</div>
+                  </td>
+                  <td className="px-4 py-3 text-right">{Number(item.net_weight).toFixed(3)} g</td>
+                  <td className="px-4 py-3 text-right">{Number(item.tested_purity)}%</td>
+                  <td className="px-4 py-3 text-right">{Number(item.fine_weight).toFixed(3)} g</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(Number(item.value))}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${OLD_GOLD_STATUS_COLORS[item.status]}`}>
+                      {OLD_GOLD_STATUS_LABELS[item.status]}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showBuyback && (
+        <OldGoldBuyback
+          onClose={() => setShowBuyback(false)}
+          onRecorded={(voucher) => {
+            setShowBuyback(false);
+            setVoucherNumber(voucher);
+            fetchItems();
+          }}
+        />
+      )}
+
+      {voucherNumber && (
+        <OldGoldVoucherModal voucherNumber={voucherNumber} onClose={() => setVoucherNumber(null)} />
+      )}
+    </div>
+  );
+};
+
+export default ScrapInventory;
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { X, History, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Product, StockMovement, StockMovementType } from '../../types';
+import {
+  getStockMovements,
+  getStockReconciliation,
+  getStaffNames,
+  formatMovementQuantity,
+  STOCK_MOVEMENT_LABELS,
+  STOCK_MOVEMENT_COLORS,
+  type StockReconciliation
+} from '../../utils/stockMovements';
+import { PIECE_STATUS_LABELS } from '../../utils/pieces';
+import { useToast } from '../../hooks/useToast';
+
+interface StockMovementHistoryProps {
+  product: Product;
+  onClose: () => void;
+}
+
+const StockMovementHistory: React.FC<StockMovementHistoryProps> = ({ product, onClose }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [reconciliation, setReconciliation] = useState<StockReconciliation | null>(null);
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+  const [typeFilter, setTypeFilter] = useState<StockMovementType | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchHistory();
+  }, [product.id]);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      const [history, balance] = await Promise.all([
+        getStockMovements(product.id),
+        getStockReconciliation(product.id)
+      ]);
+
+      setMovements(history);
+      setReconciliation(balance);
+      setStaffNames(await getStaffNames(history));
+    } catch (error) {
+      console.error('Error fetching stock history:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load stock history',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeChange = (movement: StockMovement) => {
+    const parts: string[] = [];
+    if (movement.from_status !== movement.to_status) {
+      const from = movement.from_status ? PIECE_STATUS_LABELS[movement.from_status] : null;
+      const to = movement.to_status ? PIECE_STATUS_LABELS[movement.to_status] : null;
+      if (from || to) parts.push([from, to].filter(Boolean).join(' → '));
+    }
+    if (movement.from_location !== movement.to_location && (movement.from_location || movement.to_location)) {
+      parts.push(`${movement.from_location || '—'} → ${movement.to_location || '—'}`);
+    }
+    return parts.join(' · ');
+  };
+
+  const visibleMovements = typeFilter === 'all'
+    ? movements
+    : movements.filter(movement => movement.movement_type === typeFilter);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-blue-600" />
+            <div>
+              <h3 className="text-lg font-semibold">Stock History</h3>
+              <p className="text-xs text-gray-500 font-mono">{product.sku}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 border-b flex flex-wrap items-center gap-4">
+          {reconciliation && (
+            <>
+              <div className="text-sm">
+                <span className="text-gray-500">In stock:</span>{' '}
+                <span className="font-medium">{reconciliation.stock_level}</span>
+              </div>
+              <div className="text-sm">
+                <span className="text-gray-500">Ledger balance:</span>{' '}
+                <span className="font-medium">{reconciliation.ledger_balance}</span>
+              </div>
+              {reconciliation.difference !== 0 && (
+                <div className="flex items-center gap-1 text-sm text-red-600">
+                  <AlertTriangle className="h-4 w-4" />
+                  Out of balance by {formatMovementQuantity(reconciliation.difference)}
+                </div>
+              )}
+            </>
+          )}
+          <div className="flex-1" />
+          <select
+            className="input w-48"
+            value={typeFilter}
+            onChange={e => setTypeFilter(e.target.value as StockMovementType | 'all')}
+          >
+            <option value="all">All movements</option>
+            {(Object.keys(STOCK_MOVEMENT_LABELS) as StockMovementType[]).map(type => (
+              <option key={type} value={type}>{STOCK_MOVEMENT_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading history...</div>
+          ) : visibleMovements.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No stock movements recorded.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Piece</th>
+                  <th className="py-2 text-right">Qty</th>
+                  <th className="py-2 pl-4">Change</th>
+                  <th className="py-2">Reference</th>
+                  <th className="py-2">Staff</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {visibleMovements.map(movement => (
+                  <tr key={movement.id}>
+                    <td className="py-2 whitespace-nowrap">
+                      {format(new Date(movement.created_at), 'dd/MM/yyyy HH:mm')}
+                    </td>
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STOCK_MOVEMENT_COLORS[movement.movement_type]}`}>
+                        {STOCK_MOVEMENT_LABELS[movement.movement_type]}
+                      </span>
+                    </td>
+                    <td className="py-2 font-mono text-xs">{movement.serial || '—'}</td>
+                    <td className={`py-2 text-right font-medium ${
+                      movement.quantity > 0 ? 'text-green-600' : movement.quantity < 0 ? 'text-red-600' : 'text-gray-500'
+                    }`}>
+                      {formatMovementQuantity(movement.quantity)}
+                    </td>
+                    <td className="py-2 pl-4 text-gray-600">
+                      {describeChange(movement)}
+                      {movement.notes && <div className="text-xs text-gray-500">{movement.notes}</div>}
+                    </td>
+                    <td className="py-2 text-xs text-gray-600">
+                      {movement.reference_type
+                        ? `${movement.reference_type} ${movement.reference_id?.slice(0, 8) || ''}`
+                        : '—'}
+                    </td>
+                    <td className="py-2 text-xs text-gray-600">
+                      {movement.staff_id ? staffNames[movement.staff_id] || movement.staff_id.slice(0, 8) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockMovementHistory;
@@ -0,0 +1,590 @@
+import { useState, useEffect, useRef } from 'react';
+import { ClipboardList, Plus, ScanLine, Camera, X, CheckCircle, AlertTriangle, ArrowLeft, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import Swal from 'sweetalert2';
+import type { StockTake as StockTakeSession, MarkupSetting } from '../../types';
+import { supabase } from '../../lib/supabase';
+import { hasPermission } from '../../lib/auth';
+import {
+  getStockTakes,
+  createStockTake,
+  getExpectedPieces,
+  getStockTakeScans,
+  recordStockTakeScan,
+  removeStockTakeScan,
+  buildVarianceReport,
+  approveStockTake,
+  cancelStockTake,
+  type StockTakePiece,
+  type StockTakeScan
+} from '../../utils/stockTake';
+import { playBeep, speakMessage, startCameraScanning, stopCameraScanning } from '../../utils/scannerUtils';
+import { PIECE_STATUS_LABELS, PIECE_STATUS_COLORS } from '../../utils/pieces';
+import { useToast } from '../../hooks/useToast';
+
+const STATUS_COLORS: Record<StockTakeSession['status'], string> = {
+  open: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const emptySession = { name: '', location: '', category: '', manufacturer: '' };
+
+const StockTake = () => {
+  const [sessions, setSessions] = useState<StockTakeSession[]>([]);
+  const [activeSession, setActiveSession] = useState<StockTakeSession | null>(null);
+  const [expected, setExpected] = useState<StockTakePiece[]>([]);
+  const [scans, setScans] = useState<StockTakeScan[]>([]);
+  const [categories, setCategories] = useState<MarkupSetting[]>([]);
+  const [manufacturers, setManufacturers] = useState<MarkupSetting[]>([]);
+  const [newSession, setNewSession] = useState(emptySession);
+  const [showNewSession, setShowNewSession] = useState(false);
+  const [scanCode, setScanCode] = useState('');
+  const [cameraOn, setCameraOn] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [approving, setApproving] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchSessions();
+    fetchScopeOptions();
+    return () => stopCameraScanning();
+  }, []);
+
+  useEffect(() => {
+    if (activeSession?.status === 'open') {
+      scanInputRef.current?.focus();
+    }
+  }, [activeSession]);
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true);
+      setSessions(await getStockTakes());
+    } catch (error) {
+      console.error('Error fetching stock takes:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load stock takes',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchScopeOptions = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_markup_settings');
+      if (error) throw error;
+
+      setCategories((data || []).filter((s: MarkupSetting) => s.type === 'category'));
+      setManufacturers((data || []).filter((s: MarkupSetting) => s.type === 'manufacturer'));
+    } catch (error) {
+      console.error('Error fetching categories and manufacturers:', error);
+    }
+  };
+
+  const openSession = async (session: StockTakeSession) => {
+    try {
+      setActiveSession(session);
+      const [expectedPieces, sessionScans] = await Promise.all([
+        getExpectedPieces(session),
+        getStockTakeScans(session.id)
+      ]);
+      setExpected(expectedPieces);
+      setScans(sessionScans);
+    } catch (error) {
+      console.error('Error opening stock take:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load stock take',
+        type: 'error'
+      });
+    }
+  };
+
+  const closeSession = () => {
+    stopCameraScanning();
+    setCameraOn(false);
+    setActiveSession(null);
+    setExpected([]);
+    setScans([]);
+    fetchSessions();
+  };
+
+  const handleCreateSession = async () => {
+    try {
+      const session = await createStockTake(newSession);
+      setNewSession(emptySession);
+      setShowNewSession(false);
+      setSessions(prev => [session, ...prev]);
+      openSession(session);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to start stock take',
+        type: 'error'
+      });
+    }
+  };
+
+  const handleScan = async (code: string) => {
+    if (!activeSession || activeSession.status !== 'open' || !code.trim()) return;
+
+    try {
+      const { scan, duplicate } = await recordStockTakeScan(activeSession.id, code);
+      if (duplicate) {
+        playBeep(false);
+        speakMessage('Already counted');
+        return;
+      }
+      if (!scan) return;
+
+      setScans(prev => [scan, ...prev]);
+      const isExpected = expected.some(piece => piece.id === scan.piece_id);
+      playBeep(isExpected);
+      if (!isExpected) {
+        speakMessage(`${scan.piece.serial} was not expected here`);
+      }
+    } catch (error) {
+      playBeep(false);
+      addToast({
+        title: 'Scan failed',
+        message: error instanceof Error ? error.message : 'Failed to record scan',
+        type: 'error'
+      });
+    } finally {
+      setScanCode('');
+    }
+  };
+
+  const toggleCamera = async () => {
+    if (cameraOn) {
+      stopCameraScanning();
+      setCameraOn(false);
+      return;
+    }
+
+    setCameraOn(true);
+    // Wait for the video element to render
+    setTimeout(() => {
+      if (!videoRef.current) return;
+      startCameraScanning(videoRef.current, handleScan, error => {
+        setCameraOn(false);
+        addToast({
+          title: 'Camera',
+          message: error.message || 'Could not start the camera',
+          type: 'error'
+        });
+      });
+    }, 0);
+  };
+
+  const handleRemoveScan = async (scan: StockTakeScan) => {
+    try {
+      await removeStockTakeScan(scan.id);
+      setScans(prev => prev.filter(s => s.id !== scan.id));
+    } catch (error) {
+      console.error('Error removing scan:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to remove scan',
+        type: 'error'
+      });
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!activeSession) return;
+    const missingCount = report.missing.length;
+    const foundCount = report.unexpected.filter(piece => piece.status === 'missing').length;
+
+    const result = await Swal.fire({
+      title: 'Approve stock take?',
+      html: `${missingCount} piece${missingCount === 1 ? '' : 's'} not counted will be marked missing.<br/>` +
+        `${foundCount} previously missing piece${foundCount === 1 ? '' : 's'} will be returned to stock.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Approve & adjust',
+      cancelButtonText: 'Keep counting'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      setApproving(true);
+      const adjusted = await approveStockTake(activeSession.id);
+      addToast({
+        title: 'Stock adjusted',
+        message: `${adjusted.missing} marked missing, ${adjusted.found} returned to stock`,
+        type: 'success'
+      });
+      closeSession();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to approve stock take',
+        type: 'error'
+      });
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!activeSession) return;
+
+    const result = await Swal.fire({
+      title: 'Cancel stock take?',
+      text: 'The count is kept for reference but stock will not be adjusted.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Cancel stock take',
+      cancelButtonText: 'Back'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      await cancelStockTake(activeSession.id);
+      closeSession();
+    } catch (error) {
+      console.error('Error cancelling stock take:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to cancel stock take',
+        type: 'error'
+      });
+    }
+  };
+
+  const report = buildVarianceReport(expected, scans);
+
+  const describeScope = (session: StockTakeSession) => {
+    const scope = [session.location, session.category, session.manufacturer].filter(Boolean);
+    return scope.length > 0 ? scope.join(' · ') : 'Whole shop';
+  };
+
+  const renderPieceRow = (piece: StockTakePiece) => (
+    <tr key={piece.id}>
+      <td className="py-1.5 font-mono text-xs">{piece.serial}</td>
+      <td className="py-1.5">{piece.product.name}</td>
+      <td className="py-1.5 font-mono text-xs">{piece.huid || '—'}</td>
+      <td className="py-1.5 text-gray-600">{piece.location || '—'}</td>
+      <td className="py-1.5">
+        <span className={`px-2 py-0.5 rounded-full text-xs ${PIECE_STATUS_COLORS[piece.status]}`}>
+          {PIECE_STATUS_LABELS[piece.status]}
+        </span>
+      </td>
+    </tr>
+  );
+
+  if (activeSession) {
+    const isOpen = activeSession.status === 'open';
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <button onClick={closeSession} className="text-gray-500 hover:text-gray-700">
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+            <div>
+              <h2 className="text-2xl font-semibold">{activeSession.name}</h2>
+              <p className="text-sm text-gray-500">{describeScope(activeSession)}</p>
+            </div>
+            <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_COLORS[activeSession.status]}`}>
+              {activeSession.status}
+            </span>
+          </div>
+          {isOpen && (
+            <div className="flex gap-2">
+              <button onClick={handleCancel} className="btn btn-secondary">
+                Cancel
+              </button>
+              {hasPermission('manage_inventory') && (
+                <button
+                  onClick={handleApprove}
+                  disabled={approving}
+                  className="btn btn-primary flex items-center gap-2"
+                >
+                  <CheckCircle className="h-4 w-4" />
+                  Approve & Adjust
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {isOpen && (
+          <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                <input
+                  ref={scanInputRef}
+                  type="text"
+                  className="input pl-10 font-mono"
+                  placeholder="Scan piece label or HUID..."
+                  value={scanCode}
+                  onChange={e => setScanCode(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleScan(scanCode);
+                    }
+                  }}
+                />
+              </div>
+              <button onClick={toggleCamera} className="btn btn-secondary flex items-center gap-2">
+                {cameraOn ? <X className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+                {cameraOn ? 'Stop camera' : 'Camera'}
+              </button>
+            </div>
+            {cameraOn && (
+              <video ref={videoRef} className="w-full max-w-md rounded-lg bg-black" />
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="text-sm text-gray-500">Expected</div>
+            <div className="text-2xl font-semibold">{expected.length}</div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="text-sm text-gray-500">Counted</div>
+            <div className="text-2xl font-semibold text-green-600">{report.counted.length}</div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="text-sm text-gray-500">Not counted</div>
+            <div className="text-2xl font-semibold text-red-600">{report.missing.length}</div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="text-sm text-gray-500">Unexpected</div>
+            <div className="text-2xl font-semibold text-amber-600">{report.unexpected.length}</div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <h3 className="font-medium mb-3">Variance by category and manufacturer</h3>
+          {report.groups.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing expected or scanned yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2">Category</th>
+                  <th className="py-2">Manufacturer</th>
+                  <th className="py-2 text-right">Expected</th>
+                  <th className="py-2 text-right">Counted</th>
+                  <th className="py-2 text-right">Not counted</th>
+                  <th className="py-2 text-right">Unexpected</th>
+                  <th className="py-2 text-right">Variance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {report.groups.map(group => (
+                  <tr key={`${group.category}|${group.manufacturer}`}>
+                    <td className="py-2">{group.category}</td>
+                    <td className="py-2">{group.manufacturer}</td>
+                    <td className="py-2 text-right">{group.expected}</td>
+                    <td className="py-2 text-right">{group.counted}</td>
+                    <td className="py-2 text-right">{group.missing}</td>
+                    <td className="py-2 text-right">{group.unexpected}</td>
+                    <td className={`py-2 text-right font-medium ${
+                      group.variance < 0 ? 'text-red-600' : group.variance > 0 ? 'text-amber-600' : 'text-green-600'
+                    }`}>
+                      {group.variance > 0 ? `+${group.variance}` : group.variance}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {report.missing.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <h3 className="font-medium mb-3 flex items-center gap-2 text-red-700">
+              <AlertTriangle className="h-4 w-4" />
+              Not counted ({report.missing.length})
+            </h3>
+            <table className="w-full text-sm">
+              <tbody className="divide-y">{report.missing.map(renderPieceRow)}</tbody>
+            </table>
+          </div>
+        )}
+
+        {report.unexpected.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <h3 className="font-medium mb-3 flex items-center gap-2 text-amber-700">
+              <AlertTriangle className="h-4 w-4" />
+              Unexpected ({report.unexpected.length})
+            </h3>
+            <p className="text-xs text-gray-500 mb-2">
+              Scanned here but not in stock for this scope. Missing pieces are returned to stock on approval;
+              others need checking by hand.
+            </p>
+            <table className="w-full text-sm">
+              <tbody className="divide-y">{report.unexpected.map(renderPieceRow)}</tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <h3 className="font-medium mb-3">Scans ({scans.length})</h3>
+          {scans.length === 0 ? (
+            <p className="text-sm text-gray-500">No pieces scanned yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody className="divide-y">
+                {scans.map(scan => (
+                  <tr key={scan.id}>
+                    <td className="py-1.5 text-gray-500 whitespace-nowrap">
+                      {format(new Date(scan.scanned_at), 'HH:mm:ss')}
+                    </td>
+                    <td className="py-1.5 font-mono text-xs">{scan.piece.serial}</td>
+                    <td className="py-1.5">{scan.piece.product.name}</td>
+                    <td className="py-1.5 text-right">
+                      {isOpen && (
+                        <button
+                          onClick={() => handleRemoveScan(scan)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Remove scan"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="h-6 w-6 text-blue-600" />
+          <h2 className="text-2xl font-semibold">Stock Take</h2>
+        </div>
+        <button
+          onClick={() => setShowNewSession(true)}
+          className="btn btn-primary flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          New Stock Take
+        </button>
+      </div>
+
+      {showNewSession && (
+        <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Name</label>
+              <input
+                type="text"
+                className="input"
+                value={newSession.name}
+                onChange={e => setNewSession(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Tray A3 - October"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Location</label>
+              <input
+                type="text"
+                className="input"
+                value={newSession.location}
+                onChange={e => setNewSession(prev => ({ ...prev, location: e.target.value }))}
+                placeholder="All locations"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Category</label>
+              <select
+                className="input"
+                value={newSession.category}
+                onChange={e => setNewSession(prev => ({ ...prev, category: e.target.value }))}
+              >
+                <option value="">All categories</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.name}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Manufacturer</label>
+              <select
+                className="input"
+                value={newSession.manufacturer}
+                onChange={e => setNewSession(prev => ({ ...prev, manufacturer: e.target.value }))}
+              >
+                <option value="">All manufacturers</option>
+                {manufacturers.map(manufacturer => (
+                  <option key={manufacturer.id} value={manufacturer.name}>{manufacturer.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setShowNewSession(false)} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button onClick={handleCreateSession} className="btn btn-primary">
+              Start Counting
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading stock takes...</div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No stock takes yet.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Name</th>
+                <th className="px-4 py-3">Scope</th>
+                <th className="px-4 py-3">Started</th>
+                <th className="px-4 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {sessions.map(session => (
+                <tr
+                  key={session.id}
+                  onClick={() => openSession(session)}
+                  className="hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-4 py-3 font-medium">{session.name}</td>
+                  <td className="px-4 py-3 text-gray-600">{describeScope(session)}</td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {format(new Date(session.created_at), 'dd/MM/yyyy HH:mm')}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_COLORS[session.status]}`}>
+                      {session.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockTake;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Diamond, Plus, Trash2 } from 'lucide-react';
+import type { StoneComponent } from '../../types';
+import { STONE_TYPES, createStone, getStoneValue, calculateStoneValue, getTotalCarats } from '../../utils/stones';
+
+interface StoneComponentsEditorProps {
+  stones: StoneComponent[];
+  onChange: (stones: StoneComponent[]) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm rounded-md border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+const StoneComponentsEditor: React.FC<StoneComponentsEditorProps> = ({ stones, onChange }) => {
+  const updateStone = (id: string, field: keyof StoneComponent, value: string) => {
+    onChange(stones.map(stone => {
+      if (stone.id !== id) return stone;
+      if (field === 'count' || field === 'caratWeight' || field === 'ratePerCarat') {
+        return { ...stone, [field]: Math.max(0, Number(value) || 0) };
+      }
+      return { ...stone, [field]: value };
+    }));
+  };
+
+  const stoneValue = calculateStoneValue(stones);
+
+  return (
+    <div className="bg-gray-50 p-5 rounded-lg shadow-sm border border-gray-100 hover:border-blue-100 transition-colors space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Diamond className="h-5 w-5 text-blue-600 mr-2" />
+          <h3 className="font-medium text-gray-900">Stones & Diamonds</h3>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange([...stones, createStone()])}
+          className="text-xs bg-white text-blue-600 hover:bg-blue-100 px-2 py-1 rounded border border-blue-200 flex items-center gap-1"
+        >
+          <Plus className="h-3 w-3" />
+          Add Stone
+        </button>
+      </div>
+
+      {stones.length === 0 ? (
+        <p className="text-sm text-gray-500">No stones set in this piece.</p>
+      ) : (
+        <div className="space-y-3">
+          {stones.map(stone => (
+            <div key={stone.id} className="bg-white p-3 rounded-md border border-gray-200 space-y-2">
+              <div className="grid grid-cols-4 gap-2">
+                <div className="col-span-2">
+                  <label className="block text-xs text-gray-600 mb-1">Type</label>
+                  <select
+                    className={inputClass}
+                    value={stone.stoneType}
+                    onChange={e => updateStone(stone.id, 'stoneType', e.target.value)}
+                  >
+                    {STONE_TYPES.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Count</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    className={inputClass}
+                    value={stone.count}
+                    onChange={e => updateStone(stone.id, 'count', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Carats</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className={inputClass}
+                    value={stone.caratWeight}
+                    onChange={e => updateStone(stone.id, 'caratWeight', e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Clarity</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={stone.clarity || ''}
+                    onChange={e => updateStone(stone.id, 'clarity', e.target.value.toUpperCase())}
+                    placeholder="VS1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Colour</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={stone.colour || ''}
+                    onChange={e => updateStone(stone.id, 'colour', e.target.value.toUpperCase())}
+                    placeholder="F"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-xs text-gray-600 mb-1">Certificate No.</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={stone.certificateNumber || ''}
+                    onChange={e => updateStone(stone.id, 'certificateNumber', e.target.value)}
+                    placeholder="e.g., IGI 123456789"
+                  />
+                </div>
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <label className="block text-xs text-gray-600 mb-1">Rate per carat (₹)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    className={inputClass}
+                    value={stone.ratePerCarat}
+                    onChange={e => updateStone(stone.id, 'ratePerCarat', e.target.value)}
+                  />
+                </div>
+                <div className="text-sm text-gray-700 pb-1.5 w-28 text-right">
+                  ₹{getStoneValue(stone).toLocaleString()}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onChange(stones.filter(s => s.id !== stone.id))}
+                  className="text-red-500 hover:text-red-700 pb-1.5"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-between text-sm font-medium text-gray-800 px-1">
+            <span>{getTotalCarats(stones)}ct total</span>
+            <span>Stone value: ₹{stoneValue.toLocaleString()}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoneComponentsEditor;
@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { X, PackageCheck } from 'lucide-react';
+import Swal from 'sweetalert2';
+import type { PurchaseOrder } from '../../types';
+import {
+  receiveGoods,
+  allocateLandedCost,
+  getOutstandingQuantity,
+  type ReceiptLineInput
+} from '../../utils/purchaseOrders';
+import { parseHuids, validateHuids } from '../../utils/hallmark';
+import { supabase } from '../../lib/supabase';
+import { printQRCodes } from '../../utils/barcodeGenerator';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+
+interface GoodsReceiptFormProps {
+  order: PurchaseOrder;
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+type LineDraft = Omit<ReceiptLineInput, 'huids'> & { huidText: string };
+
+const GoodsReceiptForm: React.FC<GoodsReceiptFormProps> = ({ order, onClose, onReceived }) => {
+  const [lines, setLines] = useState<LineDraft[]>(() =>
+    order.lines
+      .filter(line => getOutstandingQuantity(line) > 0)
+      .map(line => ({
+        line,
+        quantity: getOutstandingQuantity(line),
+        unitCost: Number(line.unit_cost),
+        name: line.description || '',
+        wholesalePrice: 0,
+        retailPrice: 0,
+        grossWeight: line.net_weight ?? null,
+        netWeight: line.net_weight ?? null,
+        huidText: ''
+      }))
+  );
+  const [receipt, setReceipt] = useState({
+    supplierInvoiceNumber: '',
+    notes: '',
+    freight: 0,
+    insurance: 0,
+    otherCharges: 0
+  });
+  const [saving, setSaving] = useState(false);
+  const { addToast } = useToast();
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const landedCosts = allocateLandedCost(
+    lines.map(line => ({ quantity: line.quantity, unitCost: line.unitCost })),
+    receipt
+  );
+
+  const handleReceive = async () => {
+    try {
+      const receiving = lines.map(line => ({ ...line, huids: parseHuids(line.huidText) }));
+      receiving.forEach(line => {
+        if (line.quantity <= 0) return;
+        const huidError = validateHuids(line.huids, line.quantity, false);
+        if (huidError) throw new Error(`${line.line.category}: ${huidError}`);
+      });
+
+      setSaving(true);
+      const productIds = await receiveGoods(order, receipt, receiving);
+
+      const { data: pieces, error } = await supabase
+        .from('product_pieces')
+        .select('serial')
+        .in('product_id', productIds)
+        .order('serial');
+
+      if (error) throw error;
+
+      onReceived();
+
+      const serials = (pieces || []).map((piece: { serial: string }) => piece.serial);
+      const result = await Swal.fire({
+        title: 'Goods received',
+        text: `${productIds.length} product${productIds.length === 1 ? '' : 's'} and ${serials.length} piece${serials.length === 1 ? '' : 's'} added to stock. Print labels now?`,
+        icon: 'success',
+        showCancelButton: true,
+        confirmButtonText: `Print ${serials.length} labels`,
+        cancelButtonText: 'Later'
+      });
+
+      if (result.isConfirmed && serials.length > 0) {
+        await printQRCodes(serials, `Print Labels - ${order.po_number}`);
+      }
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to receive goods',
+        type: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <div className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5 text-blue-600" />
+            <div>
+              <h3 className="text-lg font-semibold">Receive Goods</h3>
+              <p className="text-xs text-gray-500">{order.po_number} · {order.manufacturer}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Supplier invoice no.</label>
+              <input
+                type="text"
+                className="input"
+                value={receipt.supplierInvoiceNumber}
+                onChange={e => setReceipt(prev => ({ ...prev, supplierInvoiceNumber: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Freight (₹)</label>
+              <input
+                type="number"
+                min="0"
+                className="input"
+                value={receipt.freight || ''}
+                onChange={e => setReceipt(prev => ({ ...prev, freight: Number(e.target.value) || 0 }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Insurance (₹)</label>
+              <input
+                type="number"
+                min="0"
+                className="input"
+                value={receipt.insurance || ''}
+                onChange={e => setReceipt(prev => ({ ...prev, insurance: Number(e.target.value) || 0 }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Other charges (₹)</label>
+              <input
+                type="number"
+                min="0"
+                className="input"
+                value={receipt.otherCharges || ''}
+                onChange={e => setReceipt(prev => ({ ...prev, otherCharges: Number(e.target.value) || 0 }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Notes</label>
+              <input
+                type="text"
+                className="input"
+                value={receipt.notes}
+                onChange={e => setReceipt(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {lines.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">Everything on this order has been received.</p>
+          ) : (
+            <div className="space-y-4">
+              {lines.map((line, index) => (
+                <div key={line.line.id} className="border rounded-xl p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="font-medium">{line.line.category}</span>
+                      {line.line.description && <span className="text-gray-500"> · {line.line.description}</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {line.line.received_quantity} of {line.line.quantity} received ·{' '}
+                      {getOutstandingQuantity(line.line)} due
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-7 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Receiving</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max={getOutstandingQuantity(line.line)}
+                        className="input"
+                        value={line.quantity}
+                        onChange={e => updateLine(index, {
+                          quantity: Math.min(getOutstandingQuantity(line.line), Math.max(0, Number(e.target.value) || 0))
+                        })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Unit cost (₹)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        className="input"
+                        value={line.unitCost || ''}
+                        onChange={e => updateLine(index, { unitCost: Number(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Landed cost</label>
+                      <div className="input bg-gray-50">{formatCurrency(landedCosts[index])}</div>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Wholesale (₹)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        className="input"
+                        value={line.wholesalePrice || ''}
+                        onChange={e => updateLine(index, { wholesalePrice: Number(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Retail (₹)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        className="input"
+                        value={line.retailPrice || ''}
+                        onChange={e => updateLine(index, { retailPrice: Number(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Gross wt (g)</label>
+                      <input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        className="input"
+                        value={line.grossWeight ?? ''}
+                        onChange={e => updateLine(index, { grossWeight: e.target.value ? Number(e.target.value) : null })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Net wt (g)</label>
+                      <input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        className="input"
+                        value={line.netWeight ?? ''}
+                        onChange={e => updateLine(index, { netWeight: e.target.value ? Number(e.target.value) : null })}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Product name</label>
+                      <input
+                        type="text"
+                        className="input"
+                        value={line.name}
+                        onChange={e => updateLine(index, { name: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">HUIDs (optional, one per piece)</label>
+                      <input
+                        type="text"
+                        className="input font-mono uppercase"
+                        value={line.huidText}
+                        onChange={e => updateLine(index, { huidText: e.target.value })}
+                        placeholder="AB12CD, EF34GH"
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t">
+          <button onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleReceive}
+            disabled={saving || lines.every(line => line.quantity === 0)}
+            className="btn btn-primary"
+          >
+            {saving ? 'Receiving...' : 'Receive & Create Products'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoodsReceiptForm;
@@ -2,9 +2,11 @@ import React from 'react';
 import { supabase } from '../../lib/supabase';
 import { format } from 'date-fns';
 import { formatCurrency } from '../../utils/quotation';
-import { TrendingUp, TrendingDown, Package, DollarSign, ArrowRight, ShoppingBag } from 'lucide-react';
+import { TrendingUp, TrendingDown, Package, DollarSign, ArrowRight, ShoppingBag, ClipboardList, Wallet } from 'lucide-react';
 import ManufacturerDetails from './ManufacturerDetails.tsx';
 import PurchaseAnalytics from './PurchaseAnalytics';
+import PurchaseOrders from './PurchaseOrders';
+import ManufacturerPayables from './ManufacturerPayables';
 
 interface ManufacturerStats {
   manufacturer: string;
@@ -26,7 +28,7 @@ interface ManufacturerStats {
 
 const ManufacturerAnalytics = () => {
   const [stats, setStats] = React.useState<ManufacturerStats[]>([]);
-  const [activeTab, setActiveTab] = React.useState<'sales' | 'purchases'>('sales');
+  const [activeTab, setActiveTab] = React.useState<'sales' | 'purchases' | 'orders' | 'payables'>('sales');
   const [loading, setLoading] = React.useState(true);
   const [selectedMonth, setSelectedMonth] = React.useState(() => format(new Date(), 'yyyy-MM'));
   const [selectedManufacturer, setSelectedManufacturer] = React.useState<string | null>(null);
@@ -177,6 +179,28 @@ const ManufacturerAnalytics = () => {
               <ShoppingBag className="h-4 w-4" />
               Purchase Analytics
             </button>
+            <button
+              onClick={() => setActiveTab('orders')}
+              className={`btn ${
+                activeTab === 'orders'
+                  ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-lg'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              } flex items-center gap-2 rounded-xl px-6`}
+            >
+              <ClipboardList className="h-4 w-4" />
+              Purchase Orders
+            </button>
+            <button
+              onClick={() => setActiveTab('payables')}
+              className={`btn ${
+                activeTab === 'payables'
+                  ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-lg'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              } flex items-center gap-2 rounded-xl px-6`}
+            >
+              <Wallet className="h-4 w-4" />
+              Payables
+            </button>
           </div>
         </div>
         <div className="flex gap-4 items-center">
@@ -201,7 +225,11 @@ const ManufacturerAnalytics = () => {
         </div>
       </div>
 
-      {activeTab === 'purchases' ? (
+      {activeTab === 'payables' ? (
+        <ManufacturerPayables manufacturer={selectedManufacturer} />
+      ) : activeTab === 'orders' ? (
+        <PurchaseOrders manufacturer={selectedManufacturer} />
+      ) : activeTab === 'purchases' ? (
         <PurchaseAnalytics />
       ) : (
       <div className="grid gap-8">
@@ -1,7 +1,15 @@
 import React from 'react';
-import { X, TrendingUp, TrendingDown, Package, DollarSign, ArrowRight, Calendar, Clock } from 'lucide-react';
+import { X, TrendingUp, TrendingDown, Package, DollarSign, ArrowRight, Calendar, Clock, ClipboardList } from 'lucide-react';
 import { format } from 'date-fns';
+import type { PurchaseOrder } from '../../types';
 import { formatCurrency } from '../../utils/quotation';
+import {
+  getOutstandingPurchaseOrders,
+  getOutstandingQuantity,
+  getOutstandingValue,
+  PURCHASE_ORDER_STATUS_LABELS,
+  PURCHASE_ORDER_STATUS_COLORS
+} from '../../utils/purchaseOrders';
 
 interface ManufacturerDetailsProps {
   manufacturer: {
@@ -30,12 +38,20 @@ const ManufacturerDetails: React.FC<ManufacturerDetailsProps> = ({
   onClose,
   month
 }) => {
-  const [activeTab, setActiveTab] = React.useState<'overview' | 'categories' | 'trends'>('overview');
+  const [activeTab, setActiveTab] = React.useState<'overview' | 'categories' | 'trends' | 'orders'>('overview');
+  const [outstandingOrders, setOutstandingOrders] = React.useState<PurchaseOrder[]>([]);
+
+  React.useEffect(() => {
+    getOutstandingPurchaseOrders(manufacturer.manufacturer)
+      .then(setOutstandingOrders)
+      .catch(error => console.error('Error fetching outstanding orders:', error));
+  }, [manufacturer.manufacturer]);
 
   const tabs = [
     { id: 'overview', label: 'Overview', icon: Package },
     { id: 'categories', label: 'Categories', icon: DollarSign },
-    { id: 'trends', label: 'Trends', icon: TrendingUp }
+    { id: 'trends', label: 'Trends', icon: TrendingUp },
+    { id: 'orders', label: `Purchase Orders (${outstandingOrders.length})`, icon: ClipboardList }
   ];
 
   return (
@@ -230,6 +246,49 @@ const ManufacturerDetails: React.FC<ManufacturerDetailsProps> = ({
               </div>
             )}
 
+            {activeTab === 'orders' && (
+              <div className="space-y-6">
+                <div className="flex justify-between items-center">
+                  <h3 className="font-medium text-gray-900">Outstanding Purchase Orders</h3>
+                  <span className="text-sm text-gray-500">
+                    {formatCurrency(outstandingOrders.reduce((sum, order) => sum + getOutstandingValue(order), 0))} due
+                  </span>
+                </div>
+                {outstandingOrders.length === 0 ? (
+                  <p className="text-sm text-gray-500">No orders awaiting delivery.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {outstandingOrders.map(order => (
+                      <div key={order.id} className="bg-gray-50 rounded-xl p-4">
+                        <div className="flex justify-between items-center mb-2">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-sm">{order.po_number}</span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${PURCHASE_ORDER_STATUS_COLORS[order.status]}`}>
+                              {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                            </span>
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            Ordered {format(new Date(order.order_date), 'dd MMM yyyy')}
+                            {order.expected_date && ` · due ${format(new Date(order.expected_date), 'dd MMM yyyy')}`}
+                          </div>
+                        </div>
+                        <div className="space-y-1 text-sm">
+                          {order.lines.filter(line => getOutstandingQuantity(line) > 0).map(line => (
+                            <div key={line.id} className="flex justify-between">
+                              <span>{line.category}{line.description ? ` · ${line.description}` : ''}</span>
+                              <span className="text-gray-600">
+                                {getOutstandingQuantity(line)} of {line.quantity} due · {formatCurrency(getOutstandingQuantity(line) * Number(line.unit_cost))}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {activeTab === 'trends' && (
               <div className="space-y-6">
                 <h3 className="font-medium text-gray-900">Monthly Trends</h3>
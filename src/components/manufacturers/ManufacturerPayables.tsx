@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { format } from 'date-fns';
+import type { MarkupSetting } from '../../types';
+import { supabase } from '../../lib/supabase';
+import { getManufacturerBalances, type ManufacturerBalance } from '../../utils/payables';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+import ManufacturerStatement from './ManufacturerStatement';
+
+interface ManufacturerPayablesProps {
+  manufacturer?: string | null;
+}
+
+const ManufacturerPayables: React.FC<ManufacturerPayablesProps> = ({ manufacturer }) => {
+  const [balances, setBalances] = useState<ManufacturerBalance[]>([]);
+  const [terms, setTerms] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(manufacturer || null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    setSelected(manufacturer || null);
+  }, [manufacturer]);
+
+  useEffect(() => {
+    fetchBalances();
+  }, []);
+
+  const fetchBalances = async () => {
+    try {
+      setLoading(true);
+      const [balanceRows, { data: settings, error }] = await Promise.all([
+        getManufacturerBalances(),
+        supabase.rpc('get_markup_settings')
+      ]);
+      if (error) throw error;
+
+      const manufacturers = (settings || []).filter((s: MarkupSetting) => s.type === 'manufacturer');
+      setTerms(Object.fromEntries(manufacturers.map((s: MarkupSetting) => [s.name, s.payment_terms_days ?? 30])));
+
+      // Manufacturers with no entries yet still get a row so their ledger can be opened
+      const withEntries = new Set(balanceRows.map(row => row.manufacturer));
+      setBalances([
+        ...balanceRows,
+        ...manufacturers
+          .filter((s: MarkupSetting) => !withEntries.has(s.name))
+          .map((s: MarkupSetting) => ({
+            manufacturer: s.name,
+            balance: 0,
+            gold_held: 0,
+            silver_held: 0,
+            platinum_held: 0,
+            last_entry_date: null
+          }))
+      ]);
+    } catch (error) {
+      console.error('Error fetching payables:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load payables',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (selected) {
+    return (
+      <ManufacturerStatement
+        manufacturer={selected}
+        paymentTermsDays={terms[selected] ?? 30}
+        onBack={() => setSelected(null)}
+        onChanged={fetchBalances}
+      />
+    );
+  }
+
+  const totalPayable = balances.reduce((sum, row) => sum + Math.max(0, Number(row.balance)), 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Payables</h3>
+        <p className="text-sm text-gray-500">Total owed to manufacturers: {formatCurrency(totalPayable)}</p>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-hidden">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading payables...</div>
+        ) : balances.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No manufacturers set up.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Manufacturer</th>
+                <th className="px-4 py-3 text-right">Balance</th>
+                <th className="px-4 py-3 text-right">Gold held</th>
+                <th className="px-4 py-3 text-right">Silver held</th>
+                <th className="px-4 py-3 text-right">Platinum held</th>
+                <th className="px-4 py-3">Credit days</th>
+                <th className="px-4 py-3">Last entry</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {balances.map(row => (
+                <tr key={row.manufacturer} className="hover:bg-gray-50 cursor-pointer" onClick={() => setSelected(row.manufacturer)}>
+                  <td className="px-4 py-3 font-medium">{row.manufacturer}</td>
+                  <td className={`px-4 py-3 text-right ${Number(row.balance) > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(Number(row.balance))}
+                  </td>
+                  <td className="px-4 py-3 text-right">{Number(row.gold_held).toFixed(3)} g</td>
+                  <td className="px-4 py-3 text-right">{Number(row.silver_held).toFixed(3)} g</td>
+                  <td className="px-4 py-3 text-right">{Number(row.platinum_held).toFixed(3)} g</td>
+                  <td className="px-4 py-3">{terms[row.manufacturer] ?? 30}</td>
+                  <td className="px-4 py-3">
+                    {row.last_entry_date ? format(new Date(row.last_entry_date), 'dd/MM/yyyy') : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <ArrowRight className="h-4 w-4 text-gray-400 inline" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ManufacturerPayables;
@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Download, Plus } from 'lucide-react';
+import { format, startOfYear } from 'date-fns';
+import type { PayableEntry } from '../../types';
+import {
+  getPayableEntries,
+  getOpeningBalance,
+  calculateAgeing,
+  withRunningBalance,
+  AGEING_BUCKETS,
+  PAYABLE_ENTRY_LABELS,
+  PAYABLE_ENTRY_COLORS,
+  type AgeingSummary
+} from '../../utils/payables';
+import { METAL_LABELS } from '../../utils/metalRates';
+import { formatCurrency } from '../../utils/quotation';
+import { PDFService } from '../../utils/pdfService';
+import { useToast } from '../../hooks/useToast';
+import PayableEntryForm from './PayableEntryForm';
+
+interface ManufacturerStatementProps {
+  manufacturer: string;
+  paymentTermsDays: number;
+  onBack: () => void;
+  onChanged: () => void;
+}
+
+const formatWeight = (grams: number) => `${Number(grams).toFixed(3)} g`;
+
+const ManufacturerStatement: React.FC<ManufacturerStatementProps> = ({
+  manufacturer,
+  paymentTermsDays,
+  onBack,
+  onChanged
+}) => {
+  const [range, setRange] = useState({
+    from: format(startOfYear(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+  const [entries, setEntries] = useState<PayableEntry[]>([]);
+  const [openingBalance, setOpeningBalance] = useState(0);
+  const [ageing, setAgeing] = useState<AgeingSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchStatement();
+  }, [manufacturer, range.from, range.to]);
+
+  const fetchStatement = async () => {
+    try {
+      setLoading(true);
+      const [statementEntries, opening, allEntries] = await Promise.all([
+        getPayableEntries(manufacturer, range),
+        getOpeningBalance(manufacturer, range.from),
+        getPayableEntries(manufacturer)
+      ]);
+      setEntries(statementEntries);
+      setOpeningBalance(opening);
+      setAgeing(calculateAgeing(allEntries));
+    } catch (error) {
+      console.error('Error fetching statement:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load statement',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      await PDFService.sharePDF({
+        title: `Statement - ${manufacturer}`,
+        filename: `statement-${manufacturer.replace(/\s+/g, '-').toLowerCase()}-${range.to}.pdf`,
+        contentId: 'manufacturer-statement'
+      });
+    } catch (error) {
+      console.error('Error exporting statement:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to export statement',
+        type: 'error'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const rows = withRunningBalance(entries, openingBalance);
+  const closingBalance = rows.length > 0 ? rows[rows.length - 1].balance : openingBalance;
+  const metalHeld = entries.reduce<Record<string, number>>((held, entry) => {
+    if (entry.metal_type && Number(entry.metal_weight) !== 0) {
+      held[entry.metal_type] = (held[entry.metal_type] || 0) + Number(entry.metal_weight);
+    }
+    return held;
+  }, {});
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <button onClick={onBack} className="btn btn-secondary flex items-center gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          All manufacturers
+        </button>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="date"
+            className="input w-40"
+            value={range.from}
+            onChange={e => setRange(prev => ({ ...prev, from: e.target.value }))}
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            className="input w-40"
+            value={range.to}
+            onChange={e => setRange(prev => ({ ...prev, to: e.target.value }))}
+          />
+          <button onClick={() => setShowForm(true)} className="btn btn-secondary flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New Entry
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || loading}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            {exporting ? 'Preparing...' : 'Download PDF'}
+          </button>
+        </div>
+      </div>
+
+      <div id="manufacturer-statement" className="bg-white rounded-2xl shadow-lg border border-gray-100/80 p-6 space-y-6">
+        <div className="flex justify-between">
+          <div>
+            <h3 className="text-xl font-semibold">{manufacturer}</h3>
+            <p className="text-sm text-gray-500">
+              Statement {format(new Date(range.from), 'dd/MM/yyyy')} – {format(new Date(range.to), 'dd/MM/yyyy')}
+            </p>
+            <p className="text-xs text-gray-400">Credit terms: {paymentTermsDays} days</p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-gray-500">Closing balance</p>
+            <p className={`text-2xl font-bold ${closingBalance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatCurrency(Math.abs(closingBalance))}
+            </p>
+            <p className="text-xs text-gray-500">{closingBalance > 0 ? 'payable' : closingBalance < 0 ? 'advance' : 'settled'}</p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading statement...</div>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-3 py-2">Date</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Reference</th>
+                  <th className="px-3 py-2">Metal</th>
+                  <th className="px-3 py-2 text-right">Debit</th>
+                  <th className="px-3 py-2 text-right">Credit</th>
+                  <th className="px-3 py-2 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                <tr className="text-gray-500">
+                  <td className="px-3 py-2">{format(new Date(range.from), 'dd/MM/yyyy')}</td>
+                  <td className="px-3 py-2" colSpan={5}>Balance brought forward</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(openingBalance)}</td>
+                </tr>
+                {rows.map(({ entry, balance }) => (
+                  <tr key={entry.id}>
+                    <td className="px-3 py-2">{format(new Date(entry.entry_date), 'dd/MM/yyyy')}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${PAYABLE_ENTRY_COLORS[entry.entry_type]}`}>
+                        {PAYABLE_ENTRY_LABELS[entry.entry_type]}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div>{entry.reference || '—'}</div>
+                      {(entry.notes || entry.payment_method) && (
+                        <div className="text-xs text-gray-500">
+                          {[entry.payment_method, entry.notes].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                      {entry.due_date && (
+                        <div className="text-xs text-gray-500">Due {format(new Date(entry.due_date), 'dd/MM/yyyy')}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {entry.metal_type && Number(entry.metal_weight) !== 0
+                        ? `${Number(entry.metal_weight) > 0 ? '+' : ''}${formatWeight(entry.metal_weight)} ${METAL_LABELS[entry.metal_type]}${entry.purity ? ` ${entry.purity}` : ''}`
+                        : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {Number(entry.amount) < 0 ? formatCurrency(-Number(entry.amount)) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {Number(entry.amount) > 0 ? formatCurrency(Number(entry.amount)) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium">{formatCurrency(balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {Object.keys(metalHeld).length > 0 && (
+              <div className="text-sm">
+                <span className="text-gray-500">Metal issued less returned in this period:</span>{' '}
+                {Object.entries(metalHeld)
+                  .map(([type, grams]) => `${METAL_LABELS[type as keyof typeof METAL_LABELS]} ${formatWeight(grams)}`)
+                  .join(' · ')}
+              </div>
+            )}
+
+            {ageing && (
+              <div>
+                <h4 className="font-medium mb-2">Ageing as of {format(new Date(), 'dd/MM/yyyy')}</h4>
+                <div className="grid grid-cols-5 gap-3">
+                  {AGEING_BUCKETS.map(bucket => (
+                    <div key={bucket} className="border rounded-xl p-3">
+                      <p className="text-xs text-gray-500">{bucket}</p>
+                      <p className={`font-semibold ${bucket !== 'Not due' && ageing.buckets[bucket] > 0 ? 'text-red-600' : ''}`}>
+                        {formatCurrency(ageing.buckets[bucket])}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                {ageing.unappliedCredit > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Unapplied payments and credit notes: {formatCurrency(ageing.unappliedCredit)}
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {showForm && (
+        <PayableEntryForm
+          manufacturer={manufacturer}
+          paymentTermsDays={paymentTermsDays}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            fetchStatement();
+            onChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ManufacturerStatement;
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import type { MetalType, PayableEntryType } from '../../types';
+import { recordPayableEntry, isMetalEntry, PAYABLE_ENTRY_LABELS } from '../../utils/payables';
+import { METAL_LABELS } from '../../utils/metalRates';
+import { useToast } from '../../hooks/useToast';
+
+interface PayableEntryFormProps {
+  manufacturer: string;
+  paymentTermsDays: number;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const ENTRY_TYPES: PayableEntryType[] = [
+  'payment',
+  'purchase_bill',
+  'credit_note',
+  'metal_issued',
+  'metal_returned',
+  'opening_balance'
+];
+
+const PAYMENT_METHODS = ['Bank Transfer', 'Cheque', 'Cash', 'UPI', 'Metal Adjustment'];
+
+const PayableEntryForm: React.FC<PayableEntryFormProps> = ({ manufacturer, paymentTermsDays, onClose, onSaved }) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [entry, setEntry] = useState({
+    entry_type: 'payment' as PayableEntryType,
+    entry_date: today,
+    due_date: format(addDays(new Date(), paymentTermsDays), 'yyyy-MM-dd'),
+    reference: '',
+    amount: 0,
+    metal_type: 'gold' as MetalType,
+    purity: '',
+    metal_weight: 0,
+    payment_method: PAYMENT_METHODS[0],
+    notes: ''
+  });
+  const [saving, setSaving] = useState(false);
+  const { addToast } = useToast();
+
+  const metal = isMetalEntry(entry.entry_type);
+
+  const handleDateChange = (value: string) => {
+    setEntry(prev => ({
+      ...prev,
+      entry_date: value,
+      due_date: value ? format(addDays(new Date(value), paymentTermsDays), 'yyyy-MM-dd') : prev.due_date
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await recordPayableEntry({ manufacturer, ...entry });
+      addToast({
+        title: 'Success',
+        message: `${PAYABLE_ENTRY_LABELS[entry.entry_type]} recorded`,
+        type: 'success'
+      });
+      onSaved();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to record entry',
+        type: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg">
+        <div className="flex items-center justify-between p-5 border-b">
+          <div>
+            <h3 className="text-lg font-semibold">New Ledger Entry</h3>
+            <p className="text-xs text-gray-500">{manufacturer}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 grid grid-cols-2 gap-4">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entry type</label>
+            <select
+              className="input"
+              value={entry.entry_type}
+              onChange={e => setEntry(prev => ({ ...prev, entry_type: e.target.value as PayableEntryType }))}
+            >
+              {ENTRY_TYPES.map(type => (
+                <option key={type} value={type}>{PAYABLE_ENTRY_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <input
+              type="date"
+              className="input"
+              value={entry.entry_date}
+              max={today}
+              onChange={e => handleDateChange(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+            <input
+              type="text"
+              className="input"
+              value={entry.reference}
+              onChange={e => setEntry(prev => ({ ...prev, reference: e.target.value }))}
+              placeholder={entry.entry_type === 'payment' ? 'UTR / cheque no.' : 'Bill / note no.'}
+            />
+          </div>
+
+          {metal ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Metal</label>
+                <select
+                  className="input"
+                  value={entry.metal_type}
+                  onChange={e => setEntry(prev => ({ ...prev, metal_type: e.target.value as MetalType }))}
+                >
+                  {(Object.keys(METAL_LABELS) as MetalType[]).map(type => (
+                    <option key={type} value={type}>{METAL_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Purity</label>
+                <input
+                  type="text"
+                  className="input"
+                  value={entry.purity}
+                  onChange={e => setEntry(prev => ({ ...prev, purity: e.target.value }))}
+                  placeholder="24K"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Fine weight (g)</label>
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  className="input"
+                  value={entry.metal_weight || ''}
+                  onChange={e => setEntry(prev => ({ ...prev, metal_weight: Number(e.target.value) || 0 }))}
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className={entry.entry_type === 'purchase_bill' || entry.entry_type === 'payment' ? '' : 'col-span-2'}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount (₹)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={entry.entry_type === 'opening_balance' ? undefined : '0'}
+                  className="input"
+                  value={entry.amount || ''}
+                  onChange={e => setEntry(prev => ({ ...prev, amount: Number(e.target.value) || 0 }))}
+                />
+                {entry.entry_type === 'opening_balance' && (
+                  <p className="text-xs text-gray-500 mt-1">Enter a negative amount if they owe us.</p>
+                )}
+              </div>
+              {entry.entry_type === 'purchase_bill' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Due date</label>
+                  <input
+                    type="date"
+                    className="input"
+                    value={entry.due_date}
+                    onChange={e => setEntry(prev => ({ ...prev, due_date: e.target.value }))}
+                  />
+                </div>
+              )}
+              {entry.entry_type === 'payment' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Paid by</label>
+                  <select
+                    className="input"
+                    value={entry.payment_method}
+                    onChange={e => setEntry(prev => ({ ...prev, payment_method: e.target.value }))}
+                  >
+                    {PAYMENT_METHODS.map(method => (
+                      <option key={method} value={method}>{method}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              type="text"
+              className="input"
+              value={entry.notes}
+              onChange={e => setEntry(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t">
+          <button onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+            {saving ? 'Saving...' : 'Record Entry'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayableEntryForm;
@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import type { MarkupSetting, MetalType } from '../../types';
+import { supabase } from '../../lib/supabase';
+import { createPurchaseOrder, type NewPurchaseOrderLine } from '../../utils/purchaseOrders';
+import { formatCurrency } from '../../utils/quotation';
+import { METAL_LABELS } from '../../utils/metalRates';
+import { useToast } from '../../hooks/useToast';
+
+interface PurchaseOrderFormProps {
+  manufacturer?: string | null;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const emptyLine = (): NewPurchaseOrderLine => ({
+  category: '',
+  description: '',
+  metal_type: null,
+  purity: '',
+  net_weight: null,
+  quantity: 1,
+  unit_cost: 0
+});
+
+const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({ manufacturer, onClose, onCreated }) => {
+  const [manufacturers, setManufacturers] = useState<MarkupSetting[]>([]);
+  const [categories, setCategories] = useState<MarkupSetting[]>([]);
+  const [order, setOrder] = useState({
+    manufacturer: manufacturer || '',
+    expected_date: '',
+    notes: ''
+  });
+  const [lines, setLines] = useState<NewPurchaseOrderLine[]>([emptyLine()]);
+  const [saving, setSaving] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchMarkupSettings();
+  }, []);
+
+  const fetchMarkupSettings = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_markup_settings');
+      if (error) throw error;
+
+      setManufacturers((data || []).filter((s: MarkupSetting) => s.type === 'manufacturer'));
+      setCategories((data || []).filter((s: MarkupSetting) => s.type === 'category'));
+    } catch (error) {
+      console.error('Error fetching markup settings:', error);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<NewPurchaseOrderLine>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const handleSave = async (status: 'draft' | 'ordered') => {
+    try {
+      setSaving(true);
+      await createPurchaseOrder(
+        { ...order, status },
+        lines.map(line => ({
+          ...line,
+          description: line.description || null,
+          purity: line.purity || null
+        }))
+      );
+      addToast({
+        title: 'Success',
+        message: status === 'ordered' ? 'Purchase order placed' : 'Purchase order saved as draft',
+        type: 'success'
+      });
+      onCreated();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save purchase order',
+        type: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <h3 className="text-lg font-semibold">New Purchase Order</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Manufacturer</label>
+              <select
+                className="input"
+                value={order.manufacturer}
+                onChange={e => setOrder(prev => ({ ...prev, manufacturer: e.target.value }))}
+              >
+                <option value="">Select manufacturer</option>
+                {manufacturers.map(m => (
+                  <option key={m.id} value={m.name}>{m.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expected delivery</label>
+              <input
+                type="date"
+                className="input"
+                value={order.expected_date}
+                onChange={e => setOrder(prev => ({ ...prev, expected_date: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                className="input"
+                value={order.notes}
+                onChange={e => setOrder(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2">Category</th>
+                <th className="py-2">Description</th>
+                <th className="py-2">Metal</th>
+                <th className="py-2">Purity</th>
+                <th className="py-2">Net wt (g)</th>
+                <th className="py-2">Qty</th>
+                <th className="py-2">Unit cost</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line, index) => (
+                <tr key={index}>
+                  <td className="py-1 pr-2">
+                    <select
+                      className="input"
+                      value={line.category}
+                      onChange={e => updateLine(index, { category: e.target.value })}
+                    >
+                      <option value="">Select</option>
+                      {categories.map(c => (
+                        <option key={c.id} value={c.name}>{c.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="text"
+                      className="input"
+                      value={line.description || ''}
+                      onChange={e => updateLine(index, { description: e.target.value })}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select
+                      className="input"
+                      value={line.metal_type || ''}
+                      onChange={e => updateLine(index, { metal_type: (e.target.value || null) as MetalType | null })}
+                    >
+                      <option value="">—</option>
+                      {(Object.keys(METAL_LABELS) as MetalType[]).map(metal => (
+                        <option key={metal} value={metal}>{METAL_LABELS[metal]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="text"
+                      className="input w-20"
+                      value={line.purity || ''}
+                      onChange={e => updateLine(index, { purity: e.target.value })}
+                      placeholder="22K"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      className="input w-24"
+                      value={line.net_weight ?? ''}
+                      onChange={e => updateLine(index, { net_weight: e.target.value ? Number(e.target.value) : null })}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min="1"
+                      className="input w-20"
+                      value={line.quantity}
+                      onChange={e => updateLine(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="input w-28"
+                      value={line.unit_cost || ''}
+                      onChange={e => updateLine(index, { unit_cost: Number(e.target.value) || 0 })}
+                    />
+                  </td>
+                  <td className="py-1 text-right">
+                    {lines.length > 1 && (
+                      <button
+                        onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove line"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setLines(prev => [...prev, emptyLine()])}
+              className="btn btn-secondary flex items-center gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Add line
+            </button>
+            <div className="text-sm">
+              <span className="text-gray-500">Order value:</span>{' '}
+              <span className="font-semibold">{formatCurrency(total)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t">
+          <button onClick={() => handleSave('draft')} disabled={saving} className="btn btn-secondary">
+            Save Draft
+          </button>
+          <button onClick={() => handleSave('ordered')} disabled={saving} className="btn btn-primary">
+            Place Order
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderForm;
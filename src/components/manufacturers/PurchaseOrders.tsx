@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, PackageCheck, Send, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import Swal from 'sweetalert2';
+import type { PurchaseOrder } from '../../types';
+import {
+  getPurchaseOrders,
+  updatePurchaseOrderStatus,
+  getOrderValue,
+  getOutstandingValue,
+  PURCHASE_ORDER_STATUS_LABELS,
+  PURCHASE_ORDER_STATUS_COLORS
+} from '../../utils/purchaseOrders';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+import PurchaseOrderForm from './PurchaseOrderForm';
+import GoodsReceiptForm from './GoodsReceiptForm';
+
+interface PurchaseOrdersProps {
+  manufacturer?: string | null;
+}
+
+const PurchaseOrders: React.FC<PurchaseOrdersProps> = ({ manufacturer }) => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchOrders();
+  }, [manufacturer]);
+
+  const fetchOrders = async () => {
+    try {
+      setLoading(true);
+      setOrders(await getPurchaseOrders(manufacturer || undefined));
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load purchase orders',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (order: PurchaseOrder, status: 'ordered' | 'cancelled') => {
+    if (status === 'cancelled') {
+      const result = await Swal.fire({
+        title: `Cancel ${order.po_number}?`,
+        text: 'Goods already received stay in stock.',
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'Cancel order',
+        cancelButtonText: 'Back'
+      });
+      if (!result.isConfirmed) return;
+    }
+
+    try {
+      await updatePurchaseOrderStatus(order.id, status);
+      setOrders(prev => prev.map(o => o.id === order.id ? { ...o, status } : o));
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to update purchase order',
+        type: 'error'
+      });
+    }
+  };
+
+  const visibleOrders = showClosed
+    ? orders
+    : orders.filter(order => order.status !== 'received' && order.status !== 'cancelled');
+  const outstandingTotal = orders.reduce((sum, order) => sum + getOutstandingValue(order), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Purchase Orders</h3>
+          <p className="text-sm text-gray-500">
+            Outstanding{manufacturer ? ` with ${manufacturer}` : ''}: {formatCurrency(outstandingTotal)}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={e => setShowClosed(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Show received & cancelled
+          </label>
+          <button onClick={() => setShowForm(true)} className="btn btn-primary flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New Purchase Order
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-hidden">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading purchase orders...</div>
+        ) : visibleOrders.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No purchase orders.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">PO</th>
+                <th className="px-4 py-3">Manufacturer</th>
+                <th className="px-4 py-3">Ordered</th>
+                <th className="px-4 py-3">Expected</th>
+                <th className="px-4 py-3 text-right">Pieces</th>
+                <th className="px-4 py-3 text-right">Value</th>
+                <th className="px-4 py-3 text-right">Outstanding</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {visibleOrders.map(order => {
+                const ordered = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+                const received = order.lines.reduce((sum, line) => sum + line.received_quantity, 0);
+                const overdue = order.expected_date
+                  && ['ordered', 'partially_received'].includes(order.status)
+                  && new Date(order.expected_date) < new Date();
+
+                return (
+                  <tr key={order.id}>
+                    <td className="px-4 py-3 font-mono text-xs">{order.po_number}</td>
+                    <td className="px-4 py-3">{order.manufacturer}</td>
+                    <td className="px-4 py-3">{format(new Date(order.order_date), 'dd/MM/yyyy')}</td>
+                    <td className={`px-4 py-3 ${overdue ? 'text-red-600 font-medium' : ''}`}>
+                      {order.expected_date ? format(new Date(order.expected_date), 'dd/MM/yyyy') : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right">{received} / {ordered}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(getOrderValue(order))}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(getOutstandingValue(order))}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${PURCHASE_ORDER_STATUS_COLORS[order.status]}`}>
+                        {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        {order.status === 'draft' && (
+                          <button
+                            onClick={() => handleStatusChange(order, 'ordered')}
+                            className="text-gray-500 hover:text-blue-600"
+                            title="Place order"
+                          >
+                            <Send className="h-4 w-4" />
+                          </button>
+                        )}
+                        {['ordered', 'partially_received'].includes(order.status) && (
+                          <button
+                            onClick={() => setReceivingOrder(order)}
+                            className="text-gray-500 hover:text-green-600"
+                            title="Receive goods"
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                          </button>
+                        )}
+                        {['draft', 'ordered', 'partially_received'].includes(order.status) && (
+                          <button
+                            onClick={() => handleStatusChange(order, 'cancelled')}
+                            className="text-gray-500 hover:text-red-600"
+                            title="Cancel order"
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showForm && (
+        <PurchaseOrderForm
+          manufacturer={manufacturer}
+          onClose={() => setShowForm(false)}
+          onCreated={() => {
+            setShowForm(false);
+            fetchOrders();
+          }}
+        />
+      )}
+
+      {receivingOrder && (
+        <GoodsReceiptForm
+          order={receivingOrder}
+          onClose={() => setReceivingOrder(null)}
+          onReceived={() => {
+            setReceivingOrder(null);
+            fetchOrders();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { X, Printer, Share2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  APPROVAL_ITEM_LABELS,
+  getApprovalMemo,
+  getMemoParty,
+  type ApprovalMemoWithItems
+} from '../../utils/approvalMemos';
+import { getCompanySettings } from '../../utils/settings';
+import { formatCurrency, numberToWords } from '../../utils/quotation';
+import { PDFService } from '../../utils/pdfService';
+import { useToast } from '../../hooks/useToast';
+
+interface ApprovalMemoModalProps {
+  memoId: string;
+  onClose: () => void;
+}
+
+const ApprovalMemoModal: React.FC<ApprovalMemoModalProps> = ({ memoId, onClose }) => {
+  const [memo, setMemo] = useState<ApprovalMemoWithItems | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const company = getCompanySettings();
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchMemo();
+  }, [memoId]);
+
+  const fetchMemo = async () => {
+    try {
+      setLoading(true);
+      setMemo(await getApprovalMemo(memoId));
+    } catch (error) {
+      console.error('Error fetching approval memo:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load approval memo',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pdfOptions = memo && {
+    title: `Approval Memo ${memo.memo_number}`,
+    filename: `ApprovalMemo_${memo.memo_number.replace(/\//g, '-')}.pdf`,
+    contentId: 'approval-memo-content'
+  };
+
+  const handleOutput = async (action: 'print' | 'share') => {
+    if (!pdfOptions) return;
+    try {
+      setBusy(true);
+      if (action === 'print') {
+        await PDFService.printContent(pdfOptions);
+      } else {
+        await PDFService.sharePDF(pdfOptions);
+      }
+    } catch (error) {
+      console.error('Error outputting approval memo:', error);
+      addToast({
+        title: 'Error',
+        message: action === 'print' ? 'Failed to print approval memo' : 'Failed to share approval memo',
+        type: 'error'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const total = memo ? memo.items.reduce((sum, item) => sum + item.price, 0) : 0;
+  const settled = memo ? memo.items.some(item => item.status !== 'out') : false;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <h3 className="text-lg font-semibold">Approval Memo</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleOutput('share')}
+              disabled={!memo || busy}
+              className="btn btn-secondary flex items-center gap-2"
+            >
+              <Share2 className="h-4 w-4" />
+              Share
+            </button>
+            <button
+              onClick={() => handleOutput('print')}
+              disabled={!memo || busy}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              <Printer className="h-4 w-4" />
+              Print
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700 ml-2">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading approval memo...</div>
+          ) : !memo ? (
+            <div className="text-center py-8 text-gray-500">Approval memo not found.</div>
+          ) : (
+            <div id="approval-memo-content" className="bg-white p-6 text-sm space-y-4">
+              <div className="text-center border-b pb-3">
+                <h2 className="text-xl font-bold">{company.legal_name || company.name}</h2>
+                <p>{company.address}, {company.city}, {company.state} - {company.pincode}</p>
+                <p>Phone: {company.phone}{company.gst_number && ` · GSTIN: ${company.gst_number}`}</p>
+                <p className="mt-2 text-base font-semibold tracking-wide">APPROVAL MEMO</p>
+                <p className="text-xs text-gray-500">Goods sent on approval, not sold</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500 uppercase">Issued to</p>
+                  <p className="font-medium">{getMemoParty(memo)}</p>
+                  {memo.customer ? (
+                    <>
+                      {memo.customer.address && <p>{memo.customer.address}</p>}
+                      <p>{memo.customer.phone}</p>
+                      {memo.customer.gst_number && <p>GSTIN: {memo.customer.gst_number}</p>}
+                    </>
+                  ) : (
+                    memo.broker_phone && <p>{memo.broker_phone}</p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <p><span className="text-gray-500">Memo No:</span> <span className="font-medium">{memo.memo_number}</span></p>
+                  <p><span className="text-gray-500">Date:</span> {format(new Date(memo.issue_date), 'dd/MM/yyyy')}</p>
+                  <p><span className="text-gray-500">Due back by:</span> <span className="font-medium">{format(new Date(memo.due_date), 'dd/MM/yyyy')}</span></p>
+                </div>
+              </div>
+
+              <table className="w-full border">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs uppercase">
+                    <th className="border px-2 py-1">#</th>
+                    <th className="border px-2 py-1">Description</th>
+                    <th className="border px-2 py-1">Piece / HUID</th>
+                    <th className="border px-2 py-1 text-right">Gross wt (g)</th>
+                    <th className="border px-2 py-1 text-right">Net wt (g)</th>
+                    <th className="border px-2 py-1 text-right">Value</th>
+                    {settled && <th className="border px-2 py-1">Status</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {memo.items.map((item, index) => (
+                    <tr key={item.id}>
+                      <td className="border px-2 py-1">{index + 1}</td>
+                      <td className="border px-2 py-1">
+                        {item.product.name || item.product.description || item.product.sku}
+                        <div className="text-xs text-gray-500">{item.product.sku}</div>
+                      </td>
+                      <td className="border px-2 py-1">
+                        {item.serial}
+                        {item.huid && <div className="text-xs text-gray-500">{item.huid}</div>}
+                      </td>
+                      <td className="border px-2 py-1 text-right">{item.gross_weight ? Number(item.gross_weight).toFixed(3) : '—'}</td>
+                      <td className="border px-2 py-1 text-right">{item.net_weight ? Number(item.net_weight).toFixed(3) : '—'}</td>
+                      <td className="border px-2 py-1 text-right">{formatCurrency(item.price)}</td>
+                      {settled && <td className="border px-2 py-1">{APPROVAL_ITEM_LABELS[item.status]}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-1 text-xs text-gray-600">
+                  {memo.notes && <p><span className="text-gray-500">Notes:</span> {memo.notes}</p>}
+                  <p>
+                    The goods above remain our property until billed. Please return them, or
+                    confirm which you are keeping, by {format(new Date(memo.due_date), 'dd/MM/yyyy')}.
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span>Pieces</span>
+                    <span>{memo.items.length}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-base border-t pt-1">
+                    <span>Approval value</span>
+                    <span>{formatCurrency(total)}</span>
+                  </div>
+                  <p className="text-xs text-gray-600">{numberToWords(total)} Only</p>
+                </div>
+              </div>
+
+              <div className="flex justify-between pt-8 text-xs text-gray-500">
+                <span>Received in good condition</span>
+                <span>For {company.legal_name || company.name} — Authorised Signatory</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalMemoModal;
@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Eye, ClipboardCheck, X } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  APPROVAL_STATUS_COLORS,
+  APPROVAL_STATUS_LABELS,
+  getApprovalMemo,
+  getApprovalMemos,
+  getDaysOverdue,
+  getMemoParty,
+  getOutItems,
+  type ApprovalMemoWithItems
+} from '../../utils/approvalMemos';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+import IssueApprovalMemo from './IssueApprovalMemo';
+import ApprovalMemoModal from './ApprovalMemoModal';
+import SettleApprovalModal from './SettleApprovalModal';
+
+const ApprovalMemos = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const customerId = searchParams.get('customer');
+  const [outstanding, setOutstanding] = useState(true);
+  const [memos, setMemos] = useState<ApprovalMemoWithItems[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showIssue, setShowIssue] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [settling, setSettling] = useState<ApprovalMemoWithItems | null>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchMemos();
+  }, [outstanding]);
+
+  const fetchMemos = async () => {
+    try {
+      setLoading(true);
+      setMemos(await getApprovalMemos(outstanding));
+    } catch (error) {
+      console.error('Error fetching approval memos:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load approval memos',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The settle dialog keeps its memo even once it closes and leaves the list
+  const handleSettled = async () => {
+    fetchMemos();
+    if (!settling) return;
+    try {
+      const memo = await getApprovalMemo(settling.id);
+      if (memo) setSettling(memo);
+    } catch (error) {
+      console.error('Error refreshing approval memo:', error);
+    }
+  };
+
+  const shown = customerId ? memos.filter(memo => memo.customer_id === customerId) : memos;
+  const overdueCount = shown.filter(memo => getDaysOverdue(memo) > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent">
+            Approval Memos
+          </h2>
+          {outstanding && overdueCount > 0 && (
+            <p className="text-sm text-red-600">{overdueCount} past their due-back date</p>
+          )}
+        </div>
+        <button
+          onClick={() => setShowIssue(true)}
+          className="btn btn-primary bg-gradient-to-r from-blue-600 to-blue-700 flex items-center gap-2 w-full sm:w-auto"
+        >
+          <Plus className="h-5 w-5" />
+          Issue on Approval
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+          {[true, false].map(option => (
+            <button
+              key={String(option)}
+              onClick={() => setOutstanding(option)}
+              className={`px-3 py-1.5 ${outstanding === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              {option ? 'Outstanding' : 'Closed'}
+            </button>
+          ))}
+        </div>
+        {customerId && (
+          <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-blue-50 text-blue-700 text-sm">
+            {shown[0]?.customer?.name || 'One customer'}
+            <button onClick={() => setSearchParams({})} className="hover:text-blue-900">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-x-auto">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading approval memos...</div>
+        ) : shown.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No {outstanding ? 'outstanding' : 'closed'} memos.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Memo</th>
+                <th className="px-4 py-3">Issued to</th>
+                <th className="px-4 py-3">Due back</th>
+                <th className="px-4 py-3 text-right">Pieces out</th>
+                <th className="px-4 py-3 text-right">Value out</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {shown.map(memo => {
+                const out = getOutItems(memo);
+                const daysOverdue = getDaysOverdue(memo);
+                return (
+                  <tr key={memo.id}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium">{memo.memo_number}</div>
+                      <div className="text-xs text-gray-500">{format(new Date(memo.issue_date), 'dd/MM/yyyy')}</div>
+                    </td>
+                    <td className="px-4 py-3">{getMemoParty(memo)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <div>{format(new Date(memo.due_date), 'dd/MM/yyyy')}</div>
+                      {daysOverdue > 0 && (
+                        <div className="text-xs text-red-600">{daysOverdue} day{daysOverdue === 1 ? '' : 's'} overdue</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">{out.length} / {memo.items.length}</td>
+                    <td className="px-4 py-3 text-right">
+                      {formatCurrency(out.reduce((sum, item) => sum + item.price, 0))}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${APPROVAL_STATUS_COLORS[memo.status]}`}>
+                        {APPROVAL_STATUS_LABELS[memo.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setViewingId(memo.id)}
+                          className="btn btn-secondary text-xs flex items-center gap-1"
+                        >
+                          <Eye className="h-4 w-4" />
+                          Memo
+                        </button>
+                        {memo.status !== 'closed' && (
+                          <button
+                            onClick={() => setSettling(memo)}
+                            className="btn btn-primary text-xs flex items-center gap-1"
+                          >
+                            <ClipboardCheck className="h-4 w-4" />
+                            Settle
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showIssue && (
+        <IssueApprovalMemo
+          customerId={customerId || undefined}
+          onClose={() => setShowIssue(false)}
+          onIssued={memoId => {
+            setShowIssue(false);
+            setViewingId(memoId);
+            fetchMemos();
+          }}
+        />
+      )}
+
+      {viewingId && (
+        <ApprovalMemoModal memoId={viewingId} onClose={() => setViewingId(null)} />
+      )}
+
+      {settling && (
+        <SettleApprovalModal
+          memo={settling}
+          onClose={() => setSettling(null)}
+          onSettled={handleSettled}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ApprovalMemos;
@@ -1,21 +1,29 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Phone, User, Calculator, QrCode, Scan, Package, Trash2, UploadCloud, X } from 'lucide-react';
+import { Plus, Search, Phone, User, Calculator, QrCode, Scan, Package, Trash2, UploadCloud, X, Coins, RefreshCw } from 'lucide-react';
 import Swal from 'sweetalert2';
-import type { Product, Customer } from '../../types';
+import type { Product, Customer, MetalRate, ProductPiece, GSTRate, PaymentTender } from '../../types';
 import { supabase } from '../../lib/supabase';
-import { getCachedGSTRate } from '../../utils/gstUtils'; 
-import { calculateTotals } from '../../utils/quotation';
+import { getCachedGSTRates, resolveGSTRate } from '../../utils/gstUtils'; 
+import { calculateTotals, formatCurrency } from '../../utils/quotation';
+import { getCachedMetalRates, getMetalRates, calculateMetalPrice, isMetalPriced, repriceItems, METAL_LABELS } from '../../utils/metalRates';
 import { QRCodeSVG } from 'qrcode.react';
 import CounterSaleModal from './CounterSaleModal'; 
 import ProductScanner from './ProductScanner';
 import { useScanningMode } from '../../hooks/useScanningMode';
 import { formatPhoneNumber, searchPhoneNumber } from '../../utils/phoneUtils';
 import { completeSale } from '../../utils/saleUtils';
+import { checkCreditLimit } from '../../utils/receivables';
+import { pickHuid } from '../../utils/hallmark';
 import ProductSearch from './ProductSearch';
 import ItemsTable from './QuickQuotation/components/ItemsTable';
 import OrderSummary from './QuickQuotation/components/OrderSummary';
 import PrintPreview from './QuickQuotation/components/PrintPreview';
 import { generateQuotationNumber } from '../../utils/quotation';
+import { buildTaxInvoice, getHsnCodes } from '../../utils/taxInvoice';
+import TaxInvoiceModal from './TaxInvoiceModal';
+import OldGoldExchange from './OldGoldExchange';
+import OldGoldVoucherModal from './OldGoldVoucherModal';
+import { getOldGoldCredit, type OldGoldEntry } from '../../utils/oldGold';
 
 interface CounterSaleDetails {
   buyerName: string;
@@ -23,6 +31,7 @@ interface CounterSaleDetails {
   deliveryMethod: string;
   paymentStatus: string;
   paidAmount: number;
+  tenders: PaymentTender[];
 }
 
 const BillMaker = () => {
@@ -36,6 +45,7 @@ const BillMaker = () => {
   const [isCounterSale, setIsCounterSale] = useState(true);
   const [discount, setDiscount] = useState(0);
   const [gstRate, setGstRate] = useState<number>(18);
+  const [gstRates, setGstRates] = useState<GSTRate[]>([]);
   const [gstError, setGstError] = useState<string | null>(null);
   const [showCounterSaleModal, setShowCounterSaleModal] = useState(false);
   const [includeGst, setIncludeGst] = useState(true);
@@ -44,7 +54,8 @@ const BillMaker = () => {
     buyerPhone: '',
     deliveryMethod: 'hand_carry',
     paymentStatus: 'paid',
-    paidAmount: 0
+    paidAmount: 0,
+    tenders: [{ method: 'cash', amount: 0 }]
   });
   const [quotationNumber] = useState(generateQuotationNumber());
   const [phoneSearch, setPhoneSearch] = useState('');
@@ -52,24 +63,60 @@ const BillMaker = () => {
   const [retryCount, setRetryCount] = useState(0);
   const [showQR, setShowQR] = useState<string | null>(null);
   const [totalCount, setTotalCount] = useState<string>('0');
+  const [metalRates, setMetalRates] = useState<MetalRate[]>([]);
+  const [metalRateError, setMetalRateError] = useState<string | null>(null);
+  // Sent with every attempt at this bill so a repeated submit is recorded once
+  const [saleKey, setSaleKey] = useState(() => crypto.randomUUID());
+  const [completingSale, setCompletingSale] = useState(false);
+  const [hsnCodes, setHsnCodes] = useState<Record<string, string>>({});
+  const [invoiceId, setInvoiceId] = useState<string | null>(null);
+  const [oldGold, setOldGold] = useState<OldGoldEntry[]>([]);
+  const [voucherNumber, setVoucherNumber] = useState<string | null>(null);
   
   // Calculate totals
-  const totals = React.useMemo(() => calculateTotals(items, discount, gstRate, includeGst), [
+  const totals = React.useMemo(() => calculateTotals(items, discount, gstRate, includeGst, metalRates, gstRates), [
     items,
     discount,
     gstRate,
-    includeGst
+    includeGst,
+    metalRates,
+    gstRates
   ]);
 
+  const hasMetalPricedItems = items.some(item => isMetalPriced(item.product));
+
   useEffect(() => {
     fetchGSTRate();
+    fetchMetalRates();
+    getHsnCodes()
+      .then(setHsnCodes)
+      .catch(() => setHsnCodes({}));
   }, []);
 
+  // Keep line prices in step with the rate in force
+  useEffect(() => {
+    if (metalRates.length > 0) {
+      setItems(prev => repriceItems(prev, metalRates));
+    }
+  }, [metalRates]);
+
+  const fetchMetalRates = async (forceRefresh = false) => {
+    try {
+      setMetalRateError(null);
+      const rates = forceRefresh ? await getMetalRates() : await getCachedMetalRates();
+      setMetalRates(rates);
+    } catch (error) {
+      console.error('Error fetching metal rates:', error);
+      setMetalRateError('Failed to fetch metal rates. Metal-priced items use their saved price.');
+    }
+  };
+
   const fetchGSTRate = async () => {
     try {
       setGstError(null);
-      const rate = await getCachedGSTRate();
-      setGstRate(rate);
+      const rates = await getCachedGSTRates();
+      setGstRates(rates);
+      setGstRate(resolveGSTRate(rates));
       setRetryCount(0);
     } catch (error) {
       console.error('Error fetching GST rate:', error);
@@ -120,9 +167,24 @@ const BillMaker = () => {
     }
   };
 
-  const handleAddProduct = (product: Product) => {
+  const handleAddProduct = (product: Product, piece?: ProductPiece) => {
     setItems(prev => {
       const existingItem = prev.find(item => item.product.id === product.id);
+      const assignedHuids: string[] = existingItem?.huids || [];
+      const assignedPieces: string[] = existingItem?.pieceIds || [];
+
+      if (piece && (assignedPieces.includes(piece.id) || (piece.huid && assignedHuids.includes(piece.huid)))) {
+        Swal.fire({
+          title: 'Already Added',
+          text: `Piece ${piece.serial} is already on this bill.`,
+          icon: 'info',
+          confirmButtonText: 'OK'
+        });
+        return prev;
+      }
+
+      const huid = piece ? piece.huid || undefined : pickHuid(product, assignedHuids);
+      const pieceIds = piece ? [...assignedPieces, piece.id] : assignedPieces;
       
       if (existingItem) {
         const newQuantity = existingItem.quantity + 1;
@@ -139,12 +201,13 @@ const BillMaker = () => {
 
         return prev.map(item =>
           item.product.id === product.id
-            ? { ...item, quantity: newQuantity }
+            ? { ...item, quantity: newQuantity, huids: huid ? [...assignedHuids, huid] : assignedHuids, pieceIds }
             : item
         );
       }
 
-      const price = customerType === 'wholesaler' ? 
+      const metalPrice = calculateMetalPrice(product, metalRates);
+      const price = metalPrice ? metalPrice.total : customerType === 'wholesaler' ? 
         Number(product.wholesalePrice) : 
         Number(product.retailPrice);
 
@@ -152,7 +215,10 @@ const BillMaker = () => {
         product,
         quantity: 1,
         price,
-        originalPrice: Number(product.wholesalePrice)
+        originalPrice: Number(product.wholesalePrice),
+        breakdown: metalPrice,
+        huids: huid ? [huid] : [],
+        pieceIds
       }];
     });
   };
@@ -186,10 +252,18 @@ const BillMaker = () => {
         return prev;
       }
 
+      // Keep one HUID per unit where the product has them
+      const assignedHuids: string[] = item.huids || [];
+      const nextHuid = change > 0 ? pickHuid(item.product, assignedHuids) : undefined;
+
       // Update quantity and recalculate totals
       newItems[index] = {
         ...item,
-        quantity: newQuantity
+        quantity: newQuantity,
+        huids: change > 0
+          ? (nextHuid ? [...assignedHuids, nextHuid] : assignedHuids)
+          : assignedHuids.slice(0, newQuantity),
+        pieceIds: (item.pieceIds || []).slice(0, newQuantity)
       };
 
       return newItems;
@@ -200,10 +274,38 @@ const BillMaker = () => {
     setItems(prev => prev.filter((_, i) => i !== index));
   };
 
+  // The exchange credit goes on the bill as an old-gold tender; the rest is
+  // taken in cash unless the cashier splits it further
+  const openCheckout = () => {
+    const credit = getOldGoldCredit(oldGold);
+    if (credit > totals.finalTotal) {
+      Swal.fire({
+        title: 'Exchange exceeds bill',
+        text: 'The old gold is worth more than this bill. Remove an item or buy it back instead.',
+        icon: 'warning',
+        confirmButtonText: 'OK'
+      });
+      return;
+    }
+
+    setCounterSaleDetails(prev => ({
+      ...prev,
+      tenders: credit > 0
+        ? [
+            { method: 'old_gold', amount: credit },
+            { method: 'cash', amount: Math.round((totals.finalTotal - credit) * 100) / 100 }
+          ]
+        : [{ method: 'cash', amount: 0 }]
+    }));
+    setShowCounterSaleModal(true);
+  };
+
   const handleCompleteSale = async () => {
+    if (completingSale) return;
+
     try {
       // For non-retail counter sales, require customer details
-      if (isCounterSale && customerType === 'wholesaler' && !counterSaleDetails.buyerName) {
+      if (isCounterSale && customerType === 'wholesaler' && !selectedCustomer && !counterSaleDetails.buyerName) {
         Swal.fire({
           title: 'Read-only Mode',
           text: 'This quotation is in read-only mode and cannot be modified.',
@@ -219,12 +321,16 @@ const BillMaker = () => {
           product_id: item.product.id,
           quantity: item.quantity,
           price: item.price,
+          breakdown: item.breakdown || null,
+          huids: item.huids || [],
+          pieceIds: item.pieceIds || [],
           product: {
             name: item.product.name,
             sku: item.product.sku,
             description: item.product.description,
             manufacturer: item.product.manufacturer,
-            category: item.product.category
+            category: item.product.category,
+            stones: item.product.stones || []
           }
         })),
         total_amount: totals.finalTotal,
@@ -232,22 +338,77 @@ const BillMaker = () => {
         delivery_method: 'hand_carry'
       };
 
-      // Create payment details
+      // Retail bills and full wholesale payments are settled at the counter
+      const paidAmount = customerType === 'retailer' || counterSaleDetails.paymentStatus === 'paid'
+        ? totals.finalTotal
+        : counterSaleDetails.paidAmount;
       const paymentDetails = {
         total_amount: totals.finalTotal,
-        paid_amount: isCounterSale && customerType === 'retailer' ? totals.finalTotal : counterSaleDetails.paidAmount,
-        pending_amount: isCounterSale && customerType === 'retailer' ? 0 : totals.finalTotal - counterSaleDetails.paidAmount,
-        payment_status: isCounterSale && customerType === 'retailer' ? 'completed' : counterSaleDetails.paymentStatus,
+        paid_amount: paidAmount,
+        pending_amount: totals.finalTotal - paidAmount,
+        payment_status: paidAmount >= totals.finalTotal ? 'completed' : 'pending',
         payments: []
       };
 
+      // Anything left unpaid goes on the customer's account, within their credit limit
+      if (paidAmount < totals.finalTotal) {
+        if (!selectedCustomer) {
+          Swal.fire({
+            title: 'Customer required',
+            text: 'Select a saved customer to leave part of the bill unpaid.',
+            icon: 'warning',
+            confirmButtonText: 'OK'
+          });
+          return;
+        }
+
+        const credit = await checkCreditLimit(selectedCustomer.id, totals.finalTotal - paidAmount);
+        if (!credit.allowed) {
+          Swal.fire({
+            title: 'Credit limit reached',
+            text: credit.message || 'This bill is over the customer\'s credit limit.',
+            icon: 'error',
+            confirmButtonText: 'OK'
+          });
+          return;
+        }
+        if (credit.overdue > 0) {
+          const proceed = await Swal.fire({
+            title: 'Overdue balance',
+            text: `${selectedCustomer.name} has ${formatCurrency(credit.overdue)} overdue. Sell on credit anyway?`,
+            icon: 'warning',
+            showCancelButton: true,
+            confirmButtonText: 'Continue',
+            cancelButtonText: 'Cancel'
+          });
+          if (!proceed.isConfirmed) return;
+        }
+      }
+
       // Complete the sale
-      await completeSale({
+      setCompletingSale(true);
+      const result = await completeSale({
+        idempotency_key: saleKey,
         sale_type: 'counter',
         customer_id: selectedCustomer?.id || null,
         video_call_id: null,
         quotation_data: quotationData,
-        payment_details: paymentDetails
+        payment_details: paymentDetails,
+        tenders: paidAmount > 0 ? counterSaleDetails.tenders : [],
+        old_gold: oldGold,
+        buyer_name: selectedCustomer?.name || counterSaleDetails.buyerName,
+        tax_invoice: includeGst
+          ? buildTaxInvoice({
+              items,
+              discount,
+              gstRate,
+              gstRates,
+              hsnCodes,
+              customer: selectedCustomer,
+              buyerName: counterSaleDetails.buyerName,
+              metalRates
+            })
+          : null
       });
 
       // Reset form
@@ -261,23 +422,41 @@ const BillMaker = () => {
         buyerPhone: '',
         deliveryMethod: 'hand_carry',
         paymentStatus: 'paid',
-        paidAmount: 0
+        paidAmount: 0,
+        tenders: [{ method: 'cash', amount: 0 }]
       });
+      setShowCounterSaleModal(false);
+      setOldGold([]);
+      setSaleKey(crypto.randomUUID());
 
-      Swal.fire({
+      const confirmation = await Swal.fire({
         title: 'Success!',
-        text: 'Sale completed successfully',
+        text: `${result.duplicate ? 'This sale was already recorded' : 'Sale completed successfully'}${
+          result.invoiceNumber ? ` · Invoice ${result.invoiceNumber}` : ''
+        }${result.exchangeVoucher ? ` · Voucher ${result.exchangeVoucher}` : ''}`,
         icon: 'success',
-        confirmButtonText: 'OK'
+        showCancelButton: !!result.taxInvoiceId || !!result.exchangeVoucher,
+        showDenyButton: !!result.taxInvoiceId && !!result.exchangeVoucher,
+        confirmButtonText: result.taxInvoiceId ? 'Print Invoice' : result.exchangeVoucher ? 'Print Voucher' : 'OK',
+        denyButtonText: 'Print Voucher',
+        cancelButtonText: 'Close'
       });
+
+      if (confirmation.isConfirmed && result.taxInvoiceId) {
+        setInvoiceId(result.taxInvoiceId);
+      } else if ((confirmation.isConfirmed || confirmation.isDenied) && result.exchangeVoucher) {
+        setVoucherNumber(result.exchangeVoucher);
+      }
     } catch (error) {
       console.error('Error completing sale:', error);
       Swal.fire({
         title: 'Error',
-        text: 'Failed to complete sale. Please try again.',
+        text: error instanceof Error ? error.message : 'Failed to complete sale. Please try again.',
         icon: 'error',
         confirmButtonText: 'OK'
       });
+    } finally {
+      setCompletingSale(false);
     }
   };
 
@@ -472,6 +651,34 @@ const BillMaker = () => {
           </div>
         )}
 
+        {/* Metal Rates */}
+        {(hasMetalPricedItems || metalRateError) && (
+          <div className="bg-amber-50 border border-amber-100 p-3 rounded-lg flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 flex-wrap text-sm">
+              <Coins className="h-5 w-5 text-amber-600" />
+              {metalRateError ? (
+                <span className="text-orange-600">{metalRateError}</span>
+              ) : metalRates.length === 0 ? (
+                <span className="text-orange-600">No metal rates entered for today. Metal-priced items use their saved price.</span>
+              ) : (
+                metalRates.map(rate => (
+                  <span key={rate.id} className="text-amber-900">
+                    {METAL_LABELS[rate.metal]} {rate.purity}: <span className="font-medium">{formatCurrency(rate.rate_per_gram)}/g</span>
+                  </span>
+                ))
+              )}
+            </div>
+            <button
+              onClick={() => fetchMetalRates(true)}
+              className="text-amber-700 hover:text-amber-900 flex items-center gap-1 text-sm"
+              title="Refresh metal rates"
+            >
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </button>
+          </div>
+        )}
+
         {/* Product Scanner/Search */}
         <ProductScanner
           scanning={scanning}
@@ -492,9 +699,18 @@ const BillMaker = () => {
           onRemoveItem={handleRemoveItem}
         />
 
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100 p-4">
+          <OldGoldExchange
+            entries={oldGold}
+            onChange={setOldGold}
+            metalRates={metalRates}
+            billTotal={totals.finalTotal}
+          />
+        </div>
+
         {/* Order Summary */}
         <OrderSummary
-          disabled={scanning}
+          disabled={scanning || completingSale}
           totals={totals}
           discount={discount}
           gstRate={gstRate}
@@ -507,7 +723,7 @@ const BillMaker = () => {
           onSecretSubmit={() => {}}
           onDiscountChange={setDiscount}
           onGstToggle={() => setIncludeGst(!includeGst)}
-          onCompleteSale={handleCompleteSale}
+          onCompleteSale={openCheckout}
           onPrint={() => setShowPrintPreview(true)}
           itemsCount={items.length}
           customerType={customerType}
@@ -524,10 +740,19 @@ const BillMaker = () => {
           totals={totals}
           discount={discount}
           gstRate={gstRate}
+          gstRates={gstRates}
           includeGst={includeGst}
         />
       )}
 
+      {invoiceId && (
+        <TaxInvoiceModal invoiceId={invoiceId} onClose={() => setInvoiceId(null)} />
+      )}
+
+      {voucherNumber && (
+        <OldGoldVoucherModal voucherNumber={voucherNumber} onClose={() => setVoucherNumber(null)} />
+      )}
+
       {/* Counter Sale Modal */}
       {showCounterSaleModal && (
         <CounterSaleModal
@@ -537,6 +762,8 @@ const BillMaker = () => {
           total={totals.finalTotal}
           onClose={() => setShowCounterSaleModal(false)}
           onSubmit={handleCompleteSale}
+          requireBuyer={!selectedCustomer}
+          billNumber={quotationNumber}
         />
       )}
     </div>
@@ -1,19 +1,29 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { formatCurrency } from '../../utils/quotation';
+import { validateTenders } from '../../utils/paymentUtils';
+import type { PaymentTender } from '../../types';
+import TenderInput from './TenderInput';
+
+interface CounterSaleDetails {
+  buyerName: string;
+  buyerPhone: string;
+  deliveryMethod: string;
+  paymentStatus: string;
+  paidAmount: number;
+  tenders: PaymentTender[];
+}
 
 interface CounterSaleModalProps {
-  counterSaleDetails: {
-    buyerName: string;
-    buyerPhone: string;
-    deliveryMethod: string;
-    paymentStatus: string;
-    paidAmount: number;
-  };
-  setCounterSaleDetails: (details: any) => void;
+  counterSaleDetails: CounterSaleDetails;
+  setCounterSaleDetails: React.Dispatch<React.SetStateAction<CounterSaleDetails>>;
   customerType: 'wholesaler' | 'retailer';
   total: number;
   onClose: () => void;
   onSubmit: () => void;
+  // Off when the bill already has a customer, so only payment is asked for
+  requireBuyer?: boolean;
+  // Bill number, used as the reference on the UPI payment QR
+  billNumber?: string;
 }
 
 const CounterSaleModal: React.FC<CounterSaleModalProps> = ({
@@ -22,7 +32,9 @@ const CounterSaleModal: React.FC<CounterSaleModalProps> = ({
   customerType,
   total,
   onClose,
-  onSubmit
+  onSubmit,
+  requireBuyer = true,
+  billNumber
 }) => {
   const [error, setError] = useState<string | null>(null);
   const [countryCode, setCountryCode] = useState('IN');
@@ -39,16 +51,30 @@ const CounterSaleModal: React.FC<CounterSaleModalProps> = ({
     return codes[code] || '91';
   };
 
-  const handleSubmit = () => {
-    // Validate required fields
+  // Retail and full wholesale payments settle the bill; partial ones the advance
+  const amountDue = customerType === 'wholesaler' && counterSaleDetails.paymentStatus === 'pending'
+    ? counterSaleDetails.paidAmount
+    : total;
+
+  // A single tender covers whatever is being paid until the bill is split
+  useEffect(() => {
+    if (counterSaleDetails.tenders.length === 1) {
+      setCounterSaleDetails(prev => ({
+        ...prev,
+        tenders: [{ ...prev.tenders[0], amount: amountDue }]
+      }));
+    }
+  }, [amountDue]);
+
+  const validateBuyer = () => {
     if (!counterSaleDetails.buyerName.trim()) {
       alert('Please enter buyer name');
-      return;
+      return false;
     }
 
     if (!phoneNumber.trim()) {
       alert('Please enter phone number');
-      return;
+      return false;
     }
 
     // Validate phone number length
@@ -56,15 +82,29 @@ const CounterSaleModal: React.FC<CounterSaleModalProps> = ({
     const maxLength = countryCode === 'IN' ? 10 : 12;
     if (phoneNumber.length < minLength || phoneNumber.length > maxLength) {
       alert(`Phone number must be ${countryCode === 'IN' ? '10' : '8-12'} digits`);
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSubmit = () => {
+    if (requireBuyer && !validateBuyer()) return;
+
+    const tenderError = amountDue > 0 ? validateTenders(counterSaleDetails.tenders, amountDue) : null;
+    if (tenderError) {
+      alert(tenderError);
       return;
     }
 
-    // Format phone number with country code
-    const formattedPhone = `+${getCountryCode(countryCode)}${phoneNumber}`;
-    setCounterSaleDetails(prev => ({
-      ...prev,
-      buyerPhone: formattedPhone
-    }));
+    if (requireBuyer) {
+      // Format phone number with country code
+      const formattedPhone = `+${getCountryCode(countryCode)}${phoneNumber}`;
+      setCounterSaleDetails(prev => ({
+        ...prev,
+        buyerPhone: formattedPhone
+      }));
+    }
 
     onSubmit();
   };
@@ -82,59 +122,63 @@ const CounterSaleModal: React.FC<CounterSaleModalProps> = ({
         </div>
         
         <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Buyer Name *
-            </label>
-            <input
-              type="text"
-              className="input"
-              value={counterSaleDetails.buyerName}
-              onChange={(e) => setCounterSaleDetails(prev => ({
-                ...prev,
-                buyerName: e.target.value
-              }))}
-              required
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Phone Number *
-            </label>
-            <div className="flex gap-2">
-              <select
-                className="input w-24"
-                value={countryCode}
-                onChange={(e) => setCountryCode(e.target.value)}
-              >
-                <option value="IN">+91</option>
-                <option value="US">+1</option>
-                <option value="GB">+44</option>
-                <option value="AE">+971</option>
-                <option value="SG">+65</option>
-              </select>
-              <input
-                type="tel"
-                className="input flex-1"
-                value={phoneNumber}
-                onChange={(e) => {
-                  const value = e.target.value.replace(/\D/g, '');
-                  const maxLength = countryCode === 'IN' ? 10 : 12;
-                  setPhoneNumber(value.slice(0, maxLength));
-                  setCounterSaleDetails(prev => ({
+          {requireBuyer && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Buyer Name *
+                </label>
+                <input
+                  type="text"
+                  className="input"
+                  value={counterSaleDetails.buyerName}
+                  onChange={(e) => setCounterSaleDetails(prev => ({
                     ...prev,
-                    buyerPhone: `+${getCountryCode(countryCode)}${value.slice(0, maxLength)}`
-                  }));
-                }}
-                placeholder={countryCode === 'IN' ? '98765 43210' : 'Enter phone number'}
-                required
-              />
-            </div>
-            <p className="text-xs text-gray-500 mt-1">
-              {countryCode === 'IN' ? 'Enter 10 digits' : 'Enter 8-12 digits'}
-            </p>
-          </div>
+                    buyerName: e.target.value
+                  }))}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Phone Number *
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    className="input w-24"
+                    value={countryCode}
+                    onChange={(e) => setCountryCode(e.target.value)}
+                  >
+                    <option value="IN">+91</option>
+                    <option value="US">+1</option>
+                    <option value="GB">+44</option>
+                    <option value="AE">+971</option>
+                    <option value="SG">+65</option>
+                  </select>
+                  <input
+                    type="tel"
+                    className="input flex-1"
+                    value={phoneNumber}
+                    onChange={(e) => {
+                      const value = e.target.value.replace(/\D/g, '');
+                      const maxLength = countryCode === 'IN' ? 10 : 12;
+                      setPhoneNumber(value.slice(0, maxLength));
+                      setCounterSaleDetails(prev => ({
+                        ...prev,
+                        buyerPhone: `+${getCountryCode(countryCode)}${value.slice(0, maxLength)}`
+                      }));
+                    }}
+                    placeholder={countryCode === 'IN' ? '98765 43210' : 'Enter phone number'}
+                    required
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {countryCode === 'IN' ? 'Enter 10 digits' : 'Enter 8-12 digits'}
+                </p>
+              </div>
+            </>
+          )}
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -221,6 +265,20 @@ const CounterSaleModal: React.FC<CounterSaleModalProps> = ({
               </div>
             </div>
           )}
+
+          {amountDue > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Payment Received
+              </label>
+              <TenderInput
+                tenders={counterSaleDetails.tenders}
+                onChange={(tenders) => setCounterSaleDetails(prev => ({ ...prev, tenders }))}
+                amountDue={amountDue}
+                upiReference={billNumber}
+              />
+            </div>
+          )}
         </div>
 
         <div className="flex justify-end gap-3 mt-6">
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { X, Printer, Share2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { CreditNote, TaxInvoice } from '../../types';
+import { getCreditNote } from '../../utils/salesReturns';
+import { getTaxInvoice } from '../../utils/taxInvoice';
+import { getCompanySettings } from '../../utils/settings';
+import { PAYMENT_METHOD_LABELS } from '../../utils/paymentUtils';
+import { formatCurrency, numberToWords } from '../../utils/quotation';
+import { PDFService } from '../../utils/pdfService';
+import { useToast } from '../../hooks/useToast';
+
+interface CreditNoteModalProps {
+  creditNoteId: string;
+  onClose: () => void;
+}
+
+const CreditNoteModal: React.FC<CreditNoteModalProps> = ({ creditNoteId, onClose }) => {
+  const [note, setNote] = useState<CreditNote | null>(null);
+  const [invoice, setInvoice] = useState<TaxInvoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const company = getCompanySettings();
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchNote();
+  }, [creditNoteId]);
+
+  const fetchNote = async () => {
+    try {
+      setLoading(true);
+      const creditNote = await getCreditNote(creditNoteId);
+      setNote(creditNote);
+      setInvoice(creditNote?.tax_invoice_id ? await getTaxInvoice(creditNote.tax_invoice_id) : null);
+    } catch (error) {
+      console.error('Error fetching credit note:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load credit note',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pdfOptions = note && {
+    title: `Credit Note ${note.note_number}`,
+    filename: `CreditNote_${note.note_number.replace(/\//g, '-')}.pdf`,
+    contentId: 'credit-note-content'
+  };
+
+  const handleOutput = async (action: 'print' | 'share') => {
+    if (!pdfOptions) return;
+    try {
+      setBusy(true);
+      if (action === 'print') {
+        await PDFService.printContent(pdfOptions);
+      } else {
+        await PDFService.sharePDF(pdfOptions);
+      }
+    } catch (error) {
+      console.error('Error outputting credit note:', error);
+      addToast({
+        title: 'Error',
+        message: action === 'print' ? 'Failed to print credit note' : 'Failed to share credit note',
+        type: 'error'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const intraState = note?.supply_type === 'intra_state';
+  const taxed = !!note?.tax_invoice_id;
+  const payout = note ? Number(note.note_total) - Number(note.adjusted_amount) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <h3 className="text-lg font-semibold">Credit Note</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleOutput('share')}
+              disabled={!note || busy}
+              className="btn btn-secondary flex items-center gap-2"
+            >
+              <Share2 className="h-4 w-4" />
+              Share
+            </button>
+            <button
+              onClick={() => handleOutput('print')}
+              disabled={!note || busy}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              <Printer className="h-4 w-4" />
+              Print
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700 ml-2">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading credit note...</div>
+          ) : !note ? (
+            <div className="text-center py-8 text-gray-500">Credit note not found.</div>
+          ) : (
+            <div id="credit-note-content" className="bg-white p-6 text-sm space-y-4">
+              <div className="text-center border-b pb-3">
+                <h2 className="text-xl font-bold">{company.legal_name || company.name}</h2>
+                <p>{company.address}, {company.city}, {company.state} - {company.pincode}</p>
+                {taxed && <p>GSTIN: {company.gst_number || '—'} · PAN: {company.pan_number}</p>}
+                <p className="mt-2 text-base font-semibold tracking-wide">CREDIT NOTE</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500 uppercase">Issued to</p>
+                  <p className="font-medium">{note.buyer_name || 'Cash Customer'}</p>
+                  {invoice?.buyer_address && <p>{invoice.buyer_address}</p>}
+                  {note.buyer_gstin && <p>GSTIN: {note.buyer_gstin}</p>}
+                </div>
+                <div className="text-right">
+                  <p><span className="text-gray-500">Credit Note No:</span> <span className="font-medium">{note.note_number}</span></p>
+                  <p><span className="text-gray-500">Date:</span> {format(new Date(note.note_date), 'dd/MM/yyyy')}</p>
+                  {invoice && (
+                    <p>
+                      <span className="text-gray-500">Against invoice:</span> {invoice.invoice_number} of{' '}
+                      {format(new Date(invoice.invoice_date), 'dd/MM/yyyy')}
+                    </p>
+                  )}
+                  {note.place_of_supply && (
+                    <p><span className="text-gray-500">Place of supply:</span> {note.place_of_supply}</p>
+                  )}
+                </div>
+              </div>
+
+              <table className="w-full border">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs uppercase">
+                    <th className="border px-2 py-1">#</th>
+                    <th className="border px-2 py-1">Description</th>
+                    <th className="border px-2 py-1">HSN</th>
+                    <th className="border px-2 py-1 text-right">Qty</th>
+                    <th className="border px-2 py-1 text-right">Taxable</th>
+                    {taxed && (intraState ? (
+                      <>
+                        <th className="border px-2 py-1 text-right">CGST</th>
+                        <th className="border px-2 py-1 text-right">SGST</th>
+                      </>
+                    ) : (
+                      <th className="border px-2 py-1 text-right">IGST</th>
+                    ))}
+                    <th className="border px-2 py-1 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {note.lines.map((line, index) => (
+                    <tr key={index}>
+                      <td className="border px-2 py-1">{index + 1}</td>
+                      <td className="border px-2 py-1">
+                        {line.description}
+                        <div className="text-xs text-gray-500">{line.sku}</div>
+                      </td>
+                      <td className="border px-2 py-1">{line.hsn_code}</td>
+                      <td className="border px-2 py-1 text-right">{line.quantity}</td>
+                      <td className="border px-2 py-1 text-right">{formatCurrency(line.taxable_value)}</td>
+                      {taxed && (intraState ? (
+                        <>
+                          <td className="border px-2 py-1 text-right">{formatCurrency(line.cgst)}</td>
+                          <td className="border px-2 py-1 text-right">{formatCurrency(line.sgst)}</td>
+                        </>
+                      ) : (
+                        <td className="border px-2 py-1 text-right">{formatCurrency(line.igst)}</td>
+                      ))}
+                      <td className="border px-2 py-1 text-right">{formatCurrency(line.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-1 text-xs text-gray-600">
+                  {note.reason && <p><span className="text-gray-500">Reason:</span> {note.reason}</p>}
+                  {Number(note.adjusted_amount) > 0 && (
+                    <p>{formatCurrency(Number(note.adjusted_amount))} set against the balance due on the bill</p>
+                  )}
+                  {payout > 0 && (
+                    <p>
+                      {formatCurrency(payout)}{' '}
+                      {note.settlement === 'store_credit'
+                        ? 'held as store credit on the customer\'s account'
+                        : `refunded by ${note.refund_method ? PAYMENT_METHOD_LABELS[note.refund_method] : 'cash'}`}
+                      {note.refund_reference && ` (${note.refund_reference})`}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span>Taxable value</span>
+                    <span>{formatCurrency(Number(note.taxable_value))}</span>
+                  </div>
+                  {taxed && (intraState ? (
+                    <>
+                      <div className="flex justify-between">
+                        <span>CGST</span>
+                        <span>{formatCurrency(Number(note.cgst_amount))}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>SGST</span>
+                        <span>{formatCurrency(Number(note.sgst_amount))}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="flex justify-between">
+                      <span>IGST</span>
+                      <span>{formatCurrency(Number(note.igst_amount))}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-semibold text-base border-t pt-1">
+                    <span>Credit note total</span>
+                    <span>{formatCurrency(Number(note.note_total))}</span>
+                  </div>
+                  <p className="text-xs text-gray-600">{numberToWords(Number(note.note_total))} Only</p>
+                </div>
+              </div>
+
+              <div className="flex justify-between pt-8 text-xs text-gray-500">
+                <span>Customer signature</span>
+                <span>For {company.legal_name || company.name} — Authorised Signatory</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreditNoteModal;
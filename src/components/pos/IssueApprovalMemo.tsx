@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import { X, Scan, Trash2 } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import type { Customer, MetalRate, Product, ProductPiece } from '../../types';
+import { supabase } from '../../lib/supabase';
+import { findPieceForMemo, issueApprovalMemo } from '../../utils/approvalMemos';
+import { calculateMetalPrice, getCachedMetalRates } from '../../utils/metalRates';
+import { PIECE_STATUS_LABELS } from '../../utils/pieces';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+
+interface IssueApprovalMemoProps {
+  // Preselected when issuing from a customer's row
+  customerId?: string;
+  onClose: () => void;
+  onIssued: (memoId: string) => void;
+}
+
+interface MemoPiece {
+  piece: ProductPiece;
+  product: Product;
+  price: number;
+}
+
+const DEFAULT_APPROVAL_DAYS = 7;
+
+const IssueApprovalMemo: React.FC<IssueApprovalMemoProps> = ({ customerId, onClose, onIssued }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [toBroker, setToBroker] = useState(false);
+  const [memo, setMemo] = useState({
+    customer_id: customerId || '',
+    broker_name: '',
+    broker_phone: '',
+    due_date: format(addDays(new Date(), DEFAULT_APPROVAL_DAYS), 'yyyy-MM-dd'),
+    notes: ''
+  });
+  const [pieces, setPieces] = useState<MemoPiece[]>([]);
+  const [code, setCode] = useState('');
+  const [metalRates, setMetalRates] = useState<MetalRate[]>([]);
+  const [looking, setLooking] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchCustomers();
+    getCachedMetalRates()
+      .then(setMetalRates)
+      .catch(() => setMetalRates([]));
+  }, []);
+
+  const fetchCustomers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setCustomers(data || []);
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load customers',
+        type: 'error'
+      });
+    }
+  };
+
+  const customer = customers.find(c => c.id === memo.customer_id) || null;
+
+  // Wholesale customers and brokers see wholesale prices
+  const priceFor = (product: Product) => {
+    const metalPrice = calculateMetalPrice(product, metalRates);
+    if (metalPrice) return metalPrice.total;
+    return !toBroker && customer?.type === 'retailer'
+      ? Number(product.retailPrice)
+      : Number(product.wholesalePrice);
+  };
+
+  const handleAddPiece = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = code.trim();
+    if (!value) return;
+
+    try {
+      setLooking(true);
+      const found = await findPieceForMemo(value);
+      if (!found) {
+        addToast({ title: 'Not found', message: `No piece with serial or HUID ${value}`, type: 'error' });
+        return;
+      }
+      if (found.piece.status !== 'in_stock') {
+        addToast({
+          title: 'Not available',
+          message: `${found.piece.serial} is ${PIECE_STATUS_LABELS[found.piece.status].toLowerCase()}`,
+          type: 'error'
+        });
+        return;
+      }
+      if (pieces.some(item => item.piece.id === found.piece.id)) {
+        addToast({ title: 'Already added', message: `${found.piece.serial} is already on this memo`, type: 'info' });
+        return;
+      }
+
+      setPieces(prev => [...prev, { ...found, price: priceFor(found.product) }]);
+      setCode('');
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to look up the piece',
+        type: 'error'
+      });
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  const handleIssue = async () => {
+    if (toBroker ? !memo.broker_name.trim() : !memo.customer_id) {
+      addToast({
+        title: 'Missing details',
+        message: toBroker ? 'Enter the broker\'s name' : 'Choose the customer taking the pieces',
+        type: 'error'
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const issued = await issueApprovalMemo({
+        customer_id: toBroker ? null : memo.customer_id,
+        broker_name: toBroker ? memo.broker_name : '',
+        broker_phone: toBroker ? memo.broker_phone : '',
+        due_date: memo.due_date,
+        notes: memo.notes,
+        items: pieces.map(item => ({ piece_id: item.piece.id, price: item.price }))
+      });
+      addToast({
+        title: 'Memo issued',
+        message: `${issued.memo_number}: ${pieces.length} piece${pieces.length === 1 ? '' : 's'} out on approval`,
+        type: 'success'
+      });
+      onIssued(issued.id);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to issue memo',
+        type: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const total = pieces.reduce((sum, item) => sum + item.price, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <h3 className="text-lg font-semibold">Issue on Approval</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5">
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm w-fit">
+            {[false, true].map(broker => (
+              <button
+                key={String(broker)}
+                onClick={() => setToBroker(broker)}
+                className={`px-3 py-1.5 ${toBroker === broker ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                {broker ? 'Broker' : 'Customer'}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {toBroker ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Broker name</label>
+                  <input
+                    className="input"
+                    value={memo.broker_name}
+                    onChange={e => setMemo(prev => ({ ...prev, broker_name: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Broker phone</label>
+                  <input
+                    className="input"
+                    value={memo.broker_phone}
+                    onChange={e => setMemo(prev => ({ ...prev, broker_phone: e.target.value }))}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Customer</label>
+                <select
+                  className="input"
+                  value={memo.customer_id}
+                  onChange={e => setMemo(prev => ({ ...prev, customer_id: e.target.value }))}
+                >
+                  <option value="">Select a customer</option>
+                  {customers.map(c => (
+                    <option key={c.id} value={c.id}>{c.name} · {c.phone}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Due back by</label>
+              <input
+                type="date"
+                className="input"
+                value={memo.due_date}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={e => setMemo(prev => ({ ...prev, due_date: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                className="input"
+                value={memo.notes}
+                onChange={e => setMemo(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <form onSubmit={handleAddPiece} className="flex gap-2">
+            <div className="flex-1 relative">
+              <Scan className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <input
+                className="input pl-9"
+                placeholder="Scan or type a piece serial or HUID"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <button type="submit" disabled={looking || !code.trim()} className="btn btn-secondary">
+              {looking ? 'Looking up...' : 'Add'}
+            </button>
+          </form>
+
+          {pieces.length === 0 ? (
+            <div className="text-center py-6 text-gray-500 text-sm">No pieces added yet.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-3 py-2">Piece</th>
+                  <th className="px-3 py-2">Item</th>
+                  <th className="px-3 py-2 text-right">Weight</th>
+                  <th className="px-3 py-2 text-right">Price (₹)</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {pieces.map(item => (
+                  <tr key={item.piece.id}>
+                    <td className="px-3 py-2">
+                      <div className="font-mono">{item.piece.serial}</div>
+                      {item.piece.huid && <div className="text-xs text-gray-500">HUID {item.piece.huid}</div>}
+                    </td>
+                    <td className="px-3 py-2">{item.product.name || item.product.sku}</td>
+                    <td className="px-3 py-2 text-right">
+                      {item.piece.gross_weight ? `${Number(item.piece.gross_weight).toFixed(3)} g` : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="input w-32 text-right ml-auto"
+                        value={item.price || ''}
+                        onChange={e => setPieces(prev => prev.map(p =>
+                          p.piece.id === item.piece.id ? { ...p, price: Number(e.target.value) || 0 } : p
+                        ))}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => setPieces(prev => prev.filter(p => p.piece.id !== item.piece.id))}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between p-5 border-t">
+          <div className="text-sm text-gray-600">
+            {pieces.length} piece{pieces.length === 1 ? '' : 's'} · {formatCurrency(total)}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="btn btn-secondary">Cancel</button>
+            <button onClick={handleIssue} disabled={saving || pieces.length === 0} className="btn btn-primary">
+              {saving ? 'Issuing...' : 'Issue Memo'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IssueApprovalMemo;
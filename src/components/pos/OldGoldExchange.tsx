@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Recycle } from 'lucide-react';
+import type { MetalRate, MetalType } from '../../types';
+import { METAL_LABELS, PURITY_OPTIONS } from '../../utils/metalRates';
+import {
+  calculateOldGold,
+  getFineRate,
+  getOldGoldCredit,
+  validateOldGoldEntry,
+  type OldGoldEntry
+} from '../../utils/oldGold';
+import { formatCurrency } from '../../utils/quotation';
+
+interface OldGoldExchangeProps {
+  entries: OldGoldEntry[];
+  onChange: (entries: OldGoldEntry[]) => void;
+  metalRates: MetalRate[];
+  // Bill total the credit is set against; left out for a plain buyback
+  billTotal?: number;
+  title?: string;
+}
+
+// Old jewellery is usually the common wearing purity: 22K gold, 925 silver
+const emptyEntry = (metalRates: MetalRate[], metal: MetalType = 'gold'): OldGoldEntry => {
+  const typical = PURITY_OPTIONS[metal][1] || PURITY_OPTIONS[metal][0];
+  return {
+    description: '',
+    metal_type: metal,
+    gross_weight: 0,
+    less_weight: 0,
+    tested_purity: Math.round(typical.fineness * 1000) / 10,
+    melting_loss_percent: 0,
+    rate: getFineRate(metalRates, metal)
+  };
+};
+
+const OldGoldExchange: React.FC<OldGoldExchangeProps> = ({
+  entries,
+  onChange,
+  metalRates,
+  billTotal,
+  title = 'Old Gold Exchange'
+}) => {
+  const [draft, setDraft] = useState<OldGoldEntry>(() => emptyEntry(metalRates));
+  const [error, setError] = useState<string | null>(null);
+
+  // Rates load after the bill opens; pick them up until the rate is edited
+  useEffect(() => {
+    setDraft(prev => (prev.rate ? prev : { ...prev, rate: getFineRate(metalRates, prev.metal_type) }));
+  }, [metalRates]);
+
+  const credit = getOldGoldCredit(entries);
+  const preview = calculateOldGold(draft);
+
+  const handleMetalChange = (metal: MetalType) => {
+    setDraft(prev => ({ ...emptyEntry(metalRates, metal), description: prev.description, gross_weight: prev.gross_weight, less_weight: prev.less_weight }));
+  };
+
+  const handleAdd = () => {
+    const validation = validateOldGoldEntry(draft);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    if (billTotal !== undefined && credit + preview.value > billTotal) {
+      setError('Exchange value cannot be more than the bill; buy the rest back instead');
+      return;
+    }
+    setError(null);
+    onChange([...entries, draft]);
+    setDraft(emptyEntry(metalRates, draft.metal_type));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Recycle className="h-5 w-5 text-amber-600" />
+        <h3 className="font-semibold">{title}</h3>
+      </div>
+
+      {entries.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="px-2 py-2">Item</th>
+              <th className="px-2 py-2 text-right">Gross</th>
+              <th className="px-2 py-2 text-right">Net</th>
+              <th className="px-2 py-2 text-right">Purity</th>
+              <th className="px-2 py-2 text-right">Fine</th>
+              <th className="px-2 py-2 text-right">Rate</th>
+              <th className="px-2 py-2 text-right">Value</th>
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {entries.map((entry, index) => {
+              const result = calculateOldGold(entry);
+              return (
+                <tr key={index}>
+                  <td className="px-2 py-2">
+                    {entry.description || 'Old ornament'}
+                    <div className="text-xs text-gray-500">{METAL_LABELS[entry.metal_type]}</div>
+                  </td>
+                  <td className="px-2 py-2 text-right">{Number(entry.gross_weight).toFixed(3)} g</td>
+                  <td className="px-2 py-2 text-right">{result.netWeight.toFixed(3)} g</td>
+                  <td className="px-2 py-2 text-right">
+                    {entry.tested_purity}%
+                    {entry.melting_loss_percent > 0 && (
+                      <div className="text-xs text-gray-500">-{entry.melting_loss_percent}% loss</div>
+                    )}
+                  </td>
+                  <td className="px-2 py-2 text-right">{result.fineWeight.toFixed(3)} g</td>
+                  <td className="px-2 py-2 text-right">{formatCurrency(entry.rate)}</td>
+                  <td className="px-2 py-2 text-right font-medium">{formatCurrency(result.value)}</td>
+                  <td className="px-2 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => onChange(entries.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <input
+          type="text"
+          className="input col-span-2"
+          placeholder="Description (e.g. old bangle)"
+          value={draft.description}
+          onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+        />
+        <select
+          className="input"
+          value={draft.metal_type}
+          onChange={(e) => handleMetalChange(e.target.value as MetalType)}
+        >
+          {(Object.keys(METAL_LABELS) as MetalType[]).map(metal => (
+            <option key={metal} value={metal}>{METAL_LABELS[metal]}</option>
+          ))}
+        </select>
+        <label className="text-xs text-gray-500">
+          Gross weight (g)
+          <input
+            type="number"
+            className="input"
+            min="0"
+            step="0.001"
+            value={draft.gross_weight || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, gross_weight: Number(e.target.value) }))}
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Less weight (g)
+          <input
+            type="number"
+            className="input"
+            min="0"
+            step="0.001"
+            value={draft.less_weight || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, less_weight: Number(e.target.value) }))}
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Tested purity (%)
+          <input
+            type="number"
+            className="input"
+            min="0"
+            max="100"
+            step="0.01"
+            value={draft.tested_purity || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, tested_purity: Number(e.target.value) }))}
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Melting loss (%)
+          <input
+            type="number"
+            className="input"
+            min="0"
+            max="99"
+            step="0.01"
+            value={draft.melting_loss_percent || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, melting_loss_percent: Number(e.target.value) }))}
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Rate per fine gram
+          <input
+            type="number"
+            className="input"
+            min="0"
+            step="0.01"
+            value={draft.rate || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, rate: Number(e.target.value) }))}
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-500">
+          {preview.fineWeight > 0
+            ? `${preview.fineWeight.toFixed(3)} g fine · ${formatCurrency(preview.value)}`
+            : 'Enter weights and purity to value the item'}
+        </span>
+        <button type="button" onClick={handleAdd} className="btn btn-secondary flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Add Item
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="border-t pt-2 space-y-1 text-sm">
+          <div className="flex justify-between font-medium">
+            <span>{billTotal !== undefined ? 'Exchange credit' : 'Total value'}</span>
+            <span className="text-green-700">{billTotal !== undefined && '- '}{formatCurrency(credit)}</span>
+          </div>
+          {billTotal !== undefined && (
+            <div className="flex justify-between font-semibold">
+              <span>Net payable</span>
+              <span>{formatCurrency(Math.max(0, billTotal - credit))}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OldGoldExchange;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { X, Printer, Share2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { OldGoldItem, PaymentMethod } from '../../types';
+import { getOldGoldVoucher } from '../../utils/oldGold';
+import { getCompanySettings } from '../../utils/settings';
+import { METAL_LABELS } from '../../utils/metalRates';
+import { PAYMENT_METHOD_LABELS } from '../../utils/paymentUtils';
+import { formatCurrency, numberToWords } from '../../utils/quotation';
+import { PDFService } from '../../utils/pdfService';
+import { useToast } from '../../hooks/useToast';
+
+interface OldGoldVoucherModalProps {
+  voucherNumber: string;
+  onClose: () => void;
+}
+
+const OldGoldVoucherModal: React.FC<OldGoldVoucherModalProps> = ({ voucherNumber, onClose }) => {
+  const [items, setItems] = useState<OldGoldItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const company = getCompanySettings();
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchVoucher();
+  }, [voucherNumber]);
+
+  const fetchVoucher = async () => {
+    try {
+      setLoading(true);
+      setItems(await getOldGoldVoucher(voucherNumber));
+    } catch (error) {
+      console.error('Error fetching old gold voucher:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load voucher',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pdfOptions = {
+    title: `Old Gold Voucher ${voucherNumber}`,
+    filename: `Voucher_${voucherNumber}.pdf`,
+    contentId: 'old-gold-voucher-content'
+  };
+
+  const handleOutput = async (action: 'print' | 'share') => {
+    try {
+      setBusy(true);
+      if (action === 'print') {
+        await PDFService.printContent(pdfOptions);
+      } else {
+        await PDFService.sharePDF(pdfOptions);
+      }
+    } catch (error) {
+      console.error('Error outputting old gold voucher:', error);
+      addToast({
+        title: 'Error',
+        message: action === 'print' ? 'Failed to print voucher' : 'Failed to share voucher',
+        type: 'error'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const first = items[0];
+  const total = items.reduce((sum, item) => sum + Number(item.value), 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <h3 className="text-lg font-semibold">Old Gold Voucher</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleOutput('share')}
+              disabled={!first || busy}
+              className="btn btn-secondary flex items-center gap-2"
+            >
+              <Share2 className="h-4 w-4" />
+              Share
+            </button>
+            <button
+              onClick={() => handleOutput('print')}
+              disabled={!first || busy}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              <Printer className="h-4 w-4" />
+              Print
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700 ml-2">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading voucher...</div>
+          ) : !first ? (
+            <div className="text-center py-8 text-gray-500">Voucher not found.</div>
+          ) : (
+            <div id="old-gold-voucher-content" className="bg-white p-6 text-sm space-y-4">
+              <div className="text-center border-b pb-3">
+                <h2 className="text-xl font-bold">{company.legal_name || company.name}</h2>
+                <p>{company.address}, {company.city}, {company.state} - {company.pincode}</p>
+                <p className="mt-2 text-base font-semibold tracking-wide">
+                  {first.kind === 'exchange' ? 'OLD GOLD EXCHANGE VOUCHER' : 'OLD GOLD PURCHASE VOUCHER'}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500 uppercase">Received from</p>
+                  <p className="font-medium">{first.customer_name || 'Walk-in customer'}</p>
+                </div>
+                <div className="text-right">
+                  <p><span className="text-gray-500">Voucher No:</span> <span className="font-medium">{first.voucher_number}</span></p>
+                  <p><span className="text-gray-500">Date:</span> {format(new Date(first.created_at), 'dd/MM/yyyy')}</p>
+                </div>
+              </div>
+
+              <table className="w-full border">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs uppercase">
+                    <th className="border px-2 py-1">#</th>
+                    <th className="border px-2 py-1">Description</th>
+                    <th className="border px-2 py-1 text-right">Gross (g)</th>
+                    <th className="border px-2 py-1 text-right">Less (g)</th>
+                    <th className="border px-2 py-1 text-right">Net (g)</th>
+                    <th className="border px-2 py-1 text-right">Purity</th>
+                    <th className="border px-2 py-1 text-right">Loss</th>
+                    <th className="border px-2 py-1 text-right">Fine (g)</th>
+                    <th className="border px-2 py-1 text-right">Rate</th>
+                    <th className="border px-2 py-1 text-right">Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item, index) => (
+                    <tr key={item.id}>
+                      <td className="border px-2 py-1">{index + 1}</td>
+                      <td className="border px-2 py-1">
+                        {item.description}
+                        <div className="text-xs text-gray-500">{METAL_LABELS[item.metal_type]}</div>
+                      </td>
+                      <td className="border px-2 py-1 text-right">{Number(item.gross_weight).toFixed(3)}</td>
+                      <td className="border px-2 py-1 text-right">{Number(item.less_weight).toFixed(3)}</td>
+                      <td className="border px-2 py-1 text-right">{Number(item.net_weight).toFixed(3)}</td>
+                      <td className="border px-2 py-1 text-right">{Number(item.tested_purity)}%</td>
+                      <td className="border px-2 py-1 text-right">{Number(item.melting_loss_percent)}%</td>
+                      <td className="border px-2 py-1 text-right">{Number(item.fine_weight).toFixed(3)}</td>
+                      <td className="border px-2 py-1 text-right">{formatCurrency(Number(item.rate))}</td>
+                      <td className="border px-2 py-1 text-right">{formatCurrency(Number(item.value))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex justify-end">
+                <div className="w-64 space-y-1">
+                  <div className="flex justify-between font-semibold text-base border-t pt-1">
+                    <span>{first.kind === 'exchange' ? 'Credited to bill' : 'Amount paid'}</span>
+                    <span>{formatCurrency(total)}</span>
+                  </div>
+                  {first.payout_method && (
+                    <p className="text-xs text-gray-600 text-right">
+                      Paid by {PAYMENT_METHOD_LABELS[first.payout_method as PaymentMethod] || first.payout_method}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-600">{numberToWords(total)} Only</p>
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                I confirm the above articles are my own property and that I have sold them at the weights,
+                purity and rate shown.
+              </p>
+
+              <div className="flex justify-between pt-8 text-xs text-gray-500">
+                <span>Customer signature</span>
+                <span>For {company.legal_name || company.name} — Authorised Signatory</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OldGoldVoucherModal;
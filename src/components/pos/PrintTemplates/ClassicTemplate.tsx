@@ -3,7 +3,8 @@ import { Diamond } from 'lucide-react';
 import { format } from 'date-fns';
 import { getCompanySettings } from '../../../utils/settings';
 import type { PrintTemplatesProps } from './types';
-import { calculateTotals, formatCurrency } from '../../../utils/quotation';
+import { calculateTotals, formatGSTRates, formatCurrency } from '../../../utils/quotation';
+import UpiQRCode from '../UpiQRCode';
 
 const ClassicTemplate: React.FC<PrintTemplatesProps> = ({
   items,
@@ -13,10 +14,11 @@ const ClassicTemplate: React.FC<PrintTemplatesProps> = ({
   discount,
   videoCall,
   quotationNumber,
-  gstRate
+  gstRate,
+  gstRates
 }) => {
   const companySettings = getCompanySettings();
-  const totals = calculateTotals(items, discount, gstRate);
+  const totals = calculateTotals(items, discount, gstRate, true, null, gstRates);
 
   return (
     <div className="print-content font-serif">
@@ -76,7 +78,7 @@ const ClassicTemplate: React.FC<PrintTemplatesProps> = ({
         )}
         
         <div className="flex justify-between items-center py-1">
-          <span className="text-gray-600">GST ({gstRate}%):</span>
+          <span className="text-gray-600">GST ({formatGSTRates(totals.gstBreakdown, gstRate)}):</span>
           <span className="font-mono">{formatCurrency(totals.gstAmount)}</span>
         </div>
         
@@ -86,6 +88,8 @@ const ClassicTemplate: React.FC<PrintTemplatesProps> = ({
         </div>
       </div>
 
+      <UpiQRCode amount={totals.finalTotal} reference={quotationNumber} className="mt-8" />
+
       {/* Footer */}
       <div className="mt-12 pt-4 border-t border-gray-200 text-xs text-gray-500 text-center">
         <p>This is a computer generated quotation</p>
@@ -2,7 +2,9 @@ import React from 'react';
 import { format } from 'date-fns';
 import { getCompanySettings } from '../../../utils/settings';
 import type { PrintTemplatesProps } from './types';
-import { calculateTotals } from '../../../utils/quotation';
+import { calculateTotals, formatGSTRates } from '../../../utils/quotation';
+import ItemPriceBreakdown from './ItemPriceBreakdown';
+import UpiQRCode from '../UpiQRCode';
 
 const CompactTemplate: React.FC<PrintTemplatesProps> = ({
   items,
@@ -11,10 +13,11 @@ const CompactTemplate: React.FC<PrintTemplatesProps> = ({
   customer,
   discount,
   quotationNumber,
-  gstRate
+  gstRate,
+  gstRates
 }) => {
   const companySettings = getCompanySettings();
-  const totals = calculateTotals(items, discount, gstRate);
+  const totals = calculateTotals(items, discount, gstRate, true, null, gstRates);
 
   return (
     <div className="print-content font-mono text-[7pt] leading-none">
@@ -57,7 +60,10 @@ const CompactTemplate: React.FC<PrintTemplatesProps> = ({
         <tbody className="divide-y divide-dotted">
           {items.map((item, index) => (
             <tr key={index}>
-              <td className="py-0">{item.product.category}</td>
+              <td className="py-0">
+                {item.product.category}
+                <ItemPriceBreakdown breakdown={item.breakdown} className="text-[4pt]" />
+              </td>
               <td className="text-right">{item.quantity}</td>
               <td className="text-right">{item.price.toFixed(2)}</td>
               <td className="text-right">{(item.price * item.quantity).toFixed(2)}</td>
@@ -80,7 +86,7 @@ const CompactTemplate: React.FC<PrintTemplatesProps> = ({
             </div>
           )}
           <div className="flex justify-between">
-            <span>GST{gstRate}%:</span>
+            <span>GST {formatGSTRates(totals.gstBreakdown, gstRate)}:</span>
             <span>{totals.gstAmount.toFixed(2)}</span>
           </div>
           <div className="flex justify-between font-bold text-[6pt] border-t border-dotted pt-0.5">
@@ -90,6 +96,8 @@ const CompactTemplate: React.FC<PrintTemplatesProps> = ({
         </div>
       </div>
 
+      <UpiQRCode amount={totals.finalTotal} reference={quotationNumber} size={56} className="mt-0.5" />
+
       {/* Footer */}
       <div className="mt-0.5 pt-0.5 border-t border-dotted text-center text-[4pt]">
         <div>Thank You!</div>
@@ -2,7 +2,11 @@ import React from 'react';
 import { format } from 'date-fns';
 import { getCompanySettings } from '../../../utils/settings';
 import type { PrintTemplatesProps } from './types';
-import { calculateTotals } from '../../../utils/quotation';
+import { calculateTotals, formatGSTRates } from '../../../utils/quotation';
+import ItemPriceBreakdown from './ItemPriceBreakdown';
+import type { StoneComponent } from '../../../types';
+import { formatStone } from '../../../utils/stones';
+import UpiQRCode from '../UpiQRCode';
 
 const DetailedTemplate: React.FC<PrintTemplatesProps> = ({
   items,
@@ -11,10 +15,11 @@ const DetailedTemplate: React.FC<PrintTemplatesProps> = ({
   customer,
   discount,
   quotationNumber,
-  gstRate
+  gstRate,
+  gstRates
 }) => {
   const companySettings = getCompanySettings();
-  const totals = calculateTotals(items, discount, gstRate);
+  const totals = calculateTotals(items, discount, gstRate, true, null, gstRates);
 
   // Calculate category totals
   const categoryTotals = items.reduce((acc, item) => {
@@ -88,6 +93,16 @@ const DetailedTemplate: React.FC<PrintTemplatesProps> = ({
                 {item.product.description && (
                   <div className="text-[7pt] text-gray-600">{item.product.description}</div>
                 )}
+                {item.product.stones?.map((stone: StoneComponent) => (
+                  <div key={stone.id} className="text-[7pt] text-gray-600">
+                    {formatStone(stone)}
+                    {stone.certificateNumber && ` • Cert ${stone.certificateNumber}`}
+                  </div>
+                ))}
+                <ItemPriceBreakdown breakdown={item.breakdown} />
+                {item.huids && item.huids.length > 0 && (
+                  <div className="text-[7pt] font-mono">HUID: {item.huids.join(', ')}</div>
+                )}
               </td>
               <td className="py-2 text-right align-top">{item.quantity}</td>
               <td className="py-2 text-right align-top">{item.price.toFixed(2)}</td>
@@ -139,7 +154,7 @@ const DetailedTemplate: React.FC<PrintTemplatesProps> = ({
               <span>-{totals.discountAmount.toFixed(2)}</span>
             </div>
             <div className="flex justify-between">
-              <span>GST ({gstRate}%):</span>
+              <span>GST ({formatGSTRates(totals.gstBreakdown, gstRate)}):</span>
               <span>{totals.gstAmount.toFixed(2)}</span>
             </div>
             <div className="flex justify-between font-bold text-[12pt] border-t pt-2">
@@ -161,6 +176,8 @@ const DetailedTemplate: React.FC<PrintTemplatesProps> = ({
         </ol>
       </div>
 
+      <UpiQRCode amount={totals.finalTotal} reference={quotationNumber} size={80} className="mt-4" />
+
       {/* Footer */}
       <div className="mt-4 pt-2 border-t text-center text-[8pt]">
         <div className="font-bold mb-1">Thank you for your business!</div>
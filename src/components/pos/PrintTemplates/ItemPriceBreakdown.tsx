@@ -0,0 +1,34 @@
+import React from 'react';
+import type { PriceBreakdown } from '../../../types';
+import { formatMakingCharge } from '../../../utils/markupSettings';
+
+interface ItemPriceBreakdownProps {
+  breakdown?: PriceBreakdown | null;
+  className?: string;
+}
+
+// Metal, wastage, making and stone lines for pieces priced from the metal rate
+const ItemPriceBreakdown: React.FC<ItemPriceBreakdownProps> = ({ breakdown, className = 'text-[7pt] text-gray-600' }) => {
+  if (!breakdown) return null;
+
+  return (
+    <div className={className}>
+      <div>
+        Metal: {breakdown.netWeight}g × {breakdown.ratePerGram.toFixed(2)} = {breakdown.metalValue.toFixed(2)}
+      </div>
+      {breakdown.wastageValue > 0 && (
+        <div>Wastage ({breakdown.wastagePercent}%): {breakdown.wastageValue.toFixed(2)}</div>
+      )}
+      {breakdown.makingCharges > 0 && (
+        <div>
+          Making ({formatMakingCharge(breakdown.makingChargeType, breakdown.makingChargeValue)}): {breakdown.makingCharges.toFixed(2)}
+        </div>
+      )}
+      {breakdown.stoneValue > 0 && (
+        <div>Stones: {breakdown.stoneValue.toFixed(2)}</div>
+      )}
+    </div>
+  );
+};
+
+export default ItemPriceBreakdown;
@@ -2,8 +2,9 @@ import React from 'react';
 import { Diamond } from 'lucide-react';
 import { format } from 'date-fns';
 import { getCompanySettings } from '../../../utils/settings';
-import { calculateTotals, formatCurrency } from '../../../utils/quotation';
+import { calculateTotals, formatGSTRates, formatCurrency } from '../../../utils/quotation';
 import type { PrintTemplatesProps } from './types';
+import UpiQRCode from '../UpiQRCode';
 
 const MinimalTemplate: React.FC<PrintTemplatesProps> = ({
   items,
@@ -13,10 +14,11 @@ const MinimalTemplate: React.FC<PrintTemplatesProps> = ({
   discount,
   videoCall,
   quotationNumber,
-  gstRate
+  gstRate,
+  gstRates
 }) => {
   const companySettings = getCompanySettings();
-  const totals = calculateTotals(items, discount, gstRate);
+  const totals = calculateTotals(items, discount, gstRate, true, null, gstRates);
 
   return (
     <div className="print-content font-sans">
@@ -77,7 +79,7 @@ const MinimalTemplate: React.FC<PrintTemplatesProps> = ({
         )}
         
         <div className="flex justify-between items-center py-1">
-          <span className="text-gray-600">GST ({gstRate}%):</span>
+          <span className="text-gray-600">GST ({formatGSTRates(totals.gstBreakdown, gstRate)}):</span>
           <span className="font-mono">{formatCurrency(totals.gstAmount)}</span>
         </div>
         
@@ -106,6 +108,8 @@ const MinimalTemplate: React.FC<PrintTemplatesProps> = ({
         </div>
       </div>
 
+      <UpiQRCode amount={totals.finalTotal} reference={quotationNumber} className="mt-8" />
+
       {/* Footer */}
       <div className="mt-12 pt-4 border-t border-gray-200 text-xs text-gray-500 text-center">
         <p>This is a computer generated quotation</p>
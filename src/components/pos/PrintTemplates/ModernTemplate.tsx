@@ -2,8 +2,10 @@ import React from 'react';
 import { Diamond } from 'lucide-react';
 import { format } from 'date-fns';
 import { getCompanySettings } from '../../../utils/settings';
-import { calculateTotals, formatCurrency } from '../../../utils/quotation';
+import { calculateTotals, formatGSTRates, formatCurrency } from '../../../utils/quotation';
 import type { PrintTemplatesProps } from './types';
+import ItemPriceBreakdown from './ItemPriceBreakdown';
+import UpiQRCode from '../UpiQRCode';
 
 const ModernTemplate: React.FC<PrintTemplatesProps> = ({
   items,
@@ -13,10 +15,11 @@ const ModernTemplate: React.FC<PrintTemplatesProps> = ({
   discount,
   videoCall,
   quotationNumber,
-  gstRate
+  gstRate,
+  gstRates
 }) => {
   const companySettings = getCompanySettings();
-  const totals = calculateTotals(items, discount, gstRate);
+  const totals = calculateTotals(items, discount, gstRate, true, null, gstRates);
 
   return (
     <div className="print-content font-sans">
@@ -40,7 +43,10 @@ const ModernTemplate: React.FC<PrintTemplatesProps> = ({
         <tbody className="divide-y divide-gray-100">
           {items.map((item, index) => (
             <tr key={index} className="text-sm">
-              <td className="py-3">{item.product.category}</td>
+              <td className="py-3">
+                {item.product.category}
+                <ItemPriceBreakdown breakdown={item.breakdown} className="text-xs text-gray-500" />
+              </td>
               <td className="py-3 font-mono">
                 {item.product.sku.split('').map((char, i) => {
                   const isBold = /\d/.test(char) && /\d/.test(item.product.sku[i + 1]);
@@ -76,7 +82,7 @@ const ModernTemplate: React.FC<PrintTemplatesProps> = ({
         )}
         
         <div className="flex justify-between items-center py-1">
-          <span className="text-gray-600">GST ({gstRate}%):</span>
+          <span className="text-gray-600">GST ({formatGSTRates(totals.gstBreakdown, gstRate)}):</span>
           <span className="font-mono">{formatCurrency(totals.gstAmount)}</span>
         </div>
         
@@ -86,6 +92,8 @@ const ModernTemplate: React.FC<PrintTemplatesProps> = ({
         </div>
       </div>
 
+      <UpiQRCode amount={totals.finalTotal} reference={quotationNumber} className="mt-8" />
+
       {/* Footer */}
       <div className="mt-12 pt-4 border-t border-gray-200 text-xs text-gray-500 text-center">
         <p>This is a computer generated quotation</p>
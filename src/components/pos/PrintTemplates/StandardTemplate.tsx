@@ -2,7 +2,9 @@ import React from 'react';
 import { format } from 'date-fns';
 import { getCompanySettings } from '../../../utils/settings';
 import type { PrintTemplatesProps } from './types';
-import { calculateTotals } from '../../../utils/quotation';
+import { calculateTotals, formatGSTRates } from '../../../utils/quotation';
+import ItemPriceBreakdown from './ItemPriceBreakdown';
+import UpiQRCode from '../UpiQRCode';
 
 const StandardTemplate: React.FC<PrintTemplatesProps> = ({
   items,
@@ -11,10 +13,11 @@ const StandardTemplate: React.FC<PrintTemplatesProps> = ({
   customer,
   discount,
   quotationNumber,
-  gstRate
+  gstRate,
+  gstRates
 }) => {
   const companySettings = getCompanySettings();
-  const totals = calculateTotals(items, discount, gstRate);
+  const totals = calculateTotals(items, discount, gstRate, true, null, gstRates);
 
   // Calculate category totals
   const categoryTotals = items.reduce((acc, item) => {
@@ -73,6 +76,10 @@ const StandardTemplate: React.FC<PrintTemplatesProps> = ({
               <td className="py-1">
                 <div>{item.product.category}</div>
                 <div className="text-[7pt] text-gray-600">{item.product.sku}</div>
+                <ItemPriceBreakdown breakdown={item.breakdown} />
+                {item.huids && item.huids.length > 0 && (
+                  <div className="text-[7pt] font-mono">HUID: {item.huids.join(', ')}</div>
+                )}
               </td>
               <td className="py-1 text-right">{item.quantity}</td>
               <td className="py-1 text-right">{item.price.toFixed(2)}</td>
@@ -114,7 +121,7 @@ const StandardTemplate: React.FC<PrintTemplatesProps> = ({
               <span>-{totals.discountAmount.toFixed(2)}</span>
             </div>
             <div className="flex justify-between">
-              <span>GST ({gstRate}%):</span>
+              <span>GST ({formatGSTRates(totals.gstBreakdown, gstRate)}):</span>
               <span>{totals.gstAmount.toFixed(2)}</span>
             </div>
             <div className="flex justify-between font-bold text-[10pt] border-t pt-1">
@@ -125,6 +132,8 @@ const StandardTemplate: React.FC<PrintTemplatesProps> = ({
         </div>
       </div>
 
+      <UpiQRCode amount={totals.finalTotal} reference={quotationNumber} size={72} className="mt-3" />
+
       {/* Footer */}
       <div className="mt-3 pt-2 border-t text-center text-[7pt] text-gray-600">
         <div>Thank you for your business!</div>
@@ -3,7 +3,9 @@ import { format } from 'date-fns';
 import { QRCodeSVG } from 'qrcode.react';
 import { getCompanySettings, getPrintSettings } from '../../../utils/settings';
 import type { PrintTemplatesProps } from './types';
-import { calculateTotals, numberToWords } from '../../../utils/quotation';
+import { calculateTotals, formatGSTRates, numberToWords } from '../../../utils/quotation';
+import ItemPriceBreakdown from './ItemPriceBreakdown';
+import UpiQRCode from '../UpiQRCode';
 
 const ThermalTemplate: React.FC<PrintTemplatesProps> = ({
   items,
@@ -13,11 +15,12 @@ const ThermalTemplate: React.FC<PrintTemplatesProps> = ({
   discount,
   quotationNumber,
   gstRate,
+  gstRates,
   includeGst = true
 }) => {
   const companySettings = getCompanySettings();
   const printSettings = getPrintSettings();
-  const totals = calculateTotals(items, discount, gstRate, includeGst);
+  const totals = calculateTotals(items, discount, gstRate, includeGst, null, gstRates);
 
   // Calculate category totals with memoization
   const categoryTotals = React.useMemo(() => {
@@ -79,6 +82,7 @@ const ThermalTemplate: React.FC<PrintTemplatesProps> = ({
             <td>
               <div>{item.product.category}</div>
               <div className="text-xs text-gray-600">{item.product.sku}</div>
+              <ItemPriceBreakdown breakdown={item.breakdown} className="text-xs text-gray-600" />
             </td>
             <td className="text-right">{item.quantity}</td>
             <td className="text-right">{item.price.toFixed(2)}</td>
@@ -121,7 +125,7 @@ const ThermalTemplate: React.FC<PrintTemplatesProps> = ({
       )}
       {includeGst && (
         <div className="flex justify-between text-sm">
-          <span>GST ({gstRate}%):</span>
+          <span>GST ({formatGSTRates(totals.gstBreakdown, gstRate)}):</span>
           <span>{totals.gstAmount.toFixed(2)}</span>
         </div>
       )}
@@ -147,6 +151,7 @@ const ThermalTemplate: React.FC<PrintTemplatesProps> = ({
           <div className="text-xs whitespace-pre-line">{printSettings.termsText}</div>
         </div>
       )}
+      <UpiQRCode amount={totals.finalTotal} reference={quotationNumber} size={100} className="border-t pt-2" />
       <div className="border-t pt-2">
         <div>Thank You for Your Business!</div>
         <div className="flex justify-center mt-2">
@@ -1,5 +1,5 @@
 import React from 'react';
-import type { QuotationItem, Customer, VideoCall } from '../../../types';
+import type { QuotationItem, Customer, VideoCall, GSTRate } from '../../../types';
 import ThermalTemplate from './ThermalTemplate';
 import CompactTemplate from './CompactTemplate';
 import StandardTemplate from './StandardTemplate';
@@ -18,6 +18,7 @@ interface PrintTemplatesProps {
   videoCall?: VideoCall | null;
   quotationNumber: string;
   gstRate: number;
+  gstRates?: GSTRate[];
   template: PrintTemplate;
   includeGst?: boolean;
 }
@@ -1,4 +1,4 @@
-import type { QuotationItem, Customer, VideoCall } from '../../../types';
+import type { QuotationItem, Customer, VideoCall, GSTRate } from '../../../types';
 
 export interface PrintTemplatesProps {
   items: QuotationItem[];
@@ -9,5 +9,7 @@ export interface PrintTemplatesProps {
   videoCall?: VideoCall | null;
   quotationNumber: string;
   gstRate: number;
+  // Per-category rates; lines in unmapped categories use gstRate
+  gstRates?: GSTRate[];
   includeGst?: boolean;
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import React, { useRef, useEffect, useState } from 'react';
 import ProductSearch from './ProductSearch';
-import type { Product } from '../../types';
+import type { Product, ProductPiece } from '../../types';
 import { processScannedSku } from '../../utils/scannerUtils'; 
 import { X, Search, Phone, User } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
@@ -10,7 +10,7 @@ interface ProductScannerProps {
   scanning: boolean;
   scannedSku: string;
   onScannedSkuChange: (sku: string) => void;
-  onProductSelect: (product: Product) => void;
+  onProductSelect: (product: Product, piece?: ProductPiece) => void;
   onCustomerSelect?: (customer: any) => void;
   bulkMode?: boolean;
   onBulkScan?: (items: Array<{sku: string, quantity: number}>) => void;
@@ -3,6 +3,7 @@ import { Search } from 'lucide-react';
 import type { Product } from '../../types';
 import { supabase } from '../../lib/supabase';
 import debounce from '../../utils/debounce';
+import { mapStones } from '../../utils/stones';
 
 interface ProductSearchProps {
   onSelect: (product: Product) => void;
@@ -47,7 +48,17 @@ const ProductSearch: React.FC<ProductSearchProps> = ({ onSelect }) => {
           qrCode: item.qr_code || '',
           code128: item.code128 || '',
           cipher: item.cipher || '',
-          additionalInfo: item.additional_info || ''
+          additionalInfo: item.additional_info || '',
+          metalType: item.metal_type,
+          purity: item.purity,
+          grossWeight: item.gross_weight ? Number(item.gross_weight) : null,
+          netWeight: item.net_weight ? Number(item.net_weight) : null,
+          makingCharges: Number(item.making_charges) || 0,
+          makingChargeType: item.making_charge_type || 'per_piece',
+          wastagePercent: Number(item.wastage_percent) || 0,
+          stones: mapStones(item.stones),
+          huids: item.huids || [],
+          pricingMode: item.pricing_mode || 'fixed'
         }));
 
         setSearchResults(formattedData);
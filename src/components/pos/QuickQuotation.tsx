@@ -7,6 +7,7 @@ import ItemsTable from './QuickQuotation/components/ItemsTable';
 import OrderSummary from './QuickQuotation/components/OrderSummary';
 import PrintPreview from './QuickQuotation/components/PrintPreview';
 import CounterSaleModal from './QuickQuotation/components/CounterSaleModal';
+import TaxInvoiceModal from './TaxInvoiceModal';
 import { useScanningMode } from '../../hooks/useScanningMode';
 
 const QuickQuotation = () => {
@@ -124,6 +125,7 @@ const QuickQuotation = () => {
           totals={state.totals}
           discount={state.discount}
           gstRate={state.gstRate}
+          gstRates={state.gstRates}
           includeGst={state.includeGst}
         />
       )}
@@ -137,6 +139,10 @@ const QuickQuotation = () => {
           includeGst={state.includeGst}
         />
       )}
+
+      {state.invoiceId && (
+        <TaxInvoiceModal invoiceId={state.invoiceId} onClose={() => actions.setInvoiceId(null)} />
+      )}
     </div>
   );
 };
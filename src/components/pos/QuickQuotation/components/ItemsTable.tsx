@@ -1,7 +1,8 @@
 import React from 'react';
 import { Plus, Minus, Trash2, Box, AlertTriangle, QrCode } from 'lucide-react';
-import type { QuotationItem } from '../../../../types';
+import type { QuotationItem, StoneComponent } from '../../../../types';
 import { formatCurrency } from '../../../../utils/quotation';
+import { formatStone } from '../../../../utils/stones';
 import { useSearchParams } from 'react-router-dom';
 
 interface ItemsTableProps {
@@ -62,6 +63,12 @@ const ItemsTable: React.FC<ItemsTableProps> = ({
                     (₹{Math.round(item.originalPrice).toLocaleString()})
                   </span>
                 </div>
+                {item.product.stones?.map((stone: StoneComponent) => (
+                  <div key={stone.id} className="text-xs text-gray-500">
+                    {formatStone(stone)}
+                    {stone.certificateNumber && <span className="ml-1 font-mono">#{stone.certificateNumber}</span>}
+                  </div>
+                ))}
               </td>
               <td className="px-6 py-4">
                 {item.product.imageUrl ? (
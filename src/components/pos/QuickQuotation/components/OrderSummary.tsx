@@ -1,6 +1,6 @@
 import React from 'react';
 import { Calculator } from 'lucide-react';
-import { formatCurrency } from '../../../../utils/quotation';
+import { formatCurrency, formatGSTRates, type GSTBreakdownRow } from '../../../../utils/quotation';
 
 interface OrderSummaryProps {
   totals: {
@@ -9,6 +9,7 @@ interface OrderSummaryProps {
     total: number;
     gstAmount: number;
     finalTotal: number;
+    gstBreakdown?: GSTBreakdownRow[];
   };
   discount: number;
   gstRate: number;
@@ -200,7 +201,7 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
           )}
           
           {includeGst && <div className="flex justify-between text-sm">
-            <span className="text-gray-600">GST ({gstRate}%):</span>
+            <span className="text-gray-600">GST ({formatGSTRates(totals.gstBreakdown, gstRate)}):</span>
             <span>{formatCurrency(totals.gstAmount)}</span>
           </div>}
           {includeGst && gstError && (
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { X, Share2, Printer } from 'lucide-react';
-import type { Customer, VideoCall, QuotationItem } from '../../../../types';
+import type { Customer, VideoCall, QuotationItem, GSTRate } from '../../../../types';
 import PrintTemplates, { PrintTemplate } from '../../PrintTemplates';
 import PrintTemplateSelector from '../../PrintTemplateSelector';
 import { PDFService } from '../../../../utils/pdfService';
@@ -22,6 +22,7 @@ interface PrintPreviewProps {
   };
   discount: number;
   gstRate: number;
+  gstRates?: GSTRate[];
   includeGst: boolean;
 }
 
@@ -34,6 +35,7 @@ const PrintPreview: React.FC<PrintPreviewProps> = ({
   totals,
   discount,
   gstRate,
+  gstRates,
   includeGst
 }) => {
   const [selectedTemplate, setSelectedTemplate] = useState<PrintTemplate>('thermal');
@@ -167,6 +169,7 @@ const PrintPreview: React.FC<PrintPreviewProps> = ({
                 videoCall={videoCall}
                 quotationNumber={quotationNumber}
                 gstRate={gstRate}
+                gstRates={gstRates}
                 template={selectedTemplate}
                 includeGst={includeGst}
               />
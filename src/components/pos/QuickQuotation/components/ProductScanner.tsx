@@ -1,13 +1,13 @@
 import React, { useRef, useEffect } from 'react';
 import ProductSearch from '../../ProductSearch';
-import type { Product } from '../../../../types';
+import type { Product, ProductPiece } from '../../../../types';
 import { processScannedSku } from '../../../../utils/scannerUtils';
 
 interface ProductScannerProps {
   scanning: boolean;
   scannedSku: string;
   onScannedSkuChange: (sku: string) => void;
-  onProductSelect: (product: Product) => void;
+  onProductSelect: (product: Product, piece?: ProductPiece) => void;
 }
 
 const ProductScanner: React.FC<ProductScannerProps> = ({
@@ -2,11 +2,18 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import Swal from 'sweetalert2';
 import { supabase, fetchWithRetry } from '../../../../lib/supabase';
-import type { Product, Customer, VideoCall } from '../../../../types';
-import { getCachedGSTRate } from '../../../../utils/gstUtils';
+import type { Product, ProductPiece, Customer, VideoCall, GSTRate, MetalRate } from '../../../../types';
+import { getCachedGSTRates, resolveGSTRate } from '../../../../utils/gstUtils';
 import type { QuickQuotationState, QuickQuotationActions } from '../types';
-import { generateQuotationNumber, calculateTotals } from '../../../../utils/quotation';
+import { generateQuotationNumber, calculateTotals, formatCurrency } from '../../../../utils/quotation';
 import { completeSale } from '../../../../utils/saleUtils';
+import { checkCreditLimit } from '../../../../utils/receivables';
+import { buildTaxInvoice, getHsnCodes } from '../../../../utils/taxInvoice';
+import { getCachedMetalRates, calculateMetalPrice, repriceItems } from '../../../../utils/metalRates';
+import { getOldGoldCredit, type OldGoldEntry } from '../../../../utils/oldGold';
+import { loadSavedQuotation } from '../../../../utils/quotationUtils';
+import { completeWorkflowStep } from '../../../../utils/workflowUtils';
+import { pickHuid } from '../../../../utils/hallmark';
 
 export const useQuickQuotation = (): { 
   state: QuickQuotationState; 
@@ -24,25 +31,38 @@ export const useQuickQuotation = (): {
   const [isCounterSale, setIsCounterSale] = useState(true);
   const [discount, setDiscount] = useState(0);
   const [gstRate, setGstRate] = useState<number>(18);
+  const [gstRates, setGstRates] = useState<GSTRate[]>([]);
   const [showCounterSaleModal, setShowCounterSaleModal] = useState(false);
   const [includeGst, setIncludeGst] = useState(true);
   const [gstError, setGstError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
-  const [counterSaleDetails, setCounterSaleDetails] = useState({
+  const [counterSaleDetails, setCounterSaleDetails] = useState<QuickQuotationState['counterSaleDetails']>({
     buyerName: '',
     buyerPhone: '',
     deliveryMethod: 'hand_carry',
     paymentStatus: 'paid',
-    paidAmount: 0
+    paidAmount: 0,
+    tenders: [{ method: 'cash', amount: 0 }]
   });
   const [quotationNumber, setQuotationNumber] = useState(generateQuotationNumber());
+  const [saleKey, setSaleKey] = useState(() => crypto.randomUUID());
+  const [hsnCodes, setHsnCodes] = useState<Record<string, string>>({});
+  const [invoiceId, setInvoiceId] = useState<string | null>(null);
+  const [oldGold, setOldGold] = useState<OldGoldEntry[]>([]);
+  const [voucherNumber, setVoucherNumber] = useState<string | null>(null);
+  // Prices metal-rate items and values old gold taken in exchange
+  const [metalRates, setMetalRates] = useState<MetalRate[]>([]);
+  // The call's draft quotation (e.g. from its showcase shortlist), saved over instead of duplicated
+  const [draftQuotationId, setDraftQuotationId] = useState<string | null>(null);
 
   // Calculate totals
-  const totals = React.useMemo(() => calculateTotals(items, discount, gstRate, includeGst), [
+  const totals = React.useMemo(() => calculateTotals(items, discount, gstRate, includeGst, metalRates, gstRates), [
     items,
     discount,
     gstRate,
-    includeGst
+    includeGst,
+    metalRates,
+    gstRates
   ]);
 
   // Fetch initial data
@@ -59,6 +79,12 @@ export const useQuickQuotation = (): {
     }
     fetchCustomers();
     fetchGSTRate();
+    getHsnCodes()
+      .then(setHsnCodes)
+      .catch(() => setHsnCodes({}));
+    getCachedMetalRates()
+      .then(setMetalRates)
+      .catch(() => setMetalRates([]));
 
     // If readonly mode, disable editing
     if (readonly) {
@@ -66,6 +92,27 @@ export const useQuickQuotation = (): {
     }
   }, [searchParams]);
 
+  // Keep line prices in step with the rate in force
+  useEffect(() => {
+    if (metalRates.length > 0) {
+      setItems(prev => repriceItems(prev, metalRates));
+    }
+  }, [metalRates]);
+
+  // Pick up a draft already started for the call
+  useEffect(() => {
+    const quotationId = videoCall?.quotation_id;
+    if (!quotationId) return;
+
+    loadSavedQuotation(quotationId).then(({ data }) => {
+      if (!data || data.status !== 'draft') return;
+      setItems(data.items);
+      setDiscount(Number(data.discount) || 0);
+      setQuotationNumber(data.quotation_number);
+      setDraftQuotationId(quotationId);
+    });
+  }, [videoCall?.quotation_id]);
+
   // Set initial customer if provided
   useEffect(() => {
     const customer = customers.find(c => c.id === searchParams.get('customer'));
@@ -83,8 +130,9 @@ export const useQuickQuotation = (): {
   const fetchGSTRate = async () => {
     try {
       setGstError(null);
-      const rate = await getCachedGSTRate();
-      setGstRate(rate);
+      const rates = await getCachedGSTRates();
+      setGstRates(rates);
+      setGstRate(resolveGSTRate(rates));
       setRetryCount(0);
     } catch (error) {
       console.error('Error fetching GST rate:', error);
@@ -204,10 +252,25 @@ export const useQuickQuotation = (): {
     }
   };
 
-  // Handle product selection
-  const addProduct = useCallback((product: Product) => {
+  // Handle product selection; a scanned piece is the one that gets sold
+  const addProduct = useCallback((product: Product, piece?: ProductPiece) => {
     setItems(prev => {
       const existingItem = prev.find(item => item.product.id === product.id);
+      const assignedHuids: string[] = existingItem?.huids || [];
+      const assignedPieces: string[] = existingItem?.pieceIds || [];
+
+      if (piece && (assignedPieces.includes(piece.id) || (piece.huid && assignedHuids.includes(piece.huid)))) {
+        Swal.fire({
+          title: 'Already Added',
+          text: `Piece ${piece.serial} is already on this bill.`,
+          icon: 'info',
+          confirmButtonText: 'OK'
+        });
+        return prev;
+      }
+
+      const huid = piece ? piece.huid || undefined : pickHuid(product, assignedHuids);
+      const pieceIds = piece ? [...assignedPieces, piece.id] : assignedPieces;
       
       if (existingItem) {
         const newQuantity = existingItem.quantity + 1;
@@ -219,12 +282,13 @@ export const useQuickQuotation = (): {
 
         return prev.map(item =>
           item.product.id === product.id
-            ? { ...item, quantity: newQuantity }
+            ? { ...item, quantity: newQuantity, huids: huid ? [...assignedHuids, huid] : assignedHuids, pieceIds }
             : item
         );
       }
 
-      const price = customerType === 'wholesaler' ? 
+      const metalPrice = calculateMetalPrice(product, metalRates);
+      const price = metalPrice ? metalPrice.total : customerType === 'wholesaler' ? 
         Number(product.wholesalePrice) : 
         Number(product.retailPrice);
 
@@ -232,14 +296,16 @@ export const useQuickQuotation = (): {
         product,
         quantity: 1,
         price,
-        originalPrice: Number(product.wholesalePrice)
+        originalPrice: Number(product.wholesalePrice),
+        breakdown: metalPrice,
+        huids: huid ? [huid] : [],
+        pieceIds
       }];
     });
-  }, [customerType]);
+  }, [customerType, metalRates]);
 
   const handleCompleteSale = async () => {
     try {
-      const now = new Date().toISOString();
       const readonly = searchParams.get('readonly') === 'true';
       
       if (readonly) {
@@ -252,25 +318,18 @@ export const useQuickQuotation = (): {
         return;
       }
 
-      // Prepare payment details
+      // Retail bills and full wholesale payments are settled at the counter
+      const paidAmount = customerType === 'retailer' || counterSaleDetails.paymentStatus === 'paid'
+        ? totals.finalTotal
+        : counterSaleDetails.paidAmount;
       const paymentDetails = {
         total_amount: totals.finalTotal,
-        paid_amount: isCounterSale && customerType === 'retailer' ? totals.finalTotal : counterSaleDetails.paidAmount,
-        pending_amount: isCounterSale && customerType === 'retailer' ? 0 : totals.finalTotal - counterSaleDetails.paidAmount,
-        payment_status: isCounterSale && customerType === 'retailer' ? 'completed' : counterSaleDetails.paymentStatus,
+        paid_amount: paidAmount,
+        pending_amount: totals.finalTotal - paidAmount,
+        payment_status: paidAmount >= totals.finalTotal ? 'completed' : 'pending',
         payments: []
       };
 
-      // Add initial payment if any amount is paid
-      if (paymentDetails.paid_amount > 0) {
-        paymentDetails.payments.push({
-          amount: paymentDetails.paid_amount,
-          date: now,
-          type: paymentDetails.paid_amount === totals.finalTotal ? 'full' : 'partial',
-          method: 'cash'
-        });
-      }
-
       // For video calls, create quotation and update workflow
       if (videoCall) {
         const quotationData = {
@@ -281,6 +340,9 @@ export const useQuickQuotation = (): {
             quantity: Number(item.quantity),
             price: Number(item.price),
             discount: Number(discount),
+            breakdown: item.breakdown || null,
+            huids: item.huids || [],
+            pieceIds: item.pieceIds || [],
             product: {
               name: item.product.name,
               sku: item.product.sku,
@@ -297,28 +359,29 @@ export const useQuickQuotation = (): {
           payment_details: paymentDetails
         };
 
-        const { data: quotation, error: quotationError } = await supabase
-          .from('quotations')
-          .insert([quotationData])
-          .select()
-          .single();
+        const { data: quotation, error: quotationError } = draftQuotationId
+          ? await supabase
+              .from('quotations')
+              .update(quotationData)
+              .eq('id', draftQuotationId)
+              .select()
+              .single()
+          : await supabase
+              .from('quotations')
+              .insert([quotationData])
+              .select()
+              .single();
 
         if (quotationError) throw quotationError;
         
         // Update video call workflow status
         const { error: workflowError } = await supabase
           .from('video_calls')
-          .update({
-            quotation_id: quotation.id,
-            workflow_status: {
-              ...videoCall.workflow_status,
-              quotation: 'completed',
-              profiling: 'pending'
-            }
-          })
+          .update({ quotation_id: quotation.id })
           .eq('id', videoCall.id);
 
         if (workflowError) throw workflowError;
+        await completeWorkflowStep(videoCall.id, 'quotation');
         
         Swal.fire({
           title: 'Success!',
@@ -329,13 +392,71 @@ export const useQuickQuotation = (): {
         window.location.href = `/video-calls/${videoCall.id}`;
       } else {
         // Regular counter sale
-        if (!selectedCustomer && !counterSaleDetails.buyerName && customerType === 'wholesaler') {
+        // Payment is taken in the counter sale modal, which then completes the sale
+        if (!showCounterSaleModal) {
+          const credit = getOldGoldCredit(oldGold);
+          if (credit > totals.finalTotal) {
+            Swal.fire({
+              title: 'Exchange exceeds bill',
+              text: 'The old gold is worth more than this bill. Remove an item or buy it back instead.',
+              icon: 'warning',
+              confirmButtonText: 'OK'
+            });
+            return;
+          }
+
+          // The exchange credit goes on the bill as an old-gold tender
+          setCounterSaleDetails(prev => ({
+            ...prev,
+            tenders: credit > 0
+              ? [
+                  { method: 'old_gold', amount: credit },
+                  { method: 'cash', amount: Math.round((totals.finalTotal - credit) * 100) / 100 }
+                ]
+              : [{ method: 'cash', amount: 0 }]
+          }));
           setShowCounterSaleModal(true);
           return;
         }
 
+        // Anything left unpaid goes on the customer's account, within their credit limit
+        if (paidAmount < totals.finalTotal) {
+          if (!selectedCustomer) {
+            Swal.fire({
+              title: 'Customer required',
+              text: 'Select a saved customer to leave part of the bill unpaid.',
+              icon: 'warning',
+              confirmButtonText: 'OK'
+            });
+            return;
+          }
+
+          const credit = await checkCreditLimit(selectedCustomer.id, totals.finalTotal - paidAmount);
+          if (!credit.allowed) {
+            Swal.fire({
+              title: 'Credit limit reached',
+              text: credit.message || 'This bill is over the customer\'s credit limit.',
+              icon: 'error',
+              confirmButtonText: 'OK'
+            });
+            return;
+          }
+          if (credit.overdue > 0) {
+            const proceed = await Swal.fire({
+              title: 'Overdue balance',
+              text: `${selectedCustomer.name} has ${formatCurrency(credit.overdue)} overdue. Sell on credit anyway?`,
+              icon: 'warning',
+              showCancelButton: true,
+              confirmButtonText: 'Continue',
+              cancelButtonText: 'Cancel'
+            });
+            if (!proceed.isConfirmed) return;
+          }
+        }
+
         // Complete sale using utility function
-        await completeSale({
+        const result = await completeSale({
+          idempotency_key: saleKey,
           items,
           selectedCustomer,
           videoCall: null,
@@ -348,6 +469,9 @@ export const useQuickQuotation = (): {
               quantity: Number(item.quantity),
               price: Number(item.price),
               discount: Number(discount),
+              breakdown: item.breakdown || null,
+              huids: item.huids || [],
+              pieceIds: item.pieceIds || [],
               product: {
                 name: item.product.name,
                 sku: item.product.sku,
@@ -361,33 +485,64 @@ export const useQuickQuotation = (): {
             delivery_method: counterSaleDetails.deliveryMethod,
             quotation_number: quotationNumber
           },
-          payment_details: paymentDetails
+          payment_details: paymentDetails,
+          tenders: paidAmount > 0 ? counterSaleDetails.tenders : [],
+          old_gold: oldGold,
+          buyer_name: selectedCustomer?.name || counterSaleDetails.buyerName,
+          tax_invoice: includeGst
+            ? buildTaxInvoice({
+                items,
+                discount,
+                gstRate,
+                gstRates,
+                hsnCodes,
+                customer: selectedCustomer,
+                buyerName: counterSaleDetails.buyerName,
+                metalRates
+              })
+            : null
         });
 
         // Reset form
         setItems([]);
         setDiscount(0);
         setQuotationNumber(generateQuotationNumber());
+        setSaleKey(crypto.randomUUID());
         setCounterSaleDetails({
           buyerName: '',
           buyerPhone: '',
           deliveryMethod: 'hand_carry',
           paymentStatus: customerType === 'retailer' ? 'paid' : 'pending',
-          paidAmount: customerType === 'retailer' ? totals.finalTotal : 0
+          paidAmount: customerType === 'retailer' ? totals.finalTotal : 0,
+          tenders: [{ method: 'cash', amount: 0 }]
         });
+        setShowCounterSaleModal(false);
+        setOldGold([]);
 
-        Swal.fire({
+        const confirmation = await Swal.fire({
           title: 'Success!',
-          text: 'Sale completed successfully',
+          text: `${result.duplicate ? 'This sale was already recorded' : 'Sale completed successfully'}${
+            result.invoiceNumber ? ` · Invoice ${result.invoiceNumber}` : ''
+          }${result.exchangeVoucher ? ` · Voucher ${result.exchangeVoucher}` : ''}`,
           icon: 'success',
-          confirmButtonText: 'OK'
+          showCancelButton: !!result.taxInvoiceId || !!result.exchangeVoucher,
+          showDenyButton: !!result.taxInvoiceId && !!result.exchangeVoucher,
+          confirmButtonText: result.taxInvoiceId ? 'Print Invoice' : result.exchangeVoucher ? 'Print Voucher' : 'OK',
+          denyButtonText: 'Print Voucher',
+          cancelButtonText: 'Close'
         });
+
+        if (confirmation.isConfirmed && result.taxInvoiceId) {
+          setInvoiceId(result.taxInvoiceId);
+        } else if ((confirmation.isConfirmed || confirmation.isDenied) && result.exchangeVoucher) {
+          setVoucherNumber(result.exchangeVoucher);
+        }
       }
     } catch (error) {
       console.error('Error completing sale:', error);
       Swal.fire({
         title: 'Error',
-        text: 'Failed to complete sale. Please try again.',
+        text: error instanceof Error ? error.message : 'Failed to complete sale. Please try again.',
         icon: 'error',
         confirmButtonText: 'OK'
       });
@@ -407,12 +562,17 @@ export const useQuickQuotation = (): {
       isCounterSale,
       discount,
       gstRate,
+      gstRates,
       showCounterSaleModal,
       totals,
       quotationNumber,
       includeGst,
       gstError,
       counterSaleDetails,
+      invoiceId,
+      oldGold,
+      voucherNumber,
+      metalRates,
     },
     actions: {
       setItems,
@@ -432,6 +592,9 @@ export const useQuickQuotation = (): {
       fetchGSTRate,
       setIncludeGst,
       setCounterSaleDetails,
+      setInvoiceId,
+      setOldGold,
+      setVoucherNumber,
       handleCompleteSale
     },
   };
@@ -7,7 +7,11 @@ import ItemsTable from './components/ItemsTable';
 import OrderSummary from './components/OrderSummary';
 import PrintPreview from './components/PrintPreview';
 import CounterSaleModal from './components/CounterSaleModal';
+import TaxInvoiceModal from '../TaxInvoiceModal';
+import OldGoldExchange from '../OldGoldExchange';
+import OldGoldVoucherModal from '../OldGoldVoucherModal';
 import { useScanningMode } from '../../../hooks/useScanningMode';
+import { pickHuid } from '../../../utils/hallmark';
 
 interface QuickQuotationProps {
   videoCall?: VideoCall | null;
@@ -66,9 +70,17 @@ const QuickQuotation = ({
         return prev;
       }
 
+      // Keep one HUID per unit where the product has them
+      const assignedHuids: string[] = item.huids || [];
+      const nextHuid = change > 0 ? pickHuid(item.product, assignedHuids) : undefined;
+
       newItems[index] = {
         ...item,
-        quantity: newQuantity
+        quantity: newQuantity,
+        huids: change > 0
+          ? (nextHuid ? [...assignedHuids, nextHuid] : assignedHuids)
+          : assignedHuids.slice(0, newQuantity),
+        pieceIds: (item.pieceIds || []).slice(0, newQuantity)
       };
       return newItems;
     });
@@ -135,6 +147,17 @@ const QuickQuotation = ({
           onRemoveItem={handleRemoveItem}
         />
 
+        {!state.videoCall && (
+          <div className="border border-gray-100 rounded-xl p-4">
+            <OldGoldExchange
+              entries={state.oldGold}
+              onChange={actions.setOldGold}
+              metalRates={state.metalRates}
+              billTotal={state.totals.finalTotal}
+            />
+          </div>
+        )}
+
         <OrderSummary
           disabled={state.scanning}
           totals={state.totals}
@@ -168,6 +191,7 @@ const QuickQuotation = ({
           totals={state.totals}
           discount={state.discount}
           gstRate={state.gstRate}
+          gstRates={state.gstRates}
           includeGst={state.includeGst}
         />
       )}
@@ -181,8 +205,18 @@ const QuickQuotation = ({
           includeGst={state.includeGst}
           onClose={() => actions.setShowCounterSaleModal(false)}
           onSubmit={handleCounterSaleSubmit}
+          requireBuyer={!state.selectedCustomer}
+          billNumber={state.quotationNumber}
         />
       )}
+
+      {state.invoiceId && (
+        <TaxInvoiceModal invoiceId={state.invoiceId} onClose={() => actions.setInvoiceId(null)} />
+      )}
+
+      {state.voucherNumber && (
+        <OldGoldVoucherModal voucherNumber={state.voucherNumber} onClose={() => actions.setVoucherNumber(null)} />
+      )}
     </div>
   );
 };
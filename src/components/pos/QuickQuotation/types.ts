@@ -1,4 +1,7 @@
-import type { Customer, VideoCall, QuotationItem, Product } from '../../../types';
+import type { Dispatch, SetStateAction } from 'react';
+import type { GSTBreakdownRow } from '../../../utils/quotation';
+import type { Customer, VideoCall, QuotationItem, Product, ProductPiece, GSTRate, PaymentTender, MetalRate } from '../../../types';
+import type { OldGoldEntry } from '../../../utils/oldGold';
 
 export interface QuickQuotationState {
   items: QuotationItem[];
@@ -12,6 +15,7 @@ export interface QuickQuotationState {
   isCounterSale: boolean;
   discount: number;
   gstRate: number;
+  gstRates: GSTRate[];
   showCounterSaleModal: boolean;
   includeGst: boolean;
   gstError: string | null;
@@ -21,14 +25,22 @@ export interface QuickQuotationState {
     deliveryMethod: string;
     paymentStatus: string;
     paidAmount: number;
+    tenders: PaymentTender[];
   };
   quotationNumber: string;
+  // Tax invoice issued with the last completed sale, while it is being shown
+  invoiceId: string | null;
+  // Old gold taken in exchange on this bill, and the voucher issued for the last one
+  oldGold: OldGoldEntry[];
+  voucherNumber: string | null;
+  metalRates: MetalRate[];
   totals: {
     subtotal: number;
     discountAmount: number;
     total: number;
     gstAmount: number;
     finalTotal: number;
+    gstBreakdown?: GSTBreakdownRow[];
   };
 }
 
@@ -45,10 +57,13 @@ export interface QuickQuotationActions {
   setShowCounterSaleModal: (show: boolean) => void;
   setQuotationNumber: (number: string) => void;
   handleCustomerChange: (customerId: string) => void;
-  addProduct: (product: Product) => void;
+  addProduct: (product: Product, piece?: ProductPiece) => void;
   fetchCustomers: () => Promise<void>;
   fetchGSTRate: () => Promise<void>;
   setIncludeGst: (include: boolean) => void;
-  setCounterSaleDetails: (details: QuickQuotationState['counterSaleDetails']) => void;
+  setCounterSaleDetails: Dispatch<SetStateAction<QuickQuotationState['counterSaleDetails']>>;
+  setInvoiceId: (id: string | null) => void;
+  setOldGold: (entries: OldGoldEntry[]) => void;
+  setVoucherNumber: (voucherNumber: string | null) => void;
   handleCompleteSale: () => Promise<void>;
 }
\ No newline at end of file
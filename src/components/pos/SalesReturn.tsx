@@ -0,0 +1,374 @@
+import { useState, useEffect } from 'react';
+import { Search, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import Swal from 'sweetalert2';
+import type { CreditNote, PaymentMethod, ReturnSettlement } from '../../types';
+import {
+  REFUND_METHODS,
+  buildCreditNote,
+  findSaleForReturn,
+  getRecentCreditNotes,
+  processSaleReturn,
+  type ReturnableSale
+} from '../../utils/salesReturns';
+import { PAYMENT_METHOD_LABELS, PAYMENT_REFERENCE_LABELS } from '../../utils/paymentUtils';
+import { formatCurrency } from '../../utils/quotation';
+import { useToast } from '../../hooks/useToast';
+import CreditNoteModal from './CreditNoteModal';
+
+const SalesReturn = () => {
+  const [reference, setReference] = useState('');
+  const [returnable, setReturnable] = useState<ReturnableSale | null>(null);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState('');
+  const [settlement, setSettlement] = useState<ReturnSettlement>('refund');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [refundReference, setRefundReference] = useState('');
+  const [recentNotes, setRecentNotes] = useState<CreditNote[]>([]);
+  const [creditNoteId, setCreditNoteId] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchRecentNotes();
+  }, []);
+
+  const fetchRecentNotes = async () => {
+    try {
+      setRecentNotes(await getRecentCreditNotes());
+    } catch (error) {
+      console.error('Error fetching credit notes:', error);
+    }
+  };
+
+  const resetReturn = (sale: ReturnableSale | null) => {
+    setReturnable(sale);
+    setQuantities({});
+    setReason('');
+    setSettlement('refund');
+    setRefundMethod('cash');
+    setRefundReference('');
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reference.trim()) return;
+
+    try {
+      setSearching(true);
+      const sale = await findSaleForReturn(reference);
+      resetReturn(sale);
+      if (!sale) {
+        addToast({
+          title: 'Bill not found',
+          message: `No bill or invoice numbered ${reference.trim()}`,
+          type: 'error'
+        });
+      }
+    } catch (error) {
+      console.error('Error finding bill:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to look up the bill',
+        type: 'error'
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const draft = returnable ? buildCreditNote(returnable, quantities) : null;
+  const due = returnable ? Math.max(Number(returnable.sale.payment_details?.pending_amount) || 0, 0) : 0;
+  const adjusted = draft ? Math.min(due, draft.note_total) : 0;
+  const payout = draft ? draft.note_total - adjusted : 0;
+  const canHoldCredit = !!returnable?.sale.customer_id;
+
+  const handleProcess = async () => {
+    if (!returnable || !draft || draft.items.length === 0) {
+      addToast({ title: 'Nothing to return', message: 'Enter the quantity coming back on at least one line', type: 'error' });
+      return;
+    }
+
+    const confirmation = await Swal.fire({
+      title: 'Issue credit note?',
+      html: `${formatCurrency(draft.note_total)} for ${draft.items.reduce((sum, item) => sum + item.quantity, 0)} piece(s).<br/>` +
+        (adjusted > 0 ? `${formatCurrency(adjusted)} clears the balance due.<br/>` : '') +
+        (payout > 0
+          ? settlement === 'refund'
+            ? `Refund ${formatCurrency(payout)} by ${PAYMENT_METHOD_LABELS[refundMethod]}.`
+            : `Hold ${formatCurrency(payout)} as store credit, to be used as an advance on a later bill.`
+          : ''),
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Issue Credit Note',
+      cancelButtonText: 'Cancel'
+    });
+    if (!confirmation.isConfirmed) return;
+
+    try {
+      setProcessing(true);
+      const result = await processSaleReturn({
+        saleId: returnable.sale.id,
+        draft,
+        settlement,
+        refundMethod: settlement === 'refund' ? refundMethod : null,
+        refundReference,
+        reason,
+        buyerName: returnable.customerName
+      });
+
+      addToast({
+        title: 'Return processed',
+        message: `Credit note ${result.noteNumber} issued`,
+        type: 'success'
+      });
+      setCreditNoteId(result.creditNoteId);
+      resetReturn(await findSaleForReturn(returnable.sale.sale_number));
+      fetchRecentNotes();
+    } catch (error) {
+      console.error('Error processing return:', error);
+      Swal.fire({
+        title: 'Error',
+        text: error instanceof Error ? error.message : 'Failed to process the return',
+        icon: 'error',
+        confirmButtonText: 'OK'
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent">
+          Sales Returns
+        </h2>
+        <p className="text-sm text-gray-500">Take pieces back against a saved bill and issue a credit note</p>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex gap-3">
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+          <input
+            type="text"
+            className="input pl-10 w-full"
+            placeholder="Bill number or tax invoice number"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          />
+        </div>
+        <button type="submit" disabled={searching} className="btn btn-primary">
+          {searching ? 'Searching...' : 'Find Bill'}
+        </button>
+      </form>
+
+      {returnable && draft && (
+        <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 p-6 space-y-5">
+          <div className="flex flex-wrap justify-between gap-4">
+            <div>
+              <p className="text-xs text-gray-500 uppercase">Bill</p>
+              <p className="font-semibold">{returnable.sale.sale_number}</p>
+              <p className="text-sm text-gray-500">
+                {format(new Date(returnable.sale.created_at), 'dd/MM/yyyy')} · {returnable.customerName || 'Walk-in customer'}
+              </p>
+              {returnable.invoice && (
+                <p className="text-sm text-gray-500">Invoice {returnable.invoice.invoice_number}</p>
+              )}
+            </div>
+            <div className="text-right text-sm">
+              <p>Bill total <span className="font-semibold">{formatCurrency(Number(returnable.sale.total_amount))}</span></p>
+              {Number(returnable.sale.returned_amount) > 0 && (
+                <p className="text-red-600">Returned {formatCurrency(Number(returnable.sale.returned_amount))}</p>
+              )}
+              {due > 0 && <p className="text-amber-600">Balance due {formatCurrency(due)}</p>}
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 text-right">Sold</th>
+                <th className="px-3 py-2 text-right">Returned</th>
+                <th className="px-3 py-2 text-right">Return now</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {returnable.items.map((item, index) => {
+                const remaining = Number(item.quantity) - returnable.returned[index];
+                return (
+                  <tr key={index}>
+                    <td className="px-3 py-2">
+                      {item.product.name || item.product.sku}
+                      <div className="text-xs text-gray-500">{item.product.sku}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">{item.quantity}</td>
+                    <td className="px-3 py-2 text-right">{returnable.returned[index] || '—'}</td>
+                    <td className="px-3 py-2 text-right">
+                      <input
+                        type="number"
+                        className="input w-20 text-right"
+                        min="0"
+                        max={remaining}
+                        disabled={remaining <= 0}
+                        value={quantities[index] || ''}
+                        onChange={(e) => setQuantities(prev => ({
+                          ...prev,
+                          [index]: Math.min(Math.max(Math.floor(Number(e.target.value) || 0), 0), remaining)
+                        }))}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="e.g. size does not fit"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Give the money back as</label>
+                <div className="flex gap-4 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={settlement === 'refund'}
+                      onChange={() => setSettlement('refund')}
+                    />
+                    Refund
+                  </label>
+                  <label className={`flex items-center gap-2 ${canHoldCredit ? '' : 'text-gray-400'}`}>
+                    <input
+                      type="radio"
+                      checked={settlement === 'store_credit'}
+                      disabled={!canHoldCredit}
+                      onChange={() => setSettlement('store_credit')}
+                    />
+                    Store credit
+                  </label>
+                </div>
+                {!canHoldCredit && (
+                  <p className="text-xs text-gray-500 mt-1">Store credit needs a saved customer on the bill</p>
+                )}
+              </div>
+              {settlement === 'refund' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <select
+                    className="input"
+                    value={refundMethod}
+                    onChange={(e) => setRefundMethod(e.target.value as PaymentMethod)}
+                  >
+                    {REFUND_METHODS.map(method => (
+                      <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                  {PAYMENT_REFERENCE_LABELS[refundMethod] && (
+                    <input
+                      type="text"
+                      className="input"
+                      placeholder={PAYMENT_REFERENCE_LABELS[refundMethod]}
+                      value={refundReference}
+                      onChange={(e) => setRefundReference(e.target.value)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1 text-sm self-end">
+              <div className="flex justify-between">
+                <span>Taxable value</span>
+                <span>{formatCurrency(draft.taxable_value)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>GST</span>
+                <span>{formatCurrency(draft.cgst_amount + draft.sgst_amount + draft.igst_amount)}</span>
+              </div>
+              <div className="flex justify-between font-semibold text-base border-t pt-1">
+                <span>Credit note total</span>
+                <span>{formatCurrency(draft.note_total)}</span>
+              </div>
+              {adjusted > 0 && (
+                <div className="flex justify-between text-amber-700">
+                  <span>Against balance due</span>
+                  <span>- {formatCurrency(adjusted)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>{settlement === 'refund' ? 'To refund' : 'To store credit'}</span>
+                <span>{formatCurrency(payout)}</span>
+              </div>
+              <button
+                onClick={handleProcess}
+                disabled={processing || draft.items.length === 0}
+                className="btn btn-primary w-full mt-3 flex items-center justify-center gap-2"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {processing ? 'Processing...' : 'Issue Credit Note'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100/80 overflow-x-auto">
+        <div className="px-4 py-3 border-b font-semibold">Recent credit notes</div>
+        {recentNotes.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No credit notes issued yet.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3">Credit note</th>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Customer</th>
+                <th className="px-4 py-3">Settled by</th>
+                <th className="px-4 py-3 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {recentNotes.map(note => (
+                <tr key={note.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => setCreditNoteId(note.id)}
+                      className="text-blue-600 hover:text-blue-800 font-mono"
+                    >
+                      {note.note_number}
+                    </button>
+                  </td>
+                  <td className="px-4 py-3">{format(new Date(note.note_date), 'dd/MM/yyyy')}</td>
+                  <td className="px-4 py-3">{note.buyer_name || '—'}</td>
+                  <td className="px-4 py-3">
+                    {note.settlement === 'store_credit'
+                      ? 'Store credit'
+                      : note.refund_method ? PAYMENT_METHOD_LABELS[note.refund_method] : 'Refund'}
+                  </td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(Number(note.note_total))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {creditNoteId && (
+        <CreditNoteModal creditNoteId={creditNoteId} onClose={() => setCreditNoteId(null)} />
+      )}
+    </div>
+  );
+};
+
+export default SalesReturn;
@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import { X, RotateCcw, Receipt } from 'lucide-react';
+import Swal from 'sweetalert2';
+import type { GSTRate, PaymentTender } from '../../types';
+import type { QuotationItem } from '../../types/quotation';
+import {
+  getMemoParty,
+  getOutItems,
+  returnApprovalPieces,
+  type ApprovalMemoWithItems
+} from '../../utils/approvalMemos';
+import { getCachedGSTRates, resolveGSTRate } from '../../utils/gstUtils';
+import { calculateTotals, formatCurrency, generateQuotationNumber } from '../../utils/quotation';
+import { buildTaxInvoice, getHsnCodes } from '../../utils/taxInvoice';
+import { completeSale } from '../../utils/saleUtils';
+import { checkCreditLimit } from '../../utils/receivables';
+import { useToast } from '../../hooks/useToast';
+import CounterSaleModal from './CounterSaleModal';
+import TaxInvoiceModal from './TaxInvoiceModal';
+
+interface SettleApprovalModalProps {
+  memo: ApprovalMemoWithItems;
+  onClose: () => void;
+  onSettled: () => void;
+}
+
+type Decision = 'keep' | 'buy' | 'return';
+
+const DECISION_LABELS: Record<Decision, string> = {
+  keep: 'Still out',
+  buy: 'Bought',
+  return: 'Returned'
+};
+
+const SettleApprovalModal: React.FC<SettleApprovalModalProps> = ({ memo, onClose, onSettled }) => {
+  const outItems = getOutItems(memo);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [includeGst, setIncludeGst] = useState(true);
+  const [gstRate, setGstRate] = useState(18);
+  const [gstRates, setGstRates] = useState<GSTRate[]>([]);
+  const [hsnCodes, setHsnCodes] = useState<Record<string, string>>({});
+  const [showCheckout, setShowCheckout] = useState(false);
+  const [counterSaleDetails, setCounterSaleDetails] = useState({
+    buyerName: '',
+    buyerPhone: '',
+    deliveryMethod: 'hand_carry',
+    paymentStatus: 'paid',
+    paidAmount: 0,
+    tenders: [{ method: 'cash', amount: 0 }] as PaymentTender[]
+  });
+  const [quotationNumber] = useState(generateQuotationNumber());
+  // Sent with every attempt at this bill so a repeated submit is recorded once
+  const [saleKey] = useState(() => crypto.randomUUID());
+  const [invoiceId, setInvoiceId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { addToast } = useToast();
+
+  const customer = memo.customer;
+  const customerType = customer?.type || 'retailer';
+
+  useEffect(() => {
+    getCachedGSTRates()
+      .then(rates => {
+        setGstRates(rates);
+        setGstRate(resolveGSTRate(rates));
+      })
+      .catch(error => console.error('Error fetching GST rates:', error));
+    getHsnCodes()
+      .then(setHsnCodes)
+      .catch(() => setHsnCodes({}));
+  }, []);
+
+  const chosen = (decision: Decision) => outItems.filter(item => (decisions[item.piece_id] || 'keep') === decision);
+  const bought = chosen('buy');
+  const returned = chosen('return');
+
+  // One bill line per piece, at the price agreed on the memo
+  const items: QuotationItem[] = bought.map(item => ({
+    product: { ...item.product, name: item.product.name || item.product.sku },
+    quantity: 1,
+    price: item.price,
+    originalPrice: item.price,
+    huids: item.huid ? [item.huid] : [],
+    pieceIds: [item.piece_id]
+  }));
+  const totals = calculateTotals(items, 0, gstRate, includeGst, null, gstRates);
+
+  const setAll = (decision: Decision) => {
+    setDecisions(Object.fromEntries(outItems.map(item => [item.piece_id, decision])));
+  };
+
+  const handleReturn = async () => {
+    try {
+      setBusy(true);
+      await returnApprovalPieces(memo.id, returned.map(item => item.piece_id));
+      addToast({
+        title: 'Returned',
+        message: `${returned.length} piece${returned.length === 1 ? '' : 's'} back in stock`,
+        type: 'success'
+      });
+      setDecisions(prev => Object.fromEntries(Object.entries(prev).filter(([, decision]) => decision !== 'return')));
+      onSettled();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to return pieces',
+        type: 'error'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleBill = async () => {
+    if (busy) return;
+
+    try {
+      const paidAmount = customerType === 'retailer' || counterSaleDetails.paymentStatus === 'paid'
+        ? totals.finalTotal
+        : counterSaleDetails.paidAmount;
+
+      // Anything left unpaid goes on the customer's account, within their credit limit
+      if (paidAmount < totals.finalTotal && customer) {
+        const credit = await checkCreditLimit(customer.id, totals.finalTotal - paidAmount);
+        if (!credit.allowed) {
+          Swal.fire({
+            title: 'Credit limit reached',
+            text: credit.message || 'This bill is over the customer\'s credit limit.',
+            icon: 'error',
+            confirmButtonText: 'OK'
+          });
+          return;
+        }
+        if (credit.overdue > 0) {
+          const proceed = await Swal.fire({
+            title: 'Overdue balance',
+            text: `${customer.name} has ${formatCurrency(credit.overdue)} overdue. Sell on credit anyway?`,
+            icon: 'warning',
+            showCancelButton: true,
+            confirmButtonText: 'Continue',
+            cancelButtonText: 'Cancel'
+          });
+          if (!proceed.isConfirmed) return;
+        }
+      }
+
+      setBusy(true);
+      const result = await completeSale({
+        idempotency_key: saleKey,
+        sale_type: 'counter',
+        customer_id: customer?.id || null,
+        video_call_id: null,
+        approval_memo_id: memo.id,
+        quotation_data: {
+          items: items.map(item => ({
+            product_id: item.product.id,
+            quantity: item.quantity,
+            price: item.price,
+            huids: item.huids || [],
+            pieceIds: item.pieceIds || [],
+            product: {
+              name: item.product.name,
+              sku: item.product.sku,
+              description: item.product.description,
+              manufacturer: item.product.manufacturer,
+              category: item.product.category
+            }
+          })),
+          total_amount: totals.finalTotal,
+          quotation_number: quotationNumber,
+          delivery_method: 'hand_carry'
+        },
+        payment_details: {
+          total_amount: totals.finalTotal,
+          paid_amount: paidAmount,
+          pending_amount: totals.finalTotal - paidAmount,
+          payment_status: paidAmount >= totals.finalTotal ? 'completed' : 'pending',
+          payments: []
+        },
+        tenders: paidAmount > 0 ? counterSaleDetails.tenders : [],
+        buyer_name: customer?.name || counterSaleDetails.buyerName,
+        tax_invoice: includeGst
+          ? buildTaxInvoice({
+              items,
+              discount: 0,
+              gstRate,
+              gstRates,
+              hsnCodes,
+              customer,
+              buyerName: counterSaleDetails.buyerName
+            })
+          : null
+      });
+
+      setShowCheckout(false);
+      onSettled();
+
+      const confirmation = await Swal.fire({
+        title: 'Billed',
+        text: `${result.duplicate ? 'This bill was already recorded' : `${bought.length} piece${bought.length === 1 ? '' : 's'} billed from ${memo.memo_number}`}${
+          result.invoiceNumber ? ` · Invoice ${result.invoiceNumber}` : ''
+        }`,
+        icon: 'success',
+        showCancelButton: !!result.taxInvoiceId,
+        confirmButtonText: result.taxInvoiceId ? 'Print Invoice' : 'OK',
+        cancelButtonText: 'Close'
+      });
+
+      if (confirmation.isConfirmed && result.taxInvoiceId) {
+        setInvoiceId(result.taxInvoiceId);
+      } else {
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error billing approval pieces:', error);
+      Swal.fire({
+        title: 'Error',
+        text: error instanceof Error ? error.message : 'Failed to bill the pieces. Please try again.',
+        icon: 'error',
+        confirmButtonText: 'OK'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (invoiceId) {
+    return <TaxInvoiceModal invoiceId={invoiceId} onClose={onClose} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <div>
+            <h3 className="text-lg font-semibold">Settle {memo.memo_number}</h3>
+            <p className="text-xs text-gray-500">{getMemoParty(memo)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-4">
+          {outItems.length === 0 ? (
+            <div className="text-center py-6 text-gray-500 text-sm">Every piece on this memo is settled.</div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-gray-500">Mark all:</span>
+                {(['buy', 'return', 'keep'] as Decision[]).map(decision => (
+                  <button key={decision} onClick={() => setAll(decision)} className="text-blue-600 hover:underline">
+                    {DECISION_LABELS[decision]}
+                  </button>
+                ))}
+              </div>
+
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="px-3 py-2">Piece</th>
+                    <th className="px-3 py-2">Item</th>
+                    <th className="px-3 py-2">Decision</th>
+                    <th className="px-3 py-2 text-right">Memo price</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {outItems.map(item => {
+                    const decision = decisions[item.piece_id] || 'keep';
+                    return (
+                      <tr key={item.id}>
+                        <td className="px-3 py-2 font-mono">{item.serial}</td>
+                        <td className="px-3 py-2">{item.product.name || item.product.sku}</td>
+                        <td className="px-3 py-2">
+                          <select
+                            className="input text-xs"
+                            value={decision}
+                            onChange={e => setDecisions(prev => ({ ...prev, [item.piece_id]: e.target.value as Decision }))}
+                          >
+                            {(Object.keys(DECISION_LABELS) as Decision[]).map(option => (
+                              <option key={option} value={option}>{DECISION_LABELS[option]}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <span className={decision === 'buy' ? '' : 'text-gray-400'}>{formatCurrency(item.price)}</span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {bought.length > 0 && (
+                <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={includeGst} onChange={e => setIncludeGst(e.target.checked)} />
+                    Issue a GST invoice
+                  </label>
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>{formatCurrency(totals.subtotal)}</span>
+                  </div>
+                  {includeGst && (
+                    <div className="flex justify-between">
+                      <span>GST</span>
+                      <span>{formatCurrency(totals.gstAmount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-semibold border-t pt-1">
+                    <span>Bill total</span>
+                    <span>{formatCurrency(totals.finalTotal)}</span>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t">
+          <button
+            onClick={handleReturn}
+            disabled={busy || returned.length === 0}
+            className="btn btn-secondary flex items-center gap-2"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Return {returned.length || ''} to Stock
+          </button>
+          <button
+            onClick={() => setShowCheckout(true)}
+            disabled={busy || bought.length === 0}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <Receipt className="h-4 w-4" />
+            Bill {bought.length || ''} Piece{bought.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+
+      {showCheckout && (
+        <CounterSaleModal
+          counterSaleDetails={counterSaleDetails}
+          setCounterSaleDetails={setCounterSaleDetails}
+          customerType={customerType}
+          total={totals.finalTotal}
+          onClose={() => setShowCheckout(false)}
+          onSubmit={handleBill}
+          requireBuyer={!customer}
+          billNumber={quotationNumber}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SettleApprovalModal;
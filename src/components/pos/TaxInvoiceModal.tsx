@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import { X, Printer, Share2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { TaxInvoice } from '../../types';
+import { getTaxInvoice } from '../../utils/taxInvoice';
+import { getCompanySettings } from '../../utils/settings';
+import { formatCurrency, numberToWords } from '../../utils/quotation';
+import { PDFService } from '../../utils/pdfService';
+import { useToast } from '../../hooks/useToast';
+
+interface TaxInvoiceModalProps {
+  invoiceId: string;
+  onClose: () => void;
+}
+
+const TaxInvoiceModal: React.FC<TaxInvoiceModalProps> = ({ invoiceId, onClose }) => {
+  const [invoice, setInvoice] = useState<TaxInvoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const company = getCompanySettings();
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchInvoice();
+  }, [invoiceId]);
+
+  const fetchInvoice = async () => {
+    try {
+      setLoading(true);
+      setInvoice(await getTaxInvoice(invoiceId));
+    } catch (error) {
+      console.error('Error fetching tax invoice:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load tax invoice',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pdfOptions = invoice && {
+    title: `Tax Invoice ${invoice.invoice_number}`,
+    filename: `Invoice_${invoice.invoice_number.replace(/\//g, '-')}.pdf`,
+    contentId: 'tax-invoice-content'
+  };
+
+  const handleOutput = async (action: 'print' | 'share') => {
+    if (!pdfOptions) return;
+    try {
+      setBusy(true);
+      if (action === 'print') {
+        await PDFService.printContent(pdfOptions);
+      } else {
+        await PDFService.sharePDF(pdfOptions);
+      }
+    } catch (error) {
+      console.error('Error outputting tax invoice:', error);
+      addToast({
+        title: 'Error',
+        message: action === 'print' ? 'Failed to print invoice' : 'Failed to share invoice',
+        type: 'error'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const intraState = invoice?.supply_type === 'intra_state';
+  const hsnSummary = invoice
+    ? Object.values(invoice.lines.reduce<Record<string, { hsn: string; rate: number; taxable: number; cgst: number; sgst: number; igst: number }>>((summary, line) => {
+        const key = `${line.hsn_code}-${line.gst_rate}`;
+        const row = summary[key] || { hsn: line.hsn_code, rate: line.gst_rate, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+        row.taxable += line.taxable_value;
+        row.cgst += line.cgst;
+        row.sgst += line.sgst;
+        row.igst += line.igst;
+        summary[key] = row;
+        return summary;
+      }, {}))
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b">
+          <h3 className="text-lg font-semibold">Tax Invoice</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleOutput('share')}
+              disabled={!invoice || busy}
+              className="btn btn-secondary flex items-center gap-2"
+            >
+              <Share2 className="h-4 w-4" />
+              Share
+            </button>
+            <button
+              onClick={() => handleOutput('print')}
+              disabled={!invoice || busy}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              <Printer className="h-4 w-4" />
+              Print
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700 ml-2">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading invoice...</div>
+          ) : !invoice ? (
+            <div className="text-center py-8 text-gray-500">Invoice not found.</div>
+          ) : (
+            <div id="tax-invoice-content" className="bg-white p-6 text-sm space-y-4">
+              <div className="text-center border-b pb-3">
+                <h2 className="text-xl font-bold">{company.legal_name || company.name}</h2>
+                <p>{company.address}, {company.city}, {company.state} - {company.pincode}</p>
+                <p>GSTIN: {invoice.seller_gstin || '—'} · PAN: {company.pan_number}</p>
+                <p className="mt-2 text-base font-semibold tracking-wide">TAX INVOICE</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500 uppercase">Billed to</p>
+                  <p className="font-medium">{invoice.buyer_name || 'Cash Customer'}</p>
+                  {invoice.buyer_address && <p>{invoice.buyer_address}</p>}
+                  {invoice.buyer_state && <p>{invoice.buyer_state}</p>}
+                  {invoice.buyer_gstin && <p>GSTIN: {invoice.buyer_gstin}</p>}
+                </div>
+                <div className="text-right">
+                  <p><span className="text-gray-500">Invoice No:</span> <span className="font-medium">{invoice.invoice_number}</span></p>
+                  <p><span className="text-gray-500">Date:</span> {format(new Date(invoice.invoice_date), 'dd/MM/yyyy')}</p>
+                  <p><span className="text-gray-500">Place of supply:</span> {invoice.place_of_supply}</p>
+                </div>
+              </div>
+
+              <table className="w-full border">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs uppercase">
+                    <th className="border px-2 py-1">#</th>
+                    <th className="border px-2 py-1">Description</th>
+                    <th className="border px-2 py-1">HSN</th>
+                    <th className="border px-2 py-1 text-right">Qty</th>
+                    <th className="border px-2 py-1 text-right">Rate</th>
+                    <th className="border px-2 py-1 text-right">Discount</th>
+                    <th className="border px-2 py-1 text-right">Taxable</th>
+                    {intraState ? (
+                      <>
+                        <th className="border px-2 py-1 text-right">CGST</th>
+                        <th className="border px-2 py-1 text-right">SGST</th>
+                      </>
+                    ) : (
+                      <th className="border px-2 py-1 text-right">IGST</th>
+                    )}
+                    <th className="border px-2 py-1 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoice.lines.map((line, index) => (
+                    <tr key={index}>
+                      <td className="border px-2 py-1">{index + 1}</td>
+                      <td className="border px-2 py-1">
+                        {line.description}
+                        <div className="text-xs text-gray-500">{line.sku}</div>
+                      </td>
+                      <td className="border px-2 py-1">{line.hsn_code}</td>
+                      <td className="border px-2 py-1 text-right">{line.quantity}</td>
+                      <td className="border px-2 py-1 text-right">{formatCurrency(line.unit_price)}</td>
+                      <td className="border px-2 py-1 text-right">{formatCurrency(line.discount)}</td>
+                      <td className="border px-2 py-1 text-right">{formatCurrency(line.taxable_value)}</td>
+                      {intraState ? (
+                        <>
+                          <td className="border px-2 py-1 text-right">
+                            {formatCurrency(line.cgst)}
+                            <div className="text-xs text-gray-500">{line.gst_rate / 2}%</div>
+                          </td>
+                          <td className="border px-2 py-1 text-right">
+                            {formatCurrency(line.sgst)}
+                            <div className="text-xs text-gray-500">{line.gst_rate / 2}%</div>
+                          </td>
+                        </>
+                      ) : (
+                        <td className="border px-2 py-1 text-right">
+                          {formatCurrency(line.igst)}
+                          <div className="text-xs text-gray-500">{line.gst_rate}%</div>
+                        </td>
+                      )}
+                      <td className="border px-2 py-1 text-right">{formatCurrency(line.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="grid grid-cols-2 gap-6">
+                <table className="w-full border text-xs self-start">
+                  <thead className="bg-gray-50">
+                    <tr className="text-left uppercase">
+                      <th className="border px-2 py-1">HSN</th>
+                      <th className="border px-2 py-1 text-right">Taxable</th>
+                      <th className="border px-2 py-1 text-right">Rate</th>
+                      <th className="border px-2 py-1 text-right">Tax</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {hsnSummary.map(row => (
+                      <tr key={`${row.hsn}-${row.rate}`}>
+                        <td className="border px-2 py-1">{row.hsn}</td>
+                        <td className="border px-2 py-1 text-right">{formatCurrency(row.taxable)}</td>
+                        <td className="border px-2 py-1 text-right">{row.rate}%</td>
+                        <td className="border px-2 py-1 text-right">{formatCurrency(row.cgst + row.sgst + row.igst)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span>Taxable value</span>
+                    <span>{formatCurrency(invoice.taxable_value)}</span>
+                  </div>
+                  {intraState ? (
+                    <>
+                      <div className="flex justify-between">
+                        <span>CGST</span>
+                        <span>{formatCurrency(invoice.cgst_amount)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>SGST</span>
+                        <span>{formatCurrency(invoice.sgst_amount)}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="flex justify-between">
+                      <span>IGST</span>
+                      <span>{formatCurrency(invoice.igst_amount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-semibold text-base border-t pt-1">
+                    <span>Invoice total</span>
+                    <span>{formatCurrency(invoice.invoice_total)}</span>
+                  </div>
+                  <p className="text-xs text-gray-600">{numberToWords(Number(invoice.invoice_total))} Only</p>
+                </div>
+              </div>
+
+              <div className="flex justify-between pt-8 text-xs text-gray-500">
+                <span>Subject to {company.city} jurisdiction</span>
+                <span>For {company.legal_name || company.name} — Authorised Signatory</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxInvoiceModal;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { PaymentMethod, PaymentTender } from '../../types';
+import { PAYMENT_METHOD_LABELS, PAYMENT_REFERENCE_LABELS, sumTenders } from '../../utils/paymentUtils';
+import { formatCurrency } from '../../utils/quotation';
+import UpiQRCode from './UpiQRCode';
+
+interface TenderInputProps {
+  tenders: PaymentTender[];
+  onChange: (tenders: PaymentTender[]) => void;
+  amountDue: number;
+  // Bill number carried in the UPI QR shown for UPI tenders
+  upiReference?: string;
+}
+
+const TenderInput: React.FC<TenderInputProps> = ({ tenders, onChange, amountDue, upiReference }) => {
+  const tendered = sumTenders(tenders);
+  const remaining = Math.round((amountDue - tendered) * 100) / 100;
+
+  const updateTender = (index: number, changes: Partial<PaymentTender>) => {
+    onChange(tenders.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
+  };
+
+  const addTender = () => {
+    // A new tender starts with whatever is still to be paid
+    onChange([...tenders, { method: 'upi', amount: Math.max(0, remaining), reference: '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {tenders.map((tender, index) => (
+        <div key={index} className="flex gap-2 items-start">
+          <select
+            className="input w-40"
+            value={tender.method}
+            onChange={(e) => updateTender(index, { method: e.target.value as PaymentMethod })}
+          >
+            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+              <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+          <div className="flex-1 space-y-1">
+            <input
+              type="number"
+              className="input"
+              value={tender.amount || ''}
+              onChange={(e) => updateTender(index, { amount: Number(e.target.value) })}
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+            />
+            {PAYMENT_REFERENCE_LABELS[tender.method] && (
+              <input
+                type="text"
+                className="input"
+                value={tender.reference || ''}
+                onChange={(e) => updateTender(index, { reference: e.target.value })}
+                placeholder={PAYMENT_REFERENCE_LABELS[tender.method]}
+              />
+            )}
+            {tender.method === 'upi' && upiReference && (
+              <UpiQRCode amount={Number(tender.amount) || 0} reference={upiReference} size={128} className="py-2" />
+            )}
+          </div>
+          {tenders.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(tenders.filter((_, i) => i !== index))}
+              className="p-2 text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={addTender}
+          className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="h-4 w-4" />
+          Add tender
+        </button>
+        <span className={Math.abs(remaining) > 0.01 ? 'text-orange-600' : 'text-green-600'}>
+          Tendered {formatCurrency(tendered)}
+          {Math.abs(remaining) > 0.01 && ` · ${remaining > 0 ? 'Short' : 'Over'} by ${formatCurrency(Math.abs(remaining))}`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default TenderInput;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { getUpiPaymentUri } from '../../utils/upi';
+import { getCompanySettings } from '../../utils/settings';
+import { formatCurrency } from '../../utils/quotation';
+
+interface UpiQRCodeProps {
+  amount: number;
+  reference: string;
+  size?: number;
+  className?: string;
+}
+
+// Renders nothing until a UPI ID is set in company settings
+const UpiQRCode: React.FC<UpiQRCodeProps> = ({ amount, reference, size = 96, className = '' }) => {
+  const uri = getUpiPaymentUri(amount, reference);
+  if (!uri) return null;
+
+  return (
+    <div className={`flex flex-col items-center text-center ${className}`}>
+      <QRCodeSVG value={uri} size={size} level="M" includeMargin={true} />
+      <div className="text-xs font-medium">Scan to pay {formatCurrency(amount)} by UPI</div>
+      <div className="text-xs text-gray-500">{getCompanySettings().bank_details.upi_id}</div>
+    </div>
+  );
+};
+
+export default UpiQRCode;
@@ -7,6 +7,7 @@ import ItemsTable from './QuickQuotation/components/ItemsTable';
 import OrderSummary from './QuickQuotation/components/OrderSummary';
 import PrintPreview from './QuickQuotation/components/PrintPreview';
 import { generateQuotationNumber } from '../../utils/quotation';
+import { completeWorkflowStep } from '../../utils/workflowUtils';
 import type { VideoCall, QuotationItem } from '../../types';
 
 interface VideoCallQuotationProps {
@@ -149,23 +150,17 @@ const VideoCallQuotation: React.FC<VideoCallQuotationProps> = ({ callId, call })
       // Update video call workflow status
       const { error: workflowError } = await supabase
         .from('video_calls')
-        .update({
-          quotation_id: quotation.id,
-          workflow_status: {
-            ...videoCall?.workflow_status,
-            quotation: 'completed',
-            profiling: 'pending'
-          }
-        })
+        .update({ quotation_id: quotation.id })
         .eq('id', callId);
 
       if (workflowError) throw workflowError;
+      await completeWorkflowStep(callId, 'quotation');
 
       alert('Quotation saved successfully!');
       window.location.href = `/video-calls/${callId}`;
     } catch (error) {
       console.error('Error saving quotation:', error);
-      setError('Failed to save quotation. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to save quotation. Please try again.');
     } finally {
       setLoading(false);
     }
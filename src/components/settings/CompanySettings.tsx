@@ -20,6 +20,8 @@ interface CompanySettings {
     account_number: string;
     ifsc_code: string;
     branch: string;
+    // UPI ID (VPA) printed as a pay-by-UPI QR on bills
+    upi_id: string;
   };
   video_call_settings: {
     allow_retail: boolean;
@@ -47,7 +49,8 @@ const defaultSettings: CompanySettings = {
     account_name: 'JMS Pvt Ltd',
     account_number: '50100123456789',
     ifsc_code: 'HDFC0001234',
-    branch: 'Diamond District'
+    branch: 'Diamond District',
+    upi_id: ''
   },
   video_call_settings: {
     allow_retail: true,
@@ -488,6 +491,21 @@ const CompanySettings = () => {
                   onChange={handleChange}
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  UPI ID
+                </label>
+                <input
+                  type="text"
+                  name="bank_details.upi_id"
+                  className="input"
+                  value={settings.bank_details.upi_id || ''}
+                  onChange={handleChange}
+                  placeholder="shopname@bank"
+                />
+                <p className="text-xs text-gray-500 mt-1">Bills and checkout show a QR for the exact amount payable to this ID</p>
+              </div>
             </div>
           </div>
         </div>
@@ -1,19 +1,28 @@
 import React, { useState } from 'react';
 import { Save, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
 import { supabase } from '../../lib/supabase';
+import { MAKING_CHARGES_CATEGORY, clearGSTRateCache } from '../../utils/gstUtils';
 
 interface GSTRate {
   id: string;
   rate: number;
+  category?: string | null;
+  effective_from: string;
   description?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
 const GSTSettings = () => {
   const [gstRates, setGstRates] = useState<GSTRate[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
   const [newRate, setNewRate] = useState<Partial<GSTRate>>({
-    rate: 18,
+    rate: 3,
+    category: '',
+    effective_from: today(),
     description: ''
   });
   const [loading, setLoading] = useState(true);
@@ -21,15 +30,30 @@ const GSTSettings = () => {
 
   React.useEffect(() => {
     fetchGSTRates();
+    fetchCategories();
   }, []);
 
+  const fetchCategories = async () => {
+    const { data, error } = await supabase.rpc('get_markup_settings');
+    if (error) {
+      console.error('Error fetching categories:', error);
+      return;
+    }
+    setCategories(
+      (data || [])
+        .filter((setting: { type: string }) => setting.type === 'category')
+        .map((setting: { name: string }) => setting.name)
+    );
+  };
+
   const fetchGSTRates = async () => {
     try {
       setLoading(true);
       const { data, error } = await supabase
         .from('gst_rates')
         .select('*')
-        .order('created_at', { ascending: false });
+        .order('category', { ascending: true, nullsFirst: true })
+        .order('effective_from', { ascending: false });
 
       if (error) {
         setError(error.message);
@@ -43,7 +67,7 @@ const GSTSettings = () => {
   };
 
   const handleAdd = async () => {
-    if (!newRate.rate) return;
+    if (newRate.rate === undefined || !newRate.effective_from) return;
 
     try {
       // Validate rate is between 0 and 100
@@ -56,6 +80,8 @@ const GSTSettings = () => {
         .from('gst_rates')
         .insert([{
           rate: newRate.rate,
+          category: newRate.category || null,
+          effective_from: newRate.effective_from,
           description: newRate.description
         }])
         .select()
@@ -65,9 +91,12 @@ const GSTSettings = () => {
         setError(error.message);
         console.error('Error adding GST rate:', error);
       } else {
+        clearGSTRateCache();
         setGstRates(prev => [...prev, data]);
         setNewRate({
-          rate: 18,
+          rate: 3,
+          category: '',
+          effective_from: today(),
           description: ''
         });
       }
@@ -90,6 +119,7 @@ const GSTSettings = () => {
         setError(error.message);
         console.error('Error updating GST rate:', error);
       } else {
+        clearGSTRateCache();
         setGstRates(prev => prev.map(rate => (rate.id === id ? data : rate)));
       }
     } catch (error: any) {
@@ -109,6 +139,7 @@ const GSTSettings = () => {
         setError(error.message);
         console.error('Error deleting GST rate:', error);
       } else {
+        clearGSTRateCache();
         setGstRates(prev => prev.filter(rate => rate.id !== id));
       }
     } catch (error: any) {
@@ -121,6 +152,25 @@ const GSTSettings = () => {
     alert('GST settings saved successfully!');
   };
 
+  // The latest rate already in effect for each category is the one bills use
+  const inForceIds = new Set(
+    Object.values(
+      gstRates
+        .filter(rate => rate.effective_from <= today())
+        .reduce<Record<string, GSTRate>>((latest, rate) => {
+          const key = (rate.category || '').toLowerCase();
+          if (!latest[key] || rate.effective_from > latest[key].effective_from) latest[key] = rate;
+          return latest;
+        }, {})
+    ).map(rate => rate.id)
+  );
+
+  const getRateStatus = (rate: GSTRate) => {
+    if (inForceIds.has(rate.id)) return { label: 'In force', className: 'bg-green-100 text-green-800' };
+    if (rate.effective_from > today()) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+    return { label: 'Superseded', className: 'bg-gray-100 text-gray-600' };
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -140,6 +190,29 @@ const GSTSettings = () => {
           <>
             {/* Add New Rate */}
             <div className="flex gap-4 items-end border-b pb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  className="input w-48"
+                  value={newRate.category || ''}
+                  onChange={e => setNewRate(prev => ({ ...prev, category: e.target.value }))}
+                >
+                  <option value="">All categories (default)</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                  <option value={MAKING_CHARGES_CATEGORY}>{MAKING_CHARGES_CATEGORY}</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Effective from</label>
+                <input
+                  type="date"
+                  className="input w-40"
+                  value={newRate.effective_from}
+                  onChange={e => setNewRate(prev => ({ ...prev, effective_from: e.target.value }))}
+                />
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Rate %</label>
                 <div className="flex items-center gap-2">
@@ -150,7 +223,7 @@ const GSTSettings = () => {
                     onChange={e => setNewRate(prev => ({ ...prev, rate: Number(e.target.value) }))}
                     min="0"
                     max="100"
-                    step="0.1"
+                    step="0.01"
                   />
                   <span className="text-gray-500">%</span>
                 </div>
@@ -170,7 +243,7 @@ const GSTSettings = () => {
               <button
                 onClick={handleAdd}
                 className="btn btn-primary h-10"
-                disabled={!newRate.rate}
+                disabled={newRate.rate === undefined || !newRate.effective_from}
               >
                 <Plus className="h-4 w-4" />
               </button>
@@ -178,10 +251,20 @@ const GSTSettings = () => {
 
             {/* GST Rates List */}
             <div className="mt-6">
-              <h4 className="text-lg font-semibold mb-4">GST Rates</h4>
+              <h4 className="text-lg font-semibold mb-1">GST Rates</h4>
+              <p className="text-sm text-gray-500 mb-4">
+                Each bill line is taxed at its category's rate in force on the bill date. Categories without a rate use the default.
+                A {MAKING_CHARGES_CATEGORY} rate bills the making charges on metal-priced pieces as a line of their own at that rate;
+                without one they are taxed with the piece.
+              </p>
               <div className="grid gap-4">
                 {gstRates.map(rate => (
-                  <div key={rate.id} className="grid grid-cols-3 gap-4 items-center">
+                  <div key={rate.id} className="flex gap-4 items-center">
+                    <div className="w-48 text-sm font-medium">{rate.category || 'All categories'}</div>
+                    <div className="w-28 text-sm text-gray-600">{format(new Date(rate.effective_from), 'dd/MM/yyyy')}</div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs w-24 text-center ${getRateStatus(rate).className}`}>
+                      {getRateStatus(rate).label}
+                    </span>
                     <input
                       type="number"
                       className="input"
@@ -189,7 +272,7 @@ const GSTSettings = () => {
                       onChange={e => handleRateChange(rate.id, 'rate', Number(e.target.value))}
                       min="0"
                       max="100"
-                      step="0.1"
+                      step="0.01"
                       style={{ width: '120px' }}
                     />
                     <div className="flex-1">
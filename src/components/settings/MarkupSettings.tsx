@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { Plus, Save, Info, Edit2, Trash2, AlertCircle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useToast } from '../../hooks/useToast';
+import type { MakingChargeType } from '../../types';
+import { MAKING_CHARGE_TYPES } from '../../utils/markupSettings';
 
 interface MarkupSetting {
   id: string;
@@ -9,6 +11,12 @@ interface MarkupSetting {
   name: string;
   code: string;
   markup: number;
+  making_charge_type: MakingChargeType;
+  making_charge_value: number;
+  wastage_percent: number;
+  hallmark_required: boolean;
+  payment_terms_days: number;
+  hsn_code: string;
 }
 
 const MarkupSettings = () => {
@@ -17,7 +25,13 @@ const MarkupSettings = () => {
     type: 'manufacturer',
     name: '',
     code: '',
-    markup: 0.2
+    markup: 0.2,
+    making_charge_type: 'per_piece',
+    making_charge_value: 0,
+    wastage_percent: 0,
+    hallmark_required: false,
+    payment_terms_days: 30,
+    hsn_code: '7113'
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -67,6 +81,13 @@ const MarkupSettings = () => {
         throw new Error('Markup must be between 0 and 1');
       }
 
+      validateMakingCharges('making_charge_value', newSetting.making_charge_value, newSetting.making_charge_type);
+      validateMakingCharges('wastage_percent', newSetting.wastage_percent);
+
+      if (newSetting.type === 'category' && !/^(\d{4}|\d{6}|\d{8})$/.test(newSetting.hsn_code || '')) {
+        throw new Error('HSN code must be 4, 6 or 8 digits (e.g., 7113)');
+      }
+
       const { error } = await supabase
         .from('markup_settings')
         .insert([newSetting]);
@@ -77,7 +98,13 @@ const MarkupSettings = () => {
         type: 'manufacturer',
         name: '',
         code: '',
-        markup: 0.2
+        markup: 0.2,
+        making_charge_type: 'per_piece',
+        making_charge_value: 0,
+        wastage_percent: 0,
+        hallmark_required: false,
+        payment_terms_days: 30,
+        hsn_code: '7113'
       });
       
       addToast({
@@ -97,7 +124,21 @@ const MarkupSettings = () => {
     }
   };
 
-  const handleSettingChange = async (id: string, field: keyof MarkupSetting, value: string | number) => {
+  const validateMakingCharges = (
+    field: 'making_charge_value' | 'wastage_percent',
+    value: unknown,
+    type?: MakingChargeType
+  ) => {
+    const numValue = Number(value || 0);
+    if (isNaN(numValue) || numValue < 0) {
+      throw new Error(field === 'wastage_percent' ? 'Wastage must be 0 or more' : 'Making charges must be 0 or more');
+    }
+    if ((field === 'wastage_percent' || type === 'percent') && numValue > 100) {
+      throw new Error(field === 'wastage_percent' ? 'Wastage cannot exceed 100%' : 'Making charges cannot exceed 100% of metal value');
+    }
+  };
+
+  const handleSettingChange = async (id: string, field: keyof MarkupSetting, value: string | number | boolean) => {
     try {
       // Validate code format
       if (field === 'code') {
@@ -118,6 +159,21 @@ const MarkupSettings = () => {
         }
       }
 
+      if (field === 'payment_terms_days') {
+        const numValue = Number(value);
+        if (!Number.isInteger(numValue) || numValue < 0) {
+          throw new Error('Credit days must be a whole number of days');
+        }
+      }
+
+      if (field === 'hsn_code' && !/^(\d{4}|\d{6}|\d{8})$/.test(value.toString())) {
+        throw new Error('HSN code must be 4, 6 or 8 digits (e.g., 7113)');
+      }
+
+      if (field === 'making_charge_value' || field === 'wastage_percent') {
+        validateMakingCharges(field, value, settings.find(s => s.id === id)?.making_charge_type);
+      }
+
       const { error } = await supabase
         .from('markup_settings')
         .update({ [field]: value })
@@ -172,6 +228,43 @@ const MarkupSettings = () => {
     }
   };
 
+  const renderMakingFields = (setting: MarkupSetting) => (
+    <>
+      <select
+        className="input w-40"
+        value={setting.making_charge_type || 'per_piece'}
+        onChange={e => handleSettingChange(setting.id, 'making_charge_type', e.target.value)}
+      >
+        {MAKING_CHARGE_TYPES.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <div className="w-28">
+        <input
+          type="number"
+          className="input"
+          value={setting.making_charge_value ?? 0}
+          onChange={e => handleSettingChange(setting.id, 'making_charge_value', Number(e.target.value))}
+          min="0"
+          step="0.01"
+          title="Making charges"
+        />
+      </div>
+      <div className="w-24">
+        <input
+          type="number"
+          className="input"
+          value={setting.wastage_percent ?? 0}
+          onChange={e => handleSettingChange(setting.id, 'wastage_percent', Number(e.target.value))}
+          min="0"
+          max="100"
+          step="0.1"
+          title="Wastage %"
+        />
+      </div>
+    </>
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -207,7 +300,7 @@ const MarkupSettings = () => {
       <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100">
         <div className="p-6 space-y-6">
           {/* Add New Setting */}
-          <div className="flex gap-4 items-end border-b pb-6">
+          <div className="flex flex-wrap gap-4 items-end border-b pb-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
               <select
@@ -263,6 +356,85 @@ const MarkupSettings = () => {
                 step="1"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Making Charges</label>
+              <select
+                className="input"
+                value={newSetting.making_charge_type}
+                onChange={e => setNewSetting(prev => ({ ...prev, making_charge_type: e.target.value as MakingChargeType }))}
+              >
+                {MAKING_CHARGE_TYPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rate ({MAKING_CHARGE_TYPES.find(option => option.value === newSetting.making_charge_type)?.unit})
+              </label>
+              <input
+                type="number"
+                className="input w-28"
+                value={newSetting.making_charge_value || ''}
+                onChange={e => setNewSetting(prev => ({ ...prev, making_charge_value: Number(e.target.value) }))}
+                min="0"
+                step="0.01"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Wastage %</label>
+              <input
+                type="number"
+                className="input w-24"
+                value={newSetting.wastage_percent || ''}
+                onChange={e => setNewSetting(prev => ({ ...prev, wastage_percent: Number(e.target.value) }))}
+                min="0"
+                max="100"
+                step="0.1"
+              />
+            </div>
+
+            {newSetting.type === 'manufacturer' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Credit days</label>
+                <input
+                  type="number"
+                  className="input w-24"
+                  value={newSetting.payment_terms_days ?? ''}
+                  onChange={e => setNewSetting(prev => ({ ...prev, payment_terms_days: Number(e.target.value) }))}
+                  min="0"
+                  step="1"
+                />
+              </div>
+            )}
+
+            {newSetting.type === 'category' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">HSN</label>
+                <input
+                  type="text"
+                  className="input w-24 font-mono"
+                  value={newSetting.hsn_code || ''}
+                  onChange={e => setNewSetting(prev => ({ ...prev, hsn_code: e.target.value.replace(/\D/g, '') }))}
+                  maxLength={8}
+                />
+              </div>
+            )}
+
+            {newSetting.type === 'category' && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 h-10">
+                <input
+                  type="checkbox"
+                  checked={!!newSetting.hallmark_required}
+                  onChange={e => setNewSetting(prev => ({ ...prev, hallmark_required: e.target.checked }))}
+                  className="rounded border-gray-300"
+                />
+                HUID required
+              </label>
+            )}
             <button
               onClick={handleAdd}
               className="btn btn-primary h-10"
@@ -274,7 +446,11 @@ const MarkupSettings = () => {
 
           {/* Manufacturer Settings */}
           <div className="mt-6">
-            <h4 className="text-lg font-semibold mb-4">Manufacturer Codes & Markups</h4>
+            <h4 className="text-lg font-semibold mb-1">Manufacturer Codes & Markups</h4>
+            <p className="text-sm text-gray-500 mb-4">
+              Making charges and wastage set here override the category terms for this manufacturer's pieces.
+              Credit days set when their purchase bills fall due.
+            </p>
             <div className="grid gap-4">
               {settings
                 .filter(setting => setting.type === 'manufacturer')
@@ -305,6 +481,18 @@ const MarkupSettings = () => {
                         step="1"
                       />
                     </div>
+                    {renderMakingFields(setting)}
+                    <div className="w-24">
+                      <input
+                        type="number"
+                        className="input"
+                        value={setting.payment_terms_days ?? 30}
+                        onChange={e => handleSettingChange(setting.id, 'payment_terms_days', Number(e.target.value))}
+                        min="0"
+                        step="1"
+                        title="Credit days"
+                      />
+                    </div>
                     <button
                       onClick={() => handleDelete(setting.id)}
                       className="text-red-500 hover:text-red-700"
@@ -350,6 +538,30 @@ const MarkupSettings = () => {
                         step="1"
                       />
                     </div>
+                    {renderMakingFields(setting)}
+                    <div className="w-24">
+                      <input
+                        type="text"
+                        className="input font-mono"
+                        defaultValue={setting.hsn_code || '7113'}
+                        onBlur={e => {
+                          if (e.target.value !== (setting.hsn_code || '')) {
+                            handleSettingChange(setting.id, 'hsn_code', e.target.value.trim());
+                          }
+                        }}
+                        maxLength={8}
+                        title="HSN code printed on tax invoices"
+                      />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700" title="Pieces in this category must carry a BIS hallmark HUID">
+                      <input
+                        type="checkbox"
+                        checked={!!setting.hallmark_required}
+                        onChange={e => handleSettingChange(setting.id, 'hallmark_required', e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      HUID
+                    </label>
                     <button
                       onClick={() => handleDelete(setting.id)}
                       className="text-red-500 hover:text-red-700"
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { Plus, Coins, Trash2, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../hooks/useToast';
+import type { MetalRate, MetalType } from '../../types';
+import { getMetalRates, clearMetalRateCache, PURITY_OPTIONS, METAL_LABELS } from '../../utils/metalRates';
+import { formatCurrency } from '../../utils/quotation';
+
+const MetalRateSettings = () => {
+  const [currentRates, setCurrentRates] = useState<MetalRate[]>([]);
+  const [history, setHistory] = useState<MetalRate[]>([]);
+  const [newRate, setNewRate] = useState<{ metal: MetalType; purity: string; rate_per_gram: string }>({
+    metal: 'gold',
+    purity: '22K',
+    rate_per_gram: ''
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  const fetchRates = async () => {
+    try {
+      setLoading(true);
+      const [rates, { data, error }] = await Promise.all([
+        getMetalRates(),
+        supabase
+          .from('metal_rates')
+          .select('*')
+          .order('effective_date', { ascending: false })
+          .order('created_at', { ascending: false })
+          .limit(30)
+      ]);
+
+      if (error) throw error;
+      setCurrentRates(rates);
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error fetching metal rates:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load metal rates',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const ratePerGram = Number(newRate.rate_per_gram);
+
+    try {
+      if (isNaN(ratePerGram) || ratePerGram <= 0) {
+        throw new Error('Rate per gram must be greater than 0');
+      }
+
+      setSaving(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('metal_rates')
+        .insert([{
+          metal: newRate.metal,
+          purity: newRate.purity,
+          rate_per_gram: ratePerGram,
+          effective_date: format(new Date(), 'yyyy-MM-dd'),
+          created_by: user?.id || null
+        }]);
+
+      if (error) throw error;
+
+      clearMetalRateCache();
+      setNewRate(prev => ({ ...prev, rate_per_gram: '' }));
+      addToast({
+        title: 'Success',
+        message: `${METAL_LABELS[newRate.metal]} ${newRate.purity} rate updated`,
+        type: 'success'
+      });
+      fetchRates();
+    } catch (error) {
+      console.error('Error adding metal rate:', error);
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to add metal rate',
+        type: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Are you sure you want to delete this rate?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('metal_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      clearMetalRateCache();
+      fetchRates();
+    } catch (error) {
+      console.error('Error deleting metal rate:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to delete metal rate',
+        type: 'error'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent">
+          Metal Rates
+        </h2>
+        <button onClick={fetchRates} className="btn btn-secondary flex items-center gap-2">
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </button>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100">
+        <div className="p-6 space-y-6">
+          {/* Add New Rate */}
+          <div className="flex gap-4 items-end border-b pb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Metal</label>
+              <select
+                className="input"
+                value={newRate.metal}
+                onChange={e => {
+                  const metal = e.target.value as MetalType;
+                  setNewRate(prev => ({ ...prev, metal, purity: PURITY_OPTIONS[metal][0].purity }));
+                }}
+              >
+                {(Object.keys(PURITY_OPTIONS) as MetalType[]).map(metal => (
+                  <option key={metal} value={metal}>{METAL_LABELS[metal]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Purity</label>
+              <select
+                className="input"
+                value={newRate.purity}
+                onChange={e => setNewRate(prev => ({ ...prev, purity: e.target.value }))}
+              >
+                {PURITY_OPTIONS[newRate.metal].map(option => (
+                  <option key={option.purity} value={option.purity}>{option.purity}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate per gram (₹)</label>
+              <input
+                type="number"
+                className="input w-40"
+                value={newRate.rate_per_gram}
+                onChange={e => setNewRate(prev => ({ ...prev, rate_per_gram: e.target.value }))}
+                min="0"
+                step="0.01"
+                placeholder="e.g., 6750"
+              />
+            </div>
+            <button
+              onClick={handleAdd}
+              className="btn btn-primary h-10"
+              disabled={!newRate.rate_per_gram || saving}
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading metal rates...</div>
+          ) : (
+            <>
+              {/* Rates in force */}
+              <div>
+                <h4 className="text-lg font-semibold mb-4">Today's Rates</h4>
+                {currentRates.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No rates entered yet. Metal-priced products will use their saved price until a rate is added.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {currentRates.map(rate => (
+                      <div key={rate.id} className="bg-amber-50 border border-amber-100 rounded-xl p-4">
+                        <div className="flex items-center gap-2 text-amber-800 text-sm font-medium">
+                          <Coins className="h-4 w-4" />
+                          {METAL_LABELS[rate.metal]} {rate.purity}
+                        </div>
+                        <div className="text-xl font-bold text-gray-900 mt-1">
+                          {formatCurrency(rate.rate_per_gram)}
+                          <span className="text-sm font-normal text-gray-500">/g</span>
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          Since {format(new Date(rate.effective_date), 'dd/MM/yyyy')}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Recent entries */}
+              <div>
+                <h4 className="text-lg font-semibold mb-4">Recent Entries</h4>
+                <div className="grid gap-2">
+                  {history.map(rate => (
+                    <div key={rate.id} className="grid grid-cols-5 gap-4 items-center text-sm">
+                      <span>{format(new Date(rate.effective_date), 'dd/MM/yyyy')}</span>
+                      <span>{METAL_LABELS[rate.metal]}</span>
+                      <span className="font-mono">{rate.purity}</span>
+                      <span className="font-medium">{formatCurrency(Number(rate.rate_per_gram))}/g</span>
+                      <button
+                        onClick={() => handleDelete(rate.id)}
+                        className="text-red-500 hover:text-red-700 justify-self-end"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetalRateSettings;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Save } from 'lucide-react';
+import type { PaymentReminderRule } from '../../types';
+import { getReminderRules, saveReminderRule, FOLLOW_UP_LABELS } from '../../utils/paymentReminders';
+import { useToast } from '../../hooks/useToast';
+
+const PaymentReminderSettings = () => {
+  const [rules, setRules] = useState<PaymentReminderRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  React.useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      setRules(await getReminderRules());
+    } catch (error) {
+      console.error('Error fetching reminder rules:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load reminder rules',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRule = (id: string, changes: Partial<PaymentReminderRule>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const handleSave = async (rule: PaymentReminderRule) => {
+    try {
+      setSavingId(rule.id);
+      await saveReminderRule(rule);
+      addToast({
+        title: 'Success',
+        message: `${FOLLOW_UP_LABELS[rule.event_type]} rule saved`,
+        type: 'success'
+      });
+      fetchRules();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save rule',
+        type: 'error'
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Payment Reminders</h3>
+        <p className="text-sm text-gray-500">
+          Alerts are raised each morning on unpaid bills, counted in days past the customer's credit terms.
+          Use {'{customer}'}, {'{bill}'}, {'{amount}'} and {'{days}'} in the message.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500">Loading rules...</div>
+      ) : (
+        <div className="space-y-4">
+          {rules.map(rule => (
+            <div key={rule.id} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">{FOLLOW_UP_LABELS[rule.event_type]}</h4>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={rule.active}
+                    onChange={e => updateRule(rule.id, { active: e.target.checked })}
+                  />
+                  Active
+                </label>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Days overdue</label>
+                  <input
+                    type="number"
+                    min="0"
+                    className="input"
+                    value={rule.days_overdue}
+                    onChange={e => updateRule(rule.id, { days_overdue: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Follow up within (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    className="input"
+                    value={rule.follow_up_days}
+                    onChange={e => updateRule(rule.id, { follow_up_days: Number(e.target.value) })}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+                  <input
+                    type="checkbox"
+                    checked={rule.notify_admins}
+                    onChange={e => updateRule(rule.id, { notify_admins: e.target.checked })}
+                  />
+                  Escalate to admins
+                </label>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+                <input
+                  type="text"
+                  className="input"
+                  value={rule.message}
+                  onChange={e => updateRule(rule.id, { message: e.target.value })}
+                />
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => handleSave(rule)}
+                  disabled={savingId === rule.id}
+                  className="btn btn-primary flex items-center gap-2"
+                >
+                  <Save className="h-4 w-4" />
+                  {savingId === rule.id ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentReminderSettings;
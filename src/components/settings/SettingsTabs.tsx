@@ -1,20 +1,26 @@
 import React from 'react';
-import { Settings, Users, Calculator, Printer, Building, Award, Volume2 } from 'lucide-react';
+import { Settings, Users, Calculator, Printer, Building, Award, Volume2, Coins, BellRing, ListOrdered } from 'lucide-react';
 import MarkupSettings from './MarkupSettings';
+import MetalRateSettings from './MetalRateSettings';
 import StaffManagement from './StaffManagement';
 import VoiceSettings from './VoiceSettings';
 import PrintSettings from './PrintSettings';
 import GSTSettings from './GSTSettings';
 import CompanySettings from './CompanySettings';
 import StaffPerformance from './StaffPerformance';
+import PaymentReminderSettings from './PaymentReminderSettings';
+import WorkflowSettings from './WorkflowSettings';
 import { hasPermission } from '../../lib/auth';
 
 const TABS = [
   hasPermission('manage_settings') && { id: 'markup', label: 'Markup', icon: Calculator, component: MarkupSettings },
+  hasPermission('manage_settings') && { id: 'metal-rates', label: 'Metal Rates', icon: Coins, component: MetalRateSettings },
   hasPermission('manage_settings') && { id: 'voice', label: 'Voice', icon: Volume2, component: VoiceSettings },
   hasPermission('manage_staff') && { id: 'staff', label: 'Staff', icon: Users, component: StaffManagement },
   hasPermission('manage_staff') && { id: 'performance', label: 'Performance', icon: Award, component: StaffPerformance },
   hasPermission('manage_settings') && { id: 'gst', label: 'GST', icon: Settings, component: GSTSettings },
+  hasPermission('manage_settings') && { id: 'reminders', label: 'Reminders', icon: BellRing, component: PaymentReminderSettings },
+  hasPermission('manage_settings') && { id: 'workflows', label: 'Workflows', icon: ListOrdered, component: WorkflowSettings },
   hasPermission('manage_settings') && { id: 'print', label: 'Print', icon: Printer, component: PrintSettings },
   hasPermission('manage_settings') && { id: 'company', label: 'Company', icon: Building, component: CompanySettings }
 ];
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Save, ArrowUp, ArrowDown } from 'lucide-react';
+import type { WorkflowDefinition, WorkflowStep, WorkflowSkipCondition } from '../../types';
+import { getWorkflowDefinitions, saveWorkflowSteps, SKIP_CONDITION_LABELS } from '../../utils/workflowUtils';
+import { ROLE_PERMISSIONS } from '../../lib/auth';
+import { useToast } from '../../hooks/useToast';
+
+// Admins can complete any step, so they aren't offered
+const STEP_ROLES = Object.keys(ROLE_PERMISSIONS).filter(role => role !== 'admin');
+
+const WorkflowSettings = () => {
+  const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  React.useEffect(() => {
+    fetchWorkflows();
+  }, []);
+
+  const fetchWorkflows = async () => {
+    try {
+      setLoading(true);
+      setWorkflows(await getWorkflowDefinitions());
+    } catch (error) {
+      console.error('Error fetching workflows:', error);
+      addToast({
+        title: 'Error',
+        message: 'Failed to load workflows',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSteps = (workflowId: string, update: (steps: WorkflowStep[]) => WorkflowStep[]) => {
+    setWorkflows(prev => prev.map(workflow =>
+      workflow.id === workflowId ? { ...workflow, steps: update(workflow.steps) } : workflow
+    ));
+  };
+
+  const updateStep = (workflowId: string, stepId: string, changes: Partial<WorkflowStep>) => {
+    updateSteps(workflowId, steps => steps.map(step => step.id === stepId ? { ...step, ...changes } : step));
+  };
+
+  const moveStep = (workflowId: string, index: number, direction: -1 | 1) => {
+    updateSteps(workflowId, steps => {
+      const target = index + direction;
+      if (target < 0 || target >= steps.length) return steps;
+      const reordered = [...steps];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const toggleRole = (workflowId: string, step: WorkflowStep, role: string) => {
+    updateStep(workflowId, step.id, {
+      required_roles: step.required_roles.includes(role)
+        ? step.required_roles.filter(r => r !== role)
+        : [...step.required_roles, role]
+    });
+  };
+
+  const handleSave = async (workflow: WorkflowDefinition) => {
+    try {
+      setSavingId(workflow.id);
+      await saveWorkflowSteps(workflow.id, workflow.steps);
+      addToast({
+        title: 'Success',
+        message: `${workflow.name} saved`,
+        type: 'success'
+      });
+      fetchWorkflows();
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save workflow',
+        type: 'error'
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Video Call Workflows</h3>
+        <p className="text-sm text-gray-500">
+          Each step must be completed or skipped before the next one can start. Leave the roles empty to let
+          anyone complete a step; admins always can.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500">Loading workflows...</div>
+      ) : (
+        <div className="space-y-4">
+          {workflows.map(workflow => (
+            <div key={workflow.id} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+              <div>
+                <h4 className="font-medium">
+                  {workflow.name}
+                  {workflow.is_default && <span className="ml-2 text-xs text-blue-600">Default</span>}
+                </h4>
+                {workflow.description && (
+                  <p className="text-sm text-gray-500">{workflow.description}</p>
+                )}
+              </div>
+
+              <div className="divide-y divide-gray-100">
+                {workflow.steps.map((step, index) => (
+                  <div key={step.id} className="py-3 grid grid-cols-1 md:grid-cols-12 gap-3 items-start">
+                    <div className="md:col-span-1 flex md:flex-col gap-1">
+                      <button
+                        onClick={() => moveStep(workflow.id, index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => moveStep(workflow.id, index, 1)}
+                        disabled={index === workflow.steps.length - 1}
+                        className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="md:col-span-3">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Step</label>
+                      <input
+                        type="text"
+                        className="input"
+                        value={step.label}
+                        onChange={e => updateStep(workflow.id, step.id, { label: e.target.value })}
+                      />
+                    </div>
+                    <div className="md:col-span-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Completed by</label>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {STEP_ROLES.map(role => (
+                          <label key={role} className="flex items-center gap-1 text-sm text-gray-700 capitalize">
+                            <input
+                              type="checkbox"
+                              checked={step.required_roles.includes(role)}
+                              onChange={() => toggleRole(workflow.id, step, role)}
+                            />
+                            {role}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Skip for</label>
+                      <select
+                        className="input"
+                        value={step.skip_when || ''}
+                        onChange={e => updateStep(workflow.id, step.id, {
+                          skip_when: (e.target.value || null) as WorkflowSkipCondition | null
+                        })}
+                      >
+                        <option value="">Never skipped</option>
+                        {Object.entries(SKIP_CONDITION_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">SLA (hours)</label>
+                      <input
+                        type="number"
+                        min="0.5"
+                        step="0.5"
+                        className="input"
+                        value={step.sla_hours ?? ''}
+                        onChange={e => updateStep(workflow.id, step.id, {
+                          sla_hours: e.target.value ? Number(e.target.value) : null
+                        })}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={() => handleSave(workflow)}
+                  disabled={savingId === workflow.id}
+                  className="btn btn-primary flex items-center gap-2"
+                >
+                  <Save className="h-4 w-4" />
+                  {savingId === workflow.id ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkflowSettings;
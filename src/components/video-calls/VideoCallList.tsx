@@ -6,6 +6,8 @@ import { WorkflowTabs } from './components/WorkflowTabs';
 import { VideoCallCard } from './components/VideoCallCard';
 import QuickQuotationModal from '../pos/QuickQuotationModal';
 import { EmptyState } from './components/EmptyState';
+import { useWorkflowDefinition } from '../../hooks/useWorkflowDefinition';
+import { getCurrentWorkflowStep, isStepDone } from '../../utils/workflowUtils';
 import VideoCallForm from './VideoCallForm';
 import { Loader2 } from 'lucide-react';
 import { format } from 'date-fns';
@@ -14,6 +16,7 @@ const VideoCallList = () => {
   const { state, actions } = useVideoCallList();
   const [showQuotationModal, setShowQuotationModal] = useState<VideoCall | null>(null);
   const [priorityFilter, setPriorityFilter] = useState<'all' | 'today' | 'upcoming' | 'overdue'>('all');
+  const { stepKeys } = useWorkflowDefinition();
 
   // Add real-time subscription for all video calls
   useEffect(() => {
@@ -62,35 +65,14 @@ const VideoCallList = () => {
     
     if (tabId === 'completed') {
       return state.calls.filter(call =>
-        Object.values(call.workflow_status || {}).every(status => status === 'completed')
+        Object.values(call.workflow_status || {}).every(isStepDone)
       ).length;
     }
     
-    // For workflow steps, check if previous steps are completed
-    const workflowOrder = [
-      'video_call',
-      'quotation', 
-      'profiling',
-      'payment',
-      'qc',
-      'packaging',
-      'dispatch'
-    ];
-    
-    const currentStepIndex = workflowOrder.indexOf(tabId);
-    
-    return state.calls.filter(call => {
-      // Check if all previous steps are completed
-      const previousStepsCompleted = workflowOrder
-        .slice(0, currentStepIndex)
-        .every(step => call.workflow_status?.[step] === 'completed');
-      
-      // Current step must be pending or in_progress
-      const currentStepPending = call.workflow_status?.[tabId] === 'pending' ||
-                               call.workflow_status?.[tabId] === 'in_progress';
-      
-      return previousStepsCompleted && currentStepPending;
-    }).length;
+    // Calls whose current step is this one
+    return state.calls.filter(call =>
+      getCurrentWorkflowStep(call.workflow_status, stepKeys) === tabId
+    ).length;
   };
 
   const getPriorityClass = (call: VideoCall) => {
@@ -0,0 +1,142 @@
+import React from 'react';
+import { Film, Bookmark, Play, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { CallBookmark } from '../../../types';
+import {
+  getCallRecordings,
+  getCallBookmarks,
+  findBookmarkInRecordings,
+  type CallRecordingWithUrl
+} from '../../../utils/callRecordings';
+import { formatCurrency } from '../../../utils/quotation';
+
+interface CallRecordPanelProps {
+  callId: string;
+}
+
+const formatOffset = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Recordings of the call and the bookmarked moments in it: what was shown,
+// at what price, and when
+export const CallRecordPanel: React.FC<CallRecordPanelProps> = ({ callId }) => {
+  const [recordings, setRecordings] = React.useState<CallRecordingWithUrl[]>([]);
+  const [bookmarks, setBookmarks] = React.useState<CallBookmark[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const videoRefs = React.useRef<Record<string, HTMLVideoElement | null>>({});
+
+  React.useEffect(() => {
+    fetchRecords();
+  }, [callId]);
+
+  const fetchRecords = async () => {
+    try {
+      setLoading(true);
+      const [callRecordings, callBookmarks] = await Promise.all([
+        getCallRecordings(callId),
+        getCallBookmarks(callId)
+      ]);
+      setRecordings(callRecordings);
+      setBookmarks(callBookmarks);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load call recordings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePlay = (recordingId: string, offset: number) => {
+    const video = videoRefs.current[recordingId];
+    if (!video) return;
+    video.currentTime = offset;
+    video.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    video.play().catch(() => undefined);
+  };
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100 p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <Film className="h-5 w-5 text-blue-600" />
+        <h3 className="font-medium">Recordings &amp; Bookmarks</h3>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 text-blue-500 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-600">{error}</div>
+      ) : (
+        <>
+          {recordings.length === 0 ? (
+            <div className="text-sm text-gray-500">This call was not recorded.</div>
+          ) : (
+            <div className="space-y-4">
+              {recordings.map(recording => (
+                <div key={recording.id}>
+                  <div className="text-sm text-gray-600 mb-2">
+                    {format(new Date(recording.started_at), 'PPp')} · {formatOffset(recording.duration_seconds)}
+                  </div>
+                  {recording.url ? (
+                    <video
+                      ref={el => { videoRefs.current[recording.id] = el; }}
+                      src={recording.url}
+                      controls
+                      preload="metadata"
+                      className="w-full max-h-96 bg-black rounded-lg"
+                    />
+                  ) : (
+                    <div className="text-sm text-red-600">The recording file could not be opened.</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Bookmarks</div>
+            {bookmarks.length === 0 ? (
+              <div className="text-sm text-gray-500">No bookmarks on this call.</div>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {bookmarks.map(bookmark => {
+                  const position = findBookmarkInRecordings(bookmark, recordings);
+                  return (
+                    <div key={bookmark.id} className="flex items-center gap-3 py-2">
+                      <Bookmark className="h-4 w-4 text-amber-500 shrink-0" />
+                      <div className="text-sm text-gray-500 w-20 shrink-0">
+                        {format(new Date(bookmark.created_at), 'p')}
+                      </div>
+                      <div className="flex-1 min-w-0 text-sm">
+                        <div className="text-gray-800">
+                          {bookmark.note}
+                          {bookmark.sku && <span className="font-medium"> · {bookmark.sku}</span>}
+                        </div>
+                        {bookmark.price !== null && (
+                          <div className="text-gray-600">{formatCurrency(bookmark.price)}</div>
+                        )}
+                      </div>
+                      {position?.recording.url && (
+                        <button
+                          onClick={() => handlePlay(position.recording.id, position.offset)}
+                          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                        >
+                          <Play className="h-4 w-4" />
+                          {formatOffset(position.offset)}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
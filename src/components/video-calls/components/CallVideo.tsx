@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface CallVideoProps {
+  stream: MediaStream | null;
+  muted?: boolean;
+  mirrored?: boolean;
+  className?: string;
+}
+
+export const CallVideo: React.FC<CallVideoProps> = ({
+  stream,
+  muted = false,
+  mirrored = false,
+  className = ''
+}) => {
+  const videoRef = React.useRef<HTMLVideoElement>(null);
+
+  React.useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <video
+      ref={videoRef}
+      autoPlay
+      playsInline
+      muted={muted}
+      className={`${className} ${mirrored ? '-scale-x-100' : ''}`}
+    />
+  );
+};
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Link2, Copy, QrCode, RefreshCw, MessageCircle, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { QRCodeModal } from './QRCodeModal';
+import { issueJoinLink, getCustomerJoinUrl } from '../../../utils/videoCallMedia';
+import { useToast } from '../../../hooks/useToast';
+import type { VideoCall, VideoCallJoinLink } from '../../../types';
+
+interface CustomerJoinLinkProps {
+  call: VideoCall;
+  customerPhone?: string;
+}
+
+export const CustomerJoinLink: React.FC<CustomerJoinLinkProps> = ({ call, customerPhone }) => {
+  const [link, setLink] = React.useState<VideoCallJoinLink | null>(
+    call.join_token && call.join_token_expires_at && new Date(call.join_token_expires_at) > new Date()
+      ? { token: call.join_token, expires_at: call.join_token_expires_at }
+      : null
+  );
+  const [loading, setLoading] = React.useState(false);
+  const [showQR, setShowQR] = React.useState(false);
+  const { addToast } = useToast();
+
+  if (call.status === 'completed' || call.status === 'cancelled') return null;
+
+  const handleIssue = async (renew: boolean) => {
+    try {
+      setLoading(true);
+      setLink(await issueJoinLink(call.id, renew));
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to create join link',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const url = link ? getCustomerJoinUrl(link.token) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      addToast({ title: 'Link Copied', message: 'Send this link to the customer to join the call.', type: 'success' });
+    } catch (error) {
+      console.error('Error copying join link:', error);
+    }
+  };
+
+  const handleWhatsApp = () => {
+    const message = `Please join your video call at ${format(new Date(call.scheduled_at), 'PPp')} using this link:\n${url}`;
+    window.open(`https://wa.me/${customerPhone}?text=${encodeURIComponent(message)}`, '_blank');
+  };
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Link2 className="h-5 w-5 text-blue-500" />
+          <h2 className="text-lg font-semibold">Customer Join Link</h2>
+        </div>
+        {!link && (
+          <button
+            onClick={() => handleIssue(false)}
+            disabled={loading}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+            Create link
+          </button>
+        )}
+      </div>
+
+      {link && (
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <input readOnly value={url} className="input flex-1 text-sm" onFocus={e => e.target.select()} />
+            <button onClick={handleCopy} title="Copy link" className="btn btn-secondary">
+              <Copy className="h-4 w-4" />
+            </button>
+            <button onClick={() => setShowQR(true)} title="Show QR code" className="btn btn-secondary">
+              <QrCode className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex items-center justify-between gap-4 flex-wrap text-sm text-gray-500">
+            <span>Works until {format(new Date(link.expires_at), 'PPp')}</span>
+            <div className="flex items-center gap-3">
+              {customerPhone && (
+                <button onClick={handleWhatsApp} className="flex items-center gap-1 text-green-600 hover:text-green-700">
+                  <MessageCircle className="h-4 w-4" />
+                  Send on WhatsApp
+                </button>
+              )}
+              <button
+                onClick={() => handleIssue(true)}
+                disabled={loading}
+                title="Stops the current link working"
+                className="flex items-center gap-1 text-gray-600 hover:text-gray-800"
+              >
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                New link
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showQR && link && (
+        <QRCodeModal
+          url={url}
+          caption="Scan to join the video call"
+          onClose={() => setShowQR(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { ShowcaseItem } from '../../../types';
+import { ShowcaseItemCard } from './ShowcaseItemCard';
+import {
+  getShowcaseByToken,
+  setShortlistedByToken,
+  createShowcaseChannel,
+  type ShowcaseChannel
+} from '../../../utils/videoCallShowcase';
+
+interface CustomerShowcaseProps {
+  callId: string;
+  token: string;
+  onCountChange?: (count: number) => void;
+}
+
+// The customer's view of what staff are showing, where they heart the
+// pieces they like
+export const CustomerShowcase: React.FC<CustomerShowcaseProps> = ({ callId, token, onCountChange }) => {
+  const [items, setItems] = React.useState<ShowcaseItem[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+  const channelRef = React.useRef<ShowcaseChannel | null>(null);
+  const onCountChangeRef = React.useRef(onCountChange);
+  onCountChangeRef.current = onCountChange;
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const showcase = await getShowcaseByToken(token);
+      setItems(showcase);
+      setError(null);
+      onCountChangeRef.current?.(showcase.length);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not load the showcase');
+    }
+  }, [token]);
+
+  React.useEffect(() => {
+    refresh();
+    channelRef.current = createShowcaseChannel(callId, refresh);
+
+    return () => {
+      channelRef.current?.close();
+      channelRef.current = null;
+    };
+  }, [callId, refresh]);
+
+  const handleToggleShortlist = async (item: ShowcaseItem) => {
+    // Show the heart straight away; the reload corrects it if the save failed
+    setItems(prev => prev.map(i => (i.id === item.id ? { ...i, shortlisted: !item.shortlisted } : i)));
+    try {
+      await setShortlistedByToken(token, item.id, !item.shortlisted);
+      channelRef.current?.notify();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not update your shortlist');
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-900/95">
+      <div className="p-3 border-b border-gray-700 text-sm text-gray-300">
+        Tap the heart on pieces you like
+      </div>
+      {error && (
+        <div className="m-3 bg-red-600/80 rounded-lg px-3 py-2 text-sm">{error}</div>
+      )}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {items.length === 0 ? (
+          <div className="text-center text-sm text-gray-500 py-8">
+            Pieces shown on the call will appear here
+          </div>
+        ) : (
+          items.map(item => (
+            <ShowcaseItemCard key={item.id} item={item} onToggleShortlist={handleToggleShortlist} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { Video, Mic, CheckCircle, XCircle, Loader2, RefreshCw } from 'lucide-react';
+import { CallVideo } from './CallVideo';
+
+type DeviceState = 'checking' | 'ok' | 'blocked' | 'missing';
+
+interface DeviceCheckProps {
+  onResult?: (ready: boolean) => void;
+}
+
+const describeFailure = (error: unknown): DeviceState =>
+  error instanceof DOMException && (error.name === 'NotFoundError' || error.name === 'OverconstrainedError')
+    ? 'missing'
+    : 'blocked';
+
+// Lets the customer see and hear themselves before joining. Everything is
+// released on unmount so the call can open the devices afresh.
+export const DeviceCheck: React.FC<DeviceCheckProps> = ({ onResult }) => {
+  const [stream, setStream] = React.useState<MediaStream | null>(null);
+  const [camera, setCamera] = React.useState<DeviceState>('checking');
+  const [microphone, setMicrophone] = React.useState<DeviceState>('checking');
+  const [level, setLevel] = React.useState(0);
+  const [attempt, setAttempt] = React.useState(0);
+  const onResultRef = React.useRef(onResult);
+  onResultRef.current = onResult;
+
+  React.useEffect(() => {
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let frame = 0;
+
+    const meter = (audio: MediaStream) => {
+      audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 256;
+      audioContext.createMediaStreamSource(audio).connect(analyser);
+      const samples = new Uint8Array(analyser.frequencyBinCount);
+
+      const tick = () => {
+        analyser.getByteFrequencyData(samples);
+        const average = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+        setLevel(Math.min(100, Math.round((average / 128) * 100)));
+        frame = requestAnimationFrame(tick);
+      };
+      tick();
+    };
+
+    const check = async () => {
+      setCamera('checking');
+      setMicrophone('checking');
+
+      const tracks: MediaStreamTrack[] = [];
+      let cameraState: DeviceState = 'ok';
+      let micState: DeviceState = 'ok';
+
+      try {
+        const video = await navigator.mediaDevices.getUserMedia({ video: true });
+        tracks.push(...video.getTracks());
+      } catch (error) {
+        cameraState = describeFailure(error);
+      }
+
+      try {
+        const audio = await navigator.mediaDevices.getUserMedia({ audio: true });
+        tracks.push(...audio.getTracks());
+      } catch (error) {
+        micState = describeFailure(error);
+      }
+
+      if (cancelled) {
+        tracks.forEach(track => track.stop());
+        return;
+      }
+
+      opened = new MediaStream(tracks);
+      setStream(opened);
+      setCamera(cameraState);
+      setMicrophone(micState);
+      if (micState === 'ok') meter(opened);
+      onResultRef.current?.(micState === 'ok');
+    };
+
+    check();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      audioContext?.close();
+      opened?.getTracks().forEach(track => track.stop());
+    };
+  }, [attempt]);
+
+  const statusIcon = (state: DeviceState) => {
+    if (state === 'checking') return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />;
+    if (state === 'ok') return <CheckCircle className="h-4 w-4 text-green-400" />;
+    return <XCircle className="h-4 w-4 text-red-400" />;
+  };
+
+  const statusText = (state: DeviceState, device: string) => {
+    switch (state) {
+      case 'checking': return `Checking ${device}...`;
+      case 'ok': return `${device[0].toUpperCase()}${device.slice(1)} working`;
+      case 'missing': return `No ${device} found`;
+      default: return `${device[0].toUpperCase()}${device.slice(1)} blocked; allow it in the browser settings`;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="aspect-video bg-black rounded-lg overflow-hidden flex items-center justify-center">
+        {camera === 'ok' ? (
+          <CallVideo stream={stream} muted mirrored className="w-full h-full object-cover" />
+        ) : (
+          <Video className="h-10 w-10 text-gray-600" />
+        )}
+      </div>
+
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center gap-2">
+          {statusIcon(camera)}
+          <span>{statusText(camera, 'camera')}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {statusIcon(microphone)}
+          <span>{statusText(microphone, 'microphone')}</span>
+        </div>
+        {microphone === 'ok' && (
+          <div className="flex items-center gap-2">
+            <Mic className="h-4 w-4 text-gray-400" />
+            <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+              <div className="h-full bg-green-500 transition-all" style={{ width: `${level}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {(camera === 'blocked' || camera === 'missing' || microphone === 'blocked' || microphone === 'missing') && (
+        <button
+          onClick={() => setAttempt(prev => prev + 1)}
+          className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Check again
+        </button>
+      )}
+    </div>
+  );
+};
@@ -4,10 +4,15 @@ import { QRCodeSVG } from 'qrcode.react';
 
 interface QRCodeModalProps {
   url: string;
+  caption?: string;
   onClose: () => void;
 }
 
-export const QRCodeModal: React.FC<QRCodeModalProps> = ({ url, onClose }) => {
+export const QRCodeModal: React.FC<QRCodeModalProps> = ({
+  url,
+  caption = 'Scan this QR code to view quotation details',
+  onClose
+}) => {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg p-4">
@@ -18,7 +23,7 @@ export const QRCodeModal: React.FC<QRCodeModalProps> = ({ url, onClose }) => {
         </div>
         <div className="flex flex-col items-center">
           <QRCodeSVG value={url} size={256} />
-          <p className="mt-2 text-sm text-gray-600">Scan this QR code to view quotation details</p>
+          <p className="mt-2 text-sm text-gray-600">{caption}</p>
         </div>
       </div>
     </div>
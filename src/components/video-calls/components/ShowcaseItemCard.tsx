@@ -0,0 +1,54 @@
+import React from 'react';
+import { Heart, Package, Trash2 } from 'lucide-react';
+import type { ShowcaseItem } from '../../../types';
+import { formatCurrency } from '../../../utils/quotation';
+
+interface ShowcaseItemCardProps {
+  item: ShowcaseItem;
+  onToggleShortlist: (item: ShowcaseItem) => void;
+  onRemove?: (item: ShowcaseItem) => void;
+}
+
+export const ShowcaseItemCard: React.FC<ShowcaseItemCardProps> = ({ item, onToggleShortlist, onRemove }) => {
+  const weight = item.gross_weight ?? item.net_weight;
+
+  return (
+    <div className="flex gap-3 bg-gray-800 rounded-lg p-2">
+      <div className="w-16 h-16 rounded-md overflow-hidden bg-gray-700 flex-shrink-0 flex items-center justify-center">
+        {item.image_url ? (
+          <img src={item.image_url} alt={item.name} className="w-full h-full object-cover" />
+        ) : (
+          <Package className="h-6 w-6 text-gray-500" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="font-medium truncate">{item.name}</div>
+        <div className="text-xs text-gray-400 font-mono truncate">{item.sku}</div>
+        <div className="flex items-center gap-2 text-sm mt-1">
+          <span className="text-amber-300">{formatCurrency(item.price)}</span>
+          {weight !== null && <span className="text-gray-400">{weight} g</span>}
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center justify-between">
+        <button
+          onClick={() => onToggleShortlist(item)}
+          title={item.shortlisted ? 'Remove from shortlist' : 'Add to shortlist'}
+          className="p-1"
+        >
+          <Heart className={`h-5 w-5 ${item.shortlisted ? 'fill-red-500 text-red-500' : 'text-gray-400 hover:text-red-400'}`} />
+        </button>
+        {onRemove && (
+          <button
+            onClick={() => onRemove(item)}
+            title="Remove from showcase"
+            className="p-1 text-gray-500 hover:text-gray-300"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React from 'react';
+import { ScanLine, FileText, Loader2, Heart } from 'lucide-react';
+import type { MetalRate, Product, ProductPiece, ShowcaseItem } from '../../../types';
+import { ShowcaseItemCard } from './ShowcaseItemCard';
+import { processScannedSku } from '../../../utils/scannerUtils';
+import { getCachedMetalRates, getLinePrice } from '../../../utils/metalRates';
+import {
+  getShowcase,
+  showProduct,
+  removeFromShowcase,
+  setShortlisted,
+  createShowcaseChannel,
+  convertShortlistToQuotation,
+  type ShowcaseChannel
+} from '../../../utils/videoCallShowcase';
+import { useToast } from '../../../hooks/useToast';
+
+interface ShowcasePanelProps {
+  callId: string;
+  customerType: 'wholesaler' | 'retailer';
+  onQuotationReady: (quotationId: string) => void;
+}
+
+// Staff scan pieces here to show them to the customer, who can heart them
+// from their side of the call
+export const ShowcasePanel: React.FC<ShowcasePanelProps> = ({ callId, customerType, onQuotationReady }) => {
+  const [items, setItems] = React.useState<ShowcaseItem[]>([]);
+  const [scannedSku, setScannedSku] = React.useState('');
+  const [converting, setConverting] = React.useState(false);
+  const [metalRates, setMetalRates] = React.useState<MetalRate[]>([]);
+  const channelRef = React.useRef<ShowcaseChannel | null>(null);
+  const { addToast } = useToast();
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setItems(await getShowcase(callId));
+    } catch (error) {
+      console.error('Error refreshing showcase:', error);
+    }
+  }, [callId]);
+
+  React.useEffect(() => {
+    refresh();
+    channelRef.current = createShowcaseChannel(callId, refresh);
+    getCachedMetalRates()
+      .then(setMetalRates)
+      .catch(() => setMetalRates([]));
+
+    return () => {
+      channelRef.current?.close();
+      channelRef.current = null;
+    };
+  }, [callId, refresh]);
+
+  const afterChange = async () => {
+    await refresh();
+    channelRef.current?.notify();
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    addToast({
+      title: 'Error',
+      message: error instanceof Error ? error.message : fallback,
+      type: 'error'
+    });
+  };
+
+  const handleScanned = async (product: Product, piece?: ProductPiece) => {
+    const listPrice = customerType === 'wholesaler' ? product.wholesalePrice : product.retailPrice;
+    try {
+      await showProduct(callId, product, getLinePrice({ product, price: listPrice }, metalRates), piece);
+      await afterChange();
+    } catch (error) {
+      showError(error, 'Failed to add to showcase');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    processScannedSku(scannedSku, handleScanned, setScannedSku);
+  };
+
+  const handleToggleShortlist = async (item: ShowcaseItem) => {
+    try {
+      await setShortlisted(item.id, !item.shortlisted);
+      await afterChange();
+    } catch (error) {
+      showError(error, 'Failed to update shortlist');
+    }
+  };
+
+  const handleRemove = async (item: ShowcaseItem) => {
+    try {
+      await removeFromShowcase(item.id);
+      await afterChange();
+    } catch (error) {
+      showError(error, 'Failed to remove from showcase');
+    }
+  };
+
+  const handleQuote = async () => {
+    try {
+      setConverting(true);
+      onQuotationReady(await convertShortlistToQuotation(callId));
+    } catch (error) {
+      showError(error, 'Failed to create quotation');
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const shortlisted = items.filter(item => item.shortlisted);
+
+  return (
+    <div className="h-full flex flex-col bg-gray-900/95">
+      <form onSubmit={handleSubmit} className="p-3 border-b border-gray-700">
+        <div className="relative">
+          <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            value={scannedSku}
+            onChange={e => setScannedSku(e.target.value)}
+            placeholder="Scan SKU, serial or HUID to show"
+            className="w-full pl-9 pr-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+      </form>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {items.length === 0 ? (
+          <div className="text-center text-sm text-gray-500 py-8">
+            Scanned pieces appear here for the customer to see
+          </div>
+        ) : (
+          items.map(item => (
+            <ShowcaseItemCard
+              key={item.id}
+              item={item}
+              onToggleShortlist={handleToggleShortlist}
+              onRemove={handleRemove}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="p-3 border-t border-gray-700">
+        <button
+          onClick={handleQuote}
+          disabled={converting || shortlisted.length === 0}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          {converting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+          Quote shortlist
+          <span className="flex items-center gap-1 text-blue-200">
+            (<Heart className="h-3 w-3 fill-current" /> {shortlisted.length})
+          </span>
+        </button>
+      </div>
+    </div>
+  );
+};
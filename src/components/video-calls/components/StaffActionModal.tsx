@@ -2,6 +2,7 @@ import React from 'react';
 import { X, Video, UserCheck, AlertCircle } from 'lucide-react';
 import type { VideoCall } from '../../../types';
 import { supabase } from '../../../lib/supabase';
+import { completeWorkflowStep } from '../../../utils/workflowUtils';
 
 interface StaffActionModalProps {
   call: VideoCall;
@@ -28,16 +29,12 @@ export const StaffActionModal: React.FC<StaffActionModalProps> = ({
         .from('video_calls')
         .update({
           status: 'completed',
-          workflow_status: {
-            ...call.workflow_status,
-            video_call: 'completed',
-            quotation: 'pending'
-          },
           notes: notes ? `${call.notes ? call.notes + '\n' : ''}Staff Notes: ${notes}` : call.notes
         })
         .eq('id', call.id);
 
       if (updateError) throw updateError;
+      await completeWorkflowStep(call.id, 'video_call');
 
       // Create notification
       await supabase.from('notifications').insert([{
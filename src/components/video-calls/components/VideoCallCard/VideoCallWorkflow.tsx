@@ -1,18 +1,10 @@
 import React from 'react';
-import { Video, FileText, UserCheck, DollarSign, QrCode, Box, Truck, ArrowRight, Plus } from 'lucide-react';
+import { FileText, ArrowRight, Plus, CircleDot } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import type { VideoCall } from '../../../../types';
 import { useToast } from '../../../../hooks/useToast';
-
-const WORKFLOW_STEPS = [
-  { key: 'video_call', label: 'Video Call', Icon: Video },
-  { key: 'quotation', label: 'Quotation', Icon: FileText },
-  { key: 'profiling', label: 'Profiling', Icon: UserCheck },
-  { key: 'payment', label: 'Payment', Icon: DollarSign },
-  { key: 'qc', label: 'Quality Check', Icon: QrCode },
-  { key: 'packaging', label: 'Packaging', Icon: Box },
-  { key: 'dispatch', label: 'Dispatch', Icon: Truck }
-];
+import { useWorkflowDefinition } from '../../../../hooks/useWorkflowDefinition';
+import { WORKFLOW_ICONS } from '../WorkflowStatus';
 
 const STATUS_STYLES = {
   pending: 'bg-gray-100 text-gray-500',
@@ -38,6 +30,7 @@ interface VideoCallWorkflowProps {
 export const VideoCallWorkflow: React.FC<VideoCallWorkflowProps> = ({ call, onCreateQuotation }) => {
   const { addToast } = useToast();
   const [showTooltip, setShowTooltip] = React.useState<string | null>(null);
+  const { steps } = useWorkflowDefinition(call.workflow_id);
 
   if (!call.workflow_status) return null;
 
@@ -53,18 +46,18 @@ export const VideoCallWorkflow: React.FC<VideoCallWorkflowProps> = ({ call, onCr
         <div className="absolute left-0 right-0 top-1/2 h-0.5 bg-gray-200 -translate-y-1/2" />
 
         {/* Workflow Steps */}
-        {WORKFLOW_STEPS.map((step, index) => {
-          const status = call.workflow_status?.[step.key] || 'pending';
-          const { Icon } = step;
-          const isClickable = step.key === 'quotation' && status === 'pending';
+        {steps.map((step, index) => {
+          const status = call.workflow_status?.[step.step_key] || 'pending';
+          const Icon = WORKFLOW_ICONS[step.step_key as keyof typeof WORKFLOW_ICONS] || CircleDot;
+          const isClickable = step.step_key === 'quotation' && status === 'pending';
 
           return (
             <div 
-              key={step.key}
+              key={step.step_key}
               className="relative flex flex-col items-center gap-2"
             >
               {/* Step Connector */}
-              {index < WORKFLOW_STEPS.length - 1 && (
+              {index < steps.length - 1 && (
                 <div 
                   className={`absolute left-[calc(50%+1rem)] w-[calc(100%-2rem)] h-0.5 top-4 -translate-y-1/2 ${
                     CONNECTOR_STYLES[status as keyof typeof CONNECTOR_STYLES]
@@ -87,13 +80,13 @@ export const VideoCallWorkflow: React.FC<VideoCallWorkflowProps> = ({ call, onCr
                     });
                   }
                 }}
-                onMouseEnter={() => isClickable && setShowTooltip(step.key)}
+                onMouseEnter={() => isClickable && setShowTooltip(step.step_key)}
                 onMouseLeave={() => setShowTooltip(null)}
               >
                 <Icon className="h-4 w-4" />
 
                 {/* Quotation Actions */}
-                {step.key === 'quotation' && (
+                {step.step_key === 'quotation' && (
                   call.quotation_id && status === 'completed' ? (
                     <Link 
                       to={`/pos?quotation=${call.quotation_id}`}
@@ -117,7 +110,7 @@ export const VideoCallWorkflow: React.FC<VideoCallWorkflowProps> = ({ call, onCr
                 )}
 
                 {/* Tooltip */}
-                {showTooltip === step.key && (
+                {showTooltip === step.step_key && (
                   <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 whitespace-nowrap z-20">
                     Click to create quotation
                   </div>
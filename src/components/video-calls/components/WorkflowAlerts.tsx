@@ -2,51 +2,36 @@ import React from 'react';
 import { AlertTriangle, Bell, Clock } from 'lucide-react';
 import { format, differenceInHours } from 'date-fns';
 import type { VideoCall } from '../../../types';
+import { useWorkflowDefinition } from '../../../hooks/useWorkflowDefinition';
+import { getCurrentWorkflowStep, getStepDueAt } from '../../../utils/workflowUtils';
 
 interface WorkflowAlertsProps {
   call: VideoCall;
 }
 
 export const WorkflowAlerts: React.FC<WorkflowAlertsProps> = ({ call }) => {
-  const getStepDeadline = (step: string) => {
-    switch (step) {
-      case 'quotation':
-        return 24; // 24 hours to complete quotation
-      case 'payment':
-        return 48; // 48 hours to complete payment
-      case 'qc':
-        return 12; // 12 hours to complete QC
-      case 'packaging':
-        return 12; // 12 hours to complete packaging
-      case 'dispatch':
-        return 24; // 24 hours to complete dispatch
-      default:
-        return 24;
-    }
-  };
+  const { steps, stepKeys } = useWorkflowDefinition(call.workflow_id);
 
   const getStepAlerts = () => {
     const alerts = [];
-    const currentStep = Object.entries(call.workflow_status || {}).find(
-      ([_, status]) => status === 'pending' || status === 'in_progress'
-    );
+    const currentKey = getCurrentWorkflowStep(call.workflow_status, stepKeys);
+    const currentStep = steps.find(step => step.step_key === currentKey);
+    const dueAt = currentStep ? getStepDueAt(call, currentStep) : null;
 
-    if (currentStep) {
-      const [step, status] = currentStep;
-      const stepStartTime = new Date(call.updated_at);
-      const hoursElapsed = differenceInHours(new Date(), stepStartTime);
-      const deadline = getStepDeadline(step);
+    // The step's SLA, counted from when the call reached it
+    if (currentStep?.sla_hours && dueAt) {
+      const hoursLeft = differenceInHours(dueAt, new Date());
 
-      if (hoursElapsed >= deadline) {
+      if (new Date() >= dueAt) {
         alerts.push({
           type: 'overdue',
-          message: `${step.replace('_', ' ')} is overdue by ${hoursElapsed - deadline} hours`,
+          message: `${currentStep.label} is overdue by ${-hoursLeft} hours`,
           severity: 'high'
         });
-      } else if (hoursElapsed >= deadline * 0.75) {
+      } else if (hoursLeft <= currentStep.sla_hours * 0.25) {
         alerts.push({
           type: 'warning',
-          message: `${step.replace('_', ' ')} deadline approaching in ${deadline - hoursElapsed} hours`,
+          message: `${currentStep.label} deadline approaching in ${hoursLeft} hours`,
           severity: 'medium'
         });
       }
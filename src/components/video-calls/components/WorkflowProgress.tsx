@@ -1,15 +1,19 @@
 import React from 'react';
 import { CheckCircle, Clock, AlertCircle } from 'lucide-react';
 import type { VideoCall } from '../../../types';
+import { useWorkflowDefinition } from '../../../hooks/useWorkflowDefinition';
+import { isStepDone } from '../../../utils/workflowUtils';
 
 interface WorkflowProgressProps {
   call: VideoCall;
 }
 
 export const WorkflowProgress: React.FC<WorkflowProgressProps> = ({ call }) => {
+  const { steps } = useWorkflowDefinition(call.workflow_id);
+
   const calculateProgress = () => {
-    const steps = Object.values(call.workflow_status || {});
-    const completedSteps = steps.filter(step => step === 'completed' || step === 'skipped').length;
+    if (steps.length === 0) return 0;
+    const completedSteps = steps.filter(step => isStepDone(call.workflow_status?.[step.step_key])).length;
     return Math.round((completedSteps / steps.length) * 100);
   };
 
@@ -54,17 +58,20 @@ export const WorkflowProgress: React.FC<WorkflowProgressProps> = ({ call }) => {
       </div>
 
       <div className="space-y-2">
-        {Object.entries(call.workflow_status || {}).map(([step, status]) => (
-          <div key={step} className="flex items-center justify-between text-sm">
-            <span className="capitalize">{step.replace('_', ' ')}</span>
-            <span className={`flex items-center gap-1 ${getStatusColor(status)}`}>
-              {status === 'completed' && <CheckCircle className="h-4 w-4" />}
-              {status === 'in_progress' && <Clock className="h-4 w-4 animate-spin" />}
-              {status === 'rejected' && <AlertCircle className="h-4 w-4" />}
-              {status}
-            </span>
-          </div>
-        ))}
+        {steps.map(step => {
+          const status = call.workflow_status?.[step.step_key] || 'pending';
+          return (
+            <div key={step.step_key} className="flex items-center justify-between text-sm">
+              <span>{step.label}</span>
+              <span className={`flex items-center gap-1 ${getStatusColor(status)}`}>
+                {status === 'completed' && <CheckCircle className="h-4 w-4" />}
+                {status === 'in_progress' && <Clock className="h-4 w-4 animate-spin" />}
+                {status === 'rejected' && <AlertCircle className="h-4 w-4" />}
+                {status}
+              </span>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
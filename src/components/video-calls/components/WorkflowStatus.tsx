@@ -1,13 +1,15 @@
 import React from 'react';
-import { Video, FileText, UserCheck, DollarSign, QrCode, Box, Truck, ArrowRight, Plus, User } from 'lucide-react';
+import { Video, FileText, UserCheck, DollarSign, QrCode, Box, Truck, ArrowRight, Plus, User, CircleDot } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { getRelevantWorkflowSteps } from '../../../utils/workflowUtils';
 import { useToast } from '../../../hooks/useToast';
 import QuickQuotationModal from '../../pos/QuickQuotationModal';
 import type { VideoCall } from '../../../types';
 import { useVideoCallRealtime } from '../../../hooks/useVideoCallRealtime';
+import { useWorkflowDefinition } from '../../../hooks/useWorkflowDefinition';
 
-const WORKFLOW_ICONS = {
+// Steps added to a workflow later fall back to a plain dot
+export const WORKFLOW_ICONS = {
   video_call: Video,
   quotation: FileText,
   profiling: UserCheck,
@@ -17,16 +19,6 @@ const WORKFLOW_ICONS = {
   dispatch: Truck
 };
 
-const WORKFLOW_LABELS = {
-  video_call: 'Video Call',
-  quotation: 'Quotation',
-  profiling: 'Profiling',
-  payment: 'Payment',
-  qc: 'Quality Check',
-  packaging: 'Packaging',
-  dispatch: 'Dispatch'
-};
-
 export const STATUS_STYLES = {
   pending: 'opacity-40 grayscale',
   in_progress: 'animate-pulse text-blue-600 font-medium',
@@ -67,15 +59,7 @@ export const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
   const { addToast } = useToast();
   const [showTooltip, setShowTooltip] = React.useState<string | null>(null);
   const [isHovered, setIsHovered] = React.useState(false);
-  const workflowSteps = [
-    'video_call',
-    'quotation',
-    'profiling', 
-    'payment',
-    'qc',
-    'packaging',
-    'dispatch'
-  ];
+  const { steps: workflowSteps } = useWorkflowDefinition(call?.workflow_id);
 
   // Add real-time updates
   useVideoCallRealtime(callId, () => {
@@ -96,7 +80,10 @@ export const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
       )}
 
       {/* Workflow Steps */}
-      <div className="grid grid-cols-7 gap-2">
+      <div
+        className="grid gap-2"
+        style={{ gridTemplateColumns: `repeat(${workflowSteps.length || 1}, minmax(0, 1fr))` }}
+      >
         {/* Staff Assignment Badge */}
         {assignedStaff && (
           <div className="flex items-center gap-2 bg-blue-50 rounded-full px-3 py-1 mr-2">
@@ -107,8 +94,8 @@ export const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
           </div>
         )}
 
-        {workflowSteps.map((key, index) => {
-          const Icon = WORKFLOW_ICONS[key as keyof typeof WORKFLOW_ICONS];
+        {workflowSteps.map(({ step_key: key, label }, index) => {
+          const Icon = WORKFLOW_ICONS[key as keyof typeof WORKFLOW_ICONS] || CircleDot;
           const stepStatus = status[key];
           const isClickable = key === 'quotation' && stepStatus === 'pending';
           const isSkipped = stepStatus === 'skipped';
@@ -146,7 +133,7 @@ export const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
                 {React.createElement(Icon, { className: "h-4 w-4" })}
                 <div className="flex flex-col items-center">
                   <span className="text-xs text-gray-600">
-                    {WORKFLOW_LABELS[key as keyof typeof WORKFLOW_LABELS]}
+                    {label}
                   </span>
                   {showTooltip === key && (
                     <div className="absolute bottom-full mb-2 bg-gray-800 text-white text-xs rounded px-2 py-1 whitespace-nowrap z-10">
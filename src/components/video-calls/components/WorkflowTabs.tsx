@@ -1,17 +1,15 @@
 import React from 'react';
-import { Calendar, Video, FileText, UserCheck, DollarSign, QrCode, Box, Truck, CheckCircle } from 'lucide-react';
+import { Calendar, CheckCircle, CircleDot } from 'lucide-react';
+import { useWorkflowDefinition } from '../../../hooks/useWorkflowDefinition';
+import { WORKFLOW_ICONS } from './WorkflowStatus';
 
-export const WORKFLOW_TABS = [
-  { id: 'scheduled', label: 'Scheduled', icon: Calendar },
-  { id: 'video_call', label: 'In Progress', icon: Video },
-  { id: 'quotation', label: 'Pending Quotation', icon: FileText },
-  { id: 'profiling', label: 'Pending Profiling', icon: UserCheck },
-  { id: 'payment', label: 'Pending Payment', icon: DollarSign },
-  { id: 'qc', label: 'Quality Check', icon: QrCode },
-  { id: 'packaging', label: 'Packaging', icon: Box },
-  { id: 'dispatch', label: 'Dispatch', icon: Truck },
-  { id: 'completed', label: 'Completed', icon: CheckCircle }
-];
+// Tab wording where it differs from the step's own name
+const STEP_TAB_LABELS: Record<string, string> = {
+  video_call: 'In Progress',
+  quotation: 'Pending Quotation',
+  profiling: 'Pending Profiling',
+  payment: 'Pending Payment'
+};
 
 interface WorkflowTabsProps {
   activeTab: string;
@@ -24,10 +22,22 @@ export const WorkflowTabs: React.FC<WorkflowTabsProps> = ({
   onTabChange,
   getTabCount
 }) => {
+  const { steps } = useWorkflowDefinition();
+
+  const tabs = [
+    { id: 'scheduled', label: 'Scheduled', icon: Calendar },
+    ...steps.map(step => ({
+      id: step.step_key,
+      label: STEP_TAB_LABELS[step.step_key] || step.label,
+      icon: WORKFLOW_ICONS[step.step_key as keyof typeof WORKFLOW_ICONS] || CircleDot
+    })),
+    { id: 'completed', label: 'Completed', icon: CheckCircle }
+  ];
+
   return (
     <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100">
       <nav className="flex flex-wrap gap-1 p-2">
-        {WORKFLOW_TABS.map(tab => {
+        {tabs.map(tab => {
           const Icon = tab.icon;
           const isActive = activeTab === tab.id;
           const count = getTabCount(tab.id);
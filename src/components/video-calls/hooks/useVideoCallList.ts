@@ -141,16 +141,8 @@ export const useVideoCallList = () => {
           status: 'scheduled',
           notes: callData.notes,
           payment_status: 'pending',
-          payment_due_date: callData.quotationRequired ? callData.paymentDueDate : null,
-          workflow_status: {
-            video_call: 'pending',
-            quotation: 'pending',
-            profiling: 'pending',
-            payment: 'pending',
-            qc: 'pending',
-            packaging: 'pending',
-            dispatch: 'pending'
-          }
+          payment_due_date: callData.quotationRequired ? callData.paymentDueDate : null
+          // workflow_status is filled in from the default workflow
         }])
         .select()
         .single();
@@ -262,15 +254,8 @@ export const useVideoCallList = () => {
       let notificationTitle = '';
       let notificationMessage = '';
       let notificationType: 'success' | 'info' | 'warning' = 'info';
-      let workflowUpdate = call.workflow_status || {
-        video_call: 'pending',
-        quotation: 'pending',
-        profiling: 'pending',
-        payment: 'pending',
-        qc: 'pending',
-        packaging: 'pending',
-        dispatch: 'pending'
-      };
+      // The database checks the change against the call's workflow
+      const workflowUpdate = { ...call.workflow_status };
       let newStatus = call.status;
       let redirectUrl: string | null = null;
 
@@ -393,8 +378,7 @@ export const useVideoCallList = () => {
         case 'start':
           workflowUpdate = {
             ...call.workflow_status,
-            video_call: 'in_progress',
-            quotation: call.quotation_required ? 'pending' : 'completed'
+            video_call: 'in_progress'
           };
           status = 'in_progress';
           redirectUrl = `/video-calls/${call.id}/video`;
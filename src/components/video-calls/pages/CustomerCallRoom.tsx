@@ -0,0 +1,310 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { Loader2, Video, VideoOff, Mic, MicOff, PhoneOff, SwitchCamera, AlertCircle, Calendar, Gem, CircleDot } from 'lucide-react';
+import { CallVideo } from '../components/CallVideo';
+import { DeviceCheck } from '../components/DeviceCheck';
+import { CustomerShowcase } from '../components/CustomerShowcase';
+import { useWebRTCCall } from '../../../hooks/useWebRTCCall';
+import { getCallLobby, announceCustomerWaiting } from '../../../utils/videoCallMedia';
+import { setRecordingConsent } from '../../../utils/callRecordings';
+import { formatDateTime, getLocalTimeZone } from '../../../utils/dateUtils';
+import type { VideoCallLobby } from '../../../types';
+
+// The customer's side of a video call, opened from the link staff send.
+// No login: the token in the link is checked by the database and expires.
+const CustomerCallRoom = () => {
+  const { token } = useParams();
+  const [lobby, setLobby] = React.useState<VideoCallLobby | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [micReady, setMicReady] = React.useState<boolean | null>(null);
+  const [joining, setJoining] = React.useState(false);
+  const [joined, setJoined] = React.useState(false);
+  const [recordingConsent, setRecordingConsentChoice] = React.useState(false);
+  const [left, setLeft] = React.useState(false);
+  const [now, setNow] = React.useState(Date.now());
+
+  React.useEffect(() => {
+    if (!token) return;
+    fetchLobby(token);
+  }, [token]);
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchLobby = async (joinToken: string) => {
+    try {
+      setLobby(await getCallLobby(joinToken));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'This join link is invalid or has expired');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!token) return;
+    try {
+      setJoining(true);
+      // Saved on every join so the choice on screen is always what counts
+      await setRecordingConsent(token, recordingConsent);
+      await announceCustomerWaiting(token);
+      setLeft(false);
+      setJoined(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not join the call');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 text-blue-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !lobby) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-4">
+        <div className="text-center max-w-sm">
+          <AlertCircle className="h-12 w-12 text-red-400 mx-auto mb-4" />
+          <div className="font-medium mb-2">{error || 'This join link is invalid or has expired'}</div>
+          <div className="text-gray-400 text-sm">Please ask the store for a new link.</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (joined && token) {
+    return (
+      <CustomerCallView
+        callId={lobby.call_id}
+        token={token}
+        recordingConsent={recordingConsent}
+        onRecordingConsentChange={setRecordingConsentChoice}
+        onLeave={() => { setJoined(false); setLeft(true); }}
+      />
+    );
+  }
+
+  const timeZone = lobby.customer_time_zone || getLocalTimeZone();
+  const minutesToGo = Math.ceil((new Date(lobby.scheduled_at).getTime() - now) / 60000);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        {left ? (
+          <div className="text-center">
+            <div className="text-xl font-medium mb-2">You left the call</div>
+            <div className="text-gray-400">You can rejoin below while the link is valid.</div>
+          </div>
+        ) : (
+          <div className="text-center">
+            <div className="text-xl font-medium mb-1">
+              Hello{lobby.customer_name ? ` ${lobby.customer_name}` : ''}
+            </div>
+            <div className="text-gray-400">
+              Your video call{lobby.staff_name ? ` with ${lobby.staff_name}` : ''}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-gray-800 rounded-lg p-4 flex items-start gap-3">
+          <Calendar className="h-5 w-5 text-blue-400 mt-0.5" />
+          <div>
+            <div className="font-medium">{formatDateTime(lobby.scheduled_at, timeZone).local}</div>
+            <div className="text-sm text-gray-400">
+              {timeZone}
+              {minutesToGo > 0 && ` · starts in ${minutesToGo >= 60
+                ? `${Math.floor(minutesToGo / 60)}h ${minutesToGo % 60}m`
+                : `${minutesToGo} min`}`}
+            </div>
+          </div>
+        </div>
+
+        <DeviceCheck onResult={setMicReady} />
+
+        <label className="flex items-start gap-3 bg-gray-800 rounded-lg p-4 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={recordingConsent}
+            onChange={e => setRecordingConsentChoice(e.target.checked)}
+            className="mt-0.5"
+          />
+          <span className="text-gray-300">
+            I agree to the store recording this call for its records. You can change this during the call.
+          </span>
+        </label>
+
+        <button
+          onClick={handleJoin}
+          disabled={joining}
+          className="w-full px-6 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 font-medium flex items-center justify-center gap-2"
+        >
+          {joining && <Loader2 className="h-4 w-4 animate-spin" />}
+          {left ? 'Rejoin call' : 'Join call'}
+        </button>
+        {micReady === false && (
+          <div className="text-center text-sm text-gray-400">
+            You can still join, but staff may not be able to hear you.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface CustomerCallViewProps {
+  callId: string;
+  token: string;
+  recordingConsent: boolean;
+  onRecordingConsentChange: (consent: boolean) => void;
+  onLeave: () => void;
+}
+
+const CustomerCallView: React.FC<CustomerCallViewProps> = ({
+  callId,
+  token,
+  recordingConsent,
+  onRecordingConsentChange,
+  onLeave
+}) => {
+  const media = useWebRTCCall({ callId, role: 'customer', onRemoteHangUp: onLeave });
+  const [savingConsent, setSavingConsent] = React.useState(false);
+  const [consentError, setConsentError] = React.useState<string | null>(null);
+  const [showShowcase, setShowShowcase] = React.useState(false);
+  const [showcaseCount, setShowcaseCount] = React.useState(0);
+  const seenCount = React.useRef(0);
+
+  // Open the showcase by itself the first time staff show something
+  const handleShowcaseCount = (count: number) => {
+    if (count > seenCount.current) setShowShowcase(true);
+    seenCount.current = count;
+    setShowcaseCount(count);
+  };
+
+  // Staff may have opened the room before the customer chose in the lobby
+  React.useEffect(() => {
+    if (media.connectionState === 'connected') media.announceConsent(recordingConsent);
+  }, [media.connectionState]);
+
+  const handleToggleConsent = async () => {
+    const consent = !recordingConsent;
+    try {
+      setSavingConsent(true);
+      setConsentError(null);
+      await setRecordingConsent(token, consent);
+      onRecordingConsentChange(consent);
+      media.announceConsent(consent);
+    } catch (error) {
+      setConsentError(error instanceof Error ? error.message : 'Could not save your choice');
+    } finally {
+      setSavingConsent(false);
+    }
+  };
+
+  const handleLeave = () => {
+    media.hangUp();
+    onLeave();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 text-white">
+      <div className="h-full flex flex-col">
+        <div className="flex-1 relative">
+          <div className="absolute inset-0">
+            {media.remoteStream ? (
+              <CallVideo stream={media.remoteStream} className="w-full h-full object-contain" />
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center gap-3 text-center px-4">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+                <div className="text-gray-300">
+                  {media.connectionState === 'connecting'
+                    ? 'Connecting...'
+                    : 'Waiting for our staff to join'}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="absolute bottom-4 right-4 w-32 h-24 sm:w-48 sm:h-36 bg-black rounded-lg overflow-hidden">
+            <CallVideo stream={media.localStream} muted mirrored className="w-full h-full object-cover" />
+          </div>
+
+          {(media.error || consentError) && (
+            <div className="absolute top-4 left-4 right-4 sm:right-auto sm:max-w-sm bg-red-600/80 rounded-lg px-3 py-2 text-sm">
+              {media.error || consentError}
+            </div>
+          )}
+
+          {media.remoteRecording && (
+            <div className="absolute bottom-4 left-4 flex items-center gap-1.5 bg-red-600/80 rounded-lg px-3 py-1.5 text-sm">
+              <span className="h-2 w-2 rounded-full bg-white animate-pulse" />
+              This call is being recorded
+            </div>
+          )}
+
+          {/* Kept mounted while hidden so new pieces still open it */}
+          <div className={`absolute inset-y-0 right-0 w-full sm:w-80 border-l border-gray-700 ${showShowcase ? '' : 'hidden'}`}>
+            <CustomerShowcase callId={callId} token={token} onCountChange={handleShowcaseCount} />
+          </div>
+        </div>
+
+        <div className="h-20 bg-gray-800 flex items-center justify-center gap-4 px-6">
+          <button
+            onClick={media.toggleCamera}
+            className={`p-3 rounded-full ${media.cameraOn ? 'bg-blue-600' : 'bg-red-600'}`}
+          >
+            {media.cameraOn ? <Video className="h-6 w-6" /> : <VideoOff className="h-6 w-6" />}
+          </button>
+          <button
+            onClick={media.toggleMic}
+            className={`p-3 rounded-full ${media.micOn ? 'bg-blue-600' : 'bg-red-600'}`}
+          >
+            {media.micOn ? <Mic className="h-6 w-6" /> : <MicOff className="h-6 w-6" />}
+          </button>
+          {media.canSwitchCamera && (
+            <button
+              onClick={media.switchCamera}
+              className="p-3 rounded-full bg-gray-700 hover:bg-gray-600"
+            >
+              <SwitchCamera className="h-6 w-6" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowShowcase(prev => !prev)}
+            className={`relative p-3 rounded-full ${showShowcase ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            <Gem className="h-6 w-6" />
+            {showcaseCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-amber-500 text-xs flex items-center justify-center">
+                {showcaseCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={handleToggleConsent}
+            disabled={savingConsent}
+            title={recordingConsent ? 'Stop allowing recording' : 'Allow recording'}
+            className={`p-3 rounded-full disabled:opacity-50 ${recordingConsent ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            <CircleDot className="h-6 w-6" />
+          </button>
+          <button
+            onClick={handleLeave}
+            className="p-3 rounded-full bg-red-600 hover:bg-red-700"
+          >
+            <PhoneOff className="h-6 w-6" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerCallRoom;
@@ -9,6 +9,10 @@ import { WorkflowHistory } from '../components/WorkflowHistory';
 import { WorkflowAlerts } from '../components/WorkflowAlerts';
 import { StaffAssignment } from '../components/StaffAssignment';
 import { WorkflowNotes } from '../components/WorkflowNotes';
+import { CustomerJoinLink } from '../components/CustomerJoinLink';
+import { CallRecordPanel } from '../components/CallRecordPanel';
+import { useWorkflowDefinition } from '../../../hooks/useWorkflowDefinition';
+import { getCurrentWorkflowStep } from '../../../utils/workflowUtils';
 
 const VideoCallDetails = () => {
   const { callId } = useParams();
@@ -17,6 +21,7 @@ const VideoCallDetails = () => {
   const [error, setError] = React.useState<string | null>(null);
   const [call, setCall] = React.useState<VideoCall | null>(null);
   const [workflowHistory, setWorkflowHistory] = React.useState([]);
+  const { stepKeys } = useWorkflowDefinition(call?.workflow_id);
 
   React.useEffect(() => {
     if (!callId) return;
@@ -103,14 +108,14 @@ const VideoCallDetails = () => {
     <div className="space-y-6">
       <WorkflowAlerts call={call} />
       <StaffAssignment call={call} onAssign={fetchVideoCall} />
+      <CustomerJoinLink call={call} customerPhone={call.customers?.phone} />
       <WorkflowProgress call={call} />
       <WorkflowHistory history={workflowHistory} />
       <WorkflowNotes 
         videoCallId={call.id} 
-        currentStep={Object.entries(call.workflow_status || {}).find(
-          ([_, status]) => status === 'pending' || status === 'in_progress'
-        )?.[0] || 'video_call'}
+        currentStep={getCurrentWorkflowStep(call.workflow_status, stepKeys)}
       />
+      <CallRecordPanel callId={call.id} />
       <VideoCallCard
         call={call}
         onCompleteCall={() => {}}
@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../../../lib/supabase';
 import { Loader2, AlertCircle, Truck, CheckCircle } from 'lucide-react';
 import type { VideoCall } from '../../../types';
+import { completeWorkflowStep } from '../../../utils/workflowUtils';
 
 const VideoCallDispatch = () => {
   const { callId } = useParams();
@@ -60,14 +61,11 @@ const VideoCallDispatch = () => {
   };
 
   const handleCompleteDispatch = async () => {
+    if (!callId) return;
     try {
       const { error } = await supabase
         .from('video_calls')
         .update({
-          workflow_status: {
-            ...call?.workflow_status,
-            dispatch: 'completed'
-          },
           dispatch_details: {
             dispatched_at: new Date().toISOString(),
             dispatched_by: localStorage.getItem('staffId'),
@@ -77,10 +75,11 @@ const VideoCallDispatch = () => {
         .eq('id', callId);
 
       if (error) throw error;
+      await completeWorkflowStep(callId, 'dispatch');
       navigate(`/video-calls/${callId}`);
     } catch (error) {
       console.error('Error completing dispatch:', error);
-      alert('Error updating dispatch status. Please try again.');
+      alert(error instanceof Error ? error.message : 'Error updating dispatch status. Please try again.');
     }
   };
 
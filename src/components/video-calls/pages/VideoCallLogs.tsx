@@ -4,6 +4,7 @@ import { supabase } from '../../../lib/supabase';
 import { Loader2, AlertCircle, ArrowLeft, Video, Clock, UserCheck, FileText, RefreshCw } from 'lucide-react';
 import { format } from 'date-fns';
 import { useVideoCallRealtime } from '../../../hooks/useVideoCallRealtime';
+import { CallRecordPanel } from '../components/CallRecordPanel';
 
 interface VideoCallLog {
   event_type: string;
@@ -189,6 +190,8 @@ const VideoCallLogs = () => {
         </div>
       </div>
 
+      {callId && <CallRecordPanel callId={callId} />}
+
       {/* Activity Timeline */}
       <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100 p-6">
         <h3 className="font-medium mb-6">Activity Timeline</h3>
@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../../../lib/supabase';
 import { Loader2, AlertCircle, Box, CheckCircle } from 'lucide-react';
 import type { VideoCall } from '../../../types';
+import { completeWorkflowStep } from '../../../utils/workflowUtils';
 
 const VideoCallPackaging = () => {
   const { callId } = useParams();
@@ -60,15 +61,11 @@ const VideoCallPackaging = () => {
   };
 
   const handleCompletePackaging = async () => {
+    if (!callId) return;
     try {
       const { error } = await supabase
         .from('video_calls')
         .update({
-          workflow_status: {
-            ...call?.workflow_status,
-            packaging: 'completed',
-            dispatch: 'pending'
-          },
           packaging_details: {
             packed_at: new Date().toISOString(),
             packed_by: localStorage.getItem('staffId'),
@@ -78,10 +75,11 @@ const VideoCallPackaging = () => {
         .eq('id', callId);
 
       if (error) throw error;
+      await completeWorkflowStep(callId, 'packaging');
       navigate(`/video-calls/${callId}`);
     } catch (error) {
       console.error('Error completing packaging:', error);
-      alert('Error updating packaging status. Please try again.');
+      alert(error instanceof Error ? error.message : 'Error updating packaging status. Please try again.');
     }
   };
 
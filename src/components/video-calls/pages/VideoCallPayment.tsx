@@ -1,8 +1,10 @@
 import React from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../../../lib/supabase';
-import { Loader2, AlertCircle } from 'lucide-react';
+import { Loader2, AlertCircle, CheckCircle } from 'lucide-react';
 import type { VideoCall } from '../../../types';
+import { addPaymentNote } from '../../../utils/paymentUtils';
+import { completeWorkflowStep, isStepDone } from '../../../utils/workflowUtils';
 import PaymentStatus from '../../pos/PaymentStatus';
 import PaymentTimeline from '../../pos/PaymentTimeline';
 
@@ -12,6 +14,7 @@ const VideoCallPayment = () => {
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   const [call, setCall] = React.useState<VideoCall | null>(null);
+  const [completing, setCompleting] = React.useState(false);
 
   React.useEffect(() => {
     if (!callId) return;
@@ -56,17 +59,20 @@ const VideoCallPayment = () => {
     }
   };
 
-  const handleAddPaymentNote = async (data: any) => {
+  const handleAddPaymentNote = async (data: {
+    note: string;
+    status: string;
+    nextPaymentDate: string | null;
+    staffId: string;
+  }) => {
     try {
-      const { error } = await supabase
-        .from('quotations')
-        .update({
-          payment_timeline: supabase.sql`array_append(payment_timeline, ${data})`,
-          staff_responses: supabase.sql`array_append(staff_responses, ${data})`
-        })
-        .eq('id', call?.quotations[0].id);
-
-      if (error) throw error;
+      await addPaymentNote(
+        call?.quotations[0].id,
+        data.note,
+        data.status,
+        data.nextPaymentDate,
+        data.staffId
+      );
       fetchVideoCall();
     } catch (error) {
       console.error('Error adding payment note:', error);
@@ -74,6 +80,20 @@ const VideoCallPayment = () => {
     }
   };
 
+  const handleCompletePayment = async () => {
+    if (!callId) return;
+    try {
+      setCompleting(true);
+      await completeWorkflowStep(callId, 'payment');
+      navigate(`/video-calls/${callId}`);
+    } catch (error) {
+      console.error('Error completing payment step:', error);
+      alert(error instanceof Error ? error.message : 'Error updating payment status. Please try again.');
+    } finally {
+      setCompleting(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -105,6 +125,18 @@ const VideoCallPayment = () => {
           staffResponses={quotation.staff_responses || []}
           onAddNote={handleAddPaymentNote}
         />
+        {!isStepDone(call.workflow_status?.payment) && (
+          <div className="flex justify-end mt-6">
+            <button
+              onClick={handleCompletePayment}
+              disabled={completing}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {completing ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+              Complete Payment
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-100 p-6">
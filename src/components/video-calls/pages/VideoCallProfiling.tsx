@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../../../lib/supabase';
 import { Loader2, AlertCircle, Save } from 'lucide-react';
 import type { VideoCall } from '../../../types';
+import { completeWorkflowStep } from '../../../utils/workflowUtils';
 
 const PROFILING_QUESTIONS = [
   {
@@ -126,24 +127,12 @@ const VideoCallProfiling = () => {
 
         if (updateError) throw updateError;
 
-        // Update workflow status
-        const { error: workflowError } = await supabase
-          .from('video_calls')
-          .update({
-            workflow_status: {
-              ...call?.workflow_status,
-              profiling: 'completed',
-              payment: 'pending'
-            }
-          })
-          .eq('id', callId);
-
-        if (workflowError) throw workflowError;
+        if (callId) await completeWorkflowStep(callId, 'profiling');
 
         navigate(`/video-calls/${callId}`);
       } catch (error) {
         console.error('Error saving profiling:', error);
-        setError('Failed to save profiling data');
+        setError(error instanceof Error ? error.message : 'Failed to save profiling data');
       }
     }
   };
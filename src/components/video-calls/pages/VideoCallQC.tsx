@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../../../lib/supabase';
 import { Loader2, AlertCircle, CheckCircle, X } from 'lucide-react';
 import type { VideoCall } from '../../../types';
+import { completeWorkflowStep } from '../../../utils/workflowUtils';
 
 const VideoCallQC = () => {
   const { callId } = useParams();
@@ -62,15 +63,11 @@ const VideoCallQC = () => {
   };
 
   const handleCompleteQC = async () => {
+    if (!callId) return;
     try {
       const { error } = await supabase
         .from('video_calls')
         .update({
-          workflow_status: {
-            ...call?.workflow_status,
-            qc: 'completed',
-            packaging: 'pending'
-          },
           qc_details: {
             ...qcChecks,
             notes,
@@ -81,10 +78,11 @@ const VideoCallQC = () => {
         .eq('id', callId);
 
       if (error) throw error;
+      await completeWorkflowStep(callId, 'qc');
       navigate(`/video-calls/${callId}`);
     } catch (error) {
       console.error('Error completing QC:', error);
-      alert('Error updating QC status. Please try again.');
+      alert(error instanceof Error ? error.message : 'Error updating QC status. Please try again.');
     }
   };
 
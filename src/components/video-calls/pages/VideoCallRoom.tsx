@@ -1,9 +1,19 @@
 import React from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../../../lib/supabase';
-import { Loader2, AlertCircle, Video, Microscope as Microphone, PhoneOff, Settings, UserCheck } from 'lucide-react';
+import Swal from 'sweetalert2';
+import { Loader2, AlertCircle, Video, VideoOff, Mic, MicOff, PhoneOff, SwitchCamera, MonitorUp, MonitorOff, UserCheck, Copy, Gem, CircleDot, Square, Bookmark } from 'lucide-react';
 import type { VideoCall } from '../../../types';
 import { StaffActionModal } from '../components/StaffActionModal';
+import { CallVideo } from '../components/CallVideo';
+import { ShowcasePanel } from '../components/ShowcasePanel';
+import QuickQuotationModal from '../components/QuickQuotationModal';
+import { useWebRTCCall } from '../../../hooks/useWebRTCCall';
+import { useCallRecorder } from '../../../hooks/useCallRecorder';
+import { getCustomerJoinUrl, issueJoinLink, recordCallEvent } from '../../../utils/videoCallMedia';
+import { addCallBookmark, uploadCallRecording } from '../../../utils/callRecordings';
+import { completeWorkflowStep } from '../../../utils/workflowUtils';
+import { useToast } from '../../../hooks/useToast';
 
 const VideoCallRoom = () => {
   const { callId } = useParams();
@@ -12,23 +22,55 @@ const VideoCallRoom = () => {
   const [error, setError] = React.useState<string | null>(null);
   const [call, setCall] = React.useState<VideoCall | null>(null);
   const [showCompleteModal, setShowCompleteModal] = React.useState(false);
-  const [deviceStatus, setDeviceStatus] = React.useState({
-    camera: true,
-    microphone: true
-  });
+  const [showShowcase, setShowShowcase] = React.useState(true);
+  const [showQuotationModal, setShowQuotationModal] = React.useState(false);
   const [duration, setDuration] = React.useState(0);
-  const durationInterval = React.useRef<NodeJS.Timeout>();
+  const [savingRecording, setSavingRecording] = React.useState(false);
+  const { addToast } = useToast();
+
+  const media = useWebRTCCall({
+    callId,
+    role: 'staff',
+    onConnected: async () => {
+      if (!callId) return;
+      try {
+        const updated = await recordCallEvent(callId, 'started');
+        setCall(prev => prev ? { ...prev, ...updated } : prev);
+      } catch (error) {
+        console.error('Error recording call start:', error);
+      }
+    },
+    onRemoteHangUp: () => {
+      addToast({
+        title: 'Customer Left',
+        message: 'The customer left the call. They can rejoin with the same link.',
+        type: 'info'
+      });
+    },
+    onConsentChange: given => {
+      setCall(prev => prev ? { ...prev, recording_consent: given } : prev);
+      if (!given) discardRecording();
+    }
+  });
+
+  const recorder = useCallRecorder(media.localStream, media.remoteStream);
 
   React.useEffect(() => {
     if (!callId) return;
     fetchVideoCall();
-    return () => {
-      if (durationInterval.current) {
-        clearInterval(durationInterval.current);
-      }
-    };
   }, [callId]);
 
+  // Counts from when the customer first connected, so a page refresh
+  // mid-call keeps the running time
+  React.useEffect(() => {
+    if (!call?.call_started_at || call.call_ended_at) return;
+    const startedAt = new Date(call.call_started_at).getTime();
+    const tick = () => setDuration(Math.max(0, Math.floor((Date.now() - startedAt) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [call?.call_started_at, call?.call_ended_at]);
+
   const fetchVideoCall = async () => {
     try {
       const { data, error } = await supabase
@@ -48,7 +90,6 @@ const VideoCallRoom = () => {
       if (!data) throw new Error('Video call not found');
 
       setCall(data);
-      startCallTimer();
     } catch (error) {
       console.error('Error fetching video call:', error);
       setError(
@@ -61,12 +102,6 @@ const VideoCallRoom = () => {
     }
   };
 
-  const startCallTimer = () => {
-    durationInterval.current = setInterval(() => {
-      setDuration(prev => prev + 1);
-    }, 1000);
-  };
-
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -74,24 +109,136 @@ const VideoCallRoom = () => {
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleEndCall = async () => {
+  const saveRecording = async () => {
+    const finished = await recorder.stop();
+    media.announceRecording(false);
+    if (!finished || !callId) return;
+
+    setSavingRecording(true);
     try {
-      const { error } = await supabase
-        .from('video_calls')
-        .update({
-          workflow_status: {
-            ...call?.workflow_status,
-            video_call: 'completed',
-            quotation: 'pending'
-          }
-        })
-        .eq('id', callId);
+      await uploadCallRecording(callId, finished.blob, finished.startedAt, finished.endedAt);
+      addToast({ title: 'Recording Saved', message: 'The recording is attached to this call.', type: 'success' });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save the recording',
+        type: 'error'
+      });
+    } finally {
+      setSavingRecording(false);
+    }
+  };
 
-      if (error) throw error;
+  // The customer withdrew consent: nothing recorded is kept
+  const discardRecording = async () => {
+    if (!recorder.recording) return;
+    await recorder.stop();
+    media.announceRecording(false);
+    addToast({
+      title: 'Recording Stopped',
+      message: 'The customer withdrew consent, so the recording was discarded.',
+      type: 'info'
+    });
+  };
+
+  const handleToggleRecording = async () => {
+    if (recorder.recording) {
+      await saveRecording();
+      return;
+    }
+
+    // Check the saved consent rather than trusting what the page last saw
+    const { data, error } = await supabase
+      .from('video_calls')
+      .select('recording_consent')
+      .eq('id', callId)
+      .single();
+
+    if (error || !data?.recording_consent) {
+      addToast({
+        title: 'No Consent',
+        message: 'The customer has not agreed to this call being recorded.',
+        type: 'error'
+      });
+      setCall(prev => prev ? { ...prev, recording_consent: false } : prev);
+      return;
+    }
+
+    try {
+      recorder.start();
+      media.announceRecording(true);
+      setCall(prev => prev ? { ...prev, recording_consent: true } : prev);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to start recording',
+        type: 'error'
+      });
+    }
+  };
+
+  const handleBookmark = async () => {
+    if (!callId) return;
+    const result = await Swal.fire({
+      title: 'Bookmark',
+      input: 'text',
+      inputLabel: 'What was said at this point, e.g. a price agreed',
+      showCancelButton: true,
+      confirmButtonText: 'Save',
+      inputValidator: value => (value.trim() ? null : 'Enter a note')
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      await addCallBookmark({ video_call_id: callId, note: result.value.trim() });
+      addToast({ title: 'Bookmarked', message: 'The note is saved against this point in the call.', type: 'success' });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save the bookmark',
+        type: 'error'
+      });
+    }
+  };
+
+  // Hangs up and stamps the end time; the row keeps the duration even if
+  // the workflow update that follows fails
+  const hangUpCall = async () => {
+    if (recorder.recording) await saveRecording();
+    media.hangUp();
+    if (!callId || !call?.call_started_at) return;
+    try {
+      await recordCallEvent(callId, 'ended');
+    } catch (error) {
+      console.error('Error recording call end:', error);
+    }
+  };
+
+  const handleCopyJoinLink = async () => {
+    if (!callId) return;
+    try {
+      const link = await issueJoinLink(callId);
+      await navigator.clipboard.writeText(getCustomerJoinUrl(link.token));
+      addToast({ title: 'Link Copied', message: 'Send this link to the customer to join the call.', type: 'success' });
+    } catch (error) {
+      console.error('Error copying join link:', error);
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to copy join link',
+        type: 'error'
+      });
+    }
+  };
+
+  const handleEndCall = async () => {
+    if (!callId) return;
+    try {
+      await hangUpCall();
+      await completeWorkflowStep(callId, 'video_call');
       navigate(`/video-calls/${callId}/quotation`);
     } catch (error) {
       console.error('Error ending call:', error);
-      alert('Error updating call status. Please try again.');
+      alert(error instanceof Error ? error.message : 'Error updating call status. Please try again.');
     }
   };
 
@@ -119,59 +266,156 @@ const VideoCallRoom = () => {
   return (
     <div className="fixed inset-0 bg-gray-900 text-white">
       <div className="h-full flex flex-col">
-        {/* Video Area */}
-        <div className="flex-1 relative">
-          {/* Main video container */}
-          <div id="remote-video" className="absolute inset-0">
-            {/* Remote video will be inserted here by WebRTC */}
-          </div>
+        <div className="flex-1 flex min-h-0">
+          {/* Video Area */}
+          <div className="flex-1 relative">
+            {/* Main video container */}
+            <div className="absolute inset-0">
+              {media.remoteStream ? (
+                <CallVideo stream={media.remoteStream} className="w-full h-full object-contain" />
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center gap-4 text-center px-4">
+                  {media.connectionState === 'connecting' || media.connectionState === 'reconnecting' ? (
+                    <>
+                      <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+                      <div className="text-gray-300">Connecting to customer...</div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-gray-300">Waiting for the customer to join</div>
+                      <button
+                        onClick={handleCopyJoinLink}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600"
+                      >
+                        <Copy className="h-4 w-4" />
+                        Copy customer join link
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
           
-          {/* Local video preview */}
-          <div className="absolute bottom-4 right-4 w-48 h-36 bg-black rounded-lg overflow-hidden">
-            <video
-              id="local-video"
-              autoPlay
-              playsInline
-              muted
-              className="w-full h-full object-cover"
-            />
-          </div>
+            {/* Local video preview */}
+            <div className="absolute bottom-4 right-4 w-48 h-36 bg-black rounded-lg overflow-hidden">
+              <CallVideo
+                stream={media.localStream}
+                muted
+                mirrored={!media.sharingScreen}
+                className="w-full h-full object-cover"
+              />
+            </div>
 
-          {/* Call Duration */}
-          <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-1.5">
-            {formatDuration(duration)}
-          </div>
+            {media.error && (
+              <div className="absolute bottom-4 left-4 max-w-sm bg-red-600/80 rounded-lg px-3 py-2 text-sm">
+                {media.error}
+              </div>
+            )}
+
+            {/* Call Duration */}
+            <div className="absolute top-4 left-4 flex items-center gap-2">
+              <div className="bg-black/50 backdrop-blur-sm rounded-lg px-3 py-1.5">
+                {formatDuration(duration)}
+              </div>
+              {(recorder.recording || savingRecording) && (
+                <div className="flex items-center gap-1.5 bg-red-600/80 rounded-lg px-3 py-1.5 text-sm">
+                  {savingRecording ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <span className="h-2 w-2 rounded-full bg-white animate-pulse" />
+                  )}
+                  {savingRecording ? 'Saving recording' : 'Recording'}
+                </div>
+              )}
+            </div>
 
-          {/* Customer Info */}
-          <div className="absolute top-4 right-4 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-1.5">
-            <div className="font-medium">{call.customers?.name}</div>
-            <div className="text-sm text-gray-400">{call.customers?.phone}</div>
+            {/* Customer Info */}
+            <div className="absolute top-4 right-4 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-1.5">
+              <div className="font-medium">{call.customers?.name}</div>
+              <div className="text-sm text-gray-400">{call.customers?.phone}</div>
+            </div>
           </div>
+
+          {/* Showcase */}
+          {showShowcase && callId && (
+            <div className="w-80 border-l border-gray-700">
+              <ShowcasePanel
+                callId={callId}
+                customerType={call.customers?.type === 'wholesaler' ? 'wholesaler' : 'retailer'}
+                onQuotationReady={quotationId => {
+                  setCall(prev => prev ? { ...prev, quotation_id: quotationId } : prev);
+                  setShowQuotationModal(true);
+                }}
+              />
+            </div>
+          )}
         </div>
 
         {/* Controls */}
         <div className="h-20 bg-gray-800 flex items-center justify-between px-6">
           <div className="flex items-center gap-4">
             <button
-              onClick={() => setDeviceStatus(prev => ({ ...prev, camera: !prev.camera }))}
-              className={`p-3 rounded-full ${deviceStatus.camera ? 'bg-blue-600' : 'bg-red-600'}`}
+              onClick={media.toggleCamera}
+              title={media.cameraOn ? 'Turn camera off' : 'Turn camera on'}
+              className={`p-3 rounded-full ${media.cameraOn ? 'bg-blue-600' : 'bg-red-600'}`}
             >
-              <Video className="h-6 w-6" />
+              {media.cameraOn ? <Video className="h-6 w-6" /> : <VideoOff className="h-6 w-6" />}
             </button>
             <button
-              onClick={() => setDeviceStatus(prev => ({ ...prev, microphone: !prev.microphone }))}
-              className={`p-3 rounded-full ${deviceStatus.microphone ? 'bg-blue-600' : 'bg-red-600'}`}
+              onClick={media.toggleMic}
+              title={media.micOn ? 'Mute' : 'Unmute'}
+              className={`p-3 rounded-full ${media.micOn ? 'bg-blue-600' : 'bg-red-600'}`}
             >
-              <Microphone className="h-6 w-6" />
+              {media.micOn ? <Mic className="h-6 w-6" /> : <MicOff className="h-6 w-6" />}
             </button>
           </div>
 
           <div className="flex items-center gap-4">
             <button
-              onClick={() => {/* Open settings modal */}}
+              onClick={handleToggleRecording}
+              disabled={savingRecording}
+              title={
+                recorder.recording
+                  ? 'Stop recording'
+                  : call.recording_consent
+                    ? 'Record call'
+                    : 'Record call (needs the customer to agree)'
+              }
+              className={`p-3 rounded-full disabled:opacity-50 ${
+                recorder.recording ? 'bg-red-600' : call.recording_consent ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-700/50 text-gray-400'
+              }`}
+            >
+              {recorder.recording ? <Square className="h-6 w-6" /> : <CircleDot className="h-6 w-6" />}
+            </button>
+            <button
+              onClick={handleBookmark}
+              title="Bookmark this moment"
               className="p-3 rounded-full bg-gray-700 hover:bg-gray-600"
             >
-              <Settings className="h-6 w-6" />
+              <Bookmark className="h-6 w-6" />
+            </button>
+            <button
+              onClick={() => setShowShowcase(prev => !prev)}
+              title={showShowcase ? 'Hide showcase' : 'Show showcase'}
+              className={`p-3 rounded-full ${showShowcase ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              <Gem className="h-6 w-6" />
+            </button>
+            {media.canSwitchCamera && (
+              <button
+                onClick={media.switchCamera}
+                title="Switch camera"
+                className="p-3 rounded-full bg-gray-700 hover:bg-gray-600"
+              >
+                <SwitchCamera className="h-6 w-6" />
+              </button>
+            )}
+            <button
+              onClick={media.toggleScreenShare}
+              title={media.sharingScreen ? 'Stop sharing' : 'Share screen or tray feed'}
+              className={`p-3 rounded-full ${media.sharingScreen ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {media.sharingScreen ? <MonitorOff className="h-6 w-6" /> : <MonitorUp className="h-6 w-6" />}
             </button>
             <button
               onClick={handleCallComplete}
@@ -189,12 +433,22 @@ const VideoCallRoom = () => {
         </div>
       </div>
 
+      {showQuotationModal && (
+        <QuickQuotationModal
+          call={call}
+          onClose={() => setShowQuotationModal(false)}
+        />
+      )}
+
       {/* Complete Call Modal */}
       {showCompleteModal && call && (
         <StaffActionModal
           call={call}
           onClose={() => setShowCompleteModal(false)}
-          onComplete={() => navigate(`/video-calls/${callId}/quotation`)}
+          onComplete={async () => {
+            await hangUpCall();
+            navigate(`/video-calls/${callId}/quotation`);
+          }}
           onError={(error) => {
             setError(error);
             setShowCompleteModal(false);
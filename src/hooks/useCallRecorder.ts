@@ -0,0 +1,167 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+const FRAME_RATE = 15;
+const WIDTH = 1280;
+const HEIGHT = 720;
+const INSET_WIDTH = 320;
+const INSET_HEIGHT = 180;
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+export interface FinishedRecording {
+  blob: Blob;
+  startedAt: Date;
+  endedAt: Date;
+}
+
+// Draws a video centred in the box without stretching it
+const drawContained = (
+  context: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  if (!video.videoWidth || !video.videoHeight) return;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  context.drawImage(video, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Records the call in the staff browser: what staff send (camera or the
+// shared tray) full frame with the customer inset, and both sides' audio.
+// Drawing through a canvas keeps recording across camera switches and
+// screen sharing, which swap the underlying tracks.
+export const useCallRecorder = (mainStream: MediaStream | null, insetStream: MediaStream | null) => {
+  const [recording, setRecording] = useState(false);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef<Date | null>(null);
+  const mainVideoRef = useRef<HTMLVideoElement | null>(null);
+  const insetVideoRef = useRef<HTMLVideoElement | null>(null);
+  const drawTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const audioSourcesRef = useRef<MediaStreamAudioSourceNode[]>([]);
+
+  const connectAudio = useCallback((streams: Array<MediaStream | null>) => {
+    const context = audioContextRef.current;
+    const destination = audioDestinationRef.current;
+    if (!context || !destination) return;
+
+    audioSourcesRef.current.forEach(source => source.disconnect());
+    audioSourcesRef.current = streams
+      .filter((stream): stream is MediaStream => !!stream && stream.getAudioTracks().length > 0)
+      .map(stream => {
+        const source = context.createMediaStreamSource(stream);
+        source.connect(destination);
+        return source;
+      });
+  }, []);
+
+  // Follow the streams as the call swaps them
+  useEffect(() => {
+    if (!recording) return;
+    if (mainVideoRef.current) mainVideoRef.current.srcObject = mainStream;
+    if (insetVideoRef.current) insetVideoRef.current.srcObject = insetStream;
+    connectAudio([mainStream, insetStream]);
+  }, [recording, mainStream, insetStream, connectAudio]);
+
+  const cleanUp = () => {
+    if (drawTimerRef.current) clearInterval(drawTimerRef.current);
+    drawTimerRef.current = null;
+    audioSourcesRef.current.forEach(source => source.disconnect());
+    audioSourcesRef.current = [];
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    audioDestinationRef.current = null;
+    mainVideoRef.current = null;
+    insetVideoRef.current = null;
+    recorderRef.current = null;
+  };
+
+  const start = useCallback(() => {
+    if (recorderRef.current) return;
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record video');
+
+    const makeVideo = (stream: MediaStream | null) => {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = stream;
+      video.play().catch(() => undefined);
+      return video;
+    };
+    mainVideoRef.current = makeVideo(mainStream);
+    insetVideoRef.current = makeVideo(insetStream);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('This browser cannot record video');
+
+    // A timer rather than animation frames, which stop in background tabs
+    drawTimerRef.current = setInterval(() => {
+      context.fillStyle = '#000';
+      context.fillRect(0, 0, WIDTH, HEIGHT);
+      if (mainVideoRef.current) drawContained(context, mainVideoRef.current, 0, 0, WIDTH, HEIGHT);
+      if (insetVideoRef.current?.videoWidth) {
+        const x = WIDTH - INSET_WIDTH - 16;
+        const y = HEIGHT - INSET_HEIGHT - 16;
+        context.fillRect(x, y, INSET_WIDTH, INSET_HEIGHT);
+        drawContained(context, insetVideoRef.current, x, y, INSET_WIDTH, INSET_HEIGHT);
+      }
+    }, 1000 / FRAME_RATE);
+
+    audioContextRef.current = new AudioContext();
+    audioDestinationRef.current = audioContextRef.current.createMediaStreamDestination();
+    connectAudio([mainStream, insetStream]);
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...audioDestinationRef.current.stream.getAudioTracks()
+    ]);
+
+    chunksRef.current = [];
+    const recorder = new MediaRecorder(stream, { mimeType });
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.start(1000);
+
+    recorderRef.current = recorder;
+    startedAtRef.current = new Date();
+    setRecording(true);
+  }, [mainStream, insetStream, connectAudio]);
+
+  const stop = useCallback((): Promise<FinishedRecording | null> => {
+    const recorder = recorderRef.current;
+    const startedAt = startedAtRef.current;
+    if (!recorder || !startedAt) return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType.split(';')[0] });
+        chunksRef.current = [];
+        startedAtRef.current = null;
+        cleanUp();
+        setRecording(false);
+        resolve(blob.size > 0 ? { blob, startedAt, endedAt: new Date() } : null);
+      };
+      recorder.stop();
+    });
+  }, []);
+
+  // Leaving the page mid-recording drops it; there is nothing to upload to
+  useEffect(() => () => {
+    recorderRef.current?.stop();
+    cleanUp();
+  }, []);
+
+  return { recording, start, stop };
+};
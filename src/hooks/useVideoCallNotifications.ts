@@ -1,7 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import { format } from 'date-fns';
-import { speak, toggleSpeech, scheduleCallReminders } from '../utils/speechUtils';
+import { speak, toggleSpeech, scheduleCallReminders, announceCallStarted } from '../utils/speechUtils';
 import { fetchWithRetry } from '../lib/supabase';
 import { useToast } from './useToast';
 import { playNotificationSound } from '../utils/soundUtils';
@@ -23,14 +23,65 @@ export const useVideoCallNotifications = () => {
 
     // Start checking for upcoming calls
     startNotificationCheck();
+    const waitingChannel = subscribeToWaitingCustomers();
 
     return () => {
       if (checkInterval.current) {
         clearInterval(checkInterval.current);
       }
+      if (waitingChannel) {
+        supabase.removeChannel(waitingChannel);
+      }
     };
   }, []);
 
+  // Customers entering from their join link notify the assigned staff
+  const subscribeToWaitingCustomers = () => {
+    const staffId = localStorage.getItem('staffId');
+    if (!staffId || staffId === 'undefined') return null;
+
+    return supabase
+      .channel(`customer_waiting_${staffId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${staffId}`
+        },
+        async (payload) => {
+          const notification = payload.new;
+          if (notification.type !== 'video_call_customer_waiting') return;
+
+          addToast({
+            title: notification.title,
+            message: notification.message,
+            type: 'info',
+            duration: 10000
+          });
+
+          if (notificationSettings.current.sound) {
+            playNotificationSound();
+          }
+
+          if (notificationSettings.current.speech) {
+            const { data: staff } = await supabase
+              .from('staff')
+              .select('name')
+              .eq('id', staffId)
+              .maybeSingle();
+
+            announceCallStarted({
+              staff: { name: staff?.name || 'Staff' },
+              customer: { name: notification.data?.customer_name || 'Customer' }
+            });
+          }
+        }
+      )
+      .subscribe();
+  };
+
   const toggleNotificationSetting = (setting: 'sound' | 'speech') => {
     notificationSettings.current = {
       ...notificationSettings.current,
@@ -0,0 +1,384 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  createSignalingChannel,
+  type CallRole,
+  type SignalMessage,
+  type SignalingChannel
+} from '../lib/signaling';
+import { getIceServers } from '../utils/videoCallMedia';
+
+export type CallConnectionState =
+  | 'starting'
+  | 'waiting'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'ended'
+  | 'failed';
+
+interface UseWebRTCCallOptions {
+  callId: string | undefined;
+  role: CallRole;
+  // First time media flows both ways
+  onConnected?: () => void;
+  // The other side hung up
+  onRemoteHangUp?: () => void;
+  // The customer gave or withdrew consent to recording
+  onConsentChange?: (given: boolean) => void;
+}
+
+// Staff always make the offer and the customer answers, so the two sides
+// never offer at once. Each offer carries a session number; answers to an
+// older offer are ignored.
+export const useWebRTCCall = ({ callId, role, onConnected, onRemoteHangUp, onConsentChange }: UseWebRTCCallOptions) => {
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [connectionState, setConnectionState] = useState<CallConnectionState>('starting');
+  const [micOn, setMicOn] = useState(true);
+  const [cameraOn, setCameraOn] = useState(true);
+  const [sharingScreen, setSharingScreen] = useState(false);
+  const [cameraCount, setCameraCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [remoteRecording, setRemoteRecording] = useState(false);
+
+  const peerRef = useRef<RTCPeerConnection | null>(null);
+  const signalingRef = useRef<SignalingChannel | null>(null);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+  const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+  const sessionRef = useRef(0);
+  const cameraIndexRef = useRef(0);
+  const connectedOnceRef = useRef(false);
+  const endedRef = useRef(false);
+  const recordingRef = useRef(false);
+  const callbacksRef = useRef({ onConnected, onRemoteHangUp, onConsentChange });
+  callbacksRef.current = { onConnected, onRemoteHangUp, onConsentChange };
+
+  const send = (message: SignalMessage) => signalingRef.current?.send(message);
+
+  // The video being sent: the shared screen while sharing, else the camera
+  const outgoingVideoTrack = () =>
+    screenTrackRef.current || cameraStreamRef.current?.getVideoTracks()[0] || null;
+
+  const closePeer = () => {
+    peerRef.current?.close();
+    peerRef.current = null;
+    pendingCandidatesRef.current = [];
+    setRemoteStream(null);
+  };
+
+  const createPeer = () => {
+    closePeer();
+    const peer = new RTCPeerConnection({ iceServers: getIceServers() });
+    peerRef.current = peer;
+
+    const stream = cameraStreamRef.current;
+    stream?.getAudioTracks().forEach(track => peer.addTrack(track, stream));
+    const videoTrack = outgoingVideoTrack();
+    if (stream && videoTrack) peer.addTrack(videoTrack, stream);
+
+    peer.ontrack = event => {
+      setRemoteStream(event.streams[0] || new MediaStream([event.track]));
+    };
+    peer.onicecandidate = event => {
+      if (event.candidate) send({ type: 'candidate', from: role, candidate: event.candidate.toJSON() });
+    };
+    peer.onconnectionstatechange = () => {
+      if (peerRef.current !== peer) return;
+      switch (peer.connectionState) {
+        case 'connected':
+          setConnectionState('connected');
+          if (!connectedOnceRef.current) {
+            connectedOnceRef.current = true;
+            callbacksRef.current.onConnected?.();
+          }
+          break;
+        case 'disconnected':
+          setConnectionState('reconnecting');
+          break;
+        case 'failed':
+          setConnectionState('failed');
+          // A fresh offer usually finds a new route
+          if (role === 'staff') void sendOffer();
+          break;
+      }
+    };
+
+    return peer;
+  };
+
+  const flushCandidates = async (peer: RTCPeerConnection) => {
+    const candidates = pendingCandidatesRef.current.splice(0);
+    for (const candidate of candidates) {
+      await peer.addIceCandidate(candidate).catch(() => undefined);
+    }
+  };
+
+  const sendOffer = async () => {
+    const peer = createPeer();
+    const session = ++sessionRef.current;
+    setConnectionState('connecting');
+    const offer = await peer.createOffer();
+    await peer.setLocalDescription(offer);
+    send({ type: 'offer', from: role, sdp: offer, session });
+  };
+
+  const handleSignal = async (message: SignalMessage) => {
+    if (message.from === role || endedRef.current) return;
+
+    try {
+      switch (message.type) {
+        case 'hello':
+          // Staff offer to whoever turns up; the customer says hello back so
+          // staff who joined later know someone is waiting
+          if (role === 'staff') {
+            await sendOffer();
+            if (recordingRef.current) send({ type: 'recording', from: role, active: true });
+          } else {
+            send({ type: 'hello', from: role });
+          }
+          break;
+
+        case 'offer': {
+          if (role !== 'customer') return;
+          const peer = createPeer();
+          setConnectionState('connecting');
+          await peer.setRemoteDescription(message.sdp);
+          await flushCandidates(peer);
+          const answer = await peer.createAnswer();
+          await peer.setLocalDescription(answer);
+          send({ type: 'answer', from: role, sdp: answer, session: message.session });
+          break;
+        }
+
+        case 'answer': {
+          const peer = peerRef.current;
+          if (!peer || message.session !== sessionRef.current || peer.signalingState !== 'have-local-offer') return;
+          await peer.setRemoteDescription(message.sdp);
+          await flushCandidates(peer);
+          break;
+        }
+
+        case 'candidate': {
+          const peer = peerRef.current;
+          if (peer?.remoteDescription) {
+            await peer.addIceCandidate(message.candidate).catch(() => undefined);
+          } else {
+            pendingCandidatesRef.current.push(message.candidate);
+          }
+          break;
+        }
+
+        case 'recording':
+          setRemoteRecording(message.active);
+          break;
+
+        case 'consent':
+          callbacksRef.current.onConsentChange?.(message.given);
+          break;
+
+        case 'bye':
+          closePeer();
+          setRemoteRecording(false);
+          if (role === 'customer') {
+            endCall(false);
+          } else {
+            // The customer may come back on the same link
+            setConnectionState('waiting');
+          }
+          callbacksRef.current.onRemoteHangUp?.();
+          break;
+      }
+    } catch (error) {
+      console.error('Error handling call signal:', error);
+      setError('The call connection hit a problem. Trying again may help.');
+    }
+  };
+
+  const stopMedia = () => {
+    screenTrackRef.current?.stop();
+    screenTrackRef.current = null;
+    cameraStreamRef.current?.getTracks().forEach(track => track.stop());
+    cameraStreamRef.current = null;
+    setLocalStream(null);
+  };
+
+  const endCall = (notify: boolean) => {
+    if (endedRef.current) return;
+    endedRef.current = true;
+    if (notify) send({ type: 'bye', from: role });
+    closePeer();
+    stopMedia();
+    signalingRef.current?.close();
+    signalingRef.current = null;
+    setSharingScreen(false);
+    setConnectionState('ended');
+  };
+
+  useEffect(() => {
+    if (!callId) return;
+    endedRef.current = false;
+    setConnectionState('starting');
+    let cancelled = false;
+
+    const start = async () => {
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      } catch (cameraError) {
+        console.error('Error opening camera:', cameraError);
+        try {
+          // Carry on with sound only rather than not at all
+          stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+          setCameraOn(false);
+          setError('Camera unavailable; joined with audio only.');
+        } catch (micError) {
+          console.error('Error opening microphone:', micError);
+          setError('Allow camera and microphone access in the browser to join the call.');
+          setConnectionState('failed');
+          return;
+        }
+      }
+
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      cameraStreamRef.current = stream;
+      setLocalStream(stream);
+
+      navigator.mediaDevices.enumerateDevices()
+        .then(devices => setCameraCount(devices.filter(device => device.kind === 'videoinput').length))
+        .catch(() => setCameraCount(0));
+
+      signalingRef.current = createSignalingChannel(
+        callId,
+        message => void handleSignal(message),
+        () => {
+          setConnectionState(prev => (prev === 'starting' ? 'waiting' : prev));
+          send({ type: 'hello', from: role });
+        }
+      );
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      endCall(true);
+    };
+  }, [callId, role]);
+
+  const toggleMic = useCallback(() => {
+    const next = !micOn;
+    cameraStreamRef.current?.getAudioTracks().forEach(track => { track.enabled = next; });
+    setMicOn(next);
+  }, [micOn]);
+
+  const toggleCamera = useCallback(() => {
+    const next = !cameraOn;
+    cameraStreamRef.current?.getVideoTracks().forEach(track => { track.enabled = next; });
+    setCameraOn(next);
+  }, [cameraOn]);
+
+  const replaceOutgoingVideo = async (track: MediaStreamTrack | null) => {
+    const sender = peerRef.current?.getSenders().find(s => s.track?.kind === 'video' || (!s.track && track));
+    if (sender) await sender.replaceTrack(track);
+  };
+
+  const stopScreenShare = useCallback(async () => {
+    const screenTrack = screenTrackRef.current;
+    if (!screenTrack) return;
+    screenTrackRef.current = null;
+    screenTrack.stop();
+    await replaceOutgoingVideo(cameraStreamRef.current?.getVideoTracks()[0] || null);
+    if (cameraStreamRef.current) setLocalStream(new MediaStream(cameraStreamRef.current.getTracks()));
+    setSharingScreen(false);
+  }, []);
+
+  // Shows a window, tab or capture-card feed (e.g. the tray camera) in place
+  // of the staff camera, without renegotiating the call
+  const toggleScreenShare = useCallback(async () => {
+    if (screenTrackRef.current) {
+      await stopScreenShare();
+      return;
+    }
+
+    try {
+      const display = await navigator.mediaDevices.getDisplayMedia({ video: true });
+      const track = display.getVideoTracks()[0];
+      track.onended = () => void stopScreenShare();
+      screenTrackRef.current = track;
+      await replaceOutgoingVideo(track);
+      setLocalStream(new MediaStream([track, ...(cameraStreamRef.current?.getAudioTracks() || [])]));
+      setSharingScreen(true);
+    } catch (error) {
+      // Cancelling the browser's picker lands here too
+      console.error('Error sharing screen:', error);
+    }
+  }, [stopScreenShare]);
+
+  // Cycles through the attached cameras, e.g. from the face camera to one
+  // pointed at the product tray
+  const switchCamera = useCallback(async () => {
+    const stream = cameraStreamRef.current;
+    if (!stream) return;
+
+    try {
+      const devices = (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'videoinput');
+      if (devices.length < 2) return;
+
+      cameraIndexRef.current = (cameraIndexRef.current + 1) % devices.length;
+      const next = await navigator.mediaDevices.getUserMedia({
+        video: { deviceId: { exact: devices[cameraIndexRef.current].deviceId } }
+      });
+      const track = next.getVideoTracks()[0];
+      track.enabled = cameraOn;
+
+      stream.getVideoTracks().forEach(old => {
+        old.stop();
+        stream.removeTrack(old);
+      });
+      stream.addTrack(track);
+
+      if (!screenTrackRef.current) {
+        await replaceOutgoingVideo(track);
+        setLocalStream(new MediaStream(stream.getTracks()));
+      }
+    } catch (error) {
+      console.error('Error switching camera:', error);
+      setError('Could not switch to the other camera.');
+    }
+  }, [cameraOn]);
+
+  const hangUp = () => endCall(true);
+
+  // Tells the other side whether this side is recording, and again to
+  // anyone who rejoins while it is
+  const announceRecording = (active: boolean) => {
+    recordingRef.current = active;
+    send({ type: 'recording', from: role, active });
+  };
+
+  const announceConsent = (given: boolean) => send({ type: 'consent', from: role, given });
+
+  return {
+    localStream,
+    remoteStream,
+    connectionState,
+    micOn,
+    cameraOn,
+    sharingScreen,
+    canSwitchCamera: cameraCount > 1,
+    error,
+    remoteRecording,
+    toggleMic,
+    toggleCamera,
+    toggleScreenShare,
+    switchCamera,
+    hangUp,
+    announceRecording,
+    announceConsent
+  };
+};
@@ -0,0 +1,26 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { WorkflowDefinition } from '../types';
+import { getWorkflowDefinition } from '../utils/workflowUtils';
+
+// The workflow a call follows; the default one when no id is given
+export const useWorkflowDefinition = (workflowId?: string | null) => {
+  const [definition, setDefinition] = useState<WorkflowDefinition | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getWorkflowDefinition(workflowId)
+      .then(workflow => {
+        if (!cancelled) setDefinition(workflow);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workflowId]);
+
+  const steps = useMemo(() => definition?.steps || [], [definition]);
+  const stepKeys = useMemo(() => steps.map(step => step.step_key), [steps]);
+
+  return { definition, steps, stepKeys };
+};
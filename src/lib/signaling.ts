@@ -0,0 +1,99 @@
+import { supabase } from './supabase';
+
+export type CallRole = 'staff' | 'customer';
+
+// Everything the two sides of a call say to each other before and around
+// the media flowing peer to peer
+export type SignalMessage =
+  | { type: 'hello'; from: CallRole }
+  | { type: 'offer'; from: CallRole; sdp: RTCSessionDescriptionInit; session: number }
+  | { type: 'answer'; from: CallRole; sdp: RTCSessionDescriptionInit; session: number }
+  | { type: 'candidate'; from: CallRole; candidate: RTCIceCandidateInit }
+  | { type: 'bye'; from: CallRole }
+  | { type: 'recording'; from: CallRole; active: boolean }
+  | { type: 'consent'; from: CallRole; given: boolean };
+
+export interface SignalingChannel {
+  send: (message: SignalMessage) => void;
+  close: () => void;
+}
+
+type SignalHandler = (message: SignalMessage) => void;
+
+const SIGNAL_EVENT = 'signal';
+
+// Supabase Realtime broadcast; needs no tables, so the customer side works
+// without a staff login
+const createRealtimeSignaling = (
+  callId: string,
+  onMessage: SignalHandler,
+  onReady: () => void
+): SignalingChannel => {
+  const channel = supabase.channel(`call_signal_${callId}`, {
+    config: { broadcast: { self: false } }
+  });
+
+  channel
+    .on('broadcast', { event: SIGNAL_EVENT }, ({ payload }) => onMessage(payload as SignalMessage))
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') onReady();
+    });
+
+  return {
+    send: message => {
+      channel.send({ type: 'broadcast', event: SIGNAL_EVENT, payload: message });
+    },
+    close: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+};
+
+// Any relay that forwards each JSON text frame to the other sockets joined
+// to the same room will do, e.g. `npm run signaling` when testing without Supabase.
+// The first frame is {"join": "<room>"}.
+const createWebSocketSignaling = (
+  url: string,
+  callId: string,
+  onMessage: SignalHandler,
+  onReady: () => void
+): SignalingChannel => {
+  const socket = new WebSocket(url);
+  const queued: string[] = [];
+
+  socket.onopen = () => {
+    socket.send(JSON.stringify({ join: `call_signal_${callId}` }));
+    queued.splice(0).forEach(frame => socket.send(frame));
+    onReady();
+  };
+  socket.onmessage = event => {
+    try {
+      onMessage(JSON.parse(event.data));
+    } catch (error) {
+      console.error('Ignoring malformed signalling frame:', error);
+    }
+  };
+
+  return {
+    send: message => {
+      const frame = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(frame);
+      } else {
+        queued.push(frame);
+      }
+    },
+    close: () => socket.close()
+  };
+};
+
+export const createSignalingChannel = (
+  callId: string,
+  onMessage: SignalHandler,
+  onReady: () => void
+): SignalingChannel => {
+  const relayUrl = import.meta.env.VITE_SIGNALING_URL;
+  return relayUrl
+    ? createWebSocketSignaling(relayUrl, callId, onMessage, onReady)
+    : createRealtimeSignaling(callId, onMessage, onReady);
+};
@@ -5,11 +5,20 @@ export interface User {
   role: 'admin' | 'staff' | 'customer';
 }
 
+export type MakingChargeType = 'per_gram' | 'per_piece' | 'percent';
+
 export interface MarkupSetting {
   id: string;
   type: 'manufacturer' | 'category';
   name: string;
+  code?: string;
   markup: number;
+  making_charge_type?: MakingChargeType;
+  making_charge_value?: number;
+  wastage_percent?: number;
+  hallmark_required?: boolean;
+  payment_terms_days?: number;
+  hsn_code?: string | null;
 }
 
 export interface Product {
@@ -34,6 +43,256 @@ export interface Product {
   lastSoldAt?: string | null;
   deadStockStatus?: 'normal' | 'warning' | 'critical';
   deadStockDays?: number;
+  metalType?: MetalType | null;
+  purity?: string | null;
+  grossWeight?: number | null;
+  netWeight?: number | null;
+  makingCharges?: number;
+  makingChargeType?: MakingChargeType;
+  wastagePercent?: number;
+  pricingMode?: 'fixed' | 'metal_rate';
+  stones?: StoneComponent[];
+  huids?: string[];
+  landedCost?: number | null;
+}
+
+export interface StoneComponent {
+  id: string;
+  stoneType: string;
+  count: number;
+  caratWeight: number; // total carats across all stones in the row
+  clarity?: string;
+  colour?: string;
+  certificateNumber?: string;
+  ratePerCarat: number;
+}
+
+export type MetalType = 'gold' | 'silver' | 'platinum';
+
+export type PieceStatus = 'in_stock' | 'on_approval' | 'sold' | 'in_repair' | 'damaged' | 'missing';
+
+export interface ProductPiece {
+  id: string;
+  product_id: string;
+  serial: string;
+  huid?: string | null;
+  gross_weight?: number | null;
+  net_weight?: number | null;
+  location?: string | null;
+  status: PieceStatus;
+  quotation_id?: string | null;
+  sold_at?: string | null;
+  notes?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type StockMovementType = 'purchase' | 'sale' | 'return' | 'adjustment' | 'transfer' | 'damage';
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  piece_id?: string | null;
+  serial?: string | null;
+  movement_type: StockMovementType;
+  quantity: number; // change to in-stock pieces
+  from_status?: PieceStatus | null;
+  to_status?: PieceStatus | null;
+  from_location?: string | null;
+  to_location?: string | null;
+  reference_type?: string | null;
+  reference_id?: string | null;
+  notes?: string | null;
+  staff_id?: string | null;
+  created_at: string;
+}
+
+export type StockTakeStatus = 'open' | 'approved' | 'cancelled';
+
+export interface StockTake {
+  id: string;
+  name: string;
+  location?: string | null;
+  category?: string | null;
+  manufacturer?: string | null;
+  status: StockTakeStatus;
+  started_by?: string | null;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  created_at: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  category: string;
+  description?: string | null;
+  metal_type?: MetalType | null;
+  purity?: string | null;
+  net_weight?: number | null;
+  quantity: number;
+  received_quantity: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  manufacturer: string;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date?: string | null;
+  notes?: string | null;
+  created_at: string;
+  lines: PurchaseOrderLine[];
+}
+
+export interface GoodsReceipt {
+  id: string;
+  grn_number: string;
+  purchase_order_id: string;
+  supplier_invoice_number?: string | null;
+  freight: number;
+  insurance: number;
+  other_charges: number;
+  notes?: string | null;
+  received_at: string;
+}
+
+export type PayableEntryType =
+  | 'opening_balance'
+  | 'purchase_bill'
+  | 'payment'
+  | 'credit_note'
+  | 'metal_issued'
+  | 'metal_returned';
+
+export interface PayableEntry {
+  id: string;
+  manufacturer: string;
+  entry_type: PayableEntryType;
+  entry_date: string;
+  due_date?: string | null;
+  reference?: string | null;
+  amount: number;
+  metal_type?: MetalType | null;
+  purity?: string | null;
+  metal_weight: number;
+  payment_method?: string | null;
+  goods_receipt_id?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type ReceivableEntryType =
+  | 'opening_balance'
+  | 'invoice'
+  | 'receipt'
+  | 'credit_note'
+  | 'adjustment';
+
+export interface ReceivableEntry {
+  id: string;
+  customer_id: string;
+  entry_type: ReceivableEntryType;
+  entry_date: string;
+  due_date?: string | null;
+  reference?: string | null;
+  amount: number;
+  payment_method?: string | null;
+  sale_id?: string | null;
+  credit_note_id?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type OldGoldKind = 'exchange' | 'buyback';
+
+export type OldGoldStatus = 'in_scrap' | 'sent_for_melting' | 'melted';
+
+// Old jewellery taken in at the counter; held as scrap, never as stock
+export interface OldGoldItem {
+  id: string;
+  voucher_number: string;
+  kind: OldGoldKind;
+  sale_id?: string | null;
+  customer_id?: string | null;
+  customer_name?: string | null;
+  description: string;
+  metal_type: MetalType;
+  gross_weight: number;
+  less_weight: number;
+  net_weight: number;
+  tested_purity: number;
+  melting_loss_percent: number;
+  fine_weight: number;
+  rate: number;
+  value: number;
+  payout_method?: string | null;
+  status: OldGoldStatus;
+  status_changed_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type ApprovalMemoStatus = 'open' | 'partially_settled' | 'closed';
+
+export type ApprovalItemStatus = 'out' | 'sold' | 'returned';
+
+// Pieces out with a customer or broker who has not decided yet
+export interface ApprovalMemo {
+  id: string;
+  memo_number: string;
+  financial_year: string;
+  serial: number;
+  issue_date: string;
+  due_date: string;
+  customer_id?: string | null;
+  broker_name?: string | null;
+  broker_phone?: string | null;
+  status: ApprovalMemoStatus;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  closed_at?: string | null;
+}
+
+export interface ApprovalMemoItem {
+  id: string;
+  memo_id: string;
+  piece_id: string;
+  product_id: string;
+  price: number;
+  status: ApprovalItemStatus;
+  sale_id?: string | null;
+  settled_at?: string | null;
+}
+
+export interface PriceBreakdown {
+  ratePerGram: number;
+  netWeight: number;
+  metalValue: number;
+  wastagePercent: number;
+  wastageValue: number;
+  makingChargeType: MakingChargeType;
+  makingChargeValue: number;
+  makingCharges: number;
+  stoneValue: number;
+  total: number;
+}
+
+export interface MetalRate {
+  id: string;
+  metal: MetalType;
+  purity: string;
+  rate_per_gram: number;
+  effective_date: string;
+  created_by?: string | null;
+  created_at?: string;
 }
 
 export interface Customer {
@@ -61,6 +320,9 @@ export interface Customer {
   };
   notes: string;
   total_purchases: number;
+  // Most the customer may owe at once; 0 means no credit
+  credit_limit?: number;
+  credit_terms_days?: number;
   last_purchase_date?: string;
   created_at: string;
   updated_at: string;
@@ -92,6 +354,108 @@ export interface VideoCall {
   quotation_id?: string;
   payment_status: 'pending' | 'completed' | 'overdue';
   payment_due_date?: string;
+  // Step key to status, in the order of the call's workflow
+  workflow_status?: Record<string, string>;
+  workflow_id?: string | null;
+  workflow_step_started_at?: string | null;
+  updated_at?: string;
+  // Set by the in-app call; empty for calls held elsewhere
+  call_started_at?: string | null;
+  call_ended_at?: string | null;
+  call_duration_seconds?: number | null;
+  join_token?: string | null;
+  join_token_expires_at?: string | null;
+  customer_waiting_at?: string | null;
+  // Given by the customer from their side of the call
+  recording_consent?: boolean;
+  recording_consent_at?: string | null;
+  // Joined in by the call screens
+  customers?: {
+    name: string;
+    phone: string;
+    type?: string;
+  };
+}
+
+export interface VideoCallJoinLink {
+  token: string;
+  expires_at: string;
+}
+
+// What the customer sees before entering the call; no staff login needed
+export interface VideoCallLobby {
+  call_id: string;
+  scheduled_at: string;
+  customer_time_zone: string | null;
+  customer_name: string | null;
+  staff_name: string | null;
+  status: VideoCall['status'];
+  expires_at: string;
+}
+
+export type WorkflowSkipCondition = 'hand_carry' | 'no_quotation';
+
+export interface WorkflowStep {
+  id: string;
+  workflow_id: string;
+  step_key: string;
+  label: string;
+  position: number;
+  // Empty for anyone; admins can always complete a step
+  required_roles: string[];
+  skip_when: WorkflowSkipCondition | null;
+  sla_hours: number | null;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  steps: WorkflowStep[];
+}
+
+export interface CallRecording {
+  id: string;
+  video_call_id: string;
+  storage_path: string;
+  mime_type: string;
+  size_bytes: number;
+  started_at: string;
+  ended_at: string;
+  duration_seconds: number;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+// A timestamped note on a call; showcase changes are bookmarked automatically
+export interface CallBookmark {
+  id: string;
+  video_call_id: string;
+  showcase_item_id: string | null;
+  product_id: string | null;
+  sku: string | null;
+  price: number | null;
+  note: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A product staff showed on a call, as the customer saw it
+export interface ShowcaseItem {
+  id: string;
+  video_call_id: string;
+  product_id: string;
+  piece_id: string | null;
+  name: string;
+  sku: string;
+  image_url: string | null;
+  gross_weight: number | null;
+  net_weight: number | null;
+  price: number;
+  shortlisted: boolean;
+  shortlisted_at: string | null;
+  shown_at: string;
 }
 
 export interface Quotation {
@@ -117,6 +481,15 @@ export interface Payment {
   updated_at: string;
 }
 
+export type PaymentMethod = 'cash' | 'upi' | 'card' | 'bank_transfer' | 'cheque' | 'old_gold' | 'advance';
+
+// One way the customer paid part of a bill; a bill can be settled with several
+export interface PaymentTender {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
 export interface Notification {
   id: string;
   user_id: string;
@@ -128,9 +501,168 @@ export interface Notification {
   created_at: string;
 }
 
+export type PaymentAlertType = 'first_alert' | 'suspicious_alert' | 'admin_alert';
+
+export interface PaymentReminderRule {
+  id: string;
+  event_type: PaymentAlertType;
+  days_overdue: number;
+  follow_up_days: number;
+  notify_admins: boolean;
+  message: string;
+  active: boolean;
+  updated_at: string;
+}
+
+// Raised by a reminder rule, or by a payment promise that was not kept
+export interface PaymentFollowUp {
+  id: string;
+  sale_id: string;
+  quotation_id?: string | null;
+  customer_id?: string | null;
+  event_type: PaymentAlertType | 'payment_failed';
+  message: string;
+  assigned_to?: string | null;
+  due_date: string;
+  status: 'open' | 'done' | 'closed';
+  outcome?: string | null;
+  completed_by?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+}
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface TaxInvoiceLine {
+  // Position of the bill line this invoice line comes from
+  item_index?: number;
+  // Set on the separate making-charges line of a piece
+  making_charges?: boolean;
+  description: string;
+  sku: string;
+  hsn_code: string;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  taxable_value: number;
+  gst_rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface TaxInvoice {
+  id: string;
+  invoice_number: string;
+  financial_year: string;
+  serial: number;
+  invoice_date: string;
+  sale_id: string;
+  quotation_id?: string | null;
+  customer_id?: string | null;
+  seller_gstin?: string | null;
+  seller_state: string;
+  buyer_name?: string | null;
+  buyer_gstin?: string | null;
+  buyer_address?: string | null;
+  buyer_state?: string | null;
+  place_of_supply: string;
+  supply_type: SupplyType;
+  lines: TaxInvoiceLine[];
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  invoice_total: number;
+  created_at: string;
+}
+
+export interface Sale {
+  id: string;
+  sale_type: 'counter' | 'video_call';
+  customer_id?: string | null;
+  video_call_id?: string | null;
+  quotation_id: string;
+  staff_id?: string | null;
+  sale_number: string;
+  total_amount: number;
+  returned_amount: number;
+  payment_status: 'paid' | 'pending';
+  payment_details: {
+    total_amount: number;
+    paid_amount: number;
+    pending_amount: number;
+    payment_status: string;
+    payments: Array<{ amount: number; date: string; type: string; method?: string; reference?: string }>;
+  };
+  created_at: string;
+}
+
+export type ReturnSettlement = 'refund' | 'store_credit';
+
+// A bill line taken back on a credit note
+export interface CreditNoteItem {
+  line_index: number;
+  product_id: string;
+  quantity: number;
+  pieceIds?: string[];
+}
+
+export interface CreditNote {
+  id: string;
+  note_number: string;
+  financial_year: string;
+  serial: number;
+  note_date: string;
+  sale_id: string;
+  tax_invoice_id?: string | null;
+  customer_id?: string | null;
+  buyer_name?: string | null;
+  buyer_gstin?: string | null;
+  place_of_supply?: string | null;
+  supply_type: SupplyType;
+  items: CreditNoteItem[];
+  lines: TaxInvoiceLine[];
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  note_total: number;
+  adjusted_amount: number;
+  settlement: ReturnSettlement;
+  refund_method?: PaymentMethod | null;
+  refund_reference?: string | null;
+  reason?: string | null;
+  created_at: string;
+}
+
+// A credit from an imported bank or UPI statement
+export interface StatementLine {
+  id: string;
+  source_file?: string | null;
+  payment_method: 'upi' | 'bank_transfer';
+  txn_date: string;
+  description: string;
+  reference: string;
+  amount: number;
+  // Tells apart identical credits on the same day
+  occurrence: number;
+  status: 'unmatched' | 'matched' | 'ignored';
+  sale_id?: string | null;
+  applied_amount: number;
+  ledger_entry_id?: string | null;
+  matched_by?: string | null;
+  matched_at?: string | null;
+  created_at: string;
+}
+
 export interface GSTRate {
   id: string;
   rate: number;
+  // No category means the default for categories without a rate of their own
+  category?: string | null;
+  effective_from: string;
   description?: string;
   created_at?: string;
   updated_at?: string;
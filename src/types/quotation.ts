@@ -1,3 +1,5 @@
+import type { PriceBreakdown } from './index';
+
 export interface QuotationItem {
   product: {
     id: string;
@@ -19,6 +21,9 @@ export interface QuotationItem {
   quantity: number;
   price: number;
   originalPrice: number;
+  breakdown?: PriceBreakdown | null;
+  huids?: string[];
+  pieceIds?: string[];
 }
 
 export interface SavedQuotation {
@@ -0,0 +1,266 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import type {
+  ApprovalItemStatus,
+  ApprovalMemo,
+  ApprovalMemoItem,
+  ApprovalMemoStatus,
+  Customer,
+  MetalType,
+  Product,
+  ProductPiece
+} from '../types';
+import { mapStones } from './stones';
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalMemoStatus, string> = {
+  open: 'Open',
+  partially_settled: 'Partly settled',
+  closed: 'Closed'
+};
+
+export const APPROVAL_STATUS_COLORS: Record<ApprovalMemoStatus, string> = {
+  open: 'bg-amber-100 text-amber-800',
+  partially_settled: 'bg-blue-100 text-blue-800',
+  closed: 'bg-gray-100 text-gray-600'
+};
+
+export const APPROVAL_ITEM_LABELS: Record<ApprovalItemStatus, string> = {
+  out: 'Out',
+  sold: 'Sold',
+  returned: 'Returned'
+};
+
+// A piece on a memo with what is needed to show and bill it
+export interface ApprovalMemoLine extends ApprovalMemoItem {
+  product: Product;
+  serial: string;
+  huid: string | null;
+  gross_weight: number | null;
+  net_weight: number | null;
+}
+
+export interface ApprovalMemoWithItems extends ApprovalMemo {
+  customer: Customer | null;
+  items: ApprovalMemoLine[];
+}
+
+export interface ApprovalMemoDraft {
+  customer_id: string | null;
+  broker_name: string;
+  broker_phone: string;
+  due_date: string;
+  notes: string;
+  items: Array<{ piece_id: string; price: number }>;
+}
+
+// What each customer still holds on approval
+export interface OutstandingApprovals {
+  memos: number;
+  pieces: number;
+  value: number;
+  overdue: number;
+}
+
+interface ProductRow {
+  id: string;
+  name: string;
+  description: string | null;
+  manufacturer: string;
+  sku: string;
+  buy_price: number;
+  wholesale_price: number;
+  retail_price: number;
+  stock_level: number;
+  category: string;
+  image_url: string | null;
+  qr_code: string | null;
+  code128: string | null;
+  cipher: string | null;
+  metal_type: MetalType | null;
+  purity: string | null;
+  gross_weight: number | null;
+  net_weight: number | null;
+  making_charges: number | null;
+  making_charge_type: Product['makingChargeType'] | null;
+  wastage_percent: number | null;
+  stones: unknown;
+  huids: string[] | null;
+  pricing_mode: Product['pricingMode'] | null;
+}
+
+interface MemoItemRow extends ApprovalMemoItem {
+  product_pieces: Pick<ProductPiece, 'serial' | 'huid' | 'gross_weight' | 'net_weight'> | null;
+  products: ProductRow;
+}
+
+interface MemoRow extends ApprovalMemo {
+  customers: Customer | null;
+  approval_memo_items: MemoItemRow[];
+}
+
+const MEMO_SELECT = '*, customers (*), approval_memo_items (*, product_pieces (serial, huid, gross_weight, net_weight), products (*))';
+
+const toProduct = (row: ProductRow): Product => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+  manufacturer: row.manufacturer,
+  sku: row.sku,
+  buyPrice: Number(row.buy_price),
+  wholesalePrice: Number(row.wholesale_price),
+  retailPrice: Number(row.retail_price),
+  stockLevel: Number(row.stock_level),
+  category: row.category,
+  imageUrl: row.image_url || '',
+  qrCode: row.qr_code || '',
+  code128: row.code128 || '',
+  cipher: row.cipher || '',
+  metalType: row.metal_type,
+  purity: row.purity,
+  grossWeight: row.gross_weight ? Number(row.gross_weight) : null,
+  netWeight: row.net_weight ? Number(row.net_weight) : null,
+  makingCharges: Number(row.making_charges) || 0,
+  makingChargeType: row.making_charge_type || 'per_piece',
+  wastagePercent: Number(row.wastage_percent) || 0,
+  stones: mapStones(row.stones),
+  huids: row.huids || [],
+  pricingMode: row.pricing_mode || 'fixed'
+});
+
+const toMemo = ({ customers, approval_memo_items, ...memo }: MemoRow): ApprovalMemoWithItems => ({
+  ...memo,
+  customer: customers,
+  items: (approval_memo_items || [])
+    .map(({ product_pieces, products, ...item }) => ({
+      ...item,
+      price: Number(item.price),
+      product: toProduct(products),
+      serial: product_pieces?.serial || '',
+      huid: product_pieces?.huid || null,
+      gross_weight: product_pieces?.gross_weight ?? null,
+      net_weight: product_pieces?.net_weight ?? null
+    }))
+    .sort((a, b) => a.serial.localeCompare(b.serial))
+});
+
+export const getMemoParty = (memo: ApprovalMemoWithItems) =>
+  memo.customer?.name || `${memo.broker_name} (broker)`;
+
+export const getDaysOverdue = (memo: ApprovalMemo, asOf: Date = new Date()) =>
+  memo.status === 'closed' ? 0 : Math.max(differenceInCalendarDays(asOf, new Date(memo.due_date)), 0);
+
+export const getOutItems = (memo: ApprovalMemoWithItems) =>
+  memo.items.filter(item => item.status === 'out');
+
+// Resolve a scanned serial or HUID to a piece that can go out on approval
+export const findPieceForMemo = async (code: string): Promise<{ piece: ProductPiece; product: Product } | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_pieces')
+      .select('*, products (*)')
+      .or(`serial.eq."${code}",huid.eq."${code}"`)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const { products, ...piece } = data as ProductPiece & { products: ProductRow };
+    return { piece, product: toProduct(products) };
+  } catch (error) {
+    console.error('Error finding piece for approval:', error);
+    throw error;
+  }
+};
+
+export const getApprovalMemos = async (outstanding: boolean): Promise<ApprovalMemoWithItems[]> => {
+  try {
+    let query = supabase
+      .from('approval_memos')
+      .select(MEMO_SELECT)
+      .order('due_date', { ascending: outstanding });
+
+    query = outstanding ? query.neq('status', 'closed') : query.eq('status', 'closed').limit(100);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return ((data || []) as unknown as MemoRow[]).map(toMemo);
+  } catch (error) {
+    console.error('Error fetching approval memos:', error);
+    throw error;
+  }
+};
+
+export const getApprovalMemo = async (id: string): Promise<ApprovalMemoWithItems | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('approval_memos')
+      .select(MEMO_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toMemo(data as unknown as MemoRow) : null;
+  } catch (error) {
+    console.error('Error fetching approval memo:', error);
+    throw error;
+  }
+};
+
+// Keyed by customer id; broker memos are not counted
+export const getOutstandingApprovals = async (): Promise<Record<string, OutstandingApprovals>> => {
+  try {
+    const { data, error } = await supabase
+      .from('approval_memos')
+      .select('id, customer_id, due_date, status, approval_memo_items (price, status)')
+      .neq('status', 'closed')
+      .not('customer_id', 'is', null);
+
+    if (error) throw error;
+
+    const totals: Record<string, OutstandingApprovals> = {};
+    ((data || []) as Array<ApprovalMemo & { approval_memo_items: Pick<ApprovalMemoItem, 'price' | 'status'>[] }>)
+      .forEach(memo => {
+        const out = memo.approval_memo_items.filter(item => item.status === 'out');
+        const customerId = memo.customer_id as string;
+        if (!totals[customerId]) {
+          totals[customerId] = { memos: 0, pieces: 0, value: 0, overdue: 0 };
+        }
+        const entry = totals[customerId];
+        entry.memos += 1;
+        entry.pieces += out.length;
+        entry.value += out.reduce((sum, item) => sum + Number(item.price), 0);
+        if (getDaysOverdue(memo) > 0) entry.overdue += 1;
+      });
+    return totals;
+  } catch (error) {
+    console.error('Error fetching outstanding approvals:', error);
+    throw error;
+  }
+};
+
+export const issueApprovalMemo = async (draft: ApprovalMemoDraft): Promise<ApprovalMemo> => {
+  try {
+    const { data, error } = await supabase.rpc('issue_approval_memo', { p_memo: draft });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error issuing approval memo:', error);
+    throw error;
+  }
+};
+
+export const returnApprovalPieces = async (memoId: string, pieceIds: string[]): Promise<ApprovalMemo> => {
+  try {
+    const { data, error } = await supabase.rpc('return_approval_pieces', {
+      p_memo_id: memoId,
+      p_piece_ids: pieceIds
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error returning approval pieces:', error);
+    throw error;
+  }
+};
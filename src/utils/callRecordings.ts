@@ -0,0 +1,141 @@
+import { supabase } from '../lib/supabase';
+import type { CallBookmark, CallRecording } from '../types';
+
+const RECORDINGS_BUCKET = 'call-recordings';
+// Long enough to watch a full call in one sitting
+const PLAYBACK_URL_SECONDS = 60 * 60;
+
+export interface CallRecordingWithUrl extends CallRecording {
+  url: string | null;
+}
+
+export const setRecordingConsent = async (token: string, consent: boolean): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('set_recording_consent', {
+      p_token: token,
+      p_consent: consent
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving recording consent:', error);
+    throw error;
+  }
+};
+
+export const uploadCallRecording = async (
+  callId: string,
+  recording: Blob,
+  startedAt: Date,
+  endedAt: Date
+): Promise<CallRecording> => {
+  const extension = recording.type.includes('mp4') ? 'mp4' : 'webm';
+  const path = `${callId}/${startedAt.getTime()}.${extension}`;
+
+  try {
+    const { error: uploadError } = await supabase.storage
+      .from(RECORDINGS_BUCKET)
+      .upload(path, recording, { contentType: recording.type, upsert: false });
+
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+      .from('video_call_recordings')
+      .insert([{
+        video_call_id: callId,
+        storage_path: path,
+        mime_type: recording.type,
+        size_bytes: recording.size,
+        started_at: startedAt.toISOString(),
+        ended_at: endedAt.toISOString()
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      // Don't leave a file nobody can find from the call
+      await supabase.storage.from(RECORDINGS_BUCKET).remove([path]);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error uploading call recording:', error);
+    throw error;
+  }
+};
+
+export const getCallRecordings = async (callId: string): Promise<CallRecordingWithUrl[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('video_call_recordings')
+      .select('*')
+      .eq('video_call_id', callId)
+      .order('started_at');
+
+    if (error) throw error;
+
+    return Promise.all((data || []).map(async (recording: CallRecording) => {
+      const { data: signed } = await supabase.storage
+        .from(RECORDINGS_BUCKET)
+        .createSignedUrl(recording.storage_path, PLAYBACK_URL_SECONDS);
+
+      return { ...recording, url: signed?.signedUrl || null };
+    }));
+  } catch (error) {
+    console.error('Error fetching call recordings:', error);
+    throw error;
+  }
+};
+
+export const getCallBookmarks = async (callId: string): Promise<CallBookmark[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('video_call_bookmarks')
+      .select('*')
+      .eq('video_call_id', callId)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data || []).map((bookmark: CallBookmark) => ({
+      ...bookmark,
+      price: bookmark.price === null ? null : Number(bookmark.price)
+    }));
+  } catch (error) {
+    console.error('Error fetching call bookmarks:', error);
+    throw error;
+  }
+};
+
+export const addCallBookmark = async (bookmark: {
+  video_call_id: string;
+  note: string;
+  showcase_item_id?: string | null;
+  product_id?: string | null;
+  sku?: string | null;
+  price?: number | null;
+}): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('video_call_bookmarks')
+      .insert([bookmark]);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error adding call bookmark:', error);
+    throw error;
+  }
+};
+
+// Where a bookmark falls in the recording that covers it, in seconds
+export const findBookmarkInRecordings = <T extends CallRecording>(
+  bookmark: CallBookmark,
+  recordings: T[]
+): { recording: T; offset: number } | null => {
+  const at = new Date(bookmark.created_at).getTime();
+  const recording = recordings.find(r =>
+    at >= new Date(r.started_at).getTime() && at <= new Date(r.ended_at).getTime()
+  );
+  if (!recording) return null;
+  return { recording, offset: Math.floor((at - new Date(recording.started_at).getTime()) / 1000) };
+};
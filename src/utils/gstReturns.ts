@@ -0,0 +1,511 @@
+import { format, endOfMonth, parse } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import type { SupplyType, TaxInvoice, TaxInvoiceLine } from '../types';
+import { getStateCode } from './taxInvoice';
+
+// Inter-state invoices to unregistered buyers above this value go in B2CL
+export const B2CL_THRESHOLD = 100000;
+
+export const GSTR1_VERSION = 'GST3.0.4';
+
+// A credit note against a tax invoice, in the shape the return needs
+export interface ReturnCreditNote {
+  note_number: string;
+  note_date: string;
+  invoice_number: string;
+  invoice_date: string;
+  invoice_total: number;
+  buyer_gstin?: string | null;
+  place_of_supply: string;
+  supply_type: SupplyType;
+  lines: TaxInvoiceLine[];
+  note_total: number;
+}
+
+interface GSTR1ItemDetail {
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt?: number;
+  samt?: number;
+  csamt: number;
+}
+
+interface GSTR1Item {
+  num: number;
+  itm_det: GSTR1ItemDetail;
+}
+
+interface GSTR1Invoice {
+  inum: string;
+  idt: string;
+  val: number;
+  pos: string;
+  rchrg: 'N';
+  inv_typ: 'R';
+  itms: GSTR1Item[];
+}
+
+interface GSTR1B2CLInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  itms: GSTR1Item[];
+}
+
+export interface GSTR1B2CS {
+  sply_ty: 'INTRA' | 'INTER';
+  pos: string;
+  typ: 'OE';
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface GSTR1Note {
+  ntty: 'C';
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  rchrg: 'N';
+  inv_typ: 'R';
+  itms: GSTR1Item[];
+}
+
+interface GSTR1UnregisteredNote {
+  typ: 'B2CL';
+  ntty: 'C';
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  itms: GSTR1Item[];
+}
+
+export interface GSTR1HSN {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  val: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+  rt: number;
+}
+
+export interface GSTR1Return {
+  gstin: string;
+  fp: string;
+  version: string;
+  hash: string;
+  b2b: Array<{ ctin: string; inv: GSTR1Invoice[] }>;
+  b2cl: Array<{ pos: string; inv: GSTR1B2CLInvoice[] }>;
+  b2cs: GSTR1B2CS[];
+  cdnr: Array<{ ctin: string; nt: GSTR1Note[] }>;
+  cdnur: GSTR1UnregisteredNote[];
+  hsn: { data: GSTR1HSN[] };
+  doc_issue: {
+    doc_det: Array<{
+      doc_num: number;
+      docs: Array<{ num: number; from: string; to: string; totnum: number; cancel: number; net_issue: number }>;
+    }>;
+  };
+}
+
+export interface GSTR3BRow {
+  section: string;
+  description: string;
+  place_of_supply: string;
+  taxable_value: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Return periods are picked as yyyy-MM
+export const getReturnPeriodRange = (period: string) => {
+  const start = parse(`${period}-01`, 'yyyy-MM-dd', new Date());
+  return {
+    from: format(start, 'yyyy-MM-dd'),
+    to: format(endOfMonth(start), 'yyyy-MM-dd')
+  };
+};
+
+// The offline tool wants the period as MMyyyy and dates as dd-mm-yyyy
+export const formatReturnPeriod = (period: string) => {
+  const [year, month] = period.split('-');
+  return `${month}${year}`;
+};
+
+const formatReturnDate = (date: string) => format(new Date(date), 'dd-MM-yyyy');
+
+const getPos = (placeOfSupply: string, gstin?: string | null) =>
+  getStateCode(placeOfSupply.replace(/^\d{2}-/, ''), gstin) || placeOfSupply.slice(0, 2);
+
+const isB2CL = (supplyType: SupplyType, gstin: string | null | undefined, value: number) =>
+  !gstin && supplyType === 'inter_state' && value > B2CL_THRESHOLD;
+
+// One item per tax rate, as the portal expects
+const groupItems = (lines: TaxInvoiceLine[], supplyType: SupplyType, withSplit: boolean): GSTR1Item[] => {
+  const byRate = new Map<number, GSTR1ItemDetail>();
+  lines.forEach(line => {
+    const rate = Number(line.gst_rate);
+    const detail = byRate.get(rate) || { txval: 0, rt: rate, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+    detail.txval += Number(line.taxable_value);
+    detail.iamt += Number(line.igst);
+    detail.camt = (detail.camt || 0) + Number(line.cgst);
+    detail.samt = (detail.samt || 0) + Number(line.sgst);
+    byRate.set(rate, detail);
+  });
+
+  return Array.from(byRate.values()).map((detail, index) => {
+    const itm_det: GSTR1ItemDetail = {
+      txval: round2(detail.txval),
+      rt: detail.rt,
+      iamt: round2(detail.iamt),
+      csamt: 0
+    };
+    if (withSplit && supplyType === 'intra_state') {
+      itm_det.camt = round2(detail.camt || 0);
+      itm_det.samt = round2(detail.samt || 0);
+    }
+    return { num: index + 1, itm_det };
+  });
+};
+
+export const getTaxInvoicesForPeriod = async (period: string): Promise<TaxInvoice[]> => {
+  try {
+    const { from, to } = getReturnPeriodRange(period);
+    const { data, error } = await supabase
+      .from('tax_invoices')
+      .select('*')
+      .gte('invoice_date', from)
+      .lte('invoice_date', to)
+      .order('serial', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching tax invoices for return:', error);
+    throw error;
+  }
+};
+
+// Only notes against a tax invoice are reported; untaxed bills never entered the return
+export const getCreditNotesForPeriod = async (period: string): Promise<ReturnCreditNote[]> => {
+  try {
+    const { from, to } = getReturnPeriodRange(period);
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .select('*, tax_invoices(invoice_number, invoice_date, invoice_total)')
+      .not('tax_invoice_id', 'is', null)
+      .gte('note_date', from)
+      .lte('note_date', to)
+      .order('serial', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(note => ({
+      note_number: note.note_number,
+      note_date: note.note_date,
+      invoice_number: note.tax_invoices.invoice_number,
+      invoice_date: note.tax_invoices.invoice_date,
+      invoice_total: Number(note.tax_invoices.invoice_total),
+      buyer_gstin: note.buyer_gstin,
+      place_of_supply: note.place_of_supply,
+      supply_type: note.supply_type,
+      lines: note.lines,
+      note_total: Number(note.note_total)
+    }));
+  } catch (error) {
+    console.error('Error fetching credit notes for return:', error);
+    throw error;
+  }
+};
+
+// Sales in the period with no tax invoice cannot be reported invoice-wise
+export const getUninvoicedSalesCount = async (period: string): Promise<number> => {
+  try {
+    const { from, to } = getReturnPeriodRange(period);
+    const { data, error } = await supabase
+      .from('sales')
+      .select('id, tax_invoices(id)')
+      .gte('created_at', `${from}T00:00:00`)
+      .lte('created_at', `${to}T23:59:59.999`);
+
+    if (error) throw error;
+    return (data || []).filter(sale => !sale.tax_invoices || (Array.isArray(sale.tax_invoices) && sale.tax_invoices.length === 0)).length;
+  } catch (error) {
+    console.error('Error counting uninvoiced sales:', error);
+    throw error;
+  }
+};
+
+export const buildGSTR1 = (
+  invoices: TaxInvoice[],
+  creditNotes: ReturnCreditNote[],
+  gstin: string,
+  period: string
+): GSTR1Return => {
+  const b2b = new Map<string, GSTR1Invoice[]>();
+  const b2cl = new Map<string, GSTR1B2CLInvoice[]>();
+  const b2cs = new Map<string, GSTR1B2CS>();
+  const hsn = new Map<string, GSTR1HSN>();
+
+  const addB2CS = (supplyType: SupplyType, pos: string, lines: TaxInvoiceLine[], sign: 1 | -1) => {
+    lines.forEach(line => {
+      const rate = Number(line.gst_rate);
+      const key = `${supplyType}-${pos}-${rate}`;
+      const row = b2cs.get(key) || {
+        sply_ty: supplyType === 'intra_state' ? 'INTRA' : 'INTER',
+        pos,
+        typ: 'OE',
+        rt: rate,
+        txval: 0,
+        iamt: 0,
+        camt: 0,
+        samt: 0,
+        csamt: 0
+      };
+      row.txval += sign * Number(line.taxable_value);
+      row.iamt += sign * Number(line.igst);
+      row.camt += sign * Number(line.cgst);
+      row.samt += sign * Number(line.sgst);
+      b2cs.set(key, row);
+    });
+  };
+
+  const addHSN = (lines: TaxInvoiceLine[], sign: 1 | -1) => {
+    lines.forEach(line => {
+      const rate = Number(line.gst_rate);
+      const key = `${line.hsn_code}-${rate}`;
+      const row = hsn.get(key) || {
+        num: 0,
+        hsn_sc: line.hsn_code,
+        desc: '',
+        uqc: 'NOS',
+        qty: 0,
+        val: 0,
+        txval: 0,
+        iamt: 0,
+        camt: 0,
+        samt: 0,
+        csamt: 0,
+        rt: rate
+      };
+      row.qty += sign * Number(line.quantity);
+      row.val += sign * Number(line.total);
+      row.txval += sign * Number(line.taxable_value);
+      row.iamt += sign * Number(line.igst);
+      row.camt += sign * Number(line.cgst);
+      row.samt += sign * Number(line.sgst);
+      hsn.set(key, row);
+    });
+  };
+
+  invoices.forEach(invoice => {
+    const pos = getPos(invoice.place_of_supply, invoice.buyer_gstin);
+    const value = Number(invoice.invoice_total);
+    addHSN(invoice.lines, 1);
+
+    if (invoice.buyer_gstin) {
+      const entries = b2b.get(invoice.buyer_gstin) || [];
+      entries.push({
+        inum: invoice.invoice_number,
+        idt: formatReturnDate(invoice.invoice_date),
+        val: round2(value),
+        pos,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: groupItems(invoice.lines, invoice.supply_type, true)
+      });
+      b2b.set(invoice.buyer_gstin, entries);
+    } else if (isB2CL(invoice.supply_type, invoice.buyer_gstin, value)) {
+      const entries = b2cl.get(pos) || [];
+      entries.push({
+        inum: invoice.invoice_number,
+        idt: formatReturnDate(invoice.invoice_date),
+        val: round2(value),
+        itms: groupItems(invoice.lines, invoice.supply_type, false)
+      });
+      b2cl.set(pos, entries);
+    } else {
+      addB2CS(invoice.supply_type, pos, invoice.lines, 1);
+    }
+  });
+
+  const cdnr = new Map<string, GSTR1Note[]>();
+  const cdnur: GSTR1UnregisteredNote[] = [];
+
+  creditNotes.forEach(note => {
+    const pos = getPos(note.place_of_supply, note.buyer_gstin);
+    addHSN(note.lines, -1);
+
+    if (note.buyer_gstin) {
+      const entries = cdnr.get(note.buyer_gstin) || [];
+      entries.push({
+        ntty: 'C',
+        nt_num: note.note_number,
+        nt_dt: formatReturnDate(note.note_date),
+        val: round2(Number(note.note_total)),
+        pos,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: groupItems(note.lines, note.supply_type, true)
+      });
+      cdnr.set(note.buyer_gstin, entries);
+    } else if (isB2CL(note.supply_type, note.buyer_gstin, Number(note.invoice_total))) {
+      cdnur.push({
+        typ: 'B2CL',
+        ntty: 'C',
+        nt_num: note.note_number,
+        nt_dt: formatReturnDate(note.note_date),
+        val: round2(Number(note.note_total)),
+        pos,
+        itms: groupItems(note.lines, note.supply_type, false)
+      });
+    } else {
+      // B2C small credit notes are netted off the B2CS totals
+      addB2CS(note.supply_type, pos, note.lines, -1);
+    }
+  });
+
+  const docs = invoices.length > 0
+    ? [{
+        num: 1,
+        from: invoices[0].invoice_number,
+        to: invoices[invoices.length - 1].invoice_number,
+        totnum: invoices.length,
+        cancel: 0,
+        net_issue: invoices.length
+      }]
+    : [];
+
+  return {
+    gstin,
+    fp: formatReturnPeriod(period),
+    version: GSTR1_VERSION,
+    hash: 'hash',
+    b2b: Array.from(b2b.entries()).map(([ctin, inv]) => ({ ctin, inv })),
+    b2cl: Array.from(b2cl.entries()).map(([pos, inv]) => ({ pos, inv })),
+    b2cs: Array.from(b2cs.values()).map(row => ({
+      ...row,
+      txval: round2(row.txval),
+      iamt: round2(row.iamt),
+      camt: round2(row.camt),
+      samt: round2(row.samt)
+    })),
+    cdnr: Array.from(cdnr.entries()).map(([ctin, nt]) => ({ ctin, nt })),
+    cdnur,
+    hsn: {
+      data: Array.from(hsn.values()).map((row, index) => ({
+        ...row,
+        num: index + 1,
+        qty: round2(row.qty),
+        val: round2(row.val),
+        txval: round2(row.txval),
+        iamt: round2(row.iamt),
+        camt: round2(row.camt),
+        samt: round2(row.samt)
+      }))
+    },
+    doc_issue: { doc_det: docs.length > 0 ? [{ doc_num: 1, docs }] : [] }
+  };
+};
+
+// Table 3.1(a) outward taxable supplies and 3.2 inter-state supplies to
+// unregistered persons, both net of credit notes
+export const buildGSTR3B = (invoices: TaxInvoice[], creditNotes: ReturnCreditNote[]): GSTR3BRow[] => {
+  const outward: GSTR3BRow = {
+    section: '3.1(a)',
+    description: 'Outward taxable supplies (other than zero rated, nil rated and exempted)',
+    place_of_supply: '',
+    taxable_value: 0,
+    igst: 0,
+    cgst: 0,
+    sgst: 0,
+    cess: 0
+  };
+  const unregistered = new Map<string, GSTR3BRow>();
+
+  const add = (
+    document: { lines: TaxInvoiceLine[]; place_of_supply: string; supply_type: SupplyType; buyer_gstin?: string | null },
+    sign: 1 | -1
+  ) => {
+    document.lines.forEach(line => {
+      outward.taxable_value += sign * Number(line.taxable_value);
+      outward.igst += sign * Number(line.igst);
+      outward.cgst += sign * Number(line.cgst);
+      outward.sgst += sign * Number(line.sgst);
+    });
+
+    if (document.supply_type !== 'inter_state' || document.buyer_gstin) return;
+
+    const row = unregistered.get(document.place_of_supply) || {
+      section: '3.2',
+      description: 'Inter-state supplies to unregistered persons',
+      place_of_supply: document.place_of_supply,
+      taxable_value: 0,
+      igst: 0,
+      cgst: 0,
+      sgst: 0,
+      cess: 0
+    };
+    document.lines.forEach(line => {
+      row.taxable_value += sign * Number(line.taxable_value);
+      row.igst += sign * Number(line.igst);
+    });
+    unregistered.set(document.place_of_supply, row);
+  };
+
+  invoices.forEach(invoice => add(invoice, 1));
+  creditNotes.forEach(note => add(note, -1));
+
+  return [outward, ...Array.from(unregistered.values())].map(row => ({
+    ...row,
+    taxable_value: round2(row.taxable_value),
+    igst: round2(row.igst),
+    cgst: round2(row.cgst),
+    sgst: round2(row.sgst)
+  }));
+};
+
+export const gstr3BToCSV = (rows: GSTR3BRow[]): string => {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = ['Section', 'Description', 'Place of Supply', 'Taxable Value', 'IGST', 'CGST', 'SGST', 'Cess'];
+  const body = rows.map(row => [
+    row.section,
+    row.description,
+    row.place_of_supply,
+    row.taxable_value.toFixed(2),
+    row.igst.toFixed(2),
+    row.cgst.toFixed(2),
+    row.sgst.toFixed(2),
+    row.cess.toFixed(2)
+  ]);
+  return [header, ...body].map(cells => cells.map(escape).join(',')).join('\n');
+};
+
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -1,39 +1,112 @@
+import { format } from 'date-fns';
 import { supabase } from '../lib/supabase';
+import type { GSTRate, PriceBreakdown } from '../types';
 
-export const getGSTRate = async (category?: string): Promise<number> => {
+export const DEFAULT_GST_RATE = 18;
+
+// Rates entered under this category apply to the making charges on a piece,
+// which are then billed as a line of their own
+export const MAKING_CHARGES_CATEGORY = 'Making charges';
+
+// Services accounting code for jewellery making, used when no HSN is set
+export const MAKING_CHARGES_SAC = '998892';
+
+export const getGSTRates = async (): Promise<GSTRate[]> => {
   try {
     const { data, error } = await supabase
       .from('gst_rates')
       .select('*')
-      .order('created_at', { ascending: false })
-      .limit(1);
+      .order('effective_from', { ascending: false })
+      .order('created_at', { ascending: false });
 
     if (error) throw error;
-    
-    // Return the most recent GST rate
-    return data?.[0]?.rate || 18;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching GST rates:', error);
+    throw error;
+  }
+};
+
+const categoryKey = (category?: string | null) => (category || '').trim().toLowerCase();
+
+// Newest first, leaving out rates that take effect after `date`
+const ratesInForce = (rates: GSTRate[], date: Date) => {
+  const day = format(date, 'yyyy-MM-dd');
+  return rates
+    .filter(rate => !rate.effective_from || rate.effective_from <= day)
+    .sort((a, b) => (b.effective_from || '').localeCompare(a.effective_from || ''));
+};
+
+// Latest rate in force on `date` for the category, else the latest default
+export const resolveGSTRate = (
+  rates: GSTRate[],
+  category?: string | null,
+  date: Date = new Date(),
+  fallback: number = DEFAULT_GST_RATE
+): number => {
+  const inForce = ratesInForce(rates, date);
+  const key = categoryKey(category);
+  const match = (key && inForce.find(rate => categoryKey(rate.category) === key))
+    || inForce.find(rate => !rate.category);
+
+  return match ? Number(match.rate) : fallback;
+};
+
+// Null while no making-charge rate is set: making charges are then taxed
+// with the piece, at its category's rate
+export const resolveMakingChargeRate = (rates: GSTRate[], date: Date = new Date()): number | null => {
+  const key = categoryKey(MAKING_CHARGES_CATEGORY);
+  const match = ratesInForce(rates, date).find(rate => categoryKey(rate.category) === key);
+  return match ? Number(match.rate) : null;
+};
+
+// Splits a unit price into the piece and the making charges taxed apart from it
+export const splitMakingCharges = (
+  unitPrice: number,
+  breakdown: PriceBreakdown | null | undefined,
+  makingRate: number | null
+): { goods: number; making: number } => {
+  const making = makingRate === null || !breakdown
+    ? 0
+    : Math.min(Math.max(Number(breakdown.makingCharges) || 0, 0), unitPrice);
+  return { goods: unitPrice - making, making };
+};
+
+export const getGSTRate = async (category?: string): Promise<number> => {
+  try {
+    return resolveGSTRate(await getGSTRates(), category);
   } catch (error) {
     console.error('Error fetching GST rate:', error);
-    return 18; // Default to 18% in case of error
+    return DEFAULT_GST_RATE;
   }
 };
 
-// Cache GST rate for 5 minutes
-let cachedGSTRate: number | null = null;
+// Cache GST rates for 5 minutes
+let cachedGSTRates: GSTRate[] | null = null;
 let lastFetchTime: number = 0;
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-export const getCachedGSTRate = async (): Promise<number> => {
+export const getCachedGSTRates = async (): Promise<GSTRate[]> => {
   const now = Date.now();
-  
-  // Return cached rate if valid
-  if (cachedGSTRate !== null && (now - lastFetchTime) < CACHE_DURATION) {
-    return cachedGSTRate;
+
+  // Return cached rates if valid
+  if (cachedGSTRates !== null && (now - lastFetchTime) < CACHE_DURATION) {
+    return cachedGSTRates;
   }
 
-  // Fetch fresh rate
-  const rate = await getGSTRate();
-  cachedGSTRate = rate;
+  // Fetch fresh rates
+  const rates = await getGSTRates();
+  cachedGSTRates = rates;
   lastFetchTime = now;
-  return rate;
-};
\ No newline at end of file
+  return rates;
+};
+
+// Default rate, for bills and screens that have no category to go on
+export const getCachedGSTRate = async (): Promise<number> => {
+  return resolveGSTRate(await getCachedGSTRates());
+};
+
+export const clearGSTRateCache = () => {
+  cachedGSTRates = null;
+  lastFetchTime = 0;
+};
@@ -0,0 +1,74 @@
+import { supabase } from '../lib/supabase';
+import type { MarkupSetting, Product } from '../types';
+
+// BIS HUID: 6 alphanumeric characters
+export const HUID_PATTERN = /^[A-Z0-9]{6}$/;
+
+export const normalizeHuid = (value: string): string => value.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const isValidHuid = (value: string): boolean => HUID_PATTERN.test(value);
+
+// Accepts HUIDs separated by commas, spaces or new lines
+export const parseHuids = (text: string): string[] => {
+  return text
+    .split(/[\s,]+/)
+    .map(normalizeHuid)
+    .filter(Boolean);
+};
+
+export const isHallmarkRequired = (category: string, settings: MarkupSetting[]): boolean => {
+  return settings.some(setting =>
+    setting.type === 'category' && setting.name === category && setting.hallmark_required
+  );
+};
+
+export const validateHuids = (huids: string[], stockLevel: number, required: boolean): string | null => {
+  const invalid = huids.filter(huid => !isValidHuid(huid));
+  if (invalid.length > 0) {
+    return `Invalid HUID${invalid.length > 1 ? 's' : ''}: ${invalid.join(', ')} (must be 6 letters or digits)`;
+  }
+
+  const duplicates = huids.filter((huid, index) => huids.indexOf(huid) !== index);
+  if (duplicates.length > 0) {
+    return `Duplicate HUID: ${duplicates.join(', ')}`;
+  }
+
+  if (huids.length > stockLevel) {
+    return `${huids.length} HUIDs entered for ${stockLevel} piece${stockLevel === 1 ? '' : 's'} in stock`;
+  }
+
+  if (required && huids.length < stockLevel) {
+    return `This category requires a HUID for every piece (${huids.length} of ${stockLevel} entered)`;
+  }
+
+  return null;
+};
+
+// HUIDs already carried by a piece of a different product
+export const findHuidConflicts = async (huids: string[], productId?: string): Promise<string[]> => {
+  if (huids.length === 0) return [];
+
+  try {
+    let query = supabase
+      .from('product_pieces')
+      .select('huid')
+      .in('huid', huids);
+
+    if (productId) {
+      query = query.neq('product_id', productId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map((row: { huid: string }) => row.huid);
+  } catch (error) {
+    console.error('Error checking HUIDs:', error);
+    throw error;
+  }
+};
+
+// Next HUID to bill for a product: the first in stock not already on the bill
+export const pickHuid = (product: Product, assigned: string[]): string | undefined => {
+  return (product.huids || []).find(huid => !assigned.includes(huid));
+};
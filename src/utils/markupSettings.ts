@@ -1,6 +1,6 @@
-import type { MarkupSetting } from '../types';
+import type { MarkupSetting, MakingChargeType } from '../types';
 
-// This would typically come from your database/API
+// Used until the configured settings have loaded
 const defaultMarkupSettings: MarkupSetting[] = [
   { id: '1', type: 'manufacturer', name: 'Cartier', markup: 0.3 },
   { id: '2', type: 'manufacturer', name: 'Tiffany', markup: 0.35 },
@@ -14,15 +14,82 @@ const defaultMarkupSettings: MarkupSetting[] = [
   { id: '10', type: 'category', name: 'Watches', markup: 0.4 },
 ];
 
-export function getMarkupForProduct(manufacturer: string, category: string): number {
-  const manufacturerSetting = defaultMarkupSettings.find(
+export const MAKING_CHARGE_TYPES: Array<{ value: MakingChargeType; label: string; unit: string }> = [
+  { value: 'per_gram', label: 'Per gram', unit: '₹/g' },
+  { value: 'per_piece', label: 'Flat per piece', unit: '₹' },
+  { value: 'percent', label: '% of metal value', unit: '%' }
+];
+
+export interface MakingChargeModel {
+  type: MakingChargeType;
+  value: number;
+  wastagePercent: number;
+}
+
+const findSettings = (manufacturer: string, category: string, settings: MarkupSetting[]) => ({
+  manufacturerSetting: settings.find(
     setting => setting.type === 'manufacturer' && setting.name === manufacturer
-  );
-  
-  const categorySetting = defaultMarkupSettings.find(
+  ),
+  categorySetting: settings.find(
     setting => setting.type === 'category' && setting.name === category
-  );
+  )
+});
+
+export function getMarkupForProduct(
+  manufacturer: string,
+  category: string,
+  settings: MarkupSetting[] = defaultMarkupSettings
+): number {
+  const { manufacturerSetting, categorySetting } = findSettings(manufacturer, category, settings);
 
   // Use manufacturer markup if available, otherwise use category markup, or fall back to 20%
   return (manufacturerSetting?.markup || categorySetting?.markup || 0.2);
 }
+
+const hasMakingModel = (setting?: MarkupSetting) =>
+  !!setting && (Number(setting.making_charge_value) > 0 || Number(setting.wastage_percent) > 0);
+
+// Manufacturer terms take precedence over category terms, same as markup
+export function getMakingChargeModel(
+  manufacturer: string,
+  category: string,
+  settings: MarkupSetting[]
+): MakingChargeModel {
+  const { manufacturerSetting, categorySetting } = findSettings(manufacturer, category, settings);
+  const setting = hasMakingModel(manufacturerSetting)
+    ? manufacturerSetting
+    : hasMakingModel(categorySetting) ? categorySetting : undefined;
+
+  return {
+    type: setting?.making_charge_type || 'per_piece',
+    value: Number(setting?.making_charge_value) || 0,
+    wastagePercent: Number(setting?.wastage_percent) || 0
+  };
+}
+
+export function calculateMakingCharges(
+  type: MakingChargeType,
+  value: number,
+  netWeight: number,
+  metalValue: number
+): number {
+  switch (type) {
+    case 'per_gram':
+      return Math.round(value * netWeight * 100) / 100;
+    case 'percent':
+      return Math.round(metalValue * value) / 100;
+    default:
+      return value;
+  }
+}
+
+export function formatMakingCharge(type: MakingChargeType, value: number): string {
+  switch (type) {
+    case 'per_gram':
+      return `₹${value.toLocaleString('en-IN')}/g`;
+    case 'percent':
+      return `${value}% of metal`;
+    default:
+      return `₹${value.toLocaleString('en-IN')}/pc`;
+  }
+}
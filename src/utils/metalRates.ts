@@ -0,0 +1,168 @@
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import type { MetalRate, MetalType, Product, PriceBreakdown } from '../types';
+import { calculateMakingCharges } from './markupSettings';
+import { calculateStoneValue } from './stones';
+
+// Purities we stock, finest first. Fineness is used to derive a rate when
+// only the finest purity has been entered for the day.
+export const PURITY_OPTIONS: Record<MetalType, Array<{ purity: string; fineness: number }>> = {
+  gold: [
+    { purity: '24K', fineness: 0.999 },
+    { purity: '22K', fineness: 0.916 },
+    { purity: '18K', fineness: 0.75 },
+    { purity: '14K', fineness: 0.585 }
+  ],
+  silver: [
+    { purity: '999', fineness: 0.999 },
+    { purity: '925', fineness: 0.925 }
+  ],
+  platinum: [
+    { purity: '950', fineness: 0.95 }
+  ]
+};
+
+export const METAL_LABELS: Record<MetalType, string> = {
+  gold: 'Gold',
+  silver: 'Silver',
+  platinum: 'Platinum'
+};
+
+export const getFineness = (metal: MetalType, purity: string): number | null => {
+  return PURITY_OPTIONS[metal]?.find(option => option.purity === purity)?.fineness ?? null;
+};
+
+export const getMetalRates = async (date: Date = new Date()): Promise<MetalRate[]> => {
+  try {
+    // Only the rate in force for each metal/purity comes back
+    const { data, error } = await supabase.rpc('metal_rates_on', {
+      p_date: format(date, 'yyyy-MM-dd')
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as MetalRate[]).map(rate => ({
+      ...rate,
+      rate_per_gram: Number(rate.rate_per_gram)
+    }));
+  } catch (error) {
+    console.error('Error fetching metal rates:', error);
+    throw error;
+  }
+};
+
+// Cache metal rates for 5 minutes
+let cachedMetalRates: MetalRate[] | null = null;
+let lastFetchTime: number = 0;
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCachedMetalRates = async (): Promise<MetalRate[]> => {
+  const now = Date.now();
+
+  if (cachedMetalRates !== null && (now - lastFetchTime) < CACHE_DURATION) {
+    return cachedMetalRates;
+  }
+
+  const rates = await getMetalRates();
+  cachedMetalRates = rates;
+  lastFetchTime = now;
+  return rates;
+};
+
+export const clearMetalRateCache = () => {
+  cachedMetalRates = null;
+  lastFetchTime = 0;
+};
+
+export const getRatePerGram = (
+  rates: MetalRate[],
+  metal: MetalType,
+  purity: string
+): number | null => {
+  const exact = rates.find(rate => rate.metal === metal && rate.purity === purity);
+  if (exact) return exact.rate_per_gram;
+
+  // Derive from the finest purity entered for this metal
+  const fineness = getFineness(metal, purity);
+  if (fineness === null) return null;
+
+  const base = PURITY_OPTIONS[metal]
+    .map(option => ({
+      option,
+      rate: rates.find(rate => rate.metal === metal && rate.purity === option.purity)
+    }))
+    .find(({ rate }) => !!rate);
+
+  if (!base?.rate) return null;
+  return Math.round((base.rate.rate_per_gram / base.option.fineness) * fineness * 100) / 100;
+};
+
+export const isMetalPriced = (product: Product): boolean => {
+  return product.pricingMode === 'metal_rate' &&
+    !!product.metalType &&
+    !!product.purity &&
+    Number(product.netWeight) > 0;
+};
+
+export const calculateMetalPrice = (
+  product: Product,
+  rates: MetalRate[]
+): PriceBreakdown | null => {
+  if (!isMetalPriced(product)) return null;
+
+  const ratePerGram = getRatePerGram(rates, product.metalType!, product.purity!);
+  if (ratePerGram === null) return null;
+
+  const netWeight = Number(product.netWeight);
+  const metalValue = Math.round(netWeight * ratePerGram * 100) / 100;
+  const wastagePercent = Number(product.wastagePercent) || 0;
+  const wastageValue = Math.round(metalValue * wastagePercent) / 100;
+  const makingChargeType = product.makingChargeType || 'per_piece';
+  const makingChargeValue = Number(product.makingCharges) || 0;
+  const makingCharges = calculateMakingCharges(makingChargeType, makingChargeValue, netWeight, metalValue);
+  const stoneValue = calculateStoneValue(product.stones);
+
+  return {
+    ratePerGram,
+    netWeight,
+    metalValue,
+    wastagePercent,
+    wastageValue,
+    makingChargeType,
+    makingChargeValue,
+    makingCharges,
+    stoneValue,
+    total: Math.round(metalValue + wastageValue + makingCharges + stoneValue)
+  };
+};
+
+// Price a line at today's rate, falling back to the stored price when the
+// product is fixed-price or no rate is available for its metal.
+export const getLinePrice = (
+  item: { product: Product; price: number },
+  rates?: MetalRate[] | null
+): number => {
+  if (!rates || rates.length === 0) return Number(item.price) || 0;
+  const breakdown = calculateMetalPrice(item.product, rates);
+  return breakdown ? breakdown.total : Number(item.price) || 0;
+};
+
+// Breakdown behind getLinePrice, for lines priced from the metal rate
+export const getLineBreakdown = (
+  item: { product: Product; breakdown?: PriceBreakdown | null },
+  rates?: MetalRate[] | null
+): PriceBreakdown | null => {
+  if (!rates || rates.length === 0) return item.breakdown || null;
+  return calculateMetalPrice(item.product, rates);
+};
+
+export const repriceItems = <T extends { product: Product; price: number; breakdown?: PriceBreakdown | null }>(
+  items: T[],
+  rates: MetalRate[]
+): T[] => {
+  return items.map(item => {
+    const breakdown = calculateMetalPrice(item.product, rates);
+    if (!breakdown) return item;
+    return { ...item, price: breakdown.total, breakdown };
+  });
+};
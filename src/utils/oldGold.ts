@@ -0,0 +1,152 @@
+import { supabase } from '../lib/supabase';
+import type { MetalRate, MetalType, OldGoldItem, OldGoldStatus } from '../types';
+import { PURITY_OPTIONS, getRatePerGram } from './metalRates';
+
+export const OLD_GOLD_STATUS_LABELS: Record<OldGoldStatus, string> = {
+  in_scrap: 'In scrap',
+  sent_for_melting: 'Sent for melting',
+  melted: 'Melted'
+};
+
+export const OLD_GOLD_STATUS_COLORS: Record<OldGoldStatus, string> = {
+  in_scrap: 'bg-yellow-100 text-yellow-800',
+  sent_for_melting: 'bg-blue-100 text-blue-800',
+  melted: 'bg-gray-100 text-gray-700'
+};
+
+// What is tested and agreed at the counter for one old piece
+export interface OldGoldEntry {
+  description: string;
+  metal_type: MetalType;
+  gross_weight: number;
+  less_weight: number;
+  tested_purity: number;
+  melting_loss_percent: number;
+  rate: number;
+}
+
+const round = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+// Mirrors record_old_gold so the credit shown at the counter is what is saved
+export const calculateOldGold = (entry: OldGoldEntry) => {
+  const netWeight = round(Number(entry.gross_weight) - Number(entry.less_weight || 0), 3);
+  const fineWeight = round(
+    netWeight * (Number(entry.tested_purity) / 100) * (1 - Number(entry.melting_loss_percent || 0) / 100),
+    3
+  );
+  return {
+    netWeight,
+    fineWeight,
+    value: round(fineWeight * Number(entry.rate), 2)
+  };
+};
+
+export const getOldGoldCredit = (entries: OldGoldEntry[]) =>
+  round(entries.reduce((sum, entry) => sum + calculateOldGold(entry).value, 0), 2);
+
+// Today's rate for a gram of pure metal, worked back from the finest purity on the rate card
+export const getFineRate = (rates: MetalRate[], metal: MetalType): number => {
+  const finest = PURITY_OPTIONS[metal][0];
+  const rate = getRatePerGram(rates, metal, finest.purity);
+  return rate ? round(rate / finest.fineness, 2) : 0;
+};
+
+export const validateOldGoldEntry = (entry: OldGoldEntry): string | null => {
+  if (!(Number(entry.gross_weight) > 0)) return 'Enter the gross weight';
+  if (Number(entry.less_weight) < 0 || Number(entry.less_weight) >= Number(entry.gross_weight)) {
+    return 'Less weight must be below the gross weight';
+  }
+  if (!(Number(entry.tested_purity) > 0) || Number(entry.tested_purity) > 100) {
+    return 'Tested purity must be between 0 and 100%';
+  }
+  if (Number(entry.melting_loss_percent) < 0 || Number(entry.melting_loss_percent) >= 100) {
+    return 'Melting loss must be below 100%';
+  }
+  if (!(Number(entry.rate) > 0)) return 'Enter the rate per gram of fine metal';
+  return null;
+};
+
+interface RecordBuybackParams {
+  customerId?: string | null;
+  customerName: string;
+  items: OldGoldEntry[];
+  payoutMethod: string;
+}
+
+// Old gold bought outright, with no sale to set it against
+export const recordBuyback = async ({
+  customerId,
+  customerName,
+  items,
+  payoutMethod
+}: RecordBuybackParams): Promise<string> => {
+  try {
+    const { data, error } = await supabase.rpc('record_old_gold', {
+      p_kind: 'buyback',
+      p_sale_id: null,
+      p_customer_id: customerId || null,
+      p_customer_name: customerName,
+      p_items: items,
+      p_payout_method: payoutMethod
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error recording buyback:', error);
+    throw error;
+  }
+};
+
+export const getOldGoldVoucher = async (voucherNumber: string): Promise<OldGoldItem[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('old_gold_items')
+      .select('*')
+      .eq('voucher_number', voucherNumber)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching old gold voucher:', error);
+    throw error;
+  }
+};
+
+export const getScrapInventory = async (status?: OldGoldStatus): Promise<OldGoldItem[]> => {
+  try {
+    let query = supabase
+      .from('old_gold_items')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching scrap inventory:', error);
+    throw error;
+  }
+};
+
+export const updateOldGoldStatus = async (ids: string[], status: OldGoldStatus): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('old_gold_items')
+      .update({ status, status_changed_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating old gold status:', error);
+    throw error;
+  }
+};
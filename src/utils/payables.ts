@@ -0,0 +1,238 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import type { MetalType, PayableEntry, PayableEntryType } from '../types';
+
+export const PAYABLE_ENTRY_LABELS: Record<PayableEntryType, string> = {
+  opening_balance: 'Opening Balance',
+  purchase_bill: 'Purchase Bill',
+  payment: 'Payment',
+  credit_note: 'Credit Note',
+  metal_issued: 'Metal Issued',
+  metal_returned: 'Metal Returned'
+};
+
+export const PAYABLE_ENTRY_COLORS: Record<PayableEntryType, string> = {
+  opening_balance: 'bg-gray-100 text-gray-700',
+  purchase_bill: 'bg-blue-100 text-blue-800',
+  payment: 'bg-green-100 text-green-800',
+  credit_note: 'bg-purple-100 text-purple-800',
+  metal_issued: 'bg-amber-100 text-amber-800',
+  metal_returned: 'bg-yellow-100 text-yellow-800'
+};
+
+export const AGEING_BUCKETS = ['Not due', '0-30 days', '31-60 days', '61-90 days', '90+ days'] as const;
+
+export type AgeingBucket = typeof AGEING_BUCKETS[number];
+
+export interface ManufacturerBalance {
+  manufacturer: string;
+  balance: number;
+  gold_held: number;
+  silver_held: number;
+  platinum_held: number;
+  last_entry_date: string | null;
+}
+
+export interface NewPayableEntry {
+  manufacturer: string;
+  entry_type: PayableEntryType;
+  entry_date: string;
+  due_date?: string | null;
+  reference?: string | null;
+  // Entered as a positive figure; the sign is applied by entry type
+  amount?: number;
+  metal_type?: MetalType | null;
+  purity?: string | null;
+  metal_weight?: number;
+  payment_method?: string | null;
+  notes?: string | null;
+}
+
+// Any dated ledger row; the customer receivables ledger ages the same way
+export interface AgeableEntry {
+  entry_date: string;
+  due_date?: string | null;
+  amount: number;
+  created_at: string;
+}
+
+export interface OpenBill<T extends AgeableEntry = PayableEntry> {
+  entry: T;
+  outstanding: number;
+  daysOverdue: number;
+  bucket: AgeingBucket;
+}
+
+export interface AgeingSummary<T extends AgeableEntry = PayableEntry> {
+  bills: OpenBill<T>[];
+  buckets: Record<AgeingBucket, number>;
+  unappliedCredit: number;
+}
+
+// Which way each entry type moves what we owe and the metal they hold
+const AMOUNT_SIGN: Record<PayableEntryType, number> = {
+  opening_balance: 1,
+  purchase_bill: 1,
+  payment: -1,
+  credit_note: -1,
+  metal_issued: 0,
+  metal_returned: 0
+};
+
+const METAL_SIGN: Record<PayableEntryType, number> = {
+  opening_balance: 0,
+  purchase_bill: 0,
+  payment: 0,
+  credit_note: 0,
+  metal_issued: 1,
+  metal_returned: -1
+};
+
+export const isMetalEntry = (type: PayableEntryType) => METAL_SIGN[type] !== 0;
+
+const getBucket = (daysOverdue: number): AgeingBucket => {
+  if (daysOverdue <= 0) return 'Not due';
+  if (daysOverdue <= 30) return '0-30 days';
+  if (daysOverdue <= 60) return '31-60 days';
+  if (daysOverdue <= 90) return '61-90 days';
+  return '90+ days';
+};
+
+// Payments and credit notes settle the oldest bills first
+export const calculateAgeing = <T extends AgeableEntry>(entries: T[], asOf: Date = new Date()): AgeingSummary<T> => {
+  const sorted = [...entries].sort((a, b) =>
+    a.entry_date.localeCompare(b.entry_date) || a.created_at.localeCompare(b.created_at)
+  );
+
+  let credit = sorted
+    .filter(entry => Number(entry.amount) < 0)
+    .reduce((sum, entry) => sum - Number(entry.amount), 0);
+
+  const bills: OpenBill<T>[] = [];
+  sorted
+    .filter(entry => Number(entry.amount) > 0)
+    .forEach(entry => {
+      const applied = Math.min(credit, Number(entry.amount));
+      credit -= applied;
+      const outstanding = Math.round((Number(entry.amount) - applied) * 100) / 100;
+      if (outstanding <= 0) return;
+
+      const daysOverdue = differenceInCalendarDays(asOf, new Date(entry.due_date || entry.entry_date));
+      bills.push({ entry, outstanding, daysOverdue, bucket: getBucket(daysOverdue) });
+    });
+
+  const buckets = Object.fromEntries(AGEING_BUCKETS.map(bucket => [bucket, 0])) as Record<AgeingBucket, number>;
+  bills.forEach(bill => {
+    buckets[bill.bucket] += bill.outstanding;
+  });
+
+  return { bills, buckets, unappliedCredit: Math.round(credit * 100) / 100 };
+};
+
+export const withRunningBalance = <T extends { amount: number }>(entries: T[], openingBalance = 0) => {
+  let balance = openingBalance;
+  return entries.map(entry => {
+    balance += Number(entry.amount);
+    return { entry, balance };
+  });
+};
+
+export const getManufacturerBalances = async (): Promise<ManufacturerBalance[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('manufacturer_balances')
+      .select('*')
+      .order('manufacturer');
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching manufacturer balances:', error);
+    throw error;
+  }
+};
+
+export const getPayableEntries = async (
+  manufacturer: string,
+  range?: { from?: string; to?: string }
+): Promise<PayableEntry[]> => {
+  try {
+    let query = supabase
+      .from('manufacturer_ledger')
+      .select('*')
+      .eq('manufacturer', manufacturer)
+      .order('entry_date')
+      .order('created_at');
+
+    if (range?.from) query = query.gte('entry_date', range.from);
+    if (range?.to) query = query.lte('entry_date', range.to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching payables ledger:', error);
+    throw error;
+  }
+};
+
+// Balance brought forward into a statement starting on `from`
+export const getOpeningBalance = async (manufacturer: string, from: string): Promise<number> => {
+  try {
+    const { data, error } = await supabase
+      .from('manufacturer_ledger')
+      .select('amount')
+      .eq('manufacturer', manufacturer)
+      .lt('entry_date', from);
+
+    if (error) throw error;
+    return (data || []).reduce((sum: number, row: { amount: number }) => sum + Number(row.amount), 0);
+  } catch (error) {
+    console.error('Error fetching opening balance:', error);
+    throw error;
+  }
+};
+
+export const recordPayableEntry = async (entry: NewPayableEntry): Promise<PayableEntry> => {
+  try {
+    if (!entry.manufacturer) throw new Error('Choose a manufacturer');
+
+    const metal = isMetalEntry(entry.entry_type);
+    const amount = Number(entry.amount) || 0;
+    const weight = Number(entry.metal_weight) || 0;
+
+    if (metal) {
+      if (!entry.metal_type) throw new Error('Choose the metal');
+      if (!(weight > 0)) throw new Error('Enter the fine weight in grams');
+    } else if (entry.entry_type === 'opening_balance') {
+      if (amount === 0) throw new Error('Enter the opening balance');
+    } else if (!(amount > 0)) {
+      throw new Error('Enter an amount greater than 0');
+    }
+
+    const { data, error } = await supabase
+      .from('manufacturer_ledger')
+      .insert([{
+        manufacturer: entry.manufacturer,
+        entry_type: entry.entry_type,
+        entry_date: entry.entry_date || format(new Date(), 'yyyy-MM-dd'),
+        due_date: entry.entry_type === 'purchase_bill' ? entry.due_date || null : null,
+        reference: entry.reference || null,
+        // An opening balance may be in our favour, so it keeps the sign entered
+        amount: entry.entry_type === 'opening_balance' ? amount : Math.abs(amount) * AMOUNT_SIGN[entry.entry_type],
+        metal_type: metal ? entry.metal_type : null,
+        purity: metal ? entry.purity || null : null,
+        metal_weight: Math.abs(weight) * METAL_SIGN[entry.entry_type],
+        payment_method: entry.entry_type === 'payment' ? entry.payment_method || null : null,
+        notes: entry.notes || null
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error recording payables entry:', error);
+    throw error;
+  }
+};
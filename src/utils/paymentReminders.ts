@@ -0,0 +1,139 @@
+import { supabase } from '../lib/supabase';
+import type { PaymentFollowUp, PaymentReminderRule } from '../types';
+import { addPaymentNote } from './paymentUtils';
+
+export const FOLLOW_UP_LABELS: Record<PaymentFollowUp['event_type'], string> = {
+  first_alert: 'First Alert',
+  suspicious_alert: 'Suspicious',
+  admin_alert: 'Admin Alert',
+  payment_failed: 'Broken Promise'
+};
+
+export const FOLLOW_UP_COLORS: Record<PaymentFollowUp['event_type'], string> = {
+  first_alert: 'bg-yellow-100 text-yellow-800',
+  suspicious_alert: 'bg-orange-100 text-orange-800',
+  admin_alert: 'bg-red-100 text-red-800',
+  payment_failed: 'bg-purple-100 text-purple-800'
+};
+
+export interface ReminderRunResult {
+  alerts: number;
+  broken_promises: number;
+  closed: number;
+}
+
+export interface FollowUpWithBill extends PaymentFollowUp {
+  customers?: { name: string; phone: string } | null;
+  sales?: { sale_number: string; payment_details: { pending_amount: number } } | null;
+  staff?: { name: string } | null;
+}
+
+export const getReminderRules = async (): Promise<PaymentReminderRule[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('payment_reminder_rules')
+      .select('*')
+      .order('days_overdue');
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching reminder rules:', error);
+    throw error;
+  }
+};
+
+export const saveReminderRule = async (rule: PaymentReminderRule): Promise<void> => {
+  try {
+    if (!rule.message.trim()) throw new Error('Enter a reminder message');
+
+    const { error } = await supabase
+      .from('payment_reminder_rules')
+      .update({
+        days_overdue: Math.max(0, Math.round(Number(rule.days_overdue) || 0)),
+        follow_up_days: Math.max(0, Math.round(Number(rule.follow_up_days) || 0)),
+        notify_admins: rule.notify_admins,
+        message: rule.message.trim(),
+        active: rule.active,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', rule.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving reminder rule:', error);
+    throw error;
+  }
+};
+
+// Runs every morning on the server; staff can also run it on demand
+export const runPaymentReminders = async (): Promise<ReminderRunResult> => {
+  try {
+    const { data, error } = await supabase.rpc('run_payment_reminders');
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error running payment reminders:', error);
+    throw error;
+  }
+};
+
+export const getOpenFollowUps = async (assignedTo?: string): Promise<FollowUpWithBill[]> => {
+  try {
+    let query = supabase
+      .from('payment_follow_ups')
+      .select(`
+        *,
+        customers (name, phone),
+        sales (sale_number, payment_details),
+        staff:assigned_to (name)
+      `)
+      .eq('status', 'open')
+      .order('due_date')
+      .order('created_at');
+
+    if (assignedTo) query = query.eq('assigned_to', assignedTo);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching follow-ups:', error);
+    throw error;
+  }
+};
+
+// The outcome is logged on the bill as a payment note, so a promised date
+// is picked up by the next reminder run
+export const completeFollowUp = async (
+  followUp: PaymentFollowUp,
+  outcome: { note: string; status: string; nextPaymentDate: string | null; staffId: string }
+): Promise<void> => {
+  try {
+    if (followUp.quotation_id) {
+      await addPaymentNote(
+        followUp.quotation_id,
+        outcome.note,
+        outcome.status,
+        outcome.nextPaymentDate,
+        outcome.staffId
+      );
+    }
+
+    const { error } = await supabase
+      .from('payment_follow_ups')
+      .update({
+        status: 'done',
+        outcome: outcome.note,
+        completed_by: outcome.staffId || null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', followUp.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error completing follow-up:', error);
+    throw error;
+  }
+};
@@ -1,5 +1,8 @@
 import { supabase } from '../lib/supabase';
+import type { PaymentMethod, PaymentTender } from '../types';
 
+// A note promising payment by a date also goes on the payment timeline, and
+// the reminder run flags it if the date passes unpaid
 export async function addPaymentNote(
   quotationId: string,
   note: string,
@@ -8,29 +11,13 @@ export async function addPaymentNote(
   staffId: string
 ) {
   try {
-    const noteData = {
-      timestamp: new Date().toISOString(),
-      note,
-      status,
-      staff_id: staffId,
-      next_payment_date: nextPaymentDate
-    };
-
-    const { data, error } = await supabase
-      .from('quotations')
-      .update({
-        payment_notes: supabase.sql`array_append(payment_notes, ${noteData}::jsonb)`,
-        next_follow_up: nextPaymentDate ? {
-          date: nextPaymentDate,
-          reason: note,
-          status,
-          set_by: staffId,
-          set_at: new Date().toISOString()
-        } : null
-      })
-      .eq('id', quotationId)
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('add_payment_note', {
+      p_quotation_id: quotationId,
+      p_note: note,
+      p_status: status,
+      p_next_payment_date: nextPaymentDate || null,
+      p_staff_id: staffId || null
+    });
 
     if (error) throw error;
     return data;
@@ -40,17 +27,20 @@ export async function addPaymentNote(
   }
 }
 
+// Days are counted from when the bill fell due, so a customer on credit terms
+// is not overdue until their terms run out
 export function getPaymentStatus(
   billGeneratedAt: string | null,
   billStatus: string,
-  nextFollowUp: any
+  nextFollowUp: any,
+  creditTermsDays = 0
 ) {
   if (!billGeneratedAt) return 'Not Generated';
   if (billStatus === 'paid') return 'Paid';
   
   const now = new Date();
   const billDate = new Date(billGeneratedAt);
-  const daysSinceBill = Math.floor((now.getTime() - billDate.getTime()) / (1000 * 60 * 60 * 24));
+  const daysPastDue = Math.floor((now.getTime() - billDate.getTime()) / (1000 * 60 * 60 * 24)) - creditTermsDays;
 
   if (nextFollowUp?.date) {
     const followUpDate = new Date(nextFollowUp.date);
@@ -59,8 +49,55 @@ export function getPaymentStatus(
     }
   }
 
-  if (daysSinceBill >= 10) return 'Severely Overdue';
-  if (daysSinceBill >= 7) return 'Suspicious';
-  if (daysSinceBill >= 3) return 'Overdue';
+  if (daysPastDue >= 10) return 'Severely Overdue';
+  if (daysPastDue >= 7) return 'Suspicious';
+  if (daysPastDue >= 3) return 'Overdue';
   return 'Pending';
-}
\ No newline at end of file
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  cheque: 'Cheque',
+  old_gold: 'Old Gold Exchange',
+  advance: 'Advance Adjustment'
+};
+
+export const PAYMENT_REFERENCE_LABELS: Partial<Record<PaymentMethod, string>> = {
+  upi: 'UPI transaction ID',
+  card: 'Card approval code',
+  bank_transfer: 'UTR number',
+  cheque: 'Cheque number'
+};
+
+export const sumTenders = (tenders: PaymentTender[]) =>
+  Math.round(tenders.reduce((sum, tender) => sum + (Number(tender.amount) || 0), 0) * 100) / 100;
+
+// Returns the first problem with the tenders, or null when they can be taken
+export function validateTenders(tenders: PaymentTender[], paidAmount: number): string | null {
+  for (const tender of tenders) {
+    if (!(Number(tender.amount) > 0)) {
+      return `Enter an amount for ${PAYMENT_METHOD_LABELS[tender.method]}`;
+    }
+    if (PAYMENT_REFERENCE_LABELS[tender.method] && !tender.reference?.trim()) {
+      return `Enter the ${PAYMENT_REFERENCE_LABELS[tender.method]} for ${PAYMENT_METHOD_LABELS[tender.method]}`;
+    }
+  }
+
+  const tendered = sumTenders(tenders);
+  if (Math.abs(tendered - paidAmount) > 0.01) {
+    return `Tenders add up to ₹${tendered.toLocaleString('en-IN')} but ₹${paidAmount.toLocaleString('en-IN')} is being paid`;
+  }
+  return null;
+}
+
+// Totals by method across the payment records of any number of sales
+export function getPaymentMethodTotals(payments: Array<{ amount: number; method?: string }>): Record<string, number> {
+  return payments.reduce<Record<string, number>>((totals, payment) => {
+    const method = payment.method || 'cash';
+    totals[method] = (totals[method] || 0) + (Number(payment.amount) || 0);
+    return totals;
+  }, {});
+}
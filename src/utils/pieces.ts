@@ -0,0 +1,146 @@
+import { supabase } from '../lib/supabase';
+import type { PieceStatus, ProductPiece } from '../types';
+
+export const PIECE_STATUS_LABELS: Record<PieceStatus, string> = {
+  in_stock: 'In Stock',
+  on_approval: 'On Approval',
+  sold: 'Sold',
+  in_repair: 'In Repair',
+  damaged: 'Damaged',
+  missing: 'Missing'
+};
+
+export const PIECE_STATUS_COLORS: Record<PieceStatus, string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  on_approval: 'bg-amber-100 text-amber-800',
+  sold: 'bg-gray-100 text-gray-600',
+  in_repair: 'bg-purple-100 text-purple-800',
+  damaged: 'bg-red-100 text-red-800',
+  missing: 'bg-orange-100 text-orange-800'
+};
+
+// Pieces are labelled <sku>-P001, <sku>-P002, ...
+export const formatPieceSerial = (sku: string, sequence: number): string => {
+  return `${sku}-P${sequence.toString().padStart(3, '0')}`;
+};
+
+const getSequence = (serial: string): number => {
+  const match = serial.match(/-P(\d+)$/);
+  return match ? Number(match[1]) : 0;
+};
+
+export const getProductPieces = async (productId: string): Promise<ProductPiece[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_pieces')
+      .select('*')
+      .eq('product_id', productId)
+      .order('serial');
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching product pieces:', error);
+    throw error;
+  }
+};
+
+// Product and its pieces are written in one transaction; `stock_level`
+// pieces are made, taking the HUIDs in order
+export const createProductWithPieces = async (
+  product: Record<string, unknown>,
+  huids: string[] = []
+) => {
+  try {
+    const { data, error } = await supabase.rpc('create_product_with_pieces', {
+      p_product: product,
+      p_huids: huids
+    });
+
+    if (error) throw new Error(error.message || 'Failed to add product');
+    if (!data) throw new Error('No data returned from database');
+    return data;
+  } catch (error) {
+    console.error('Error creating product with pieces:', error);
+    throw error;
+  }
+};
+
+export const createPieces = async (
+  product: { id: string; sku: string; gross_weight?: number | null; net_weight?: number | null },
+  count: number,
+  huids: string[] = [],
+  location: string | null = null
+): Promise<ProductPiece[]> => {
+  if (count <= 0) return [];
+
+  try {
+    const existing = await getProductPieces(product.id);
+    const lastSequence = existing.reduce((max, piece) => Math.max(max, getSequence(piece.serial)), 0);
+
+    const rows = Array.from({ length: count }, (_, index) => ({
+      product_id: product.id,
+      serial: formatPieceSerial(product.sku, lastSequence + index + 1),
+      huid: huids[index] || null,
+      gross_weight: product.gross_weight ?? null,
+      net_weight: product.net_weight ?? null,
+      location,
+      status: 'in_stock' as PieceStatus
+    }));
+
+    const { data, error } = await supabase
+      .from('product_pieces')
+      .insert(rows)
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error creating product pieces:', error);
+    throw error;
+  }
+};
+
+export const updatePiece = async (
+  id: string,
+  changes: Partial<Omit<ProductPiece, 'id' | 'product_id' | 'serial'>>
+): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('product_pieces')
+      .update(changes)
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating product piece:', error);
+    throw error;
+  }
+};
+
+// Resolve a scanned piece serial or HUID. Two plain filters, so nothing in
+// the scanned text can change the query.
+export const findPieceByCode = async (code: string): Promise<ProductPiece | null> => {
+  try {
+    const { data: bySerial, error } = await supabase
+      .from('product_pieces')
+      .select('*')
+      .eq('serial', code)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (bySerial) return bySerial;
+
+    const { data: byHuid, error: huidError } = await supabase
+      .from('product_pieces')
+      .select('*')
+      .eq('huid', code)
+      .maybeSingle();
+
+    if (huidError) throw huidError;
+    return byHuid;
+  } catch (error) {
+    console.error('Error finding product piece:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,267 @@
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, GoodsReceipt } from '../types';
+import { generateBarcodes } from './barcodeGenerator';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-amber-100 text-amber-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-700'
+};
+
+export type NewPurchaseOrderLine = Omit<PurchaseOrderLine, 'id' | 'purchase_order_id' | 'received_quantity'>;
+
+export interface ReceiptLineInput {
+  line: PurchaseOrderLine;
+  quantity: number;
+  unitCost: number;
+  name: string;
+  wholesalePrice: number;
+  retailPrice: number;
+  grossWeight?: number | null;
+  netWeight?: number | null;
+  huids: string[];
+}
+
+export interface ReceiptCharges {
+  freight: number;
+  insurance: number;
+  otherCharges: number;
+}
+
+export const generatePONumber = () => {
+  return `PO${format(new Date(), 'yyyyMMdd')}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
+};
+
+export const generateGRNNumber = () => {
+  return `GRN${format(new Date(), 'yyyyMMdd')}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
+};
+
+export const getOutstandingQuantity = (line: PurchaseOrderLine): number => {
+  return Math.max(0, line.quantity - line.received_quantity);
+};
+
+export const getOrderValue = (order: PurchaseOrder): number => {
+  return order.lines.reduce((sum, line) => sum + line.quantity * Number(line.unit_cost), 0);
+};
+
+export const getOutstandingValue = (order: PurchaseOrder): number => {
+  if (order.status === 'cancelled') return 0;
+  return order.lines.reduce((sum, line) => sum + getOutstandingQuantity(line) * Number(line.unit_cost), 0);
+};
+
+// Spread freight, insurance and other charges over the lines by value
+export const allocateLandedCost = (
+  lines: Array<{ quantity: number; unitCost: number }>,
+  charges: ReceiptCharges
+): number[] => {
+  const totalCharges = charges.freight + charges.insurance + charges.otherCharges;
+  const totalValue = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+  return lines.map(line => {
+    if (line.quantity <= 0) return line.unitCost;
+    const share = totalValue > 0
+      ? totalCharges * (line.quantity * line.unitCost) / totalValue
+      : totalCharges / lines.length;
+    return Math.round((line.unitCost + share / line.quantity) * 100) / 100;
+  });
+};
+
+export const getPurchaseOrders = async (manufacturer?: string): Promise<PurchaseOrder[]> => {
+  try {
+    let query = supabase
+      .from('purchase_orders')
+      .select('*, lines:purchase_order_lines(*)')
+      .order('created_at', { ascending: false });
+
+    if (manufacturer) {
+      query = query.eq('manufacturer', manufacturer);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error);
+    throw error;
+  }
+};
+
+export const getOutstandingPurchaseOrders = async (manufacturer: string): Promise<PurchaseOrder[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select('*, lines:purchase_order_lines(*)')
+      .eq('manufacturer', manufacturer)
+      .in('status', ['ordered', 'partially_received'])
+      .order('order_date');
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching outstanding purchase orders:', error);
+    throw error;
+  }
+};
+
+export const getGoodsReceipts = async (purchaseOrderId: string): Promise<GoodsReceipt[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('goods_receipts')
+      .select('*')
+      .eq('purchase_order_id', purchaseOrderId)
+      .order('received_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching goods receipts:', error);
+    throw error;
+  }
+};
+
+export const createPurchaseOrder = async (
+  order: { manufacturer: string; expected_date?: string | null; notes?: string | null; status: 'draft' | 'ordered' },
+  lines: NewPurchaseOrderLine[]
+): Promise<PurchaseOrder> => {
+  try {
+    if (!order.manufacturer) throw new Error('Choose a manufacturer');
+    if (lines.length === 0) throw new Error('Add at least one line');
+    lines.forEach((line, index) => {
+      if (!line.category) throw new Error(`Line ${index + 1}: choose a category`);
+      if (!(line.quantity > 0)) throw new Error(`Line ${index + 1}: quantity must be greater than 0`);
+      if (!(line.unit_cost >= 0)) throw new Error(`Line ${index + 1}: enter a unit cost`);
+    });
+
+    const { data: created, error } = await supabase
+      .from('purchase_orders')
+      .insert([{
+        po_number: generatePONumber(),
+        manufacturer: order.manufacturer,
+        expected_date: order.expected_date || null,
+        notes: order.notes || null,
+        status: order.status
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const { data: createdLines, error: linesError } = await supabase
+      .from('purchase_order_lines')
+      .insert(lines.map(line => ({ ...line, purchase_order_id: created.id })))
+      .select();
+
+    if (linesError) {
+      await supabase.from('purchase_orders').delete().eq('id', created.id);
+      throw linesError;
+    }
+
+    return { ...created, lines: createdLines || [] };
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+    throw error;
+  }
+};
+
+export const updatePurchaseOrderStatus = async (id: string, status: PurchaseOrderStatus): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('purchase_orders')
+      .update({ status })
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating purchase order:', error);
+    throw error;
+  }
+};
+
+// Creates a product per line with its pieces; returns the new product ids
+export const receiveGoods = async (
+  order: PurchaseOrder,
+  receipt: { supplierInvoiceNumber: string; notes: string } & ReceiptCharges,
+  lines: ReceiptLineInput[]
+): Promise<string[]> => {
+  try {
+    const receiving = lines.filter(line => line.quantity > 0);
+    if (receiving.length === 0) throw new Error('Enter a quantity for at least one line');
+
+    receiving.forEach(line => {
+      const outstanding = getOutstandingQuantity(line.line);
+      if (line.quantity > outstanding) {
+        throw new Error(`Only ${outstanding} ${line.line.category} still due on this order`);
+      }
+      if (line.wholesalePrice <= line.unitCost) {
+        throw new Error(`${line.line.category}: wholesale price must be greater than unit cost`);
+      }
+      if (line.retailPrice <= line.wholesalePrice) {
+        throw new Error(`${line.line.category}: retail price must be greater than wholesale price`);
+      }
+      if (line.huids.length > line.quantity) {
+        throw new Error(`${line.line.category}: ${line.huids.length} HUIDs entered for ${line.quantity} pieces`);
+      }
+    });
+
+    const landedCosts = allocateLandedCost(receiving, receipt);
+
+    const payloadLines = await Promise.all(receiving.map(async (line, index) => {
+      const barcodes = await generateBarcodes(
+        line.line.category,
+        order.manufacturer,
+        line.wholesalePrice,
+        line.retailPrice
+      );
+
+      return {
+        purchase_order_line_id: line.line.id,
+        quantity: line.quantity,
+        unit_cost: line.unitCost,
+        landed_unit_cost: landedCosts[index],
+        huids: line.huids,
+        product: {
+          name: line.name,
+          description: line.line.description || '',
+          wholesale_price: line.wholesalePrice,
+          retail_price: line.retailPrice,
+          gross_weight: line.grossWeight ?? null,
+          net_weight: line.netWeight ?? null,
+          sku: barcodes.sku,
+          qr_code: barcodes.qrCode,
+          code128: barcodes.code128,
+          cipher: barcodes.cipher
+        }
+      };
+    }));
+
+    const { data, error } = await supabase.rpc('receive_goods', {
+      p_purchase_order_id: order.id,
+      p_receipt: {
+        grn_number: generateGRNNumber(),
+        supplier_invoice_number: receipt.supplierInvoiceNumber,
+        freight: receipt.freight,
+        insurance: receipt.insurance,
+        other_charges: receipt.otherCharges,
+        notes: receipt.notes,
+        lines: payloadLines
+      }
+    });
+
+    if (error) throw new Error(error.message || 'Failed to receive goods');
+    return data.product_ids || [];
+  } catch (error) {
+    console.error('Error receiving goods:', error);
+    throw error;
+  }
+};
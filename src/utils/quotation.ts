@@ -1,25 +1,62 @@
 import { format } from 'date-fns';
-import type { QuotationItem } from '../types';
+import type { QuotationItem, MetalRate, GSTRate } from '../types';
+import { getLineBreakdown, getLinePrice } from './metalRates';
+import { resolveGSTRate, resolveMakingChargeRate, splitMakingCharges } from './gstUtils';
 
 export const generateQuotationNumber = () => {
   return `Q${format(new Date(), 'yyyyMMdd')}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
 };
 
+export interface GSTBreakdownRow {
+  rate: number;
+  taxable: number;
+  tax: number;
+}
+
 export const calculateTotals = (
   items: QuotationItem[],
   discount: number,
   gstRate: number = 18,
-  includeGst: boolean = true
+  includeGst: boolean = true,
+  metalRates?: MetalRate[] | null,
+  gstRates?: GSTRate[] | null
 ) => {
-  const subtotal = items.reduce((sum, item) => {
-    const price = Number(item.price) || 0;
+  const makingRate = gstRates && gstRates.length > 0 ? resolveMakingChargeRate(gstRates) : null;
+
+  const lines = items.flatMap(item => {
+    // Metal-priced lines follow the rate in force, everything else keeps its line price
+    const price = getLinePrice(item, metalRates);
     const quantity = Number(item.quantity) || 0;
-    return sum + (price * quantity);
-  }, 0);
+    // Each line is taxed at its category's rate; gstRate covers anything unmapped
+    const rate = gstRates && gstRates.length > 0
+      ? resolveGSTRate(gstRates, item.product.category, new Date(), gstRate)
+      : gstRate;
+    const { goods, making } = splitMakingCharges(price, getLineBreakdown(item, metalRates), makingRate);
+    const parts = [{ amount: goods * quantity, rate }];
+    if (making > 0 && makingRate !== null) parts.push({ amount: making * quantity, rate: makingRate });
+    return parts;
+  });
 
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
   const discountAmount = (subtotal * discount) / 100;
   const total = subtotal - discountAmount;
-  const gstAmount = includeGst ? (total * gstRate) / 100 : 0;
+
+  const gstBreakdown: GSTBreakdownRow[] = [];
+  if (includeGst) {
+    lines.forEach(line => {
+      const taxable = line.amount * (1 - discount / 100);
+      const row = gstBreakdown.find(r => r.rate === line.rate);
+      if (row) {
+        row.taxable += taxable;
+        row.tax += (taxable * line.rate) / 100;
+      } else {
+        gstBreakdown.push({ rate: line.rate, taxable, tax: (taxable * line.rate) / 100 });
+      }
+    });
+    gstBreakdown.sort((a, b) => a.rate - b.rate);
+  }
+
+  const gstAmount = gstBreakdown.reduce((sum, row) => sum + row.tax, 0);
   const finalTotal = total + gstAmount;
 
   return {
@@ -28,10 +65,17 @@ export const calculateTotals = (
     total,
     gstAmount,
     finalTotal,
-    gstRate
+    gstRate,
+    gstBreakdown
   };
 };
 
+// "3%" for a single-rate bill, "0.25% / 3%" for a mixed one
+export const formatGSTRates = (gstBreakdown: GSTBreakdownRow[] | undefined, gstRate: number) => {
+  if (!gstBreakdown || gstBreakdown.length === 0) return `${gstRate}%`;
+  return gstBreakdown.map(row => `${row.rate}%`).join(' / ');
+};
+
 export function numberToWords(num: number): string {
   const ones = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine'];
   const tens = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
@@ -102,7 +102,8 @@ export async function loadSavedQuotation(quotationId: string) {
       },
       quantity: item.quantity,
       price: Number(item.price),
-      originalPrice: Number(item.price)
+      originalPrice: Number(item.price),
+      pieceIds: item.piece_ids
     }));
 
     return {
@@ -110,6 +111,7 @@ export async function loadSavedQuotation(quotationId: string) {
         items,
         discount: quotation.items[0]?.discount || 0,
         quotation_number: quotation.quotation_number,
+        status: quotation.status,
         customer: quotation.customers
       },
       error: null
@@ -0,0 +1,188 @@
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import type { ReceivableEntry, ReceivableEntryType } from '../types';
+import { AGEING_BUCKETS, calculateAgeing } from './payables';
+import { formatCurrency } from './quotation';
+
+export const RECEIVABLE_ENTRY_LABELS: Record<ReceivableEntryType, string> = {
+  opening_balance: 'Opening Balance',
+  invoice: 'Bill',
+  receipt: 'Receipt',
+  credit_note: 'Credit Note',
+  adjustment: 'Adjustment'
+};
+
+export const RECEIVABLE_ENTRY_COLORS: Record<ReceivableEntryType, string> = {
+  opening_balance: 'bg-gray-100 text-gray-700',
+  invoice: 'bg-blue-100 text-blue-800',
+  receipt: 'bg-green-100 text-green-800',
+  credit_note: 'bg-purple-100 text-purple-800',
+  adjustment: 'bg-amber-100 text-amber-800'
+};
+
+export interface NewReceivableEntry {
+  customer_id: string;
+  entry_type: Extract<ReceivableEntryType, 'opening_balance' | 'adjustment'>;
+  entry_date: string;
+  due_date?: string | null;
+  reference?: string | null;
+  // Positive raises what the customer owes, negative reduces it
+  amount: number;
+  notes?: string | null;
+}
+
+export interface CustomerReceipt {
+  customerId: string;
+  amount: number;
+  method: string;
+  reference?: string | null;
+  entryDate?: string;
+  notes?: string | null;
+}
+
+export interface CreditCheck {
+  allowed: boolean;
+  balance: number;
+  overdue: number;
+  available: number;
+  message: string | null;
+}
+
+export const getReceivableEntries = async (
+  customerId?: string,
+  range?: { from?: string; to?: string }
+): Promise<ReceivableEntry[]> => {
+  try {
+    let query = supabase
+      .from('customer_ledger')
+      .select('*')
+      .order('entry_date')
+      .order('created_at');
+
+    if (customerId) query = query.eq('customer_id', customerId);
+    if (range?.from) query = query.gte('entry_date', range.from);
+    if (range?.to) query = query.lte('entry_date', range.to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching receivables ledger:', error);
+    throw error;
+  }
+};
+
+// Balance brought forward into a statement starting on `from`
+export const getReceivableOpeningBalance = async (customerId: string, from: string): Promise<number> => {
+  try {
+    const { data, error } = await supabase
+      .from('customer_ledger')
+      .select('amount')
+      .eq('customer_id', customerId)
+      .lt('entry_date', from);
+
+    if (error) throw error;
+    return (data || []).reduce((sum: number, row: { amount: number }) => sum + Number(row.amount), 0);
+  } catch (error) {
+    console.error('Error fetching opening balance:', error);
+    throw error;
+  }
+};
+
+// Credit left on the ledger by receipts not yet set against a bill, which a
+// bill can be paid from with an advance adjustment
+export const getCustomerAdvance = async (customerId: string): Promise<number> => {
+  try {
+    const entries = await getReceivableEntries(customerId);
+    const balance = entries.reduce((sum, entry) => sum + Number(entry.amount), 0);
+    return Math.max(-balance, 0);
+  } catch (error) {
+    console.error('Error fetching customer advance:', error);
+    throw error;
+  }
+};
+
+// Receipts clear the oldest unpaid bills, so they go through the database
+export const recordCustomerReceipt = async (receipt: CustomerReceipt): Promise<ReceivableEntry> => {
+  try {
+    if (!(Number(receipt.amount) > 0)) throw new Error('Enter an amount greater than 0');
+
+    const { data, error } = await supabase.rpc('record_customer_receipt', {
+      p_customer_id: receipt.customerId,
+      p_amount: Number(receipt.amount),
+      p_method: receipt.method,
+      p_reference: receipt.reference || null,
+      p_entry_date: receipt.entryDate || format(new Date(), 'yyyy-MM-dd'),
+      p_notes: receipt.notes || null
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error recording receipt:', error);
+    throw error;
+  }
+};
+
+export const recordReceivableEntry = async (entry: NewReceivableEntry): Promise<ReceivableEntry> => {
+  try {
+    const amount = Number(entry.amount) || 0;
+    if (amount === 0) throw new Error('Enter an amount');
+
+    const { data, error } = await supabase
+      .from('customer_ledger')
+      .insert([{
+        customer_id: entry.customer_id,
+        entry_type: entry.entry_type,
+        entry_date: entry.entry_date || format(new Date(), 'yyyy-MM-dd'),
+        due_date: amount > 0 ? entry.due_date || null : null,
+        reference: entry.reference || null,
+        amount,
+        notes: entry.notes || null
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error recording receivables entry:', error);
+    throw error;
+  }
+};
+
+// Run before a bill leaves anything unpaid: the new due must fit in the
+// customer's credit limit on top of what they already owe
+export const checkCreditLimit = async (customerId: string, newDue: number): Promise<CreditCheck> => {
+  try {
+    const [{ data: customer, error }, entries] = await Promise.all([
+      supabase
+        .from('customers')
+        .select('name, credit_limit')
+        .eq('id', customerId)
+        .single(),
+      getReceivableEntries(customerId)
+    ]);
+    if (error) throw error;
+
+    const limit = Number(customer.credit_limit) || 0;
+    const balance = entries.reduce((sum, entry) => sum + Number(entry.amount), 0);
+    const ageing = calculateAgeing(entries);
+    const overdue = AGEING_BUCKETS
+      .filter(bucket => bucket !== 'Not due')
+      .reduce((sum, bucket) => sum + ageing.buckets[bucket], 0);
+    const available = Math.max(limit - balance, 0);
+
+    let message: string | null = null;
+    if (limit <= 0) {
+      message = `${customer.name} has no credit limit set, so the bill must be paid in full`;
+    } else if (balance + newDue > limit) {
+      message = `${customer.name} already owes ${formatCurrency(balance)}; only ${formatCurrency(available)} of the ${formatCurrency(limit)} credit limit is left`;
+    }
+
+    return { allowed: message === null, balance, overdue, available, message };
+  } catch (error) {
+    console.error('Error checking credit limit:', error);
+    throw error;
+  }
+};
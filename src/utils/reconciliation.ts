@@ -0,0 +1,265 @@
+import { format, isValid, parse } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import type { StatementLine } from '../types';
+import { normalizeReference } from './upi';
+
+export type ParsedStatementLine = Pick<StatementLine, 'txn_date' | 'description' | 'reference' | 'amount' | 'occurrence'>;
+
+export interface StatementLineWithSale extends StatementLine {
+  sales?: { sale_number: string } | null;
+}
+
+export interface PendingBill {
+  sale_id: string;
+  sale_number: string;
+  invoice_number: string | null;
+  customer_name: string;
+  pending_amount: number;
+  created_at: string;
+}
+
+interface PendingSaleRow {
+  id: string;
+  sale_number: string;
+  payment_details: { pending_amount?: number } | null;
+  created_at: string;
+  customers: { name: string } | null;
+  tax_invoices: { invoice_number: string } | { invoice_number: string }[] | null;
+}
+
+export interface BillMatch {
+  bill: PendingBill;
+  // reference: the bill or invoice number appears in the narration
+  basis: 'reference' | 'amount';
+}
+
+const DATE_FORMATS = [
+  'dd/MM/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'dd/MM/yy', 'dd-MM-yy',
+  'dd-MMM-yyyy', 'dd MMM yyyy', 'dd-MMM-yy', 'dd MMM yy', 'yyyy-MM-dd'
+];
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(value => value.trim());
+};
+
+const findColumn = (header: string[], patterns: RegExp[], exclude: number[] = []) => {
+  for (const pattern of patterns) {
+    const index = header.findIndex((cell, i) => !exclude.includes(i) && pattern.test(cell));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+const parseDate = (value: string): string | null => {
+  const text = value.trim().split(/\s+\d{1,2}:\d{2}/)[0];
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+const parseAmount = (value: string) => Number(value.replace(/[^0-9.-]/g, ''));
+
+// Bank exports differ in layout, so columns are found by their headings.
+// Rows that are not credits (withdrawals, balances, footers) are skipped.
+export const parseStatementCsv = (text: string): { lines: ParsedStatementLine[]; skipped: number } => {
+  const rows = text
+    .split(/\r?\n/)
+    .map(splitCsvLine)
+    .filter(row => row.some(cell => cell));
+
+  // Account details often sit above the transactions
+  const headerIndex = rows.findIndex(row => {
+    const cells = row.map(cell => cell.toLowerCase());
+    return cells.some(cell => /date/.test(cell)) && cells.some(cell => /credit|deposit|amount/.test(cell));
+  });
+  if (headerIndex < 0) {
+    throw new Error('Could not find the date and amount columns in this file');
+  }
+
+  const header = rows[headerIndex].map(cell => cell.toLowerCase());
+  const dateCol = findColumn(header, [/^(txn|transaction|tran)\.? ?date/, /value date/, /date/]);
+  const descriptionCol = findColumn(header, [/narration|description|particulars|remarks|details/]);
+  const referenceCol = findColumn(header, [/utr|rrn/, /ref/, /chq|cheque/, /transaction id|txn id/], [descriptionCol]);
+  const creditCol = findColumn(header, [/credit|deposit/]);
+  const amountCol = creditCol >= 0 ? creditCol : findColumn(header, [/amount/]);
+  // Single amount column layouts mark each row CR or DR
+  const typeCol = creditCol >= 0 ? -1 : findColumn(header, [/^(dr|cr) ?\/ ?(dr|cr)$/, /^type$/]);
+
+  const lines: ParsedStatementLine[] = [];
+  const seen = new Map<string, number>();
+  let skipped = 0;
+
+  rows.slice(headerIndex + 1).forEach(row => {
+    const amount = parseAmount(row[amountCol] || '');
+    const txnDate = parseDate(row[dateCol] || '');
+    const isCredit = typeCol < 0 || /^c/i.test(row[typeCol] || '');
+
+    if (!txnDate || !(amount > 0) || !isCredit) {
+      skipped++;
+      return;
+    }
+
+    const line = {
+      txn_date: txnDate,
+      description: descriptionCol >= 0 ? row[descriptionCol] || '' : '',
+      reference: referenceCol >= 0 ? row[referenceCol] || '' : '',
+      amount: Math.round(amount * 100) / 100
+    };
+
+    // The same amount paid twice in a day without a UTR gives identical rows;
+    // numbering them keeps both while a re-import still matches each one
+    const key = [line.txn_date, line.amount, line.reference, line.description].join('|');
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+    lines.push({ ...line, occurrence });
+  });
+
+  return { lines, skipped };
+};
+
+// Lines already imported from an earlier statement are left as they are
+export const importStatementLines = async (
+  lines: ParsedStatementLine[],
+  paymentMethod: StatementLine['payment_method'],
+  sourceFile: string
+): Promise<number> => {
+  try {
+    if (lines.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from('bank_statement_lines')
+      .upsert(
+        lines.map(line => ({ ...line, payment_method: paymentMethod, source_file: sourceFile })),
+        { onConflict: 'txn_date,amount,reference,description,occurrence', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  } catch (error) {
+    console.error('Error importing statement:', error);
+    throw error;
+  }
+};
+
+export const getStatementLines = async (status: StatementLine['status']): Promise<StatementLineWithSale[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('bank_statement_lines')
+      .select('*, sales (sale_number)')
+      .eq('status', status)
+      .order('txn_date', { ascending: false })
+      .limit(500);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching statement lines:', error);
+    throw error;
+  }
+};
+
+export const getPendingBills = async (): Promise<PendingBill[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('sales')
+      .select('id, sale_number, payment_details, created_at, customers (name), tax_invoices (invoice_number)')
+      .eq('payment_status', 'pending')
+      .order('created_at');
+
+    if (error) throw error;
+    return ((data || []) as unknown as PendingSaleRow[])
+      .map(sale => {
+        const invoice = Array.isArray(sale.tax_invoices) ? sale.tax_invoices[0] : sale.tax_invoices;
+        return {
+          sale_id: sale.id,
+          sale_number: sale.sale_number,
+          invoice_number: invoice?.invoice_number || null,
+          customer_name: sale.customers?.name || 'Walk-in customer',
+          pending_amount: Number(sale.payment_details?.pending_amount) || 0,
+          created_at: sale.created_at
+        };
+      })
+      .filter(bill => bill.pending_amount > 0);
+  } catch (error) {
+    console.error('Error fetching pending bills:', error);
+    throw error;
+  }
+};
+
+// A bill or invoice number in the narration beats an amount that merely
+// agrees; UPI payments from our QR carry the bill number in both
+export const findBillMatches = (line: ParsedStatementLine, bills: PendingBill[]): BillMatch[] => {
+  const text = normalizeReference(`${line.reference} ${line.description}`);
+  const sameAmount = (bill: PendingBill) => Math.abs(bill.pending_amount - line.amount) < 0.005;
+
+  const byReference = bills.filter(bill =>
+    [bill.sale_number, bill.invoice_number].some(reference => {
+      const normalized = normalizeReference(reference || '');
+      return normalized.length >= 4 && text.includes(normalized);
+    })
+  );
+  if (byReference.length > 0) {
+    return byReference
+      .sort((a, b) => Number(sameAmount(b)) - Number(sameAmount(a)))
+      .map(bill => ({ bill, basis: 'reference' }));
+  }
+
+  return bills.filter(sameAmount).map(bill => ({ bill, basis: 'amount' }));
+};
+
+export const reconcileStatementLine = async (lineId: string, saleId: string): Promise<StatementLine> => {
+  try {
+    const { data, error } = await supabase.rpc('reconcile_statement_line', {
+      p_line_id: lineId,
+      p_sale_id: saleId
+    });
+
+    if (error) throw new Error(error.message || 'Failed to match payment');
+    return data;
+  } catch (error) {
+    console.error('Error reconciling statement line:', error);
+    throw error;
+  }
+};
+
+export const setStatementLineIgnored = async (lineId: string, ignored: boolean): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('bank_statement_lines')
+      .update({ status: ignored ? 'ignored' : 'unmatched' })
+      .eq('id', lineId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating statement line:', error);
+    throw error;
+  }
+};
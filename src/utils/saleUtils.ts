@@ -1,7 +1,14 @@
 import { supabase } from '../lib/supabase';
-import type { QuotationItem, Customer } from '../types';
+import type { QuotationItem, Customer, PaymentTender } from '../types';
+import { validateTenders } from './paymentUtils';
+import type { TaxInvoiceDraft } from './taxInvoice';
+import { getOldGoldCredit, type OldGoldEntry } from './oldGold';
+import { getCustomerAdvance } from './receivables';
+import { formatCurrency } from './quotation';
 
 interface CompleteSaleParams {
+  // One key per checkout attempt; resubmitting with it cannot record a second sale
+  idempotency_key: string;
   sale_type: 'counter' | 'video_call';
   customer_id: string | null;
   video_call_id: string | null;
@@ -10,6 +17,8 @@ interface CompleteSaleParams {
       product_id: string;
       quantity: number;
       price: number;
+      huids?: string[];
+      pieceIds?: string[];
       product: {
         name: string;
         sku: string;
@@ -32,11 +41,31 @@ interface CompleteSaleParams {
       date: string;
       type: string;
       method: string;
+      reference?: string;
     }>;
   };
+  // How the paid amount was settled; must add up to payment_details.paid_amount
+  tenders: PaymentTender[];
+  // Issued with the next invoice number in the same transaction as the sale
+  tax_invoice?: TaxInvoiceDraft | null;
+  // Old jewellery taken in exchange; its value is paid with an old_gold tender
+  old_gold?: OldGoldEntry[];
+  buyer_name?: string | null;
+  // Bills pieces out on this approval memo; each line must list its pieceIds
+  approval_memo_id?: string | null;
 }
 
-export const completeSale = async (params: CompleteSaleParams) => {
+export interface CompleteSaleResult {
+  success: true;
+  quotationId: string;
+  saleId: string;
+  taxInvoiceId: string | null;
+  invoiceNumber: string | null;
+  exchangeVoucher: string | null;
+  duplicate: boolean;
+}
+
+export const completeSale = async (params: CompleteSaleParams): Promise<CompleteSaleResult> => {
   try {
     // Validate payment details structure
     if (!params.payment_details ||
@@ -48,117 +77,84 @@ export const completeSale = async (params: CompleteSaleParams) => {
       throw new Error('Invalid payment details structure');
     }
 
-    // Add initial payment record if paid amount > 0
-    if (params.payment_details.paid_amount > 0) {
-      params.payment_details.payments.push({
-        amount: params.payment_details.paid_amount,
-        date: new Date().toISOString(),
-        type: params.payment_details.paid_amount === params.payment_details.total_amount ? 'full' : 'partial',
-        method: 'cash'
-      });
-    }
-
-    // Calculate totals first to avoid nested aggregates
-    const totalItems = params.quotation_data.items.reduce((sum, item) => sum + item.quantity, 0);
-    const totalAmount = params.quotation_data.total_amount;
+    const tenderError = validateTenders(params.tenders, params.payment_details.paid_amount);
+    if (tenderError) throw new Error(tenderError);
 
-    // Create quotation
-    const { data: quotation, error: quotationError } = await supabase
-      .from('quotations')
-      .insert([{
-        customer_id: params.customer_id,
-        video_call_id: params.video_call_id,
-        items: params.quotation_data.items,
-        total_amount: totalAmount,
-        status: 'accepted',
-        payment_details: params.payment_details,
-        workflow_status: {
-          qc: params.quotation_data.delivery_method === 'hand_carry' ? 'completed' : 'pending',
-          packaging: params.quotation_data.delivery_method === 'hand_carry' ? 'completed' : 'pending',
-          dispatch: params.quotation_data.delivery_method === 'hand_carry' ? 'completed' : 'pending'
-        },
-        quotation_number: params.quotation_data.quotation_number,
-        valid_until: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-        bill_status: params.payment_details.payment_status === 'completed' ? 'paid' : 'pending',
-        bill_generated_at: new Date().toISOString(),
-        bill_paid_at: params.payment_details.payment_status === 'completed' ? new Date().toISOString() : null
-      }])
-      .select()
-      .single();
-
-    if (quotationError) throw quotationError;
-
-    // Update video call if applicable
-    if (params.video_call_id) {
-      const { error: videoCallError } = await supabase
-        .from('video_calls')
-        .update({
-          quotation_id: quotation.id,
-          quotation_required: true,
-          workflow_status: {
-            video_call: 'completed',
-            quotation: 'completed',
-            profiling: 'pending',
-            payment: params.payment_details.payment_status === 'completed' ? 'completed' : 'pending',
-            qc: params.quotation_data.delivery_method === 'hand_carry' ? 'completed' : 'pending',
-            packaging: params.quotation_data.delivery_method === 'hand_carry' ? 'completed' : 'pending',
-            dispatch: params.quotation_data.delivery_method === 'hand_carry' ? 'completed' : 'pending'
-          },
-          bill_status: params.payment_details.payment_status === 'completed' ? 'paid' : 'pending',
-          bill_amount: totalAmount,
-          bill_generated_at: new Date().toISOString(),
-          bill_paid_at: params.payment_details.payment_status === 'completed' ? new Date().toISOString() : null
-        })
-        .eq('id', params.video_call_id);
-
-      if (videoCallError) throw videoCallError;
+    const exchangeCredit = getOldGoldCredit(params.old_gold || []);
+    const oldGoldTendered = params.tenders
+      .filter(tender => tender.method === 'old_gold')
+      .reduce((sum, tender) => sum + Number(tender.amount), 0);
+    if (Math.abs(exchangeCredit - oldGoldTendered) > 0.01) {
+      throw new Error('The old gold tender must equal the exchange value');
     }
 
-    // Update customer purchase history if applicable
-    if (params.customer_id) {
-      const { error: customerError } = await supabase
-        .from('customers')
-        .update({
-          total_purchases: supabase.sql`total_purchases + ${totalAmount}`,
-          last_purchase_date: new Date().toISOString()
-        })
-        .eq('id', params.customer_id);
-
-      if (customerError) throw customerError;
+    // The database checks this again when the sale is saved
+    const advanceTendered = params.tenders
+      .filter(tender => tender.method === 'advance')
+      .reduce((sum, tender) => sum + Number(tender.amount), 0);
+    if (advanceTendered > 0) {
+      if (!params.customer_id) {
+        throw new Error('An advance can only be adjusted against a saved customer\'s bill');
+      }
+      const advance = await getCustomerAdvance(params.customer_id);
+      if (advanceTendered > advance + 0.01) {
+        throw new Error(`The customer holds ${formatCurrency(advance)} in advance`);
+      }
     }
 
-    // Update stock levels one by one to avoid nested aggregates
-    for (const item of params.quotation_data.items) {
-      const { error: stockError } = await supabase
-        .from('products')
-        .update({
-          stock_level: supabase.sql`stock_level - ${item.quantity}`,
-          last_sold_at: new Date().toISOString()
-        })
-        .eq('id', item.product_id);
+    // One payment record per tender, so collections can be totalled by method
+    const paidAt = new Date().toISOString();
+    const paymentDetails = {
+      ...params.payment_details,
+      payments: [
+        ...params.payment_details.payments,
+        ...params.tenders.map(tender => ({
+          amount: Number(tender.amount),
+          date: paidAt,
+          type: params.payment_details.paid_amount === params.payment_details.total_amount ? 'full' : 'partial',
+          method: tender.method,
+          ...(tender.reference?.trim() ? { reference: tender.reference.trim() } : {})
+        }))
+      ]
+    };
 
-      if (stockError) throw stockError;
-    }
+    const sale = {
+      sale_type: params.sale_type,
+      customer_id: params.customer_id,
+      video_call_id: params.video_call_id,
+      quotation_data: params.quotation_data,
+      payment_details: paymentDetails,
+      tax_invoice: params.tax_invoice || null,
+      old_gold: params.old_gold || [],
+      buyer_name: params.buyer_name || null
+    };
 
-    // Create sale record
-    const { error: saleError } = await supabase
-      .from('sales')
-      .insert([{
-        sale_type: params.sale_type,
-        customer_id: params.customer_id,
-        video_call_id: params.video_call_id,
-        quotation_id: quotation.id,
-        sale_number: params.quotation_data.quotation_number,
-        total_amount: totalAmount,
-        payment_status: params.payment_details.payment_status === 'completed' ? 'paid' : 'pending',
-        payment_details: params.payment_details
-      }]);
+    // Quotation, video call, customer, stock and sale are written in one
+    // transaction; any failure rolls the whole sale back
+    const { data, error } = params.approval_memo_id
+      ? await supabase.rpc('convert_approval_memo', {
+          p_memo_id: params.approval_memo_id,
+          p_idempotency_key: params.idempotency_key,
+          p_sale: sale
+        })
+      : await supabase.rpc('complete_sale', {
+          p_idempotency_key: params.idempotency_key,
+          p_sale: sale
+        });
 
-    if (saleError) throw saleError;
+    if (error) throw new Error(error.message || 'Failed to complete sale');
 
-    return { success: true, quotationId: quotation.id };
+    return {
+      success: true,
+      quotationId: data.quotation_id,
+      saleId: data.sale_id,
+      taxInvoiceId: data.tax_invoice_id || null,
+      invoiceNumber: data.invoice_number || null,
+      exchangeVoucher: data.exchange_voucher || null,
+      duplicate: !!data.duplicate
+    };
   } catch (error) {
     console.error('Error completing sale:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
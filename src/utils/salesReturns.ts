@@ -0,0 +1,288 @@
+import { supabase } from '../lib/supabase';
+import type {
+  CreditNote,
+  CreditNoteItem,
+  PaymentMethod,
+  ReturnSettlement,
+  Sale,
+  TaxInvoice,
+  TaxInvoiceLine
+} from '../types';
+import { DEFAULT_HSN_CODE } from './taxInvoice';
+
+export const REFUND_METHODS: PaymentMethod[] = ['cash', 'upi', 'card', 'bank_transfer', 'cheque'];
+
+// A line as saved on the bill by completeSale
+export interface SoldLine {
+  product_id: string;
+  quantity: number;
+  price: number;
+  huids?: string[];
+  pieceIds?: string[];
+  product: {
+    name: string;
+    sku: string;
+    description?: string;
+    category?: string;
+  };
+}
+
+export interface ReturnableSale {
+  sale: Sale;
+  items: SoldLine[];
+  invoice: TaxInvoice | null;
+  creditNotes: CreditNote[];
+  // Quantity already taken back on each line
+  returned: number[];
+  customerName: string | null;
+}
+
+export interface CreditNoteDraft {
+  items: CreditNoteItem[];
+  lines: TaxInvoiceLine[];
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  note_total: number;
+}
+
+export interface SaleReturnResult {
+  creditNoteId: string;
+  noteNumber: string;
+  adjustedAmount: number;
+  payoutAmount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Staff look a bill up by its bill number or its tax invoice number
+export const findSaleForReturn = async (reference: string): Promise<ReturnableSale | null> => {
+  try {
+    const search = reference.trim();
+    if (!search) return null;
+
+    let { data: sale, error } = await supabase
+      .from('sales')
+      .select('*')
+      .eq('sale_number', search)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (!sale) {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('tax_invoices')
+        .select('sale_id')
+        .eq('invoice_number', search)
+        .maybeSingle();
+      if (invoiceError) throw invoiceError;
+      if (!invoice) return null;
+
+      ({ data: sale, error } = await supabase
+        .from('sales')
+        .select('*')
+        .eq('id', invoice.sale_id)
+        .single());
+      if (error) throw error;
+    }
+
+    const [quotationResult, invoiceResult, notesResult, customerResult] = await Promise.all([
+      supabase.from('quotations').select('items').eq('id', sale.quotation_id).single(),
+      supabase.from('tax_invoices').select('*').eq('sale_id', sale.id).maybeSingle(),
+      supabase.from('credit_notes').select('*').eq('sale_id', sale.id).order('created_at', { ascending: true }),
+      sale.customer_id
+        ? supabase.from('customers').select('name').eq('id', sale.customer_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null })
+    ]);
+
+    if (quotationResult.error) throw quotationResult.error;
+    if (invoiceResult.error) throw invoiceResult.error;
+    if (notesResult.error) throw notesResult.error;
+    if (customerResult.error) throw customerResult.error;
+
+    const items: SoldLine[] = quotationResult.data?.items || [];
+    const creditNotes: CreditNote[] = notesResult.data || [];
+    const returned = items.map((_, index) =>
+      creditNotes.reduce(
+        (sum, note) => sum + note.items
+          .filter(item => item.line_index === index)
+          .reduce((lineSum, item) => lineSum + Number(item.quantity), 0),
+        0
+      )
+    );
+
+    return {
+      sale,
+      items,
+      invoice: invoiceResult.data,
+      creditNotes,
+      returned,
+      customerName: customerResult.data?.name || invoiceResult.data?.buyer_name || null
+    };
+  } catch (error) {
+    console.error('Error finding sale for return:', error);
+    throw error;
+  }
+};
+
+// Each returned line takes its share of the invoice line, discount and GST
+// included. Bills without a tax invoice are shared out by line price.
+export const buildCreditNote = (
+  returnable: ReturnableSale,
+  quantities: Record<number, number>
+): CreditNoteDraft => {
+  const { sale, items, invoice } = returnable;
+  const billValue = items.reduce((sum, item) => sum + Number(item.price) * Number(item.quantity), 0);
+
+  const selected = Object.entries(quantities)
+    .map(([index, quantity]) => ({ index: Number(index), quantity: Number(quantity) }))
+    .filter(({ index, quantity }) => quantity > 0 && items[index]);
+
+  const lines: TaxInvoiceLine[] = selected.flatMap(({ index, quantity }) => {
+    const item = items[index];
+    // A piece can have a making-charges line after its own; older invoices
+    // have one line per bill line and no item_index
+    const invoiceLines = (invoice?.lines || [])
+      .filter((line, position) => (line.item_index ?? position) === index);
+
+    if (invoiceLines.length > 0) {
+      return invoiceLines.map(invoiceLine => {
+        const share = quantity / invoiceLine.quantity;
+        return {
+          ...invoiceLine,
+          quantity,
+          discount: round2(invoiceLine.discount * share),
+          taxable_value: round2(invoiceLine.taxable_value * share),
+          cgst: round2(invoiceLine.cgst * share),
+          sgst: round2(invoiceLine.sgst * share),
+          igst: round2(invoiceLine.igst * share),
+          total: round2(invoiceLine.total * share)
+        };
+      });
+    }
+
+    const unitValue = billValue > 0
+      ? (Number(item.price) / billValue) * Number(sale.total_amount)
+      : 0;
+    const value = round2(unitValue * quantity);
+    return [{
+      description: item.product.name || item.product.description || item.product.sku,
+      sku: item.product.sku,
+      hsn_code: DEFAULT_HSN_CODE,
+      quantity,
+      unit_price: round2(unitValue),
+      discount: 0,
+      taxable_value: value,
+      gst_rate: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      total: value
+    }];
+  });
+
+  const sum = (key: 'taxable_value' | 'cgst' | 'sgst' | 'igst' | 'total') =>
+    round2(lines.reduce((total, line) => total + line[key], 0));
+
+  return {
+    items: selected.map(({ index, quantity }) => ({
+      line_index: index,
+      product_id: items[index].product_id,
+      quantity,
+      pieceIds: items[index].pieceIds || []
+    })),
+    lines,
+    taxable_value: sum('taxable_value'),
+    cgst_amount: sum('cgst'),
+    sgst_amount: sum('sgst'),
+    igst_amount: sum('igst'),
+    // Line rounding cannot take the bill past what was charged
+    note_total: Math.min(sum('total'), round2(Number(sale.total_amount) - Number(sale.returned_amount)))
+  };
+};
+
+interface ProcessSaleReturnParams {
+  saleId: string;
+  draft: CreditNoteDraft;
+  settlement: ReturnSettlement;
+  refundMethod?: PaymentMethod | null;
+  refundReference?: string;
+  reason?: string;
+  buyerName?: string | null;
+}
+
+// Restock, credit note and refund or store credit are written in one transaction
+export const processSaleReturn = async ({
+  saleId,
+  draft,
+  settlement,
+  refundMethod,
+  refundReference,
+  reason,
+  buyerName
+}: ProcessSaleReturnParams): Promise<SaleReturnResult> => {
+  try {
+    if (draft.items.length === 0) {
+      throw new Error('Select at least one item to return');
+    }
+    if (settlement === 'refund' && !refundMethod) {
+      throw new Error('Choose how the refund is paid');
+    }
+
+    const { data, error } = await supabase.rpc('process_sale_return', {
+      p_sale_id: saleId,
+      p_return: {
+        ...draft,
+        settlement,
+        refund_method: settlement === 'refund' ? refundMethod : null,
+        refund_reference: refundReference?.trim() || null,
+        reason: reason?.trim() || null,
+        buyer_name: buyerName || null
+      }
+    });
+
+    if (error) throw new Error(error.message || 'Failed to process return');
+
+    return {
+      creditNoteId: data.credit_note_id,
+      noteNumber: data.note_number,
+      adjustedAmount: Number(data.adjusted_amount) || 0,
+      payoutAmount: Number(data.payout_amount) || 0
+    };
+  } catch (error) {
+    console.error('Error processing sale return:', error);
+    throw error;
+  }
+};
+
+export const getCreditNote = async (id: string): Promise<CreditNote | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching credit note:', error);
+    throw error;
+  }
+};
+
+export const getRecentCreditNotes = async (limit = 20): Promise<CreditNote[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching credit notes:', error);
+    throw error;
+  }
+};
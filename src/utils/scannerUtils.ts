@@ -1,6 +1,8 @@
 import { supabase } from '../lib/supabase';
-import type { Product } from '../types';
+import type { Product, ProductPiece } from '../types';
 import QrScanner from 'qr-scanner';
+import { mapStones } from './stones';
+import { findPieceByCode, PIECE_STATUS_LABELS } from './pieces';
 
 // Cache for recently scanned products
 const productCache = new Map<string, Product>();
@@ -27,7 +29,7 @@ const initAudioContext = () => {
   return audioContext;
 };
 
-const speakMessage = (message: string) => {
+export const speakMessage = (message: string) => {
   if (!speechSynthesis) {
     speechSynthesis = window.speechSynthesis;
   }
@@ -43,7 +45,7 @@ const speakMessage = (message: string) => {
   speechSynthesis.speak(utterance);
 };
 
-const playBeep = (success: boolean) => {
+export const playBeep = (success: boolean) => {
   try {
     const context = initAudioContext();
     if (!context) return;
@@ -103,7 +105,7 @@ export const stopCameraScanning = () => {
 
 export const processScannedSku = async (
   input: string,
-  addProduct: (product: Product) => void,
+  addProduct: (product: Product, piece?: ProductPiece) => void,
   setScannedSku: (sku: string) => void,
   isRapidScan: boolean = false
 ): Promise<void> => {
@@ -141,12 +143,32 @@ export const processScannedSku = async (
       return;
     }
 
-    const { data, error } = await supabase
+    let { data, error } = await supabase
       .from('products')
       .select('*')
       .eq('sku', cleanSku.replace(/\s+/g, ''))
       .maybeSingle();
 
+    // Not a SKU - try it as a piece serial or hallmark HUID
+    let piece: ProductPiece | null = null;
+    if (!error && !data) {
+      piece = await findPieceByCode(cleanSku);
+      if (piece) {
+        if (piece.status !== 'in_stock') {
+          playBeep(false);
+          speakMessage(`Piece is ${PIECE_STATUS_LABELS[piece.status].toLowerCase()}`);
+          alert(`Piece ${piece.serial} is ${PIECE_STATUS_LABELS[piece.status].toLowerCase()}`);
+          return;
+        }
+
+        ({ data, error } = await supabase
+          .from('products')
+          .select('*')
+          .eq('id', piece.product_id)
+          .maybeSingle());
+      }
+    }
+
     if (error) {
       console.error('Error processing SKU:', error);
       playBeep(false);
@@ -176,7 +198,17 @@ export const processScannedSku = async (
       qrCode: data.qr_code || '',
       code128: data.code128 || '',
       cipher: data.cipher || '',
-      additionalInfo: data.additional_info || ''
+      additionalInfo: data.additional_info || '',
+      metalType: data.metal_type,
+      purity: data.purity,
+      grossWeight: data.gross_weight ? Number(data.gross_weight) : null,
+      netWeight: data.net_weight ? Number(data.net_weight) : null,
+      makingCharges: Number(data.making_charges) || 0,
+      makingChargeType: data.making_charge_type || 'per_piece',
+      wastagePercent: Number(data.wastage_percent) || 0,
+      stones: mapStones(data.stones),
+      huids: data.huids || [],
+      pricingMode: data.pricing_mode || 'fixed'
     };
 
     if (product.stockLevel <= 0) {
@@ -186,14 +218,16 @@ export const processScannedSku = async (
       return;
     }
 
-    // Cache the product
-    productCache.set(cleanSku, product);
+    // Cache the product (piece scans identify one piece, so always look them up)
+    if (!piece) {
+      productCache.set(cleanSku, product);
+    }
 
     // Reset scan state
     scanBuffer = '';
     lastScanTime = 0;
 
-    addProduct(product);
+    addProduct(product, piece || undefined);
     setScannedSku('');
     playBeep(true);
   } catch (error) {
@@ -16,6 +16,7 @@ interface CompanySettings {
     account_number: string;
     ifsc_code: string;
     branch: string;
+    upi_id?: string;
   };
   logo_url: string;
 }
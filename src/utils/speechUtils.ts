@@ -311,6 +311,14 @@ export const scheduleCallReminders = (callData: {
   });
 };
 
+// Function to announce a customer waiting in the video call
+export const announceCallStarted = (callData: {
+  staff: { name: string },
+  customer: { name: string }
+}) => {
+  addToNotificationQueue(processTemplate(TEMPLATES.CALL_STARTED, callData));
+};
+
 // Function to get voice display name
 export const getVoiceDisplayName = (voice: SpeechSynthesisVoice): string => {
   const voiceIndex = HINDI_VOICES.findIndex(v => 
@@ -0,0 +1,86 @@
+import { supabase } from '../lib/supabase';
+import type { StockMovement, StockMovementType } from '../types';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  purchase: 'Purchase Inward',
+  sale: 'Sale',
+  return: 'Return',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer',
+  damage: 'Damage'
+};
+
+export const STOCK_MOVEMENT_COLORS: Record<StockMovementType, string> = {
+  purchase: 'bg-green-100 text-green-800',
+  sale: 'bg-blue-100 text-blue-800',
+  return: 'bg-teal-100 text-teal-800',
+  adjustment: 'bg-gray-100 text-gray-700',
+  transfer: 'bg-indigo-100 text-indigo-800',
+  damage: 'bg-red-100 text-red-800'
+};
+
+export interface StockReconciliation {
+  product_id: string;
+  sku: string;
+  name: string;
+  stock_level: number;
+  ledger_balance: number;
+  difference: number;
+}
+
+// Movements are recorded by the database as pieces change; the ledger is read-only here
+export const getStockMovements = async (productId: string): Promise<StockMovement[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select('*')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching stock movements:', error);
+    throw error;
+  }
+};
+
+export const getStockReconciliation = async (productId: string): Promise<StockReconciliation | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('stock_ledger_reconciliation')
+      .select('*')
+      .eq('product_id', productId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error reconciling stock:', error);
+    throw error;
+  }
+};
+
+// Names for the staff ids on a set of movements
+export const getStaffNames = async (movements: StockMovement[]): Promise<Record<string, string>> => {
+  const ids = Array.from(new Set(movements.map(movement => movement.staff_id).filter(Boolean))) as string[];
+  if (ids.length === 0) return {};
+
+  try {
+    const { data, error } = await supabase
+      .from('staff')
+      .select('id, name')
+      .in('id', ids);
+
+    if (error) throw error;
+    return Object.fromEntries((data || []).map((staff: { id: string; name: string }) => [staff.id, staff.name]));
+  } catch (error) {
+    console.error('Error fetching staff names:', error);
+    return {};
+  }
+};
+
+export const formatMovementQuantity = (quantity: number): string => {
+  if (quantity > 0) return `+${quantity}`;
+  return quantity.toString();
+};
@@ -0,0 +1,232 @@
+import { supabase } from '../lib/supabase';
+import type { StockTake, ProductPiece } from '../types';
+import { findPieceByCode } from './pieces';
+
+export interface StockTakePiece extends ProductPiece {
+  product: {
+    name: string;
+    sku: string;
+    category: string;
+    manufacturer: string;
+  };
+}
+
+export interface StockTakeScan {
+  id: string;
+  stock_take_id: string;
+  piece_id: string;
+  code: string;
+  scanned_by?: string | null;
+  scanned_at: string;
+  piece: StockTakePiece;
+}
+
+export interface VarianceGroup {
+  category: string;
+  manufacturer: string;
+  expected: number;
+  counted: number;
+  missing: number;
+  unexpected: number;
+  variance: number;
+}
+
+export interface VarianceReport {
+  counted: StockTakePiece[];
+  missing: StockTakePiece[];
+  unexpected: StockTakePiece[];
+  groups: VarianceGroup[];
+}
+
+const PIECE_WITH_PRODUCT = '*, product:products!inner(name, sku, category, manufacturer)';
+
+export const getStockTakes = async (): Promise<StockTake[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('stock_takes')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching stock takes:', error);
+    throw error;
+  }
+};
+
+export const createStockTake = async (
+  take: Pick<StockTake, 'name' | 'location' | 'category' | 'manufacturer'>
+): Promise<StockTake> => {
+  try {
+    if (!take.name.trim()) {
+      throw new Error('Name the stock take, e.g. "Tray A3 - October"');
+    }
+
+    const { data, error } = await supabase
+      .from('stock_takes')
+      .insert([{
+        name: take.name.trim(),
+        location: take.location || null,
+        category: take.category || null,
+        manufacturer: take.manufacturer || null
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error creating stock take:', error);
+    throw error;
+  }
+};
+
+// Pieces the books say should be found in the scope of the count
+export const getExpectedPieces = async (take: StockTake): Promise<StockTakePiece[]> => {
+  try {
+    let query = supabase
+      .from('product_pieces')
+      .select(PIECE_WITH_PRODUCT)
+      .eq('status', 'in_stock');
+
+    if (take.location) query = query.eq('location', take.location);
+    if (take.category) query = query.eq('product.category', take.category);
+    if (take.manufacturer) query = query.eq('product.manufacturer', take.manufacturer);
+
+    const { data, error } = await query.order('serial');
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching expected pieces:', error);
+    throw error;
+  }
+};
+
+export const getStockTakeScans = async (stockTakeId: string): Promise<StockTakeScan[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('stock_take_scans')
+      .select(`*, piece:product_pieces(${PIECE_WITH_PRODUCT})`)
+      .eq('stock_take_id', stockTakeId)
+      .order('scanned_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching stock take scans:', error);
+    throw error;
+  }
+};
+
+// Record a scanned piece serial or HUID. Scanning the same piece twice is harmless.
+export const recordStockTakeScan = async (
+  stockTakeId: string,
+  code: string
+): Promise<{ scan: StockTakeScan | null; duplicate: boolean }> => {
+  const cleanCode = code.trim().toUpperCase();
+  if (!cleanCode) return { scan: null, duplicate: false };
+
+  try {
+    const piece = await findPieceByCode(cleanCode);
+    if (!piece) {
+      throw new Error(`No piece found for ${cleanCode}. Scan the piece label, not the product label.`);
+    }
+
+    const { data, error } = await supabase
+      .from('stock_take_scans')
+      .insert([{ stock_take_id: stockTakeId, piece_id: piece.id, code: cleanCode }])
+      .select(`*, piece:product_pieces(${PIECE_WITH_PRODUCT})`)
+      .single();
+
+    if (error?.code === '23505') return { scan: null, duplicate: true };
+    if (error) throw error;
+
+    return { scan: data, duplicate: false };
+  } catch (error) {
+    console.error('Error recording stock take scan:', error);
+    throw error;
+  }
+};
+
+export const removeStockTakeScan = async (scanId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('stock_take_scans')
+      .delete()
+      .eq('id', scanId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error removing stock take scan:', error);
+    throw error;
+  }
+};
+
+export const buildVarianceReport = (expected: StockTakePiece[], scans: StockTakeScan[]): VarianceReport => {
+  const scannedIds = new Set(scans.map(scan => scan.piece_id));
+  const expectedIds = new Set(expected.map(piece => piece.id));
+
+  const counted = expected.filter(piece => scannedIds.has(piece.id));
+  const missing = expected.filter(piece => !scannedIds.has(piece.id));
+  const unexpected = scans.map(scan => scan.piece).filter(piece => piece && !expectedIds.has(piece.id));
+
+  const groups = new Map<string, VarianceGroup>();
+  const groupFor = (piece: StockTakePiece) => {
+    const key = `${piece.product.category}|${piece.product.manufacturer}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        category: piece.product.category,
+        manufacturer: piece.product.manufacturer,
+        expected: 0,
+        counted: 0,
+        missing: 0,
+        unexpected: 0,
+        variance: 0
+      });
+    }
+    return groups.get(key)!;
+  };
+
+  expected.forEach(piece => { groupFor(piece).expected++; });
+  counted.forEach(piece => { groupFor(piece).counted++; });
+  missing.forEach(piece => { groupFor(piece).missing++; });
+  unexpected.forEach(piece => { groupFor(piece).unexpected++; });
+  groups.forEach(group => { group.variance = group.counted + group.unexpected - group.expected; });
+
+  return {
+    counted,
+    missing,
+    unexpected,
+    groups: Array.from(groups.values()).sort((a, b) =>
+      a.category.localeCompare(b.category) || a.manufacturer.localeCompare(b.manufacturer)
+    )
+  };
+};
+
+export const approveStockTake = async (stockTakeId: string): Promise<{ missing: number; found: number }> => {
+  try {
+    const { data, error } = await supabase.rpc('approve_stock_take', { p_stock_take_id: stockTakeId });
+    if (error) throw new Error(error.message || 'Failed to approve stock take');
+    return data;
+  } catch (error) {
+    console.error('Error approving stock take:', error);
+    throw error;
+  }
+};
+
+export const cancelStockTake = async (stockTakeId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('stock_takes')
+      .update({ status: 'cancelled' })
+      .eq('id', stockTakeId)
+      .eq('status', 'open');
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error cancelling stock take:', error);
+    throw error;
+  }
+};
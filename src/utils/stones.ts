@@ -0,0 +1,78 @@
+import type { StoneComponent } from '../types';
+
+export const STONE_TYPES = [
+  'Diamond',
+  'Ruby',
+  'Emerald',
+  'Sapphire',
+  'Pearl',
+  'Polki',
+  'Cubic Zirconia',
+  'Other'
+];
+
+export const createStone = (): StoneComponent => ({
+  id: crypto.randomUUID(),
+  stoneType: 'Diamond',
+  count: 1,
+  caratWeight: 0,
+  clarity: '',
+  colour: '',
+  certificateNumber: '',
+  ratePerCarat: 0
+});
+
+// Rows come back from jsonb, so numbers may arrive as strings
+export const mapStones = (raw: unknown): StoneComponent[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(stone => ({
+    id: stone.id || crypto.randomUUID(),
+    stoneType: stone.stoneType || 'Other',
+    count: Number(stone.count) || 0,
+    caratWeight: Number(stone.caratWeight) || 0,
+    clarity: stone.clarity || '',
+    colour: stone.colour || '',
+    certificateNumber: stone.certificateNumber || '',
+    ratePerCarat: Number(stone.ratePerCarat) || 0
+  }));
+};
+
+export const getStoneValue = (stone: StoneComponent): number => {
+  return Math.round(stone.caratWeight * stone.ratePerCarat * 100) / 100;
+};
+
+export const calculateStoneValue = (stones?: StoneComponent[] | null): number => {
+  return Math.round((stones || []).reduce((sum, stone) => sum + getStoneValue(stone), 0) * 100) / 100;
+};
+
+export const getTotalCarats = (stones?: StoneComponent[] | null): number => {
+  return Math.round((stones || []).reduce((sum, stone) => sum + stone.caratWeight, 0) * 1000) / 1000;
+};
+
+export const formatStone = (stone: StoneComponent): string => {
+  const grade = [stone.clarity, stone.colour].filter(Boolean).join('/');
+  return `${stone.stoneType} × ${stone.count}, ${stone.caratWeight}ct${grade ? ` ${grade}` : ''}`;
+};
+
+export const summarizeStones = (stones?: StoneComponent[] | null): string => {
+  if (!stones || stones.length === 0) return '';
+  const count = stones.reduce((sum, stone) => sum + stone.count, 0);
+  return `${count} stone${count === 1 ? '' : 's'} · ${getTotalCarats(stones)}ct`;
+};
+
+export const validateStones = (stones: StoneComponent[]): string | null => {
+  for (const stone of stones) {
+    if (!stone.stoneType) return 'Each stone needs a type';
+    if (!Number.isInteger(stone.count) || stone.count < 1) return `${stone.stoneType}: count must be at least 1`;
+    if (!(stone.caratWeight > 0)) return `${stone.stoneType}: carat weight must be greater than 0`;
+    if (stone.ratePerCarat < 0) return `${stone.stoneType}: rate per carat cannot be negative`;
+  }
+  return null;
+};
+
+export const stoneMatchesSearch = (stones: StoneComponent[] | undefined, searchLower: string): boolean => {
+  return (stones || []).some(stone =>
+    [stone.stoneType, stone.clarity, stone.colour, stone.certificateNumber]
+      .some(value => (value || '').toLowerCase().includes(searchLower))
+  );
+};
@@ -0,0 +1,266 @@
+import { supabase } from '../lib/supabase';
+import type { Customer, GSTRate, MarkupSetting, MetalRate, SupplyType, TaxInvoice, TaxInvoiceLine } from '../types';
+import type { QuotationItem } from '../types/quotation';
+import { getLineBreakdown, getLinePrice } from './metalRates';
+import {
+  MAKING_CHARGES_CATEGORY,
+  MAKING_CHARGES_SAC,
+  resolveGSTRate,
+  resolveMakingChargeRate,
+  splitMakingCharges
+} from './gstUtils';
+import { getCompanySettings } from './settings';
+
+// Chapter 71 - articles of jewellery of precious metal
+export const DEFAULT_HSN_CODE = '7113';
+
+export const GST_STATE_CODES: Record<string, string> = {
+  'Jammu and Kashmir': '01',
+  'Himachal Pradesh': '02',
+  'Punjab': '03',
+  'Chandigarh': '04',
+  'Uttarakhand': '05',
+  'Haryana': '06',
+  'Delhi': '07',
+  'Rajasthan': '08',
+  'Uttar Pradesh': '09',
+  'Bihar': '10',
+  'Sikkim': '11',
+  'Arunachal Pradesh': '12',
+  'Nagaland': '13',
+  'Manipur': '14',
+  'Mizoram': '15',
+  'Tripura': '16',
+  'Meghalaya': '17',
+  'Assam': '18',
+  'West Bengal': '19',
+  'Jharkhand': '20',
+  'Odisha': '21',
+  'Chhattisgarh': '22',
+  'Madhya Pradesh': '23',
+  'Gujarat': '24',
+  'Dadra and Nagar Haveli and Daman and Diu': '26',
+  'Maharashtra': '27',
+  'Karnataka': '29',
+  'Goa': '30',
+  'Lakshadweep': '31',
+  'Kerala': '32',
+  'Tamil Nadu': '33',
+  'Puducherry': '34',
+  'Andaman and Nicobar Islands': '35',
+  'Telangana': '36',
+  'Andhra Pradesh': '37',
+  'Ladakh': '38'
+};
+
+export type TaxInvoiceDraft = Omit<
+  TaxInvoice,
+  'id' | 'invoice_number' | 'financial_year' | 'serial' | 'invoice_date' | 'sale_id' | 'quotation_id' | 'customer_id' | 'created_at'
+>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const normaliseState = (state?: string | null) => (state || '').trim().toLowerCase();
+
+// GSTIN starts with the state code, which beats a free-text state name
+export const getStateCode = (state?: string | null, gstin?: string | null): string | null => {
+  if (gstin && /^\d{2}/.test(gstin.trim())) return gstin.trim().slice(0, 2);
+  const match = Object.entries(GST_STATE_CODES).find(([name]) => normaliseState(name) === normaliseState(state));
+  return match ? match[1] : null;
+};
+
+export const formatPlaceOfSupply = (state?: string | null, gstin?: string | null): string => {
+  const code = getStateCode(state, gstin);
+  const name = Object.entries(GST_STATE_CODES).find(([, value]) => value === code)?.[0] || state || '';
+  return code ? `${code}-${name}` : name;
+};
+
+export const getSupplyType = (
+  seller: { state?: string | null; gstin?: string | null },
+  buyer: { state?: string | null; gstin?: string | null }
+): SupplyType => {
+  // Walk-in buyers with no state are supplied at the counter, within the state
+  if (!buyer.state && !buyer.gstin) return 'intra_state';
+
+  const sellerCode = getStateCode(seller.state, seller.gstin);
+  const buyerCode = getStateCode(buyer.state, buyer.gstin);
+  if (sellerCode && buyerCode) return sellerCode === buyerCode ? 'intra_state' : 'inter_state';
+  return normaliseState(seller.state) === normaliseState(buyer.state) ? 'intra_state' : 'inter_state';
+};
+
+export const getHsnCodes = async (): Promise<Record<string, string>> => {
+  try {
+    const { data, error } = await supabase.rpc('get_markup_settings');
+    if (error) throw error;
+
+    return Object.fromEntries(
+      (data || [])
+        .filter((setting: MarkupSetting) => setting.type === 'category')
+        .map((setting: MarkupSetting) => [setting.name, setting.hsn_code || DEFAULT_HSN_CODE])
+    );
+  } catch (error) {
+    console.error('Error fetching HSN codes:', error);
+    throw error;
+  }
+};
+
+interface BuildTaxInvoiceParams {
+  items: QuotationItem[];
+  discount: number;
+  gstRate: number;
+  gstRates?: GSTRate[] | null;
+  hsnCodes: Record<string, string>;
+  customer?: Customer | null;
+  buyerName?: string;
+  metalRates?: MetalRate[] | null;
+}
+
+// Lines are worked out unrounded and the invoice totals rounded once, so the
+// invoice total always equals calculateTotals().finalTotal for the same bill
+export const buildTaxInvoice = ({
+  items,
+  discount,
+  gstRate,
+  gstRates,
+  hsnCodes,
+  customer,
+  buyerName,
+  metalRates
+}: BuildTaxInvoiceParams): TaxInvoiceDraft => {
+  const company = getCompanySettings();
+  const supplyType = getSupplyType(
+    { state: company.state, gstin: company.gst_number },
+    { state: customer?.state, gstin: customer?.gst_number }
+  );
+
+  const makingRate = gstRates && gstRates.length > 0 ? resolveMakingChargeRate(gstRates) : null;
+
+  let taxableValue = 0;
+  let totalTax = 0;
+  const buildLine = (
+    itemIndex: number,
+    description: string,
+    sku: string,
+    hsnCode: string,
+    quantity: number,
+    unitPrice: number,
+    rate: number,
+    makingCharges: boolean
+  ): TaxInvoiceLine => {
+    const gross = unitPrice * quantity;
+    const lineDiscount = (gross * discount) / 100;
+    const taxable = gross - lineDiscount;
+    const tax = (taxable * rate) / 100;
+    taxableValue += taxable;
+    totalTax += tax;
+
+    return {
+      item_index: itemIndex,
+      ...(makingCharges ? { making_charges: true } : {}),
+      description,
+      sku,
+      hsn_code: hsnCode,
+      quantity,
+      unit_price: round2(unitPrice),
+      discount: round2(lineDiscount),
+      taxable_value: round2(taxable),
+      gst_rate: rate,
+      cgst: supplyType === 'intra_state' ? round2(tax / 2) : 0,
+      sgst: supplyType === 'intra_state' ? round2(tax / 2) : 0,
+      igst: supplyType === 'inter_state' ? round2(tax) : 0,
+      total: round2(taxable + tax)
+    };
+  };
+
+  // Making charges go on a line of their own when they have a rate of their own
+  const lines: TaxInvoiceLine[] = items.flatMap((item, index) => {
+    const unitPrice = getLinePrice(item, metalRates);
+    const quantity = Number(item.quantity) || 0;
+    const rate = gstRates && gstRates.length > 0
+      ? resolveGSTRate(gstRates, item.product.category, new Date(), gstRate)
+      : gstRate;
+    const { goods, making } = splitMakingCharges(unitPrice, getLineBreakdown(item, metalRates), makingRate);
+    const description = item.product.name || item.product.description || item.product.sku;
+
+    const itemLines = [buildLine(
+      index,
+      description,
+      item.product.sku,
+      hsnCodes[item.product.category] || DEFAULT_HSN_CODE,
+      quantity,
+      goods,
+      rate,
+      false
+    )];
+    if (making > 0 && makingRate !== null) {
+      itemLines.push(buildLine(
+        index,
+        `Making charges – ${description}`,
+        item.product.sku,
+        hsnCodes[MAKING_CHARGES_CATEGORY] || MAKING_CHARGES_SAC,
+        quantity,
+        making,
+        makingRate,
+        true
+      ));
+    }
+    return itemLines;
+  });
+
+  const cgst = supplyType === 'intra_state' ? round2(totalTax / 2) : 0;
+  const sgst = supplyType === 'intra_state' ? round2(totalTax - cgst) : 0;
+  const igst = supplyType === 'inter_state' ? round2(totalTax) : 0;
+
+  return {
+    seller_gstin: company.gst_number || null,
+    seller_state: company.state,
+    buyer_name: customer?.name || buyerName || null,
+    buyer_gstin: customer?.gst_number || null,
+    buyer_address: customer
+      ? [customer.address, customer.city, customer.pincode].filter(Boolean).join(', ')
+      : null,
+    buyer_state: customer?.state || null,
+    place_of_supply: customer?.state || customer?.gst_number
+      ? formatPlaceOfSupply(customer.state, customer.gst_number)
+      : formatPlaceOfSupply(company.state, company.gst_number),
+    supply_type: supplyType,
+    lines,
+    taxable_value: round2(taxableValue),
+    cgst_amount: cgst,
+    sgst_amount: sgst,
+    igst_amount: igst,
+    invoice_total: round2(taxableValue + totalTax)
+  };
+};
+
+export const getTaxInvoice = async (id: string): Promise<TaxInvoice | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('tax_invoices')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching tax invoice:', error);
+    throw error;
+  }
+};
+
+export const getTaxInvoiceForQuotation = async (quotationId: string): Promise<TaxInvoice | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('tax_invoices')
+      .select('*')
+      .eq('quotation_id', quotationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching tax invoice:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,36 @@
+import { getCompanySettings } from './settings';
+
+// Keeps letters and digits only, which is how banks tend to echo the
+// reference back in statement narrations
+export const normalizeReference = (value: string) => value.replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+// UPI deep link (NPCI "upi://pay"); any UPI app opens it with the payee,
+// exact amount and bill reference filled in
+export const buildUpiUri = (
+  vpa: string,
+  payeeName: string,
+  amount: number,
+  reference: string
+) => {
+  const params: Record<string, string> = {
+    pa: vpa.trim(),
+    pn: payeeName,
+    am: amount.toFixed(2),
+    cu: 'INR',
+    tr: normalizeReference(reference).slice(0, 35),
+    tn: `Bill ${reference}`
+  };
+
+  return `upi://pay?${Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&')}`;
+};
+
+// Null when no UPI ID is set up or nothing is payable
+export const getUpiPaymentUri = (amount: number, reference: string): string | null => {
+  const company = getCompanySettings();
+  const vpa = company.bank_details?.upi_id?.trim();
+  if (!vpa || !(amount > 0)) return null;
+
+  return buildUpiUri(vpa, company.bank_details.account_name || company.name, amount, reference);
+};
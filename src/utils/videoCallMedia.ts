@@ -0,0 +1,82 @@
+import { supabase } from '../lib/supabase';
+import type { VideoCall, VideoCallJoinLink, VideoCallLobby } from '../types';
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'] }
+];
+
+// VITE_ICE_SERVERS takes a JSON array of RTCIceServer, for a TURN server
+// when customers sit behind strict NATs
+export const getIceServers = (): RTCIceServer[] => {
+  const configured = import.meta.env.VITE_ICE_SERVERS;
+  if (!configured) return DEFAULT_ICE_SERVERS;
+
+  try {
+    const servers = JSON.parse(configured);
+    return Array.isArray(servers) && servers.length > 0 ? servers : DEFAULT_ICE_SERVERS;
+  } catch (error) {
+    console.error('Invalid VITE_ICE_SERVERS, using public STUN:', error);
+    return DEFAULT_ICE_SERVERS;
+  }
+};
+
+export const getCustomerJoinUrl = (token: string) =>
+  `${window.location.origin}/call/join/${token}`;
+
+// Reuses the call's current link while it is valid unless renew is set,
+// which also stops the old link working
+export const issueJoinLink = async (callId: string, renew = false): Promise<VideoCallJoinLink> => {
+  try {
+    const { data, error } = await supabase.rpc('issue_video_call_join_link', {
+      p_call_id: callId,
+      p_renew: renew
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error issuing join link:', error);
+    throw error;
+  }
+};
+
+export const getCallLobby = async (token: string): Promise<VideoCallLobby> => {
+  try {
+    const { data, error } = await supabase.rpc('get_video_call_lobby', { p_token: token });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error loading call lobby:', error);
+    throw error;
+  }
+};
+
+// Tells the assigned staff the customer is in the call
+export const announceCustomerWaiting = async (token: string): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('announce_customer_waiting', { p_token: token });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error announcing customer:', error);
+    throw error;
+  }
+};
+
+// Start and end are stamped with the database clock, so the duration does
+// not depend on either side's device time
+export const recordCallEvent = async (callId: string, event: 'started' | 'ended'): Promise<VideoCall> => {
+  try {
+    const { data, error } = await supabase.rpc('record_video_call_event', {
+      p_call_id: callId,
+      p_event: event
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error(`Error recording call ${event}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,266 @@
+import { supabase } from '../lib/supabase';
+import type { Product, ProductPiece, ShowcaseItem } from '../types';
+import { generateQuotationNumber } from './quotation';
+
+const toShowcaseItem = (row: ShowcaseItem): ShowcaseItem => ({
+  ...row,
+  price: Number(row.price),
+  gross_weight: row.gross_weight === null ? null : Number(row.gross_weight),
+  net_weight: row.net_weight === null ? null : Number(row.net_weight)
+});
+
+export const getShowcase = async (callId: string): Promise<ShowcaseItem[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('video_call_showcase_items')
+      .select('*')
+      .eq('video_call_id', callId)
+      .order('shown_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toShowcaseItem);
+  } catch (error) {
+    console.error('Error fetching showcase:', error);
+    throw error;
+  }
+};
+
+// Showing a product again moves it back to the top instead of listing it twice
+export const showProduct = async (
+  callId: string,
+  product: Product,
+  price: number,
+  piece?: ProductPiece
+): Promise<void> => {
+  try {
+    let query = supabase
+      .from('video_call_showcase_items')
+      .select('id')
+      .eq('video_call_id', callId)
+      .eq('product_id', product.id);
+    query = piece ? query.eq('piece_id', piece.id) : query.is('piece_id', null);
+
+    const { data: existing, error: findError } = await query.maybeSingle();
+    if (findError) throw findError;
+
+    if (existing) {
+      const { error } = await supabase
+        .from('video_call_showcase_items')
+        .update({ price, shown_at: new Date().toISOString() })
+        .eq('id', existing.id);
+
+      if (error) throw error;
+      return;
+    }
+
+    const { error } = await supabase
+      .from('video_call_showcase_items')
+      .insert([{
+        video_call_id: callId,
+        product_id: product.id,
+        piece_id: piece?.id || null,
+        name: product.name || product.sku,
+        sku: piece?.serial || product.sku,
+        image_url: product.imageUrl || null,
+        gross_weight: piece ? piece.gross_weight ?? null : product.grossWeight ?? null,
+        net_weight: piece ? piece.net_weight ?? null : product.netWeight ?? null,
+        price
+      }]);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error adding to showcase:', error);
+    throw error;
+  }
+};
+
+export const removeFromShowcase = async (itemId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('video_call_showcase_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error removing from showcase:', error);
+    throw error;
+  }
+};
+
+export const setShortlisted = async (itemId: string, shortlisted: boolean): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('video_call_showcase_items')
+      .update({
+        shortlisted,
+        shortlisted_at: shortlisted ? new Date().toISOString() : null
+      })
+      .eq('id', itemId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating shortlist:', error);
+    throw error;
+  }
+};
+
+// The customer's side works from the join token, without a login
+export const getShowcaseByToken = async (token: string): Promise<ShowcaseItem[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_call_showcase', { p_token: token });
+
+    if (error) throw error;
+    return (data || []).map(toShowcaseItem);
+  } catch (error) {
+    console.error('Error fetching showcase:', error);
+    throw error;
+  }
+};
+
+export const setShortlistedByToken = async (
+  token: string,
+  itemId: string,
+  shortlisted: boolean
+): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('set_showcase_shortlist', {
+      p_token: token,
+      p_item_id: itemId,
+      p_shortlisted: shortlisted
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating shortlist:', error);
+    throw error;
+  }
+};
+
+export interface ShowcaseChannel {
+  notify: () => void;
+  close: () => void;
+}
+
+// Tells the other side of the call to reload the showcase after a change.
+// Carries no data, so the customer never sees more than the token allows.
+export const createShowcaseChannel = (callId: string, onChange: () => void): ShowcaseChannel => {
+  const channel = supabase.channel(`call_showcase_${callId}`, {
+    config: { broadcast: { self: false } }
+  });
+
+  channel
+    .on('broadcast', { event: 'changed' }, () => onChange())
+    .subscribe();
+
+  return {
+    notify: () => {
+      channel.send({ type: 'broadcast', event: 'changed', payload: {} });
+    },
+    close: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+};
+
+interface ShortlistRow extends ShowcaseItem {
+  products: Pick<Product, 'description' | 'manufacturer' | 'category'> | null;
+}
+
+// Adds the shortlisted items to the call's draft quotation, starting one
+// when the call has none. Items already on the draft are not added again.
+export const convertShortlistToQuotation = async (callId: string): Promise<string> => {
+  try {
+    const { data: call, error: callError } = await supabase
+      .from('video_calls')
+      .select('id, customer_id, quotation_id')
+      .eq('id', callId)
+      .single();
+
+    if (callError) throw callError;
+
+    const { data: rows, error: itemsError } = await supabase
+      .from('video_call_showcase_items')
+      .select('*, products (description, manufacturer, category)')
+      .eq('video_call_id', callId)
+      .eq('shortlisted', true)
+      .order('shortlisted_at');
+
+    if (itemsError) throw itemsError;
+    if (!rows || rows.length === 0) throw new Error('Nothing has been shortlisted yet');
+
+    const lines = (rows as ShortlistRow[]).map(row => ({
+      product_id: row.product_id,
+      quantity: 1,
+      price: Number(row.price),
+      discount: 0,
+      piece_ids: row.piece_id ? [row.piece_id] : undefined,
+      product: {
+        name: row.name,
+        sku: row.sku,
+        description: row.products?.description || '',
+        manufacturer: row.products?.manufacturer,
+        category: row.products?.category,
+        imageUrl: row.image_url || ''
+      }
+    }));
+
+    if (call.quotation_id) {
+      const { data: quotation, error: quotationError } = await supabase
+        .from('quotations')
+        .select('id, status, items')
+        .eq('id', call.quotation_id)
+        .single();
+
+      if (quotationError) throw quotationError;
+      if (quotation.status !== 'draft') {
+        throw new Error('The quotation for this call has already been sent');
+      }
+
+      const existing: typeof lines = quotation.items || [];
+      const isOnDraft = (line: typeof lines[number]) => existing.some(item =>
+        item.product_id === line.product_id &&
+        (!line.piece_ids || item.piece_ids?.includes(line.piece_ids[0]))
+      );
+      const items = [...existing, ...lines.filter(line => !isOnDraft(line))];
+
+      const { error: updateError } = await supabase
+        .from('quotations')
+        .update({
+          items,
+          total_amount: items.reduce((sum, item) => sum + Number(item.price) * Number(item.quantity), 0)
+        })
+        .eq('id', quotation.id);
+
+      if (updateError) throw updateError;
+      return quotation.id;
+    }
+
+    const { data: quotation, error: insertError } = await supabase
+      .from('quotations')
+      .insert([{
+        customer_id: call.customer_id,
+        video_call_id: callId,
+        items: lines,
+        total_amount: lines.reduce((sum, line) => sum + line.price, 0),
+        status: 'draft',
+        quotation_number: generateQuotationNumber(),
+        valid_until: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+      }])
+      .select('id')
+      .single();
+
+    if (insertError) throw insertError;
+
+    const { error: linkError } = await supabase
+      .from('video_calls')
+      .update({ quotation_id: quotation.id })
+      .eq('id', callId);
+
+    if (linkError) throw linkError;
+    return quotation.id;
+  } catch (error) {
+    console.error('Error converting shortlist:', error);
+    throw error;
+  }
+};
@@ -1,65 +1,156 @@
-import type { VideoCall } from '../types';
-
-export const getCurrentStep = (status: Record<string, any>): string => {
-  const workflowOrder = [
-    'video_call',
-    'quotation',
-    'profiling',
-    'payment',
-    'qc',
-    'packaging',
-    'dispatch'
-  ];
+import { supabase } from '../lib/supabase';
+import type { VideoCall, WorkflowDefinition, WorkflowStep } from '../types';
+
+export const SKIP_CONDITION_LABELS = {
+  hand_carry: 'Hand-carried orders',
+  no_quotation: 'Calls without a quotation'
+} as const;
+
+const definitionCache = new Map<string, Promise<WorkflowDefinition>>();
+
+const fetchWorkflowDefinition = async (workflowId?: string | null): Promise<WorkflowDefinition> => {
+  const query = supabase
+    .from('workflow_definitions')
+    .select(`
+      *,
+      steps:workflow_steps (*)
+    `);
+
+  const { data, error } = workflowId
+    ? await query.eq('id', workflowId).single()
+    : await query.eq('is_default', true).single();
+
+  if (error) throw error;
+  if (!data) throw new Error('Workflow not found');
+
+  return {
+    ...data,
+    steps: (data.steps || [])
+      .map((step: WorkflowStep) => ({
+        ...step,
+        sla_hours: step.sla_hours === null ? null : Number(step.sla_hours)
+      }))
+      .sort((a: WorkflowStep, b: WorkflowStep) => a.position - b.position)
+  };
+};
+
+// Workflows rarely change, so each is fetched once per page load
+export const getWorkflowDefinition = (workflowId?: string | null): Promise<WorkflowDefinition> => {
+  const key = workflowId || 'default';
+  let definition = definitionCache.get(key);
+  if (!definition) {
+    definition = fetchWorkflowDefinition(workflowId).catch(error => {
+      definitionCache.delete(key);
+      console.error('Error fetching workflow:', error);
+      throw error;
+    });
+    definitionCache.set(key, definition);
+  }
+  return definition;
+};
+
+export const getWorkflowDefinitions = async (): Promise<WorkflowDefinition[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('workflow_definitions')
+      .select('id')
+      .order('is_default', { ascending: false })
+      .order('name');
+
+    if (error) throw error;
+    return Promise.all((data || []).map(({ id }: { id: string }) => fetchWorkflowDefinition(id)));
+  } catch (error) {
+    console.error('Error fetching workflows:', error);
+    throw error;
+  }
+};
+
+export const saveWorkflowSteps = async (workflowId: string, steps: WorkflowStep[]): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('save_workflow_steps', {
+      p_workflow_id: workflowId,
+      p_steps: steps.map((step, index) => ({
+        id: step.id,
+        label: step.label,
+        position: index + 1,
+        required_roles: step.required_roles,
+        skip_when: step.skip_when,
+        sla_hours: step.sla_hours
+      }))
+    });
+
+    if (error) throw error;
+    definitionCache.clear();
+  } catch (error) {
+    console.error('Error saving workflow steps:', error);
+    throw error;
+  }
+};
+
+// The database checks the steps ahead are done and the staff member's role
+export const completeWorkflowStep = async (
+  callId: string,
+  step: string
+): Promise<Record<string, string>> => {
+  try {
+    const { data, error } = await supabase.rpc('complete_workflow_step', {
+      p_call_id: callId,
+      p_step: step
+    });
+
+    // Keep the database's reason, e.g. which step has to be done first
+    if (error) throw new Error(error.message);
+    return data;
+  } catch (error) {
+    console.error('Error completing workflow step:', error);
+    throw error;
+  }
+};
+
+// Skipped steps count as done
+export const isStepDone = (status: string | undefined): boolean =>
+  status === 'completed' || status === 'skipped';
 
+export const getCurrentStep = (status: Record<string, any>, steps: string[]): string => {
   // Find the first step that is in_progress
-  const inProgressStep = workflowOrder.find(step => status[step] === 'in_progress');
+  const inProgressStep = steps.find(step => status[step] === 'in_progress');
   if (inProgressStep) return inProgressStep;
 
   // If no step is in_progress, find the first pending step
-  const pendingStep = workflowOrder.find(step => status[step] === 'pending');
+  const pendingStep = steps.find(step => status[step] === 'pending');
   if (pendingStep) return pendingStep;
 
-  // If all steps are completed, return the last step
-  if (workflowOrder.every(step => status[step] === 'completed')) {
-    return workflowOrder[workflowOrder.length - 1];
+  // If all steps are done, return the last step
+  if (steps.every(step => isStepDone(status[step]))) {
+    return steps[steps.length - 1];
   }
 
   // Default to first step
-  return workflowOrder[0];
+  return steps[0];
 };
 
-export const getRelevantWorkflowSteps = (status: Record<string, string>): string[] => {
-  const workflowOrder = [
-    'video_call',
-    'quotation', 
-    'profiling',
-    'payment',
-    'qc',
-    'packaging',
-    'dispatch'
-  ];
-
+export const getRelevantWorkflowSteps = (status: Record<string, string>, steps: string[]): string[] => {
   // Find the current active step
-  let currentStepIndex = workflowOrder.findIndex(step => 
+  const currentStepIndex = steps.findIndex(step =>
     status[step] === 'pending' || status[step] === 'in_progress'
   );
 
   // If no pending/in_progress step found, show all completed steps
   if (currentStepIndex === -1) {
-    return workflowOrder.filter(step => status[step] === 'completed');
+    return steps.filter(step => status[step] === 'completed');
   }
 
   // Get all completed steps plus the current step and next step
-  return workflowOrder.filter((step, index) => {
+  return steps.filter((step, index) => {
     // Include all completed steps
     if (status[step] === 'completed') return true;
-    
+
     // Include current step
     if (index === currentStepIndex) return true;
-    
+
     // Include next step if it exists
     if (index === currentStepIndex + 1) return true;
-    
+
     return false;
   });
 };
@@ -67,22 +158,13 @@ export const getRelevantWorkflowSteps = (status: Record<string, string>): string
 // Helper function to check if a step should be shown
 export const shouldShowWorkflowStep = (
   step: string,
-  status: VideoCall['workflow_status']
+  status: VideoCall['workflow_status'],
+  steps: string[]
 ): boolean => {
   if (!status) return false;
 
-  const workflowOrder = [
-    'video_call',
-    'quotation',
-    'profiling', 
-    'payment',
-    'qc',
-    'packaging',
-    'dispatch'
-  ];
-
-  const stepIndex = workflowOrder.indexOf(step);
-  const currentStepIndex = workflowOrder.findIndex(s => 
+  const stepIndex = steps.indexOf(step);
+  const currentStepIndex = steps.findIndex(s =>
     status[s] === 'pending' || status[s] === 'in_progress'
   );
 
@@ -98,24 +180,21 @@ export const shouldShowWorkflowStep = (
 };
 
 // Get the current active step
-export const getCurrentWorkflowStep = (status: VideoCall['workflow_status']): string => {
-  if (!status) return 'video_call';
-
-  const workflowOrder = [
-    'video_call',
-    'quotation',
-    'profiling',
-    'payment', 
-    'qc',
-    'packaging',
-    'dispatch'
-  ];
-
-  return workflowOrder.find(step => 
+export const getCurrentWorkflowStep = (status: VideoCall['workflow_status'], steps: string[]): string => {
+  if (!status) return steps[0];
+
+  return steps.find(step =>
     status[step] === 'pending' || status[step] === 'in_progress'
   ) || 'completed';
 };
 
+// When the call's current step is due, from its SLA hours
+export const getStepDueAt = (call: VideoCall, step: WorkflowStep): Date | null => {
+  const startedAt = call.workflow_step_started_at || call.updated_at;
+  if (!step.sla_hours || !startedAt) return null;
+  return new Date(new Date(startedAt).getTime() + step.sla_hours * 60 * 60 * 1000);
+};
+
 // Get staff name for workflow step
 export const getStaffName = (assignedStaff: Record<string, any> | undefined, step: string): string | null => {
   if (!assignedStaff) return null;
@@ -127,4 +206,4 @@ export const getStaffName = (assignedStaff: Record<string, any> | undefined, ste
   // Return staff name from history if available
   const historyEntry = assignedStaff.history?.find((h: any) => h.staff_id === staffId && h.step === step);
   return historyEntry?.name || assignedStaff.staff_name || 'Staff Member';
-};
\ No newline at end of file
+};
@@ -0,0 +1,69 @@
+/*
+  # Metal rate pricing
+
+  1. Changes
+    - `products` gets metal, purity and weight columns so pieces can be priced
+      from the day's metal rate instead of a fixed retail price
+    - `pricing_mode` decides whether a product uses its stored prices (`fixed`)
+      or is recomputed at sale time (`metal_rate`)
+
+  2. New Tables
+    - `metal_rates`: one row per metal/purity per day, latest row wins
+
+  3. Functions
+    - `metal_rates_on` returns just the rate in force for each metal/purity
+      on a date, so the app never downloads the whole rate history
+
+  4. Security
+    - RLS enabled, authenticated staff can read and maintain rates
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS metal_type text CHECK (metal_type IN ('gold', 'silver', 'platinum')),
+  ADD COLUMN IF NOT EXISTS purity text,
+  ADD COLUMN IF NOT EXISTS gross_weight numeric(10,3) CHECK (gross_weight >= 0),
+  ADD COLUMN IF NOT EXISTS net_weight numeric(10,3) CHECK (net_weight >= 0),
+  ADD COLUMN IF NOT EXISTS making_charges numeric(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS pricing_mode text NOT NULL DEFAULT 'fixed' CHECK (pricing_mode IN ('fixed', 'metal_rate'));
+
+CREATE TABLE IF NOT EXISTS metal_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  metal text NOT NULL CHECK (metal IN ('gold', 'silver', 'platinum')),
+  purity text NOT NULL,
+  rate_per_gram numeric(12,2) NOT NULL CHECK (rate_per_gram > 0),
+  effective_date date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS metal_rates_lookup_idx
+  ON metal_rates (metal, purity, effective_date DESC, created_at DESC);
+
+ALTER TABLE metal_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read metal rates"
+  ON metal_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can manage metal rates"
+  ON metal_rates FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE metal_rates IS 'Daily metal rates per gram. The latest row per metal/purity on or before a date is the rate in force.';
+
+CREATE OR REPLACE FUNCTION metal_rates_on(p_date date DEFAULT CURRENT_DATE)
+RETURNS SETOF metal_rates
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (metal, purity) *
+  FROM metal_rates
+  WHERE effective_date <= p_date
+  ORDER BY metal, purity, effective_date DESC, created_at DESC;
+$$;
+
+REVOKE ALL ON FUNCTION metal_rates_on(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION metal_rates_on(date) TO authenticated;
@@ -0,0 +1,38 @@
+/*
+  # Making charge and wastage models
+
+  1. Changes
+    - `markup_settings` rows (manufacturers and categories) carry a default
+      making charge model and wastage percentage
+    - `products` store the model resolved for the piece, so a later change to
+      settings does not reprice stock that was already tagged
+    - `products.making_charges` is now the value of the model: rupees per piece,
+      rupees per gram, or percent of metal value depending on `making_charge_type`
+
+  2. Functions
+    - `get_markup_settings` recreated to return the new columns
+*/
+
+ALTER TABLE markup_settings
+  ADD COLUMN IF NOT EXISTS making_charge_type text NOT NULL DEFAULT 'per_piece' CHECK (making_charge_type IN ('per_gram', 'per_piece', 'percent')),
+  ADD COLUMN IF NOT EXISTS making_charge_value numeric(12,2) NOT NULL DEFAULT 0 CHECK (making_charge_value >= 0),
+  ADD COLUMN IF NOT EXISTS wastage_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (wastage_percent >= 0 AND wastage_percent <= 100);
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS making_charge_type text NOT NULL DEFAULT 'per_piece' CHECK (making_charge_type IN ('per_gram', 'per_piece', 'percent')),
+  ADD COLUMN IF NOT EXISTS wastage_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (wastage_percent >= 0 AND wastage_percent <= 100);
+
+DROP FUNCTION IF EXISTS get_markup_settings();
+
+CREATE FUNCTION get_markup_settings()
+RETURNS SETOF markup_settings
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM markup_settings ORDER BY type, name;
+$$;
+
+REVOKE ALL ON FUNCTION get_markup_settings() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_markup_settings() TO authenticated;
@@ -0,0 +1,19 @@
+/*
+  # Stone components on products
+
+  1. Changes
+    - `products.stones` holds the stones set in a piece as a JSON array of
+      { id, stoneType, count, caratWeight, clarity, colour, certificateNumber, ratePerCarat }
+    - Stone value (carats × rate per carat) is added to the metal value when
+      the piece is priced from the daily metal rate
+    - GIN index so certificate numbers can be looked up directly
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS stones jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(stones) = 'array');
+
+CREATE INDEX IF NOT EXISTS products_stones_idx
+  ON products USING gin (stones jsonb_path_ops);
+
+COMMENT ON COLUMN products.stones IS 'Stone and diamond components: stoneType, count, caratWeight, clarity, colour, certificateNumber, ratePerCarat';
@@ -0,0 +1,23 @@
+/*
+  # BIS hallmark HUIDs
+
+  1. Changes
+    - `products.huids` lists the 6-character HUID of each hallmarked piece in
+      stock; sold HUIDs are removed when the sale completes
+    - `markup_settings.hallmark_required` marks categories (gold jewellery)
+      whose pieces cannot be saved without one HUID per piece in stock
+    - GIN index so a scanned HUID resolves to its product
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS huids text[] NOT NULL DEFAULT '{}'
+  CHECK (array_to_string(huids, ',') ~ '^([A-Z0-9]{6}(,|$))*$');
+
+CREATE INDEX IF NOT EXISTS products_huids_idx
+  ON products USING gin (huids);
+
+ALTER TABLE markup_settings
+  ADD COLUMN IF NOT EXISTS hallmark_required boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN products.huids IS 'BIS Hallmark Unique IDs of the pieces in stock, one per piece';
+COMMENT ON COLUMN markup_settings.hallmark_required IS 'Category pieces must carry a HUID for every piece in stock';
@@ -0,0 +1,165 @@
+/*
+  # Per-piece serialized inventory
+
+  1. New Tables
+    - `product_pieces`: one row per physical piece under a product, with its
+      own serial (printed on its label), HUID, weights, location and status
+
+  2. Changes
+    - `products.stock_level` and `products.huids` are now derived from the
+      pieces in stock and kept in sync by trigger; write pieces, not counters
+    - Existing stock is backfilled as pieces `<sku>-P001`, `<sku>-P002`, ...
+      taking HUIDs in the order they were entered
+
+  3. Functions
+    - `create_product_with_pieces` adds a product and one piece per unit in
+      stock in one transaction, so a product is never left without pieces
+
+  4. Security
+    - RLS enabled, authenticated staff can read and maintain pieces
+*/
+
+CREATE TABLE IF NOT EXISTS product_pieces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  serial text NOT NULL UNIQUE,
+  huid text UNIQUE CHECK (huid ~ '^[A-Z0-9]{6}$'),
+  gross_weight numeric(10,3) CHECK (gross_weight >= 0),
+  net_weight numeric(10,3) CHECK (net_weight >= 0),
+  location text,
+  status text NOT NULL DEFAULT 'in_stock'
+    CHECK (status IN ('in_stock', 'on_approval', 'sold', 'in_repair')),
+  quotation_id uuid REFERENCES quotations(id),
+  sold_at timestamptz,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_pieces_product_idx
+  ON product_pieces (product_id, status);
+
+ALTER TABLE product_pieces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read product pieces"
+  ON product_pieces FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can manage product pieces"
+  ON product_pieces FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Keep the product counters in step with its pieces
+CREATE OR REPLACE FUNCTION refresh_product_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_ids uuid[];
+BEGIN
+  v_product_ids := ARRAY(
+    SELECT DISTINCT unnest(ARRAY[
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.product_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.product_id END
+    ])
+  );
+
+  UPDATE products p
+  SET
+    stock_level = (
+      SELECT count(*) FROM product_pieces pp
+      WHERE pp.product_id = p.id AND pp.status = 'in_stock'
+    ),
+    huids = ARRAY(
+      SELECT pp.huid FROM product_pieces pp
+      WHERE pp.product_id = p.id AND pp.status = 'in_stock' AND pp.huid IS NOT NULL
+      ORDER BY pp.serial
+    )
+  WHERE p.id = ANY(v_product_ids);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION touch_product_piece()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER product_pieces_touch
+  BEFORE UPDATE ON product_pieces
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_product_piece();
+
+CREATE TRIGGER product_pieces_refresh_stock
+  AFTER INSERT OR UPDATE OR DELETE ON product_pieces
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_product_stock();
+
+-- Backfill existing stock as pieces
+INSERT INTO product_pieces (product_id, serial, huid, gross_weight, net_weight, status)
+SELECT
+  p.id,
+  p.sku || '-P' || lpad(n::text, 3, '0'),
+  p.huids[n],
+  p.gross_weight,
+  p.net_weight,
+  'in_stock'
+FROM products p
+CROSS JOIN LATERAL generate_series(1, GREATEST(p.stock_level, 0)) AS n
+ON CONFLICT (serial) DO NOTHING;
+
+-- p_product: products columns to set; the rest take their defaults
+CREATE OR REPLACE FUNCTION create_product_with_pieces(p_product jsonb, p_huids text[] DEFAULT '{}')
+RETURNS products
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_columns text;
+  v_product products%ROWTYPE;
+BEGIN
+  SELECT string_agg(quote_ident(a.attname), ', ') INTO v_columns
+  FROM pg_attribute a
+  WHERE a.attrelid = 'products'::regclass
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+    AND p_product ? a.attname;
+
+  IF v_columns IS NULL THEN
+    RAISE EXCEPTION 'Product has no details to save';
+  END IF;
+
+  EXECUTE format(
+    'INSERT INTO products (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::products, $1) RETURNING *',
+    v_columns
+  )
+  INTO v_product
+  USING p_product;
+
+  INSERT INTO product_pieces (product_id, serial, huid, gross_weight, net_weight, status)
+  SELECT
+    v_product.id,
+    v_product.sku || '-P' || lpad(n::text, 3, '0'),
+    NULLIF(p_huids[n], ''),
+    v_product.gross_weight,
+    v_product.net_weight,
+    'in_stock'
+  FROM generate_series(1, GREATEST(COALESCE((p_product->>'stock_level')::integer, 0), 0)) AS n;
+
+  SELECT * INTO v_product FROM products WHERE id = v_product.id;
+  RETURN v_product;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_product_with_pieces(jsonb, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_product_with_pieces(jsonb, text[]) TO authenticated;
+
+COMMENT ON TABLE product_pieces IS 'Physical pieces of a product. products.stock_level and products.huids are derived from the in-stock pieces.';
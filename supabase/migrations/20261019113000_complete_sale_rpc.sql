@@ -0,0 +1,184 @@
+/*
+  # Atomic sale completion
+
+  1. Changes
+    - `sales.idempotency_key`: one key per checkout attempt; retrying with the
+      same key returns the sale already recorded instead of creating another
+    - `complete_sale(p_idempotency_key, p_sale)` records the quotation, video
+      call and customer updates, sells the pieces and writes the sale row in
+      one transaction. Any failure raises and rolls everything back.
+
+  2. Piece allocation
+    - Scanned pieces first, then pieces carrying the HUIDs printed on the bill,
+      then the oldest in stock. Pieces are locked while they are allocated.
+*/
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS sales_idempotency_key_idx
+  ON sales (idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION complete_sale(p_idempotency_key text, p_sale jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_quotation jsonb := p_sale->'quotation_data';
+  v_payment jsonb := p_sale->'payment_details';
+  v_customer_id uuid := NULLIF(p_sale->>'customer_id', '')::uuid;
+  v_video_call_id uuid := NULLIF(p_sale->>'video_call_id', '')::uuid;
+  v_hand_carry boolean := COALESCE(v_quotation->>'delivery_method', 'hand_carry') = 'hand_carry';
+  v_paid boolean := v_payment->>'payment_status' = 'completed';
+  v_total numeric := (v_quotation->>'total_amount')::numeric;
+  v_now timestamptz := now();
+  v_existing sales%ROWTYPE;
+  v_quotation_id uuid;
+  v_sale_id uuid;
+  v_item jsonb;
+  v_quantity integer;
+  v_piece_ids uuid[];
+BEGIN
+  IF COALESCE(p_idempotency_key, '') = '' THEN
+    RAISE EXCEPTION 'Sale is missing its idempotency key';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(v_quotation->'items', '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item before completing the sale';
+  END IF;
+
+  -- Concurrent retries of the same checkout wait here, then see the first sale
+  PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key));
+
+  SELECT * INTO v_existing FROM sales WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'sale_id', v_existing.id,
+      'quotation_id', v_existing.quotation_id,
+      'duplicate', true
+    );
+  END IF;
+
+  INSERT INTO quotations (
+    customer_id, video_call_id, items, total_amount, status, payment_details,
+    workflow_status, quotation_number, valid_until, bill_status,
+    bill_generated_at, bill_paid_at
+  )
+  VALUES (
+    v_customer_id,
+    v_video_call_id,
+    v_quotation->'items',
+    v_total,
+    'accepted',
+    v_payment,
+    jsonb_build_object(
+      'qc', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+      'packaging', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+      'dispatch', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END
+    ),
+    v_quotation->>'quotation_number',
+    v_now + interval '7 days',
+    CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+    v_now,
+    CASE WHEN v_paid THEN v_now END
+  )
+  RETURNING id INTO v_quotation_id;
+
+  IF v_video_call_id IS NOT NULL THEN
+    UPDATE video_calls
+    SET
+      quotation_id = v_quotation_id,
+      quotation_required = true,
+      workflow_status = jsonb_build_object(
+        'video_call', 'completed',
+        'quotation', 'completed',
+        'profiling', 'pending',
+        'payment', CASE WHEN v_paid THEN 'completed' ELSE 'pending' END,
+        'qc', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+        'packaging', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+        'dispatch', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END
+      ),
+      bill_status = CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+      bill_amount = v_total,
+      bill_generated_at = v_now,
+      bill_paid_at = CASE WHEN v_paid THEN v_now END
+    WHERE id = v_video_call_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Video call % not found', v_video_call_id;
+    END IF;
+  END IF;
+
+  IF v_customer_id IS NOT NULL THEN
+    UPDATE customers
+    SET
+      total_purchases = COALESCE(total_purchases, 0) + v_total,
+      last_purchase_date = v_now
+    WHERE id = v_customer_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', v_customer_id;
+    END IF;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_quotation->'items')
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT array_agg(id) INTO v_piece_ids
+    FROM (
+      SELECT pp.id
+      FROM product_pieces pp
+      WHERE pp.product_id = (v_item->>'product_id')::uuid
+        AND pp.status = 'in_stock'
+      ORDER BY
+        pp.id::text IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'pieceIds', '[]'::jsonb))) DESC,
+        COALESCE(pp.huid IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'huids', '[]'::jsonb))), false) DESC,
+        pp.serial
+      LIMIT v_quantity
+      FOR UPDATE
+    ) picked;
+
+    IF COALESCE(array_length(v_piece_ids, 1), 0) < v_quantity THEN
+      RAISE EXCEPTION 'Only % of % pieces of % are in stock',
+        COALESCE(array_length(v_piece_ids, 1), 0),
+        v_quantity,
+        COALESCE(v_item->'product'->>'sku', v_item->>'product_id');
+    END IF;
+
+    UPDATE product_pieces
+    SET status = 'sold', quotation_id = v_quotation_id, sold_at = v_now
+    WHERE id = ANY(v_piece_ids);
+
+    UPDATE products
+    SET last_sold_at = v_now
+    WHERE id = (v_item->>'product_id')::uuid;
+  END LOOP;
+
+  INSERT INTO sales (
+    sale_type, customer_id, video_call_id, quotation_id, sale_number,
+    total_amount, payment_status, payment_details, idempotency_key
+  )
+  VALUES (
+    p_sale->>'sale_type',
+    v_customer_id,
+    v_video_call_id,
+    v_quotation_id,
+    v_quotation->>'quotation_number',
+    v_total,
+    CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+    v_payment,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_sale_id;
+
+  RETURN jsonb_build_object(
+    'sale_id', v_sale_id,
+    'quotation_id', v_quotation_id,
+    'duplicate', false
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION complete_sale(text, jsonb) TO authenticated;
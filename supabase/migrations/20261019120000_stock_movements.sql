@@ -0,0 +1,184 @@
+/*
+  # Stock movement ledger
+
+  1. New Tables
+    - `stock_movements`: append-only history of every change to the pieces of
+      a product: purchase inward, sale, return, adjustment, transfer, damage.
+      Each row carries the staff member, the reference document and the
+      change to in-stock quantity (+1, -1, or 0 for moves between locations)
+
+  2. Recording
+    - Movements are written by trigger whenever a piece is added, removed,
+      changes status or changes location, so no stock change goes unlogged
+    - The movement type is derived from the change; server-side functions can
+      override it and attach a reference for the current transaction with
+      `app.stock_movement_type`, `app.stock_reference_type`,
+      `app.stock_reference_id` and `app.stock_movement_notes`
+    - Sales reference the quotation the pieces were sold on
+
+  3. Reconciliation
+    - `stock_ledger_reconciliation` compares each product's stock level with
+      the sum of its ledger; existing stock is opened with an opening balance
+
+  4. Changes
+    - Pieces can be marked `damaged`
+
+  5. Security
+    - RLS enabled, authenticated staff can read. There is no insert policy:
+      rows are only written by the trigger on `product_pieces`, and cannot
+      be updated or deleted
+*/
+
+ALTER TABLE product_pieces DROP CONSTRAINT IF EXISTS product_pieces_status_check;
+ALTER TABLE product_pieces ADD CONSTRAINT product_pieces_status_check
+  CHECK (status IN ('in_stock', 'on_approval', 'sold', 'in_repair', 'damaged'));
+
+-- No foreign keys: history outlives deleted products and pieces
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL,
+  piece_id uuid,
+  serial text,
+  movement_type text NOT NULL
+    CHECK (movement_type IN ('purchase', 'sale', 'return', 'adjustment', 'transfer', 'damage')),
+  quantity integer NOT NULL,
+  from_status text,
+  to_status text,
+  from_location text,
+  to_location text,
+  reference_type text,
+  reference_id text,
+  notes text,
+  staff_id uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_movements_product_idx
+  ON stock_movements (product_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS stock_movements_reference_idx
+  ON stock_movements (reference_type, reference_id);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read stock movements"
+  ON stock_movements FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION prevent_stock_movement_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Stock movements are append-only; record a correcting movement instead';
+END;
+$$;
+
+CREATE TRIGGER stock_movements_append_only
+  BEFORE UPDATE OR DELETE ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_stock_movement_change();
+
+-- Runs as its owner: staff have no insert policy on the ledger, so rows
+-- only come from here
+CREATE OR REPLACE FUNCTION log_piece_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := NULLIF(current_setting('app.stock_movement_type', true), '');
+  v_reference_type text := NULLIF(current_setting('app.stock_reference_type', true), '');
+  v_reference_id text := NULLIF(current_setting('app.stock_reference_id', true), '');
+  v_notes text := NULLIF(current_setting('app.stock_movement_notes', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO stock_movements (
+      product_id, piece_id, serial, movement_type, quantity, to_status,
+      to_location, reference_type, reference_id, notes
+    )
+    VALUES (
+      NEW.product_id, NEW.id, NEW.serial, COALESCE(v_type, 'purchase'),
+      CASE WHEN NEW.status = 'in_stock' THEN 1 ELSE 0 END,
+      NEW.status, NEW.location, v_reference_type, v_reference_id, v_notes
+    );
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO stock_movements (
+      product_id, piece_id, serial, movement_type, quantity, from_status,
+      from_location, reference_type, reference_id, notes
+    )
+    VALUES (
+      OLD.product_id, OLD.id, OLD.serial, COALESCE(v_type, 'adjustment'),
+      CASE WHEN OLD.status = 'in_stock' THEN -1 ELSE 0 END,
+      OLD.status, OLD.location, v_reference_type, v_reference_id,
+      COALESCE(v_notes, 'Piece removed')
+    );
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO stock_movements (
+      product_id, piece_id, serial, movement_type, quantity, from_status,
+      to_status, from_location, to_location, reference_type, reference_id, notes
+    )
+    VALUES (
+      NEW.product_id, NEW.id, NEW.serial,
+      COALESCE(v_type, CASE
+        WHEN NEW.status = 'sold' THEN 'sale'
+        WHEN OLD.status = 'sold' THEN 'return'
+        WHEN NEW.status = 'damaged' THEN 'damage'
+        ELSE 'adjustment'
+      END),
+      (NEW.status = 'in_stock')::integer - (OLD.status = 'in_stock')::integer,
+      OLD.status, NEW.status, OLD.location, NEW.location,
+      COALESCE(v_reference_type, CASE WHEN NEW.status = 'sold' THEN 'quotation' END),
+      COALESCE(v_reference_id, CASE WHEN NEW.status = 'sold' THEN NEW.quotation_id::text END),
+      v_notes
+    );
+  ELSIF NEW.location IS DISTINCT FROM OLD.location THEN
+    INSERT INTO stock_movements (
+      product_id, piece_id, serial, movement_type, quantity, from_status,
+      to_status, from_location, to_location, reference_type, reference_id, notes
+    )
+    VALUES (
+      NEW.product_id, NEW.id, NEW.serial, COALESCE(v_type, 'transfer'), 0,
+      OLD.status, NEW.status, OLD.location, NEW.location,
+      v_reference_type, v_reference_id, v_notes
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER product_pieces_log_movement
+  AFTER INSERT OR UPDATE OR DELETE ON product_pieces
+  FOR EACH ROW
+  EXECUTE FUNCTION log_piece_movement();
+
+-- Open the ledger with the stock already on hand
+INSERT INTO stock_movements (product_id, movement_type, quantity, notes, staff_id)
+SELECT product_id, 'adjustment', count(*), 'Opening balance', NULL
+FROM product_pieces
+WHERE status = 'in_stock'
+GROUP BY product_id;
+
+CREATE OR REPLACE VIEW stock_ledger_reconciliation
+  WITH (security_invoker = true) AS
+SELECT
+  p.id AS product_id,
+  p.sku,
+  p.name,
+  p.stock_level,
+  COALESCE(sum(sm.quantity), 0)::integer AS ledger_balance,
+  p.stock_level - COALESCE(sum(sm.quantity), 0)::integer AS difference
+FROM products p
+LEFT JOIN stock_movements sm ON sm.product_id = p.id
+GROUP BY p.id, p.sku, p.name, p.stock_level;
+
+COMMENT ON TABLE stock_movements IS 'Append-only stock ledger, written by trigger from product_pieces.';
@@ -0,0 +1,125 @@
+/*
+  # Stock-take sessions
+
+  1. New Tables
+    - `stock_takes`: a physical count of a tray, counter or the whole shop,
+      optionally limited to a location, category and/or manufacturer
+    - `stock_take_scans`: each piece scanned during a count, once per session
+
+  2. Approval
+    - `approve_stock_take(p_stock_take_id)` adjusts stock to the count:
+      in-scope pieces that were not scanned are marked `missing`, and scanned
+      pieces that were `missing` are returned to stock. The movements are
+      recorded as adjustments referencing the stock take.
+
+  3. Changes
+    - Pieces can be marked `missing`
+
+  4. Security
+    - RLS enabled, authenticated staff can run counts
+*/
+
+ALTER TABLE product_pieces DROP CONSTRAINT IF EXISTS product_pieces_status_check;
+ALTER TABLE product_pieces ADD CONSTRAINT product_pieces_status_check
+  CHECK (status IN ('in_stock', 'on_approval', 'sold', 'in_repair', 'damaged', 'missing'));
+
+CREATE TABLE IF NOT EXISTS stock_takes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  location text,
+  category text,
+  manufacturer text,
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'approved', 'cancelled')),
+  started_by uuid DEFAULT auth.uid(),
+  approved_by uuid,
+  approved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_take_scans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_id uuid NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+  piece_id uuid NOT NULL REFERENCES product_pieces(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  scanned_by uuid DEFAULT auth.uid(),
+  scanned_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (stock_take_id, piece_id)
+);
+
+ALTER TABLE stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_scans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage stock takes"
+  ON stock_takes FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can manage stock take scans"
+  ON stock_take_scans FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION approve_stock_take(p_stock_take_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_take stock_takes%ROWTYPE;
+  v_missing integer;
+  v_found integer;
+BEGIN
+  SELECT * INTO v_take FROM stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take % not found', p_stock_take_id;
+  END IF;
+
+  IF v_take.status <> 'open' THEN
+    RAISE EXCEPTION 'Stock take "%" is already %', v_take.name, v_take.status;
+  END IF;
+
+  -- Attach the stock take to the ledger entries written below
+  PERFORM set_config('app.stock_movement_type', 'adjustment', true);
+  PERFORM set_config('app.stock_reference_type', 'stock_take', true);
+  PERFORM set_config('app.stock_reference_id', v_take.id::text, true);
+  PERFORM set_config('app.stock_movement_notes', 'Stock take: ' || v_take.name, true);
+
+  UPDATE product_pieces pp
+  SET status = 'missing'
+  FROM products p
+  WHERE p.id = pp.product_id
+    AND pp.status = 'in_stock'
+    AND (v_take.location IS NULL OR pp.location = v_take.location)
+    AND (v_take.category IS NULL OR p.category = v_take.category)
+    AND (v_take.manufacturer IS NULL OR p.manufacturer = v_take.manufacturer)
+    AND NOT EXISTS (
+      SELECT 1 FROM stock_take_scans s
+      WHERE s.stock_take_id = v_take.id AND s.piece_id = pp.id
+    );
+  GET DIAGNOSTICS v_missing = ROW_COUNT;
+
+  UPDATE product_pieces pp
+  SET status = 'in_stock'
+  FROM stock_take_scans s
+  WHERE s.stock_take_id = v_take.id
+    AND s.piece_id = pp.id
+    AND pp.status = 'missing';
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+
+  PERFORM set_config('app.stock_movement_type', '', true);
+  PERFORM set_config('app.stock_reference_type', '', true);
+  PERFORM set_config('app.stock_reference_id', '', true);
+  PERFORM set_config('app.stock_movement_notes', '', true);
+
+  UPDATE stock_takes
+  SET status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = v_take.id;
+
+  RETURN jsonb_build_object('missing', v_missing, 'found', v_found);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION approve_stock_take(uuid) TO authenticated;
@@ -0,0 +1,281 @@
+/*
+  # Purchase orders and goods receipts
+
+  1. New Tables
+    - `purchase_orders`: orders placed with a manufacturer (a `markup_settings`
+      manufacturer, referenced by name like products are)
+    - `purchase_order_lines`: what was ordered per category, with quantity
+      ordered and received so far
+    - `goods_receipts` (GRN): one delivery against an order, with the
+      supplier's invoice and the landed-cost charges (freight, insurance, other)
+    - `goods_receipt_lines`: the product created for each line received
+
+  2. Changes
+    - `products.landed_cost`: unit cost including the share of landed charges
+
+  3. Receiving
+    - `receive_goods(p_purchase_order_id, p_receipt)` records the receipt,
+      creates a product per line with one piece per unit, and updates the
+      order's received quantities and status in one transaction. Pieces are
+      logged in the stock ledger as purchases referencing the receipt.
+
+  4. Security
+    - RLS enabled, authenticated staff can manage orders and receipts
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS landed_cost numeric(12,2) CHECK (landed_cost >= 0);
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number text NOT NULL UNIQUE,
+  manufacturer text NOT NULL,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  order_date date NOT NULL DEFAULT CURRENT_DATE,
+  expected_date date,
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS purchase_orders_manufacturer_idx
+  ON purchase_orders (manufacturer, status);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  description text,
+  metal_type text CHECK (metal_type IN ('gold', 'silver', 'platinum')),
+  purity text,
+  net_weight numeric(10,3) CHECK (net_weight >= 0),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  received_quantity integer NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  unit_cost numeric(12,2) NOT NULL CHECK (unit_cost >= 0),
+  CHECK (received_quantity <= quantity)
+);
+
+CREATE TABLE IF NOT EXISTS goods_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_number text NOT NULL UNIQUE,
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id),
+  supplier_invoice_number text,
+  freight numeric(12,2) NOT NULL DEFAULT 0 CHECK (freight >= 0),
+  insurance numeric(12,2) NOT NULL DEFAULT 0 CHECK (insurance >= 0),
+  other_charges numeric(12,2) NOT NULL DEFAULT 0 CHECK (other_charges >= 0),
+  notes text,
+  received_by uuid DEFAULT auth.uid(),
+  received_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS goods_receipt_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  goods_receipt_id uuid NOT NULL REFERENCES goods_receipts(id) ON DELETE CASCADE,
+  purchase_order_line_id uuid NOT NULL REFERENCES purchase_order_lines(id),
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_cost numeric(12,2) NOT NULL CHECK (unit_cost >= 0),
+  landed_unit_cost numeric(12,2) NOT NULL CHECK (landed_unit_cost >= 0)
+);
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goods_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goods_receipt_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage purchase orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can manage purchase order lines"
+  ON purchase_order_lines FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can manage goods receipts"
+  ON goods_receipts FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can manage goods receipt lines"
+  ON goods_receipt_lines FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION touch_purchase_order()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER purchase_orders_touch
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_purchase_order();
+
+CREATE OR REPLACE FUNCTION receive_goods(p_purchase_order_id uuid, p_receipt jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_order_line purchase_order_lines%ROWTYPE;
+  v_receipt_id uuid;
+  v_line jsonb;
+  v_product jsonb;
+  v_product_id uuid;
+  v_product_ids uuid[] := '{}';
+  v_quantity integer;
+  v_huids text[];
+BEGIN
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is %; only placed orders can be received', v_order.po_number, v_order.status;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_receipt->'lines', '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Receive at least one line';
+  END IF;
+
+  INSERT INTO goods_receipts (
+    grn_number, purchase_order_id, supplier_invoice_number, freight,
+    insurance, other_charges, notes
+  )
+  VALUES (
+    p_receipt->>'grn_number',
+    v_order.id,
+    NULLIF(p_receipt->>'supplier_invoice_number', ''),
+    COALESCE((p_receipt->>'freight')::numeric, 0),
+    COALESCE((p_receipt->>'insurance')::numeric, 0),
+    COALESCE((p_receipt->>'other_charges')::numeric, 0),
+    NULLIF(p_receipt->>'notes', '')
+  )
+  RETURNING id INTO v_receipt_id;
+
+  -- Pieces created below are logged as purchases against this receipt
+  PERFORM set_config('app.stock_movement_type', 'purchase', true);
+  PERFORM set_config('app.stock_reference_type', 'goods_receipt', true);
+  PERFORM set_config('app.stock_reference_id', v_receipt_id::text, true);
+  PERFORM set_config('app.stock_movement_notes', 'GRN ' || (p_receipt->>'grn_number') || ' / ' || v_order.po_number, true);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_receipt->'lines')
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    v_product := v_line->'product';
+
+    SELECT * INTO v_order_line
+    FROM purchase_order_lines
+    WHERE id = (v_line->>'purchase_order_line_id')::uuid
+      AND purchase_order_id = v_order.id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on purchase order %', v_line->>'purchase_order_line_id', v_order.po_number;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity received must be greater than 0';
+    END IF;
+
+    IF v_order_line.received_quantity + v_quantity > v_order_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % % are still due on %',
+        v_order_line.quantity - v_order_line.received_quantity,
+        v_order_line.quantity,
+        v_order_line.category,
+        v_order.po_number;
+    END IF;
+
+    INSERT INTO products (
+      name, description, manufacturer, category, buy_price, wholesale_price,
+      retail_price, landed_cost, stock_level, metal_type, purity, gross_weight,
+      net_weight, sku, qr_code, code128, cipher
+    )
+    VALUES (
+      NULLIF(v_product->>'name', ''),
+      COALESCE(v_product->>'description', ''),
+      v_order.manufacturer,
+      v_order_line.category,
+      (v_line->>'unit_cost')::numeric,
+      (v_product->>'wholesale_price')::numeric,
+      (v_product->>'retail_price')::numeric,
+      (v_line->>'landed_unit_cost')::numeric,
+      0,
+      v_order_line.metal_type,
+      v_order_line.purity,
+      NULLIF(v_product->>'gross_weight', '')::numeric,
+      NULLIF(v_product->>'net_weight', '')::numeric,
+      v_product->>'sku',
+      v_product->>'qr_code',
+      v_product->>'code128',
+      v_product->>'cipher'
+    )
+    RETURNING id INTO v_product_id;
+
+    v_huids := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_line->'huids', '[]'::jsonb)));
+
+    INSERT INTO product_pieces (product_id, serial, huid, gross_weight, net_weight, status)
+    SELECT
+      v_product_id,
+      (v_product->>'sku') || '-P' || lpad(n::text, 3, '0'),
+      v_huids[n],
+      NULLIF(v_product->>'gross_weight', '')::numeric,
+      NULLIF(v_product->>'net_weight', '')::numeric,
+      'in_stock'
+    FROM generate_series(1, v_quantity) AS n;
+
+    INSERT INTO goods_receipt_lines (
+      goods_receipt_id, purchase_order_line_id, product_id, quantity,
+      unit_cost, landed_unit_cost
+    )
+    VALUES (
+      v_receipt_id,
+      v_order_line.id,
+      v_product_id,
+      v_quantity,
+      (v_line->>'unit_cost')::numeric,
+      (v_line->>'landed_unit_cost')::numeric
+    );
+
+    UPDATE purchase_order_lines
+    SET received_quantity = received_quantity + v_quantity
+    WHERE id = v_order_line.id;
+
+    v_product_ids := v_product_ids || v_product_id;
+  END LOOP;
+
+  PERFORM set_config('app.stock_movement_type', '', true);
+  PERFORM set_config('app.stock_reference_type', '', true);
+  PERFORM set_config('app.stock_reference_id', '', true);
+  PERFORM set_config('app.stock_movement_notes', '', true);
+
+  UPDATE purchase_orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = v_order.id AND received_quantity < quantity
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END
+  WHERE id = v_order.id;
+
+  RETURN jsonb_build_object('goods_receipt_id', v_receipt_id, 'product_ids', to_jsonb(v_product_ids));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_goods(uuid, jsonb) TO authenticated;
@@ -0,0 +1,115 @@
+/*
+  # Manufacturer payables ledger
+
+  1. New Tables
+    - `manufacturer_ledger`: what we owe each manufacturer. Purchase bills
+      raise the balance; payments and credit notes reduce it. Metal issued to
+      a manufacturer and metal returned by them are tracked by weight in the
+      same ledger, so the statement shows both the rupee and metal position.
+
+  2. Changes
+    - `markup_settings.payment_terms_days`: credit days for a manufacturer,
+      used to date purchase bills due
+    - Each goods receipt posts a purchase bill for the goods received at
+      their order cost
+
+  3. Security
+    - RLS enabled, authenticated staff can read and post entries. Entries are
+      not edited; mistakes are reversed with a credit note or a correcting entry.
+*/
+
+ALTER TABLE markup_settings
+  ADD COLUMN IF NOT EXISTS payment_terms_days integer NOT NULL DEFAULT 30 CHECK (payment_terms_days >= 0);
+
+CREATE TABLE IF NOT EXISTS manufacturer_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  manufacturer text NOT NULL,
+  entry_type text NOT NULL
+    CHECK (entry_type IN ('opening_balance', 'purchase_bill', 'payment', 'credit_note', 'metal_issued', 'metal_returned')),
+  entry_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date,
+  reference text,
+  -- Rupees: positive raises what we owe, negative reduces it
+  amount numeric(14,2) NOT NULL DEFAULT 0,
+  -- Grams of fine metal held by the manufacturer: issued is positive, returned negative
+  metal_type text CHECK (metal_type IN ('gold', 'silver', 'platinum')),
+  purity text,
+  metal_weight numeric(10,3) NOT NULL DEFAULT 0,
+  payment_method text,
+  goods_receipt_id uuid REFERENCES goods_receipts(id),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS manufacturer_ledger_manufacturer_idx
+  ON manufacturer_ledger (manufacturer, entry_date);
+
+CREATE UNIQUE INDEX IF NOT EXISTS manufacturer_ledger_goods_receipt_idx
+  ON manufacturer_ledger (goods_receipt_id)
+  WHERE goods_receipt_id IS NOT NULL;
+
+ALTER TABLE manufacturer_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read manufacturer ledger"
+  ON manufacturer_ledger FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can post to manufacturer ledger"
+  ON manufacturer_ledger FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- One purchase bill per goods receipt. receive_goods inserts its lines one at
+-- a time, so later lines add to the bill posted by the first.
+CREATE OR REPLACE FUNCTION post_goods_receipt_bill()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO manufacturer_ledger (
+    manufacturer, entry_type, entry_date, due_date, reference, amount,
+    goods_receipt_id, notes
+  )
+  SELECT
+    po.manufacturer,
+    'purchase_bill',
+    gr.received_at::date,
+    gr.received_at::date + COALESCE(ms.payment_terms_days, 30),
+    COALESCE(gr.supplier_invoice_number, gr.grn_number),
+    sum(nl.quantity * nl.unit_cost),
+    gr.id,
+    gr.grn_number || ' / ' || po.po_number
+  FROM new_lines nl
+  JOIN goods_receipts gr ON gr.id = nl.goods_receipt_id
+  JOIN purchase_orders po ON po.id = gr.purchase_order_id
+  LEFT JOIN markup_settings ms ON ms.type = 'manufacturer' AND ms.name = po.manufacturer
+  GROUP BY gr.id, gr.received_at, gr.supplier_invoice_number, gr.grn_number,
+    po.manufacturer, po.po_number, ms.payment_terms_days
+  ON CONFLICT (goods_receipt_id) WHERE goods_receipt_id IS NOT NULL
+  DO UPDATE SET amount = manufacturer_ledger.amount + EXCLUDED.amount;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER goods_receipt_lines_post_bill
+  AFTER INSERT ON goods_receipt_lines
+  REFERENCING NEW TABLE AS new_lines
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION post_goods_receipt_bill();
+
+CREATE OR REPLACE VIEW manufacturer_balances
+  WITH (security_invoker = true) AS
+SELECT
+  manufacturer,
+  sum(amount) AS balance,
+  sum(CASE WHEN metal_type = 'gold' THEN metal_weight ELSE 0 END) AS gold_held,
+  sum(CASE WHEN metal_type = 'silver' THEN metal_weight ELSE 0 END) AS silver_held,
+  sum(CASE WHEN metal_type = 'platinum' THEN metal_weight ELSE 0 END) AS platinum_held,
+  max(entry_date) AS last_entry_date
+FROM manufacturer_ledger
+GROUP BY manufacturer;
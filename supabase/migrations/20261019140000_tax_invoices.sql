@@ -0,0 +1,468 @@
+/*
+  # GST tax invoices
+
+  1. New Tables
+    - `invoice_series`: last invoice number used in each financial year. The
+      row is locked while a number is taken, so numbers are issued in order
+      with no gaps; a sale that rolls back gives its number back.
+    - `tax_invoices`: the invoice as issued. Lines carry the HSN code, taxable
+      value and CGST/SGST or IGST for each item, so the invoice can be
+      reprinted and filed without recalculating it.
+
+  2. Changes
+    - `markup_settings.hsn_code`: HSN code for a category (7113 for jewellery
+      unless set otherwise)
+    - `complete_sale` issues the tax invoice in the same transaction as the
+      sale when `p_sale.tax_invoice` is given, and returns its number
+    - `issue_tax_invoice` checks the invoice from the till against the bill
+      before filing it: each line's quantity and price against the sale
+      items, its taxable value, the CGST/SGST or IGST split at its rate, and
+      the invoice totals against the lines and the sale total
+
+  3. Security
+    - RLS enabled, authenticated staff can read invoices. Invoices and
+      numbers are only written by `complete_sale`, which now runs as its
+      owner so it can call `issue_tax_invoice`; no role can call that
+      directly, and `complete_sale` is for signed-in staff only.
+*/
+
+ALTER TABLE markup_settings
+  ADD COLUMN IF NOT EXISTS hsn_code text;
+
+UPDATE markup_settings
+SET hsn_code = '7113'
+WHERE type = 'category' AND hsn_code IS NULL;
+
+CREATE TABLE IF NOT EXISTS invoice_series (
+  financial_year text PRIMARY KEY,
+  prefix text NOT NULL DEFAULT 'INV',
+  last_number integer NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS tax_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number text NOT NULL UNIQUE,
+  financial_year text NOT NULL REFERENCES invoice_series(financial_year),
+  serial integer NOT NULL,
+  invoice_date date NOT NULL DEFAULT CURRENT_DATE,
+  sale_id uuid NOT NULL UNIQUE REFERENCES sales(id),
+  quotation_id uuid REFERENCES quotations(id),
+  customer_id uuid REFERENCES customers(id),
+  seller_gstin text,
+  seller_state text NOT NULL,
+  buyer_name text,
+  buyer_gstin text,
+  buyer_address text,
+  buyer_state text,
+  place_of_supply text NOT NULL,
+  supply_type text NOT NULL CHECK (supply_type IN ('intra_state', 'inter_state')),
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  taxable_value numeric(14,2) NOT NULL,
+  cgst_amount numeric(14,2) NOT NULL DEFAULT 0,
+  sgst_amount numeric(14,2) NOT NULL DEFAULT 0,
+  igst_amount numeric(14,2) NOT NULL DEFAULT 0,
+  invoice_total numeric(14,2) NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (financial_year, serial)
+);
+
+CREATE INDEX IF NOT EXISTS tax_invoices_invoice_date_idx ON tax_invoices (invoice_date);
+
+ALTER TABLE invoice_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read invoice series"
+  ON invoice_series FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can read tax invoices"
+  ON tax_invoices FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Indian financial year runs April to March, e.g. '2026-27'
+CREATE OR REPLACE FUNCTION financial_year_of(p_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN extract(month FROM p_date) >= 4
+      THEN extract(year FROM p_date)::int || '-' || lpad(((extract(year FROM p_date)::int + 1) % 100)::text, 2, '0')
+    ELSE (extract(year FROM p_date)::int - 1) || '-' || lpad((extract(year FROM p_date)::int % 100)::text, 2, '0')
+  END;
+$$;
+
+-- Takes the next number in the series and writes the invoice. Called from
+-- complete_sale so the number is only used if the sale commits. The lines
+-- come from the till, so each one is checked against the bill before it is
+-- filed: quantity and price against the sale items, taxable value, the
+-- CGST/SGST or IGST split at the line's rate and the totals. A paisa of
+-- rounding is allowed per line.
+CREATE OR REPLACE FUNCTION issue_tax_invoice(
+  p_sale_id uuid,
+  p_quotation_id uuid,
+  p_customer_id uuid,
+  p_invoice jsonb
+)
+RETURNS tax_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_date date := CURRENT_DATE;
+  v_year text := financial_year_of(CURRENT_DATE);
+  v_series invoice_series%ROWTYPE;
+  v_invoice tax_invoices%ROWTYPE;
+  v_supply_type text := p_invoice->>'supply_type';
+  v_lines jsonb := COALESCE(p_invoice->'lines', '[]'::jsonb);
+  v_items jsonb;
+  v_sale_total numeric;
+  v_line jsonb;
+  v_position integer;
+  v_index integer;
+  v_item jsonb;
+  v_quantity numeric;
+  v_gross numeric;
+  v_rate numeric;
+  v_tax numeric;
+  v_discount_share numeric;
+  v_tolerance numeric;
+  v_taxable numeric := 0;
+  v_cgst numeric := 0;
+  v_sgst numeric := 0;
+  v_igst numeric := 0;
+BEGIN
+  SELECT items INTO v_items FROM quotations WHERE id = p_quotation_id;
+  SELECT total_amount INTO v_sale_total FROM sales WHERE id = p_sale_id;
+
+  IF v_supply_type IS DISTINCT FROM 'intra_state' AND v_supply_type IS DISTINCT FROM 'inter_state' THEN
+    RAISE EXCEPTION 'Tax invoice supply type % is not valid', v_supply_type;
+  END IF;
+
+  IF jsonb_typeof(v_lines) <> 'array' OR jsonb_array_length(v_lines) = 0 THEN
+    RAISE EXCEPTION 'Tax invoice has no lines';
+  END IF;
+
+  -- Every bill line needs invoice lines that add up to its price
+  FOR v_index IN 0 .. jsonb_array_length(COALESCE(v_items, '[]'::jsonb)) - 1
+  LOOP
+    v_item := v_items->v_index;
+    IF abs(
+      COALESCE((
+        SELECT sum((l.line->>'unit_price')::numeric)
+        FROM jsonb_array_elements(v_lines) WITH ORDINALITY AS l(line, position)
+        WHERE COALESCE((l.line->>'item_index')::integer, l.position::integer - 1) = v_index
+      ), -1) - (v_item->>'price')::numeric
+    ) > 0.02 THEN
+      RAISE EXCEPTION 'Tax invoice lines for % do not match its price on the bill',
+        COALESCE(v_item->'product'->>'sku', v_item->>'product_id');
+    END IF;
+  END LOOP;
+
+  -- The bill discount is a percentage, so every line carries the same share
+  SELECT sum((line->>'discount')::numeric)
+    / NULLIF(sum((line->>'unit_price')::numeric * (line->>'quantity')::numeric), 0)
+  INTO v_discount_share
+  FROM jsonb_array_elements(v_lines) line;
+
+  FOR v_line, v_position IN
+    SELECT l.line, l.position::integer - 1
+    FROM jsonb_array_elements(v_lines) WITH ORDINALITY AS l(line, position)
+  LOOP
+    v_index := COALESCE((v_line->>'item_index')::integer, v_position);
+    v_item := v_items->v_index;
+    IF v_item IS NULL THEN
+      RAISE EXCEPTION 'Tax invoice line % is not on the bill', v_position + 1;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::numeric;
+    IF v_quantity IS DISTINCT FROM (v_item->>'quantity')::numeric THEN
+      RAISE EXCEPTION 'Tax invoice line % quantity does not match the bill', v_position + 1;
+    END IF;
+
+    v_rate := (v_line->>'gst_rate')::numeric;
+    IF v_rate IS NULL OR v_rate < 0 OR v_rate > 100 THEN
+      RAISE EXCEPTION 'Tax invoice line % has no valid GST rate', v_position + 1;
+    END IF;
+
+    -- Unit prices are rounded on the line, taxable values are not
+    v_tolerance := 0.01 * (v_quantity + 1);
+    v_gross := (v_line->>'unit_price')::numeric * v_quantity;
+    v_tax := (v_line->>'taxable_value')::numeric * v_rate / 100;
+
+    IF abs((v_line->>'discount')::numeric - v_gross * COALESCE(v_discount_share, 0)) > v_tolerance
+      OR abs((v_line->>'taxable_value')::numeric - (v_gross - (v_line->>'discount')::numeric)) > v_tolerance THEN
+      RAISE EXCEPTION 'Tax invoice line % taxable value does not match its price and discount', v_position + 1;
+    END IF;
+
+    IF (v_supply_type = 'intra_state' AND (
+          abs(COALESCE((v_line->>'cgst')::numeric, -1) - v_tax / 2) > 0.01
+          OR abs(COALESCE((v_line->>'sgst')::numeric, -1) - v_tax / 2) > 0.01
+          OR COALESCE((v_line->>'igst')::numeric, 0) <> 0))
+      OR (v_supply_type = 'inter_state' AND (
+          abs(COALESCE((v_line->>'igst')::numeric, -1) - v_tax) > 0.01
+          OR COALESCE((v_line->>'cgst')::numeric, 0) <> 0
+          OR COALESCE((v_line->>'sgst')::numeric, 0) <> 0)) THEN
+      RAISE EXCEPTION 'Tax invoice line % GST does not match its % rate for a % supply',
+        v_position + 1, v_rate || '%', replace(v_supply_type, '_', '-');
+    END IF;
+
+    IF abs((v_line->>'total')::numeric - (v_line->>'taxable_value')::numeric
+      - (v_line->>'cgst')::numeric - (v_line->>'sgst')::numeric - (v_line->>'igst')::numeric) > 0.01 THEN
+      RAISE EXCEPTION 'Tax invoice line % total does not add up', v_position + 1;
+    END IF;
+
+    v_taxable := v_taxable + (v_line->>'taxable_value')::numeric;
+    v_cgst := v_cgst + (v_line->>'cgst')::numeric;
+    v_sgst := v_sgst + (v_line->>'sgst')::numeric;
+    v_igst := v_igst + (v_line->>'igst')::numeric;
+  END LOOP;
+
+  v_tolerance := 0.01 * jsonb_array_length(v_lines);
+  IF abs(COALESCE((p_invoice->>'taxable_value')::numeric, -1) - v_taxable) > v_tolerance
+    OR abs(COALESCE((p_invoice->>'cgst_amount')::numeric, 0) - v_cgst) > v_tolerance
+    OR abs(COALESCE((p_invoice->>'sgst_amount')::numeric, 0) - v_sgst) > v_tolerance
+    OR abs(COALESCE((p_invoice->>'igst_amount')::numeric, 0) - v_igst) > v_tolerance THEN
+    RAISE EXCEPTION 'Tax invoice totals do not match its lines';
+  END IF;
+
+  IF abs(COALESCE((p_invoice->>'invoice_total')::numeric, -1) - (p_invoice->>'taxable_value')::numeric
+      - COALESCE((p_invoice->>'cgst_amount')::numeric, 0)
+      - COALESCE((p_invoice->>'sgst_amount')::numeric, 0)
+      - COALESCE((p_invoice->>'igst_amount')::numeric, 0)) > 0.01
+    OR abs((p_invoice->>'invoice_total')::numeric - v_sale_total) > 0.01 THEN
+    RAISE EXCEPTION 'Tax invoice total % does not match the sale total %',
+      p_invoice->>'invoice_total', v_sale_total;
+  END IF;
+
+  INSERT INTO invoice_series (financial_year)
+  VALUES (v_year)
+  ON CONFLICT (financial_year) DO NOTHING;
+
+  UPDATE invoice_series
+  SET last_number = last_number + 1
+  WHERE financial_year = v_year
+  RETURNING * INTO v_series;
+
+  INSERT INTO tax_invoices (
+    invoice_number, financial_year, serial, invoice_date, sale_id,
+    quotation_id, customer_id, seller_gstin, seller_state, buyer_name,
+    buyer_gstin, buyer_address, buyer_state, place_of_supply, supply_type,
+    lines, taxable_value, cgst_amount, sgst_amount, igst_amount, invoice_total
+  )
+  VALUES (
+    v_series.prefix || '/' || v_year || '/' || lpad(v_series.last_number::text, 5, '0'),
+    v_year,
+    v_series.last_number,
+    v_date,
+    p_sale_id,
+    p_quotation_id,
+    p_customer_id,
+    NULLIF(p_invoice->>'seller_gstin', ''),
+    p_invoice->>'seller_state',
+    NULLIF(p_invoice->>'buyer_name', ''),
+    NULLIF(p_invoice->>'buyer_gstin', ''),
+    NULLIF(p_invoice->>'buyer_address', ''),
+    NULLIF(p_invoice->>'buyer_state', ''),
+    p_invoice->>'place_of_supply',
+    p_invoice->>'supply_type',
+    COALESCE(p_invoice->'lines', '[]'::jsonb),
+    (p_invoice->>'taxable_value')::numeric,
+    COALESCE((p_invoice->>'cgst_amount')::numeric, 0),
+    COALESCE((p_invoice->>'sgst_amount')::numeric, 0),
+    COALESCE((p_invoice->>'igst_amount')::numeric, 0),
+    (p_invoice->>'invoice_total')::numeric
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION issue_tax_invoice(uuid, uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION complete_sale(p_idempotency_key text, p_sale jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quotation jsonb := p_sale->'quotation_data';
+  v_payment jsonb := p_sale->'payment_details';
+  v_customer_id uuid := NULLIF(p_sale->>'customer_id', '')::uuid;
+  v_video_call_id uuid := NULLIF(p_sale->>'video_call_id', '')::uuid;
+  v_hand_carry boolean := COALESCE(v_quotation->>'delivery_method', 'hand_carry') = 'hand_carry';
+  v_paid boolean := v_payment->>'payment_status' = 'completed';
+  v_total numeric := (v_quotation->>'total_amount')::numeric;
+  v_now timestamptz := now();
+  v_existing sales%ROWTYPE;
+  v_quotation_id uuid;
+  v_sale_id uuid;
+  v_item jsonb;
+  v_quantity integer;
+  v_piece_ids uuid[];
+  v_invoice jsonb := p_sale->'tax_invoice';
+  v_invoice_row tax_invoices%ROWTYPE;
+BEGIN
+  IF COALESCE(p_idempotency_key, '') = '' THEN
+    RAISE EXCEPTION 'Sale is missing its idempotency key';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(v_quotation->'items', '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item before completing the sale';
+  END IF;
+
+  -- Concurrent retries of the same checkout wait here, then see the first sale
+  PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key));
+
+  SELECT * INTO v_existing FROM sales WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    SELECT * INTO v_invoice_row FROM tax_invoices WHERE sale_id = v_existing.id;
+    RETURN jsonb_build_object(
+      'sale_id', v_existing.id,
+      'quotation_id', v_existing.quotation_id,
+      'tax_invoice_id', v_invoice_row.id,
+      'invoice_number', v_invoice_row.invoice_number,
+      'duplicate', true
+    );
+  END IF;
+
+  INSERT INTO quotations (
+    customer_id, video_call_id, items, total_amount, status, payment_details,
+    workflow_status, quotation_number, valid_until, bill_status,
+    bill_generated_at, bill_paid_at
+  )
+  VALUES (
+    v_customer_id,
+    v_video_call_id,
+    v_quotation->'items',
+    v_total,
+    'accepted',
+    v_payment,
+    jsonb_build_object(
+      'qc', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+      'packaging', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+      'dispatch', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END
+    ),
+    v_quotation->>'quotation_number',
+    v_now + interval '7 days',
+    CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+    v_now,
+    CASE WHEN v_paid THEN v_now END
+  )
+  RETURNING id INTO v_quotation_id;
+
+  IF v_video_call_id IS NOT NULL THEN
+    UPDATE video_calls
+    SET
+      quotation_id = v_quotation_id,
+      quotation_required = true,
+      workflow_status = jsonb_build_object(
+        'video_call', 'completed',
+        'quotation', 'completed',
+        'profiling', 'pending',
+        'payment', CASE WHEN v_paid THEN 'completed' ELSE 'pending' END,
+        'qc', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+        'packaging', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+        'dispatch', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END
+      ),
+      bill_status = CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+      bill_amount = v_total,
+      bill_generated_at = v_now,
+      bill_paid_at = CASE WHEN v_paid THEN v_now END
+    WHERE id = v_video_call_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Video call % not found', v_video_call_id;
+    END IF;
+  END IF;
+
+  IF v_customer_id IS NOT NULL THEN
+    UPDATE customers
+    SET
+      total_purchases = COALESCE(total_purchases, 0) + v_total,
+      last_purchase_date = v_now
+    WHERE id = v_customer_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', v_customer_id;
+    END IF;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_quotation->'items')
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT array_agg(id) INTO v_piece_ids
+    FROM (
+      SELECT pp.id
+      FROM product_pieces pp
+      WHERE pp.product_id = (v_item->>'product_id')::uuid
+        AND pp.status = 'in_stock'
+      ORDER BY
+        pp.id::text IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'pieceIds', '[]'::jsonb))) DESC,
+        COALESCE(pp.huid IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'huids', '[]'::jsonb))), false) DESC,
+        pp.serial
+      LIMIT v_quantity
+      FOR UPDATE
+    ) picked;
+
+    IF COALESCE(array_length(v_piece_ids, 1), 0) < v_quantity THEN
+      RAISE EXCEPTION 'Only % of % pieces of % are in stock',
+        COALESCE(array_length(v_piece_ids, 1), 0),
+        v_quantity,
+        COALESCE(v_item->'product'->>'sku', v_item->>'product_id');
+    END IF;
+
+    UPDATE product_pieces
+    SET status = 'sold', quotation_id = v_quotation_id, sold_at = v_now
+    WHERE id = ANY(v_piece_ids);
+
+    UPDATE products
+    SET last_sold_at = v_now
+    WHERE id = (v_item->>'product_id')::uuid;
+  END LOOP;
+
+  INSERT INTO sales (
+    sale_type, customer_id, video_call_id, quotation_id, sale_number,
+    total_amount, payment_status, payment_details, idempotency_key
+  )
+  VALUES (
+    p_sale->>'sale_type',
+    v_customer_id,
+    v_video_call_id,
+    v_quotation_id,
+    v_quotation->>'quotation_number',
+    v_total,
+    CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+    v_payment,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_sale_id;
+
+  IF v_invoice IS NOT NULL AND jsonb_typeof(v_invoice) = 'object' THEN
+    IF abs((v_invoice->>'invoice_total')::numeric - v_total) > 1 THEN
+      RAISE EXCEPTION 'Tax invoice total % does not match the sale total %',
+        v_invoice->>'invoice_total', v_total;
+    END IF;
+
+    v_invoice_row := issue_tax_invoice(v_sale_id, v_quotation_id, v_customer_id, v_invoice);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'sale_id', v_sale_id,
+    'quotation_id', v_quotation_id,
+    'tax_invoice_id', v_invoice_row.id,
+    'invoice_number', v_invoice_row.invoice_number,
+    'duplicate', false
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION complete_sale(text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION complete_sale(text, jsonb) TO authenticated;
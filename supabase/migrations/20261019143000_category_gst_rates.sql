@@ -0,0 +1,177 @@
+/*
+  # Category-wise GST rates
+
+  1. Changes
+    - `gst_rates.category`: the product category the rate applies to. Rows
+      without a category are the default for categories with no rate of
+      their own.
+    - `gst_rates.effective_from`: the date the rate takes effect. A line is
+      taxed at the latest rate for its category in force on the bill date,
+      so a rate change can be entered ahead of time and old rows stay as
+      history.
+
+    - A rate under the reserved `Making charges` category taxes the making
+      charges on metal-priced pieces. While one is in force, invoices bill
+      each piece's making charges as a line of their own at that rate;
+      without one they are taxed with the piece at its category's rate.
+
+  2. Data
+    - Existing rates become defaults, effective from the day they were added.
+      Where several were added on one day only the last stays, as it was the
+      rate bills used from then on.
+    - Making charges start at 5%, unless a rate for them was already entered.
+
+  3. Functions
+    - `gst_rate_on` and `making_charge_rate_on` look up the rate in force on
+      a date the same way the app does
+    - A trigger on `tax_invoices` checks each line is taxed at the rate in
+      force for its category on the invoice date, and that making charges
+      are billed on their own line while they have a rate
+*/
+
+ALTER TABLE gst_rates
+  ADD COLUMN IF NOT EXISTS category text,
+  ADD COLUMN IF NOT EXISTS effective_from date;
+
+UPDATE gst_rates
+SET effective_from = COALESCE(created_at::date, CURRENT_DATE)
+WHERE effective_from IS NULL;
+
+ALTER TABLE gst_rates
+  ALTER COLUMN effective_from SET DEFAULT CURRENT_DATE,
+  ALTER COLUMN effective_from SET NOT NULL;
+
+DELETE FROM gst_rates older
+USING gst_rates newer
+WHERE older.category IS NULL
+  AND newer.category IS NULL
+  AND older.effective_from = newer.effective_from
+  AND (COALESCE(older.created_at, '-infinity'), older.id)
+    < (COALESCE(newer.created_at, '-infinity'), newer.id);
+
+-- One rate per category per day; the default row uses an empty category
+CREATE UNIQUE INDEX IF NOT EXISTS gst_rates_category_effective_idx
+  ON gst_rates (lower(COALESCE(category, '')), effective_from);
+
+INSERT INTO gst_rates (rate, category, effective_from, description)
+SELECT 5, 'Making charges', CURRENT_DATE, 'Making charges, billed on their own line'
+WHERE NOT EXISTS (
+  SELECT 1 FROM gst_rates WHERE lower(category) = 'making charges'
+);
+
+-- Same lookup as resolveGSTRate in the app: the category's latest rate in
+-- force on the date, else the latest default, else 18%
+CREATE OR REPLACE FUNCTION gst_rate_on(p_category text, p_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT rate FROM gst_rates
+      WHERE lower(trim(category)) = lower(trim(NULLIF(p_category, '')))
+        AND effective_from <= p_date
+      ORDER BY effective_from DESC, created_at DESC
+      LIMIT 1
+    ),
+    (
+      SELECT rate FROM gst_rates
+      WHERE NULLIF(trim(category), '') IS NULL
+        AND effective_from <= p_date
+      ORDER BY effective_from DESC, created_at DESC
+      LIMIT 1
+    ),
+    18
+  );
+$$;
+
+-- Null while no making-charge rate is in force
+CREATE OR REPLACE FUNCTION making_charge_rate_on(p_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT rate FROM gst_rates
+  WHERE lower(trim(category)) = 'making charges'
+    AND effective_from <= p_date
+  ORDER BY effective_from DESC, created_at DESC
+  LIMIT 1;
+$$;
+
+-- Each invoice line must be taxed at the rate in force for its category on
+-- the invoice date, with making charges on their own line while they have
+-- a rate of their own
+CREATE OR REPLACE FUNCTION check_tax_invoice_rates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_items jsonb;
+  v_item jsonb;
+  v_line jsonb;
+  v_position integer;
+  v_index integer;
+  v_rate numeric;
+  v_making_rate numeric := making_charge_rate_on(NEW.invoice_date);
+  v_making numeric;
+  v_billed numeric;
+BEGIN
+  SELECT items INTO v_items FROM quotations WHERE id = NEW.quotation_id;
+
+  FOR v_line, v_position IN
+    SELECT l.line, l.position::integer - 1
+    FROM jsonb_array_elements(NEW.lines) WITH ORDINALITY AS l(line, position)
+  LOOP
+    v_index := COALESCE((v_line->>'item_index')::integer, v_position);
+    v_item := v_items->v_index;
+
+    IF COALESCE((v_line->>'making_charges')::boolean, false) THEN
+      IF v_making_rate IS NULL THEN
+        RAISE EXCEPTION 'Tax invoice line % bills making charges, which have no GST rate of their own', v_position + 1;
+      END IF;
+      v_rate := v_making_rate;
+    ELSE
+      v_rate := gst_rate_on(v_item->'product'->>'category', NEW.invoice_date);
+    END IF;
+
+    IF (v_line->>'gst_rate')::numeric IS DISTINCT FROM v_rate THEN
+      RAISE EXCEPTION 'Tax invoice line % is taxed at %, the rate in force is %',
+        v_position + 1, (v_line->>'gst_rate') || '%', v_rate || '%';
+    END IF;
+  END LOOP;
+
+  FOR v_index IN 0 .. jsonb_array_length(COALESCE(v_items, '[]'::jsonb)) - 1
+  LOOP
+    v_item := v_items->v_index;
+    v_making := CASE
+      WHEN v_making_rate IS NULL OR COALESCE(jsonb_typeof(v_item->'breakdown'), '') <> 'object' THEN 0
+      ELSE LEAST(
+        GREATEST(COALESCE((v_item->'breakdown'->>'makingCharges')::numeric, 0), 0),
+        (v_item->>'price')::numeric
+      )
+    END;
+
+    SELECT COALESCE(sum((l.line->>'unit_price')::numeric), 0) INTO v_billed
+    FROM jsonb_array_elements(NEW.lines) WITH ORDINALITY AS l(line, position)
+    WHERE COALESCE((l.line->>'item_index')::integer, l.position::integer - 1) = v_index
+      AND COALESCE((l.line->>'making_charges')::boolean, false);
+
+    IF abs(v_billed - v_making) > 0.01 THEN
+      RAISE EXCEPTION 'Making charges on % must be billed on their own line at %',
+        COALESCE(v_item->'product'->>'sku', v_item->>'product_id'), v_making_rate || '%';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tax_invoices_check_rates ON tax_invoices;
+CREATE TRIGGER tax_invoices_check_rates
+  BEFORE INSERT ON tax_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION check_tax_invoice_rates();
@@ -0,0 +1,347 @@
+/*
+  # Old-gold exchange and buyback
+
+  1. New Tables
+    - `old_gold_items`: old jewellery taken in at the counter, one row per
+      piece, grouped under a voucher number. An exchange is taken against a
+      sale and its value is credited to the bill; a buyback is paid out.
+      Items never become sellable stock: they sit in the scrap inventory
+      until they are sent for melting and melted.
+
+  2. Functions
+    - `record_old_gold`: works out net weight, fine weight and value for each
+      item from what was tested at the counter and files them under one new
+      voucher number
+    - `complete_sale` records the exchange in the same transaction as the
+      sale, and checks the old-gold tender on the bill matches its value; a
+      bill with no exchange cannot carry an old-gold tender
+
+  3. Security
+    - RLS enabled, authenticated staff can read, record and move items
+      through the melting stages. Items are not deleted.
+*/
+
+CREATE SEQUENCE IF NOT EXISTS old_gold_voucher_seq;
+
+CREATE TABLE IF NOT EXISTS old_gold_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  voucher_number text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('exchange', 'buyback')),
+  sale_id uuid REFERENCES sales(id),
+  customer_id uuid REFERENCES customers(id),
+  customer_name text,
+  description text NOT NULL,
+  metal_type text NOT NULL CHECK (metal_type IN ('gold', 'silver', 'platinum')),
+  gross_weight numeric(10,3) NOT NULL CHECK (gross_weight > 0),
+  -- Stones, lac and other non-metal weight taken off the gross
+  less_weight numeric(10,3) NOT NULL DEFAULT 0 CHECK (less_weight >= 0),
+  net_weight numeric(10,3) NOT NULL,
+  -- Fineness found by the touch or XRF test, as a percentage
+  tested_purity numeric(5,2) NOT NULL CHECK (tested_purity > 0 AND tested_purity <= 100),
+  melting_loss_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (melting_loss_percent >= 0 AND melting_loss_percent < 100),
+  fine_weight numeric(10,3) NOT NULL,
+  -- Rupees per gram of fine metal
+  rate numeric(12,2) NOT NULL CHECK (rate >= 0),
+  value numeric(14,2) NOT NULL,
+  payout_method text,
+  status text NOT NULL DEFAULT 'in_scrap' CHECK (status IN ('in_scrap', 'sent_for_melting', 'melted')),
+  status_changed_at timestamptz,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (less_weight < gross_weight)
+);
+
+CREATE INDEX IF NOT EXISTS old_gold_items_voucher_idx ON old_gold_items (voucher_number);
+CREATE INDEX IF NOT EXISTS old_gold_items_status_idx ON old_gold_items (status, metal_type);
+CREATE INDEX IF NOT EXISTS old_gold_items_sale_idx ON old_gold_items (sale_id);
+
+ALTER TABLE old_gold_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read old gold"
+  ON old_gold_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can record old gold"
+  ON old_gold_items FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can move old gold through melting"
+  ON old_gold_items FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION record_old_gold(
+  p_kind text,
+  p_sale_id uuid,
+  p_customer_id uuid,
+  p_customer_name text,
+  p_items jsonb,
+  p_payout_method text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_voucher text;
+  v_item jsonb;
+  v_gross numeric;
+  v_less numeric;
+  v_net numeric;
+  v_fine numeric;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one old gold item';
+  END IF;
+
+  v_voucher := 'OGV-' || to_char(now(), 'YYMM') || '-' || lpad(nextval('old_gold_voucher_seq')::text, 5, '0');
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_gross := (v_item->>'gross_weight')::numeric;
+    v_less := COALESCE((v_item->>'less_weight')::numeric, 0);
+    v_net := round(v_gross - v_less, 3);
+    v_fine := round(
+      v_net * (v_item->>'tested_purity')::numeric / 100
+        * (1 - COALESCE((v_item->>'melting_loss_percent')::numeric, 0) / 100),
+      3
+    );
+
+    INSERT INTO old_gold_items (
+      voucher_number, kind, sale_id, customer_id, customer_name, description,
+      metal_type, gross_weight, less_weight, net_weight, tested_purity,
+      melting_loss_percent, fine_weight, rate, value, payout_method
+    )
+    VALUES (
+      v_voucher,
+      p_kind,
+      p_sale_id,
+      p_customer_id,
+      NULLIF(p_customer_name, ''),
+      COALESCE(NULLIF(v_item->>'description', ''), 'Old ornament'),
+      v_item->>'metal_type',
+      v_gross,
+      v_less,
+      v_net,
+      (v_item->>'tested_purity')::numeric,
+      COALESCE((v_item->>'melting_loss_percent')::numeric, 0),
+      v_fine,
+      (v_item->>'rate')::numeric,
+      round(v_fine * (v_item->>'rate')::numeric, 2),
+      p_payout_method
+    );
+  END LOOP;
+
+  RETURN v_voucher;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_old_gold(text, uuid, uuid, text, jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_old_gold(text, uuid, uuid, text, jsonb, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION complete_sale(p_idempotency_key text, p_sale jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quotation jsonb := p_sale->'quotation_data';
+  v_payment jsonb := p_sale->'payment_details';
+  v_customer_id uuid := NULLIF(p_sale->>'customer_id', '')::uuid;
+  v_video_call_id uuid := NULLIF(p_sale->>'video_call_id', '')::uuid;
+  v_hand_carry boolean := COALESCE(v_quotation->>'delivery_method', 'hand_carry') = 'hand_carry';
+  v_paid boolean := v_payment->>'payment_status' = 'completed';
+  v_total numeric := (v_quotation->>'total_amount')::numeric;
+  v_now timestamptz := now();
+  v_existing sales%ROWTYPE;
+  v_quotation_id uuid;
+  v_sale_id uuid;
+  v_item jsonb;
+  v_quantity integer;
+  v_piece_ids uuid[];
+  v_invoice jsonb := p_sale->'tax_invoice';
+  v_invoice_row tax_invoices%ROWTYPE;
+  v_old_gold jsonb := p_sale->'old_gold';
+  v_voucher text;
+  v_credit numeric;
+  v_tendered numeric;
+BEGIN
+  IF COALESCE(p_idempotency_key, '') = '' THEN
+    RAISE EXCEPTION 'Sale is missing its idempotency key';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(v_quotation->'items', '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item before completing the sale';
+  END IF;
+
+  -- Concurrent retries of the same checkout wait here, then see the first sale
+  PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key));
+
+  SELECT * INTO v_existing FROM sales WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    SELECT * INTO v_invoice_row FROM tax_invoices WHERE sale_id = v_existing.id;
+    SELECT voucher_number INTO v_voucher FROM old_gold_items WHERE sale_id = v_existing.id LIMIT 1;
+    RETURN jsonb_build_object(
+      'sale_id', v_existing.id,
+      'quotation_id', v_existing.quotation_id,
+      'tax_invoice_id', v_invoice_row.id,
+      'invoice_number', v_invoice_row.invoice_number,
+      'exchange_voucher', v_voucher,
+      'duplicate', true
+    );
+  END IF;
+
+  INSERT INTO quotations (
+    customer_id, video_call_id, items, total_amount, status, payment_details,
+    workflow_status, quotation_number, valid_until, bill_status,
+    bill_generated_at, bill_paid_at
+  )
+  VALUES (
+    v_customer_id,
+    v_video_call_id,
+    v_quotation->'items',
+    v_total,
+    'accepted',
+    v_payment,
+    jsonb_build_object(
+      'qc', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+      'packaging', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+      'dispatch', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END
+    ),
+    v_quotation->>'quotation_number',
+    v_now + interval '7 days',
+    CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+    v_now,
+    CASE WHEN v_paid THEN v_now END
+  )
+  RETURNING id INTO v_quotation_id;
+
+  IF v_video_call_id IS NOT NULL THEN
+    UPDATE video_calls
+    SET
+      quotation_id = v_quotation_id,
+      quotation_required = true,
+      workflow_status = jsonb_build_object(
+        'video_call', 'completed',
+        'quotation', 'completed',
+        'profiling', 'pending',
+        'payment', CASE WHEN v_paid THEN 'completed' ELSE 'pending' END,
+        'qc', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+        'packaging', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+        'dispatch', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END
+      ),
+      bill_status = CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+      bill_amount = v_total,
+      bill_generated_at = v_now,
+      bill_paid_at = CASE WHEN v_paid THEN v_now END
+    WHERE id = v_video_call_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Video call % not found', v_video_call_id;
+    END IF;
+  END IF;
+
+  IF v_customer_id IS NOT NULL THEN
+    UPDATE customers
+    SET
+      total_purchases = COALESCE(total_purchases, 0) + v_total,
+      last_purchase_date = v_now
+    WHERE id = v_customer_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', v_customer_id;
+    END IF;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_quotation->'items')
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT array_agg(id) INTO v_piece_ids
+    FROM (
+      SELECT pp.id
+      FROM product_pieces pp
+      WHERE pp.product_id = (v_item->>'product_id')::uuid
+        AND pp.status = 'in_stock'
+      ORDER BY
+        pp.id::text IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'pieceIds', '[]'::jsonb))) DESC,
+        COALESCE(pp.huid IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'huids', '[]'::jsonb))), false) DESC,
+        pp.serial
+      LIMIT v_quantity
+      FOR UPDATE
+    ) picked;
+
+    IF COALESCE(array_length(v_piece_ids, 1), 0) < v_quantity THEN
+      RAISE EXCEPTION 'Only % of % pieces of % are in stock',
+        COALESCE(array_length(v_piece_ids, 1), 0),
+        v_quantity,
+        COALESCE(v_item->'product'->>'sku', v_item->>'product_id');
+    END IF;
+
+    UPDATE product_pieces
+    SET status = 'sold', quotation_id = v_quotation_id, sold_at = v_now
+    WHERE id = ANY(v_piece_ids);
+
+    UPDATE products
+    SET last_sold_at = v_now
+    WHERE id = (v_item->>'product_id')::uuid;
+  END LOOP;
+
+  INSERT INTO sales (
+    sale_type, customer_id, video_call_id, quotation_id, sale_number,
+    total_amount, payment_status, payment_details, idempotency_key
+  )
+  VALUES (
+    p_sale->>'sale_type',
+    v_customer_id,
+    v_video_call_id,
+    v_quotation_id,
+    v_quotation->>'quotation_number',
+    v_total,
+    CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+    v_payment,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_sale_id;
+
+  IF v_invoice IS NOT NULL AND jsonb_typeof(v_invoice) = 'object' THEN
+    IF abs((v_invoice->>'invoice_total')::numeric - v_total) > 1 THEN
+      RAISE EXCEPTION 'Tax invoice total % does not match the sale total %',
+        v_invoice->>'invoice_total', v_total;
+    END IF;
+
+    v_invoice_row := issue_tax_invoice(v_sale_id, v_quotation_id, v_customer_id, v_invoice);
+  END IF;
+
+  IF jsonb_typeof(v_old_gold) = 'array' AND jsonb_array_length(v_old_gold) > 0 THEN
+    v_voucher := record_old_gold(
+      'exchange', v_sale_id, v_customer_id, p_sale->>'buyer_name', v_old_gold
+    );
+  END IF;
+
+  -- An old gold tender is only as good as the exchange recorded with it
+  SELECT COALESCE(sum(value), 0) INTO v_credit FROM old_gold_items WHERE voucher_number = v_voucher;
+  SELECT COALESCE(sum((payment->>'amount')::numeric), 0) INTO v_tendered
+  FROM jsonb_array_elements(COALESCE(v_payment->'payments', '[]'::jsonb)) payment
+  WHERE payment->>'method' = 'old_gold';
+
+  IF abs(v_credit - v_tendered) > 1 THEN
+    RAISE EXCEPTION 'Old gold tendered % does not match the exchange value %', v_tendered, v_credit;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'sale_id', v_sale_id,
+    'quotation_id', v_quotation_id,
+    'tax_invoice_id', v_invoice_row.id,
+    'invoice_number', v_invoice_row.invoice_number,
+    'exchange_voucher', v_voucher,
+    'duplicate', false
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION complete_sale(text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION complete_sale(text, jsonb) TO authenticated;
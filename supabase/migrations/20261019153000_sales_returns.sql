@@ -0,0 +1,371 @@
+/*
+  # Sales returns and credit notes
+
+  1. New Tables
+    - `credit_note_series`: last credit note number used in each financial
+      year, taken under a row lock like `invoice_series` so numbers have no
+      gaps
+    - `credit_notes`: one row per return against a sale. Carries the returned
+      lines with their share of taxable value and GST, the matching tax
+      invoice (if the sale was invoiced) and how the money went back to the
+      customer
+
+  2. Changes
+    - `sales.returned_amount`: value of all credit notes against the sale
+
+  3. Functions
+    - `process_sale_return` checks the returned quantities against what is
+      left on the bill, works out the credit note's taxable value and GST
+      from the invoice lines (rejecting totals from the till that don't
+      match), puts the pieces back in stock, issues the credit note and
+      settles it in one transaction. The return first clears anything
+      still due on the bill; the rest is refunded or held as store credit.
+      Store credit goes on the customer's ledger (see the receivables
+      migration) as an advance, which later bills use up through an
+      advance adjustment.
+
+  4. Security
+    - RLS enabled, authenticated staff can read credit notes. Credit notes
+      and numbers are only written by `process_sale_return`, which only
+      signed-in staff can call.
+*/
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS returned_amount numeric(14,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS credit_note_series (
+  financial_year text PRIMARY KEY,
+  prefix text NOT NULL DEFAULT 'CN',
+  last_number integer NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_number text NOT NULL UNIQUE,
+  financial_year text NOT NULL REFERENCES credit_note_series(financial_year),
+  serial integer NOT NULL,
+  note_date date NOT NULL DEFAULT CURRENT_DATE,
+  sale_id uuid NOT NULL REFERENCES sales(id),
+  tax_invoice_id uuid REFERENCES tax_invoices(id),
+  customer_id uuid REFERENCES customers(id),
+  buyer_name text,
+  buyer_gstin text,
+  place_of_supply text,
+  supply_type text NOT NULL DEFAULT 'intra_state' CHECK (supply_type IN ('intra_state', 'inter_state')),
+  -- Bill lines taken back: line_index into the sale's items, product and quantity
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  taxable_value numeric(14,2) NOT NULL,
+  cgst_amount numeric(14,2) NOT NULL DEFAULT 0,
+  sgst_amount numeric(14,2) NOT NULL DEFAULT 0,
+  igst_amount numeric(14,2) NOT NULL DEFAULT 0,
+  note_total numeric(14,2) NOT NULL CHECK (note_total > 0),
+  -- Part of the note set against what was still due on the bill
+  adjusted_amount numeric(14,2) NOT NULL DEFAULT 0,
+  settlement text NOT NULL CHECK (settlement IN ('refund', 'store_credit')),
+  refund_method text,
+  refund_reference text,
+  reason text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (financial_year, serial)
+);
+
+CREATE INDEX IF NOT EXISTS credit_notes_sale_idx ON credit_notes (sale_id);
+CREATE INDEX IF NOT EXISTS credit_notes_note_date_idx ON credit_notes (note_date);
+
+ALTER TABLE credit_note_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read credit note series"
+  ON credit_note_series FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can read credit notes"
+  ON credit_notes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION process_sale_return(p_sale_id uuid, p_return jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_invoice tax_invoices%ROWTYPE;
+  v_items jsonb;
+  v_item jsonb;
+  v_sold_items jsonb;
+  v_sold jsonb;
+  v_invoice_line jsonb;
+  v_found boolean;
+  v_index integer;
+  v_quantity integer;
+  v_returned integer;
+  v_piece_ids uuid[];
+  v_share numeric;
+  v_bill_value numeric;
+  v_unit_value numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_taxable numeric := 0;
+  v_cgst numeric := 0;
+  v_sgst numeric := 0;
+  v_igst numeric := 0;
+  v_lines_total numeric := 0;
+  -- A paisa of rounding per line between the till and here
+  v_tolerance numeric;
+  v_total numeric;
+  v_settlement text := p_return->>'settlement';
+  v_due numeric;
+  v_adjusted numeric;
+  v_payout numeric;
+  v_year text := financial_year_of(CURRENT_DATE);
+  v_series credit_note_series%ROWTYPE;
+  v_note_id uuid;
+  v_note_number text;
+BEGIN
+  -- One return at a time per bill, so quantities cannot be returned twice
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id;
+  END IF;
+
+  v_items := p_return->'items';
+  IF jsonb_array_length(COALESCE(v_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  IF v_settlement NOT IN ('refund', 'store_credit') THEN
+    RAISE EXCEPTION 'Choose a refund or store credit';
+  END IF;
+
+  IF (SELECT count(DISTINCT item->>'line_index') FROM jsonb_array_elements(v_items) item)
+    < jsonb_array_length(v_items) THEN
+    RAISE EXCEPTION 'Each bill line can only be listed once in a return';
+  END IF;
+
+  SELECT * INTO v_invoice FROM tax_invoices WHERE sale_id = v_sale.id;
+  SELECT items INTO v_sold_items FROM quotations WHERE id = v_sale.quotation_id;
+
+  SELECT COALESCE(sum((line->>'price')::numeric * (line->>'quantity')::numeric), 0) INTO v_bill_value
+  FROM jsonb_array_elements(COALESCE(v_sold_items, '[]'::jsonb)) line;
+
+  -- Each returned line takes its share of the invoice line, discount and GST
+  -- included; bills without a tax invoice are shared out by line price
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_items)
+  LOOP
+    v_index := (v_item->>'line_index')::integer;
+    v_quantity := (v_item->>'quantity')::integer;
+    v_sold := v_sold_items->v_index;
+
+    IF v_sold IS NULL OR v_sold->>'product_id' IS DISTINCT FROM v_item->>'product_id' THEN
+      RAISE EXCEPTION 'Line % is not on this bill', v_index + 1;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Return quantity must be at least one';
+    END IF;
+
+    SELECT COALESCE(sum((returned->>'quantity')::integer), 0) INTO v_returned
+    FROM credit_notes cn, jsonb_array_elements(cn.items) returned
+    WHERE cn.sale_id = v_sale.id
+      AND (returned->>'line_index')::integer = v_index;
+
+    IF v_returned + v_quantity > (v_sold->>'quantity')::integer THEN
+      RAISE EXCEPTION 'Only % of % can still be returned',
+        (v_sold->>'quantity')::integer - v_returned,
+        COALESCE(v_sold->'product'->>'sku', v_sold->>'product_id');
+    END IF;
+
+    -- A piece can have a making-charges line after its own; older invoices
+    -- have one line per bill line and no item_index
+    v_found := false;
+    FOR v_invoice_line IN
+      SELECT l.line
+      FROM jsonb_array_elements(COALESCE(v_invoice.lines, '[]'::jsonb)) WITH ORDINALITY AS l(line, position)
+      WHERE COALESCE((l.line->>'item_index')::integer, l.position::integer - 1) = v_index
+      ORDER BY l.position
+    LOOP
+      v_found := true;
+      v_share := v_quantity / (v_invoice_line->>'quantity')::numeric;
+      v_lines := v_lines || jsonb_build_array(v_invoice_line || jsonb_build_object(
+        'quantity', v_quantity,
+        'discount', round((v_invoice_line->>'discount')::numeric * v_share, 2),
+        'taxable_value', round((v_invoice_line->>'taxable_value')::numeric * v_share, 2),
+        'cgst', round((v_invoice_line->>'cgst')::numeric * v_share, 2),
+        'sgst', round((v_invoice_line->>'sgst')::numeric * v_share, 2),
+        'igst', round((v_invoice_line->>'igst')::numeric * v_share, 2),
+        'total', round((v_invoice_line->>'total')::numeric * v_share, 2)
+      ));
+    END LOOP;
+
+    IF NOT v_found THEN
+      v_unit_value := CASE
+        WHEN v_bill_value > 0 THEN (v_sold->>'price')::numeric / v_bill_value * v_sale.total_amount
+        ELSE 0
+      END;
+      v_line := jsonb_build_object(
+        'description', COALESCE(NULLIF(v_sold->'product'->>'name', ''), NULLIF(v_sold->'product'->>'description', ''), v_sold->'product'->>'sku'),
+        'sku', v_sold->'product'->>'sku',
+        'hsn_code', '7113',
+        'quantity', v_quantity,
+        'unit_price', round(v_unit_value, 2),
+        'discount', 0,
+        'taxable_value', round(v_unit_value * v_quantity, 2),
+        'gst_rate', 0,
+        'cgst', 0,
+        'sgst', 0,
+        'igst', 0,
+        'total', round(v_unit_value * v_quantity, 2)
+      );
+      v_lines := v_lines || jsonb_build_array(v_line);
+    END IF;
+  END LOOP;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines)
+  LOOP
+    v_taxable := v_taxable + (v_line->>'taxable_value')::numeric;
+    v_cgst := v_cgst + (v_line->>'cgst')::numeric;
+    v_sgst := v_sgst + (v_line->>'sgst')::numeric;
+    v_igst := v_igst + (v_line->>'igst')::numeric;
+    v_lines_total := v_lines_total + (v_line->>'total')::numeric;
+  END LOOP;
+
+  -- Line rounding cannot take the bill past what was charged
+  v_total := LEAST(v_lines_total, v_sale.total_amount - v_sale.returned_amount);
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'Nothing is left to credit on this bill';
+  END IF;
+
+  v_tolerance := 0.01 * jsonb_array_length(v_lines);
+  IF abs(COALESCE((p_return->>'note_total')::numeric, -1) - v_total) > v_tolerance
+    OR abs(COALESCE((p_return->>'taxable_value')::numeric, -1) - v_taxable) > v_tolerance
+    OR abs(COALESCE((p_return->>'cgst_amount')::numeric, 0) - v_cgst) > v_tolerance
+    OR abs(COALESCE((p_return->>'sgst_amount')::numeric, 0) - v_sgst) > v_tolerance
+    OR abs(COALESCE((p_return->>'igst_amount')::numeric, 0) - v_igst) > v_tolerance THEN
+    RAISE EXCEPTION 'Credit note total % does not match % for the returned lines; reload the bill and try again',
+      p_return->>'note_total', v_total;
+  END IF;
+
+  INSERT INTO credit_note_series (financial_year)
+  VALUES (v_year)
+  ON CONFLICT (financial_year) DO NOTHING;
+
+  UPDATE credit_note_series
+  SET last_number = last_number + 1
+  WHERE financial_year = v_year
+  RETURNING * INTO v_series;
+
+  v_note_number := v_series.prefix || '/' || v_year || '/' || lpad(v_series.last_number::text, 5, '0');
+
+  -- What was still due on the bill is cleared first; only the rest goes back
+  v_due := GREATEST(COALESCE((v_sale.payment_details->>'pending_amount')::numeric, 0), 0);
+  v_adjusted := LEAST(v_due, v_total);
+  v_payout := v_total - v_adjusted;
+
+  IF v_settlement = 'store_credit' AND v_payout > 0 AND v_sale.customer_id IS NULL THEN
+    RAISE EXCEPTION 'Store credit can only be held for a saved customer';
+  END IF;
+
+  INSERT INTO credit_notes (
+    note_number, financial_year, serial, sale_id, tax_invoice_id, customer_id,
+    buyer_name, buyer_gstin, place_of_supply, supply_type, items, lines,
+    taxable_value, cgst_amount, sgst_amount, igst_amount, note_total,
+    adjusted_amount, settlement, refund_method, refund_reference, reason
+  )
+  VALUES (
+    v_note_number,
+    v_year,
+    v_series.last_number,
+    v_sale.id,
+    v_invoice.id,
+    v_sale.customer_id,
+    COALESCE(v_invoice.buyer_name, NULLIF(p_return->>'buyer_name', '')),
+    v_invoice.buyer_gstin,
+    v_invoice.place_of_supply,
+    COALESCE(v_invoice.supply_type, 'intra_state'),
+    v_items,
+    v_lines,
+    v_taxable,
+    v_cgst,
+    v_sgst,
+    v_igst,
+    v_total,
+    v_adjusted,
+    v_settlement,
+    CASE WHEN v_settlement = 'refund' THEN NULLIF(p_return->>'refund_method', '') END,
+    NULLIF(p_return->>'refund_reference', ''),
+    NULLIF(p_return->>'reason', '')
+  )
+  RETURNING id INTO v_note_id;
+
+  PERFORM set_config('app.stock_movement_type', 'return', true);
+  PERFORM set_config('app.stock_reference_type', 'credit_note', true);
+  PERFORM set_config('app.stock_reference_id', v_note_id::text, true);
+  PERFORM set_config('app.stock_movement_notes', 'Returned on ' || v_note_number, true);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+    v_sold := v_sold_items->((v_item->>'line_index')::integer);
+
+    SELECT array_agg(id) INTO v_piece_ids
+    FROM (
+      SELECT pp.id
+      FROM product_pieces pp
+      WHERE pp.product_id = (v_item->>'product_id')::uuid
+        AND pp.quotation_id = v_sale.quotation_id
+        AND pp.status = 'sold'
+      ORDER BY
+        pp.id::text IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'pieceIds', '[]'::jsonb))) DESC,
+        pp.serial
+      LIMIT v_quantity
+      FOR UPDATE
+    ) picked;
+
+    IF COALESCE(array_length(v_piece_ids, 1), 0) < v_quantity THEN
+      RAISE EXCEPTION 'Only % of the % pieces returned of % were sold on this bill',
+        COALESCE(array_length(v_piece_ids, 1), 0),
+        v_quantity,
+        COALESCE(v_sold->'product'->>'sku', v_sold->>'product_id');
+    END IF;
+
+    UPDATE product_pieces
+    SET status = 'in_stock', quotation_id = NULL, sold_at = NULL
+    WHERE id = ANY(v_piece_ids);
+  END LOOP;
+
+  UPDATE sales
+  SET
+    returned_amount = returned_amount + v_total,
+    payment_status = CASE WHEN v_adjusted >= v_due THEN 'paid' ELSE payment_status END,
+    payment_details = CASE
+      WHEN v_adjusted > 0 THEN payment_details || jsonb_build_object(
+        'pending_amount', v_due - v_adjusted,
+        'payment_status', CASE WHEN v_adjusted >= v_due THEN 'completed' ELSE payment_details->>'payment_status' END
+      )
+      ELSE payment_details
+    END
+  WHERE id = v_sale.id;
+
+  IF v_sale.customer_id IS NOT NULL THEN
+    UPDATE customers
+    SET total_purchases = GREATEST(COALESCE(total_purchases, 0) - v_total, 0)
+    WHERE id = v_sale.customer_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'credit_note_id', v_note_id,
+    'note_number', v_note_number,
+    'adjusted_amount', v_adjusted,
+    'payout_amount', v_payout
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION process_sale_return(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_sale_return(uuid, jsonb) TO authenticated;
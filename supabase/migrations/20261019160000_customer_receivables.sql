@@ -0,0 +1,235 @@
+/*
+  # Customer credit limits and receivables ledger
+
+  1. New Tables
+    - `customer_ledger`: what each customer owes us. Bills raise the balance;
+      receipts, credit notes set against a bill and adjustments reduce it.
+      Bills carry a due date from the customer's credit terms, which drives
+      ageing and overdue follow-up.
+
+  2. Changes
+    - `customers.credit_limit`: most a customer may owe at once. 0 means the
+      customer pays in full at the counter.
+    - `customers.credit_terms_days`: days a bill may stay unpaid
+    - Each sale to a saved customer posts its bill and the payments taken at
+      the counter; each credit note posts the part set against a bill, and
+      store credit as an advance the customer can spend on a later bill. An
+      advance adjustment is not posted as a payment: the advance is already
+      a credit on the ledger and the bill draws it down.
+    - What is still due on existing sales is brought in as opening balances
+
+  3. Functions
+    - `record_customer_receipt` posts a receipt and clears the oldest unpaid
+      bills first, so the bill's own payment status stays in step
+
+  4. Security
+    - RLS enabled, authenticated staff can read and post entries. Entries are
+      not edited; mistakes are corrected with an adjustment.
+*/
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS credit_limit numeric(14,2) NOT NULL DEFAULT 0 CHECK (credit_limit >= 0),
+  ADD COLUMN IF NOT EXISTS credit_terms_days integer NOT NULL DEFAULT 30 CHECK (credit_terms_days >= 0);
+
+CREATE TABLE IF NOT EXISTS customer_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  entry_type text NOT NULL
+    CHECK (entry_type IN ('opening_balance', 'invoice', 'receipt', 'credit_note', 'adjustment')),
+  entry_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date,
+  reference text,
+  -- Positive raises what the customer owes, negative reduces it
+  amount numeric(14,2) NOT NULL,
+  payment_method text,
+  sale_id uuid REFERENCES sales(id),
+  credit_note_id uuid REFERENCES credit_notes(id),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS customer_ledger_customer_idx
+  ON customer_ledger (customer_id, entry_date);
+
+CREATE UNIQUE INDEX IF NOT EXISTS customer_ledger_sale_bill_idx
+  ON customer_ledger (sale_id)
+  WHERE entry_type IN ('invoice', 'opening_balance');
+
+ALTER TABLE customer_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read customer ledger"
+  ON customer_ledger FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can post to customer ledger"
+  ON customer_ledger FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION post_sale_to_customer_ledger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.customer_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO customer_ledger (customer_id, entry_type, entry_date, due_date, reference, amount, sale_id)
+  SELECT
+    NEW.customer_id,
+    'invoice',
+    NEW.created_at::date,
+    NEW.created_at::date + c.credit_terms_days,
+    NEW.sale_number,
+    NEW.total_amount,
+    NEW.id
+  FROM customers c
+  WHERE c.id = NEW.customer_id;
+
+  INSERT INTO customer_ledger (customer_id, entry_type, entry_date, reference, amount, payment_method, sale_id, notes)
+  SELECT
+    NEW.customer_id,
+    'receipt',
+    NEW.created_at::date,
+    NEW.sale_number,
+    -(payment->>'amount')::numeric,
+    payment->>'method',
+    NEW.id,
+    payment->>'reference'
+  FROM jsonb_array_elements(COALESCE(NEW.payment_details->'payments', '[]'::jsonb)) payment
+  WHERE COALESCE((payment->>'amount')::numeric, 0) > 0
+    -- Paid from the credit the earlier receipt left on the ledger
+    AND payment->>'method' IS DISTINCT FROM 'advance';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sales_post_customer_ledger
+  AFTER INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION post_sale_to_customer_ledger();
+
+-- The part of a return set against the bill clears what is owed; store
+-- credit stays on the ledger as an advance. Refunds are paid out, so they
+-- don't change the balance
+CREATE OR REPLACE FUNCTION post_credit_note_to_customer_ledger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount numeric;
+BEGIN
+  v_amount := CASE WHEN NEW.settlement = 'store_credit' THEN NEW.note_total ELSE NEW.adjusted_amount END;
+
+  IF NEW.customer_id IS NOT NULL AND v_amount > 0 THEN
+    INSERT INTO customer_ledger (customer_id, entry_type, entry_date, reference, amount, sale_id, credit_note_id)
+    VALUES (NEW.customer_id, 'credit_note', NEW.note_date, NEW.note_number, -v_amount, NEW.sale_id, NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER credit_notes_post_customer_ledger
+  AFTER INSERT ON credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION post_credit_note_to_customer_ledger();
+
+INSERT INTO customer_ledger (customer_id, entry_type, entry_date, due_date, reference, amount, sale_id, notes)
+SELECT
+  s.customer_id,
+  'opening_balance',
+  s.created_at::date,
+  s.created_at::date + c.credit_terms_days,
+  s.sale_number,
+  (s.payment_details->>'pending_amount')::numeric,
+  s.id,
+  'Balance due when the ledger was opened'
+FROM sales s
+JOIN customers c ON c.id = s.customer_id
+WHERE s.payment_status = 'pending'
+  AND COALESCE((s.payment_details->>'pending_amount')::numeric, 0) > 0
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION record_customer_receipt(
+  p_customer_id uuid,
+  p_amount numeric,
+  p_method text,
+  p_reference text DEFAULT NULL,
+  p_entry_date date DEFAULT CURRENT_DATE,
+  p_notes text DEFAULT NULL
+)
+RETURNS customer_ledger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry customer_ledger%ROWTYPE;
+  v_sale sales%ROWTYPE;
+  v_left numeric := round(p_amount, 2);
+  v_due numeric;
+  v_applied numeric;
+BEGIN
+  IF v_left IS NULL OR v_left <= 0 THEN
+    RAISE EXCEPTION 'Enter an amount greater than 0';
+  END IF;
+
+  INSERT INTO customer_ledger (customer_id, entry_type, entry_date, reference, amount, payment_method, notes)
+  VALUES (p_customer_id, 'receipt', COALESCE(p_entry_date, CURRENT_DATE), NULLIF(p_reference, ''), -v_left, p_method, NULLIF(p_notes, ''))
+  RETURNING * INTO v_entry;
+
+  FOR v_sale IN
+    SELECT * FROM sales
+    WHERE customer_id = p_customer_id
+      AND payment_status = 'pending'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+
+    v_due := GREATEST(COALESCE((v_sale.payment_details->>'pending_amount')::numeric, 0), 0);
+    CONTINUE WHEN v_due <= 0;
+    v_applied := LEAST(v_due, v_left);
+    v_left := v_left - v_applied;
+
+    UPDATE sales
+    SET
+      payment_status = CASE WHEN v_applied >= v_due THEN 'paid' ELSE 'pending' END,
+      payment_details = payment_details || jsonb_build_object(
+        'paid_amount', COALESCE((payment_details->>'paid_amount')::numeric, 0) + v_applied,
+        'pending_amount', v_due - v_applied,
+        'payment_status', CASE WHEN v_applied >= v_due THEN 'completed' ELSE 'pending' END,
+        'payments', COALESCE(payment_details->'payments', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+          'amount', v_applied,
+          'date', now(),
+          'type', 'receipt',
+          'method', p_method,
+          'reference', NULLIF(p_reference, '')
+        ))
+      )
+    WHERE id = v_sale.id;
+
+    IF v_applied >= v_due THEN
+      UPDATE quotations
+      SET bill_status = 'paid', bill_paid_at = now()
+      WHERE id = v_sale.quotation_id;
+
+      UPDATE video_calls
+      SET bill_status = 'paid', bill_paid_at = now()
+      WHERE id = v_sale.video_call_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_customer_receipt(uuid, numeric, text, text, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_customer_receipt(uuid, numeric, text, text, date, text) TO authenticated;
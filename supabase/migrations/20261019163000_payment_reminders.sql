@@ -0,0 +1,381 @@
+/*
+  # Payment reminder escalation
+
+  1. New Tables
+    - `payment_reminder_rules`: when each alert fires, counted in days past the
+      bill's due date, how long the salesperson has to follow up, and whether
+      admins are told as well. Seeded with the first alert on day 3, the
+      suspicious alert on day 7 and the admin alert on day 10.
+    - `payment_follow_ups`: follow-up tasks raised by the alerts and by broken
+      payment promises, assigned to the salesperson who owns the bill
+
+  2. Changes
+    - `sales.staff_id`: salesperson who owns the bill; the call's staff for
+      video call sales, otherwise the staff member who completed the sale
+
+  3. Functions
+    - `run_payment_reminders` walks the pending bills, adds the alerts that
+      are due to the quotation's payment timeline, raises follow-up tasks and
+      notifications, marks payment promises whose date has passed as broken
+      and closes tasks on bills that have since been paid. It runs every
+      morning when pg_cron is available and can be run from the app.
+    - `add_payment_note` records a staff note on a bill; a note promising
+      payment by a date also goes on the payment timeline
+
+  4. Security
+    - RLS enabled, authenticated staff can read rules and tasks and update them
+    - `raise_payment_follow_up` is only called by `run_payment_reminders`,
+      which only signed-in staff and the schedule can run
+*/
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS staff_id uuid REFERENCES staff(id) ON DELETE SET NULL;
+
+UPDATE sales s
+SET staff_id = vc.staff_id
+FROM video_calls vc
+WHERE vc.id = s.video_call_id
+  AND s.staff_id IS NULL;
+
+CREATE OR REPLACE FUNCTION set_sale_staff()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.staff_id IS NULL AND NEW.video_call_id IS NOT NULL THEN
+    SELECT staff_id INTO NEW.staff_id FROM video_calls WHERE id = NEW.video_call_id;
+  END IF;
+
+  IF NEW.staff_id IS NULL THEN
+    SELECT id INTO NEW.staff_id FROM staff WHERE email = auth.jwt()->>'email';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_set_staff
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION set_sale_staff();
+
+CREATE TABLE IF NOT EXISTS payment_reminder_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type text NOT NULL UNIQUE
+    CHECK (event_type IN ('first_alert', 'suspicious_alert', 'admin_alert')),
+  days_overdue integer NOT NULL CHECK (days_overdue >= 0),
+  follow_up_days integer NOT NULL DEFAULT 1 CHECK (follow_up_days >= 0),
+  notify_admins boolean NOT NULL DEFAULT false,
+  -- {customer}, {bill}, {amount} and {days} are filled in from the bill
+  message text NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO payment_reminder_rules (event_type, days_overdue, follow_up_days, notify_admins, message)
+VALUES
+  ('first_alert', 3, 1, false, 'Payment of ₹{amount} from {customer} on {bill} is {days} days overdue'),
+  ('suspicious_alert', 7, 1, false, '{customer} has not paid ₹{amount} on {bill} for {days} days'),
+  ('admin_alert', 10, 0, true, '{bill}: ₹{amount} from {customer} is {days} days overdue and needs admin attention')
+ON CONFLICT (event_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS payment_follow_ups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  quotation_id uuid REFERENCES quotations(id) ON DELETE SET NULL,
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  event_type text NOT NULL
+    CHECK (event_type IN ('first_alert', 'suspicious_alert', 'admin_alert', 'payment_failed')),
+  message text NOT NULL,
+  assigned_to uuid REFERENCES staff(id) ON DELETE SET NULL,
+  due_date date NOT NULL DEFAULT CURRENT_DATE,
+  -- closed: the bill was paid before anyone followed up
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done', 'closed')),
+  outcome text,
+  completed_by uuid,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_follow_ups_open_idx
+  ON payment_follow_ups (assigned_to, due_date)
+  WHERE status = 'open';
+
+-- Each alert fires once per bill; a bill can break several promises
+CREATE UNIQUE INDEX IF NOT EXISTS payment_follow_ups_alert_idx
+  ON payment_follow_ups (sale_id, event_type)
+  WHERE event_type <> 'payment_failed';
+
+ALTER TABLE payment_reminder_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_follow_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read reminder rules"
+  ON payment_reminder_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can update reminder rules"
+  ON payment_reminder_rules FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can read follow-ups"
+  ON payment_follow_ups FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can update follow-ups"
+  ON payment_follow_ups FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION raise_payment_follow_up(
+  p_sale_id uuid,
+  p_quotation_id uuid,
+  p_customer_id uuid,
+  p_event_type text,
+  p_message text,
+  p_owner uuid,
+  p_due_date date,
+  p_notify_admins boolean
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task_id uuid;
+BEGIN
+  INSERT INTO payment_follow_ups (sale_id, quotation_id, customer_id, event_type, message, assigned_to, due_date)
+  VALUES (p_sale_id, p_quotation_id, p_customer_id, p_event_type, p_message, p_owner, p_due_date)
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO v_task_id;
+
+  IF v_task_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE quotations
+  SET payment_timeline = array_append(
+    COALESCE(payment_timeline, ARRAY[]::jsonb[]),
+    jsonb_build_object('type', p_event_type, 'timestamp', now(), 'message', p_message, 'follow_up_id', v_task_id)
+  )
+  WHERE id = p_quotation_id;
+
+  -- Bills without an owner go to the admins
+  INSERT INTO notifications (user_id, type, title, message, data)
+  SELECT
+    recipient,
+    'payment_' || p_event_type,
+    CASE p_event_type
+      WHEN 'first_alert' THEN 'Payment overdue'
+      WHEN 'suspicious_alert' THEN 'Payment still not received'
+      WHEN 'admin_alert' THEN 'Overdue payment escalated'
+      ELSE 'Payment promise broken'
+    END,
+    p_message,
+    jsonb_build_object('sale_id', p_sale_id, 'quotation_id', p_quotation_id, 'follow_up_id', v_task_id)
+  FROM (
+    SELECT p_owner AS recipient WHERE p_owner IS NOT NULL
+    UNION
+    SELECT id FROM staff WHERE role = 'admin' AND (p_notify_admins OR p_owner IS NULL)
+  ) recipients;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION raise_payment_follow_up(uuid, uuid, uuid, text, text, uuid, date, boolean)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION run_payment_reminders(p_as_of date DEFAULT CURRENT_DATE)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bill record;
+  v_rule payment_reminder_rules%ROWTYPE;
+  v_alerts integer := 0;
+  v_broken integer := 0;
+  v_closed integer := 0;
+BEGIN
+  -- The morning job and a manual run must not raise the same alert twice
+  PERFORM pg_advisory_xact_lock(hashtext('run_payment_reminders'));
+
+  UPDATE payment_follow_ups f
+  SET status = 'closed', completed_at = now()
+  FROM sales s
+  WHERE s.id = f.sale_id
+    AND f.status = 'open'
+    AND s.payment_status = 'paid';
+  GET DIAGNOSTICS v_closed = ROW_COUNT;
+
+  FOR v_bill IN
+    SELECT
+      s.id AS sale_id,
+      s.quotation_id,
+      s.customer_id,
+      s.sale_number,
+      COALESCE(s.staff_id, vc.staff_id) AS owner_id,
+      COALESCE(c.name, 'Walk-in customer') AS customer_name,
+      COALESCE((s.payment_details->>'pending_amount')::numeric, 0) AS due_amount,
+      p_as_of - COALESCE(l.due_date, s.created_at::date) AS days_overdue
+    FROM sales s
+    LEFT JOIN customers c ON c.id = s.customer_id
+    LEFT JOIN video_calls vc ON vc.id = s.video_call_id
+    LEFT JOIN customer_ledger l
+      ON l.sale_id = s.id AND l.entry_type IN ('invoice', 'opening_balance')
+    WHERE s.payment_status = 'pending'
+      AND COALESCE((s.payment_details->>'pending_amount')::numeric, 0) > 0
+  LOOP
+    FOR v_rule IN
+      SELECT * FROM payment_reminder_rules
+      WHERE active AND days_overdue <= v_bill.days_overdue
+      ORDER BY days_overdue
+    LOOP
+      IF raise_payment_follow_up(
+        v_bill.sale_id,
+        v_bill.quotation_id,
+        v_bill.customer_id,
+        v_rule.event_type,
+        replace(replace(replace(replace(v_rule.message,
+          '{customer}', v_bill.customer_name),
+          '{bill}', v_bill.sale_number),
+          '{amount}', to_char(v_bill.due_amount, 'FM999999990.00')),
+          '{days}', v_bill.days_overdue::text),
+        v_bill.owner_id,
+        p_as_of + v_rule.follow_up_days,
+        v_rule.notify_admins
+      ) THEN
+        v_alerts := v_alerts + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  FOR v_bill IN
+    SELECT
+      q.id AS quotation_id,
+      (q.next_follow_up->>'date')::date AS promised_on,
+      s.id AS sale_id,
+      s.customer_id,
+      s.sale_number,
+      COALESCE(s.staff_id, vc.staff_id) AS owner_id,
+      COALESCE(c.name, 'Walk-in customer') AS customer_name
+    FROM quotations q
+    JOIN sales s ON s.quotation_id = q.id
+    LEFT JOIN customers c ON c.id = s.customer_id
+    LEFT JOIN video_calls vc ON vc.id = s.video_call_id
+    WHERE q.next_follow_up->>'status' = 'payment_promise'
+      AND (q.next_follow_up->>'date')::date < p_as_of
+      AND s.payment_status = 'pending'
+    FOR UPDATE OF q
+  LOOP
+    UPDATE quotations
+    SET next_follow_up = next_follow_up || jsonb_build_object('status', 'broken_promise', 'broken_at', now())
+    WHERE id = v_bill.quotation_id;
+
+    PERFORM raise_payment_follow_up(
+      v_bill.sale_id,
+      v_bill.quotation_id,
+      v_bill.customer_id,
+      'payment_failed',
+      format('%s did not pay %s as promised on %s', v_bill.customer_name, v_bill.sale_number, to_char(v_bill.promised_on, 'DD Mon YYYY')),
+      v_bill.owner_id,
+      p_as_of,
+      false
+    );
+    v_broken := v_broken + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('alerts', v_alerts, 'broken_promises', v_broken, 'closed', v_closed);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION run_payment_reminders(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION run_payment_reminders(date) TO authenticated;
+
+CREATE OR REPLACE FUNCTION add_payment_note(
+  p_quotation_id uuid,
+  p_note text,
+  p_status text,
+  p_next_payment_date date DEFAULT NULL,
+  p_staff_id uuid DEFAULT NULL
+)
+RETURNS quotations
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_quotation quotations%ROWTYPE;
+BEGIN
+  UPDATE quotations
+  SET
+    payment_notes = array_append(
+      COALESCE(payment_notes, ARRAY[]::jsonb[]),
+      jsonb_build_object(
+        'timestamp', now(),
+        'note', p_note,
+        'status', p_status,
+        'staff_id', p_staff_id,
+        'next_payment_date', p_next_payment_date
+      )
+    ),
+    staff_responses = array_append(
+      COALESCE(staff_responses, ARRAY[]::jsonb[]),
+      jsonb_build_object(
+        'timestamp', now(),
+        'staff_id', p_staff_id,
+        'action', p_status,
+        'note', p_note,
+        'next_action_date', p_next_payment_date
+      )
+    ),
+    payment_timeline = CASE
+      WHEN p_status = 'payment_promise' AND p_next_payment_date IS NOT NULL THEN array_append(
+        COALESCE(payment_timeline, ARRAY[]::jsonb[]),
+        jsonb_build_object(
+          'type', 'payment_promise',
+          'timestamp', now(),
+          'message', 'Customer promised to pay by ' || to_char(p_next_payment_date, 'DD Mon YYYY'),
+          'response', jsonb_build_object('message', p_note)
+        )
+      )
+      ELSE payment_timeline
+    END,
+    next_follow_up = CASE
+      WHEN p_next_payment_date IS NULL THEN NULL
+      ELSE jsonb_build_object(
+        'date', p_next_payment_date,
+        'reason', p_note,
+        'status', p_status,
+        'set_by', p_staff_id,
+        'set_at', now()
+      )
+    END
+  WHERE id = p_quotation_id
+  RETURNING * INTO v_quotation;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation not found';
+  END IF;
+
+  RETURN v_quotation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_payment_note(uuid, text, text, date, uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    -- 09:00 IST
+    PERFORM cron.schedule('payment-reminders', '30 3 * * *', 'SELECT run_payment_reminders()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,249 @@
+/*
+  # Bank and UPI statement reconciliation
+
+  1. New Tables
+    - `bank_statement_lines`: credits imported from a bank or UPI statement
+      CSV. Each line is matched to the pending bill it paid, or ignored when
+      it is not a customer payment. Importing the same statement again skips
+      lines already on file; identical credits on one day (the same amount
+      paid twice with no reference) are told apart by their occurrence.
+
+  2. Functions
+    - `apply_sale_payment` puts money against one pending bill and keeps the
+      bill's payment status in step; `record_customer_receipt` now uses it.
+      It writes no ledger entry, so it is only called from the two functions
+      below, never directly.
+    - `reconcile_statement_line` applies a statement credit to the chosen bill
+      and posts the receipt to the customer's ledger. Anything received over
+      what the bill owed stays on the customer's account as an advance, so a
+      walk-in bill (no account to hold it) can only take a credit up to what
+      it owes.
+
+  3. Security
+    - RLS enabled, authenticated staff can import, read and ignore lines.
+      Lines are only matched through `reconcile_statement_line`, which only
+      signed-in staff can call, as with `record_customer_receipt`.
+*/
+
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_file text,
+  payment_method text NOT NULL DEFAULT 'upi' CHECK (payment_method IN ('upi', 'bank_transfer')),
+  txn_date date NOT NULL,
+  description text NOT NULL DEFAULT '',
+  reference text NOT NULL DEFAULT '',
+  amount numeric(14,2) NOT NULL CHECK (amount > 0),
+  -- 1 for the first credit with this date, amount, reference and narration
+  -- in the statement, 2 for the next, ...
+  occurrence integer NOT NULL DEFAULT 1 CHECK (occurrence > 0),
+  status text NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'matched', 'ignored')),
+  sale_id uuid REFERENCES sales(id),
+  applied_amount numeric(14,2) NOT NULL DEFAULT 0,
+  ledger_entry_id uuid REFERENCES customer_ledger(id),
+  matched_by uuid,
+  matched_at timestamptz,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (txn_date, amount, reference, description, occurrence)
+);
+
+CREATE INDEX IF NOT EXISTS bank_statement_lines_status_idx
+  ON bank_statement_lines (status, txn_date);
+
+ALTER TABLE bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read statement lines"
+  ON bank_statement_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can import statement lines"
+  ON bank_statement_lines FOR INSERT
+  TO authenticated
+  WITH CHECK (status = 'unmatched');
+
+CREATE POLICY "Staff can ignore statement lines"
+  ON bank_statement_lines FOR UPDATE
+  TO authenticated
+  USING (status <> 'matched')
+  WITH CHECK (status IN ('unmatched', 'ignored'));
+
+CREATE OR REPLACE FUNCTION apply_sale_payment(
+  p_sale_id uuid,
+  p_amount numeric,
+  p_method text,
+  p_reference text DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_due numeric;
+  v_applied numeric;
+BEGIN
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  v_due := GREATEST(COALESCE((v_sale.payment_details->>'pending_amount')::numeric, 0), 0);
+  IF v_sale.payment_status <> 'pending' OR v_due <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_applied := LEAST(v_due, round(p_amount, 2));
+  IF v_applied <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE sales
+  SET
+    payment_status = CASE WHEN v_applied >= v_due THEN 'paid' ELSE 'pending' END,
+    payment_details = payment_details || jsonb_build_object(
+      'paid_amount', COALESCE((payment_details->>'paid_amount')::numeric, 0) + v_applied,
+      'pending_amount', v_due - v_applied,
+      'payment_status', CASE WHEN v_applied >= v_due THEN 'completed' ELSE 'pending' END,
+      'payments', COALESCE(payment_details->'payments', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+        'amount', v_applied,
+        'date', now(),
+        'type', 'receipt',
+        'method', p_method,
+        'reference', NULLIF(p_reference, '')
+      ))
+    )
+  WHERE id = p_sale_id;
+
+  IF v_applied >= v_due THEN
+    UPDATE quotations
+    SET bill_status = 'paid', bill_paid_at = now()
+    WHERE id = v_sale.quotation_id;
+
+    UPDATE video_calls
+    SET bill_status = 'paid', bill_paid_at = now()
+    WHERE id = v_sale.video_call_id;
+  END IF;
+
+  RETURN v_applied;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_sale_payment(uuid, numeric, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_customer_receipt(
+  p_customer_id uuid,
+  p_amount numeric,
+  p_method text,
+  p_reference text DEFAULT NULL,
+  p_entry_date date DEFAULT CURRENT_DATE,
+  p_notes text DEFAULT NULL
+)
+RETURNS customer_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry customer_ledger%ROWTYPE;
+  v_sale_id uuid;
+  v_left numeric := round(p_amount, 2);
+BEGIN
+  IF v_left IS NULL OR v_left <= 0 THEN
+    RAISE EXCEPTION 'Enter an amount greater than 0';
+  END IF;
+
+  INSERT INTO customer_ledger (customer_id, entry_type, entry_date, reference, amount, payment_method, notes)
+  VALUES (p_customer_id, 'receipt', COALESCE(p_entry_date, CURRENT_DATE), NULLIF(p_reference, ''), -v_left, p_method, NULLIF(p_notes, ''))
+  RETURNING * INTO v_entry;
+
+  FOR v_sale_id IN
+    SELECT id FROM sales
+    WHERE customer_id = p_customer_id
+      AND payment_status = 'pending'
+    ORDER BY created_at
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_left := v_left - apply_sale_payment(v_sale_id, v_left, p_method, p_reference);
+  END LOOP;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_customer_receipt(uuid, numeric, text, text, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_customer_receipt(uuid, numeric, text, text, date, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION reconcile_statement_line(p_line_id uuid, p_sale_id uuid)
+RETURNS bank_statement_lines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line bank_statement_lines%ROWTYPE;
+  v_sale sales%ROWTYPE;
+  v_reference text;
+  v_applied numeric;
+  v_entry_id uuid;
+BEGIN
+  SELECT * INTO v_line FROM bank_statement_lines WHERE id = p_line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Statement line not found';
+  END IF;
+  IF v_line.status <> 'unmatched' THEN
+    RAISE EXCEPTION 'This statement line is already %', v_line.status;
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  v_reference := COALESCE(NULLIF(v_line.reference, ''), v_sale.sale_number);
+  v_applied := apply_sale_payment(p_sale_id, v_line.amount, v_line.payment_method, v_reference);
+  IF v_applied <= 0 THEN
+    RAISE EXCEPTION 'Nothing is due on %', v_sale.sale_number;
+  END IF;
+
+  -- A walk-in has no account to hold the excess; raising rolls the
+  -- payment back
+  IF v_sale.customer_id IS NULL AND v_line.amount > v_applied THEN
+    RAISE EXCEPTION '% is more than the % due on walk-in bill %; there is no customer account to hold the rest',
+      v_line.amount, v_applied, v_sale.sale_number;
+  END IF;
+
+  -- The whole credit goes on the account; the bill only takes what it owed
+  IF v_sale.customer_id IS NOT NULL THEN
+    INSERT INTO customer_ledger (customer_id, entry_type, entry_date, reference, amount, payment_method, sale_id, notes)
+    VALUES (
+      v_sale.customer_id,
+      'receipt',
+      v_line.txn_date,
+      v_reference,
+      -v_line.amount,
+      v_line.payment_method,
+      p_sale_id,
+      'Matched from statement'
+    )
+    RETURNING id INTO v_entry_id;
+  END IF;
+
+  UPDATE bank_statement_lines
+  SET
+    status = 'matched',
+    sale_id = p_sale_id,
+    applied_amount = v_applied,
+    ledger_entry_id = v_entry_id,
+    matched_by = auth.uid(),
+    matched_at = now()
+  WHERE id = p_line_id
+  RETURNING * INTO v_line;
+
+  RETURN v_line;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reconcile_statement_line(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reconcile_statement_line(uuid, uuid) TO authenticated;
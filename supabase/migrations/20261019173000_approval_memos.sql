@@ -0,0 +1,374 @@
+/*
+  # Approval memos
+
+  1. New Tables
+    - `approval_memo_series`: last memo number used in each financial year,
+      taken under a row lock like `credit_note_series`
+    - `approval_memos`: pieces issued on approval to a customer or a broker,
+      with the date they are due back. Open until every piece is sold or
+      returned.
+    - `approval_memo_items`: one row per piece on a memo with the price it
+      went out at. A piece is `out` until it is sold on a bill or returned.
+
+  2. Functions
+    - `issue_approval_memo` numbers the memo and moves its pieces from stock
+      to `on_approval`
+    - `return_approval_pieces` puts returned pieces back in stock
+    - `convert_approval_memo` bills the chosen pieces through `complete_sale`
+      in the same transaction and marks them sold on the memo. Each piece is
+      billed at the price it went out at on the memo.
+
+  3. Security
+    - RLS enabled, authenticated staff can read memos. Memos and their items
+      are only written by the functions above. `refresh_approval_memo_status`
+      is only called from them; no role can call it directly.
+*/
+
+CREATE TABLE IF NOT EXISTS approval_memo_series (
+  financial_year text PRIMARY KEY,
+  prefix text NOT NULL DEFAULT 'AM',
+  last_number integer NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS approval_memos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  memo_number text NOT NULL UNIQUE,
+  financial_year text NOT NULL REFERENCES approval_memo_series(financial_year),
+  serial integer NOT NULL,
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date NOT NULL,
+  customer_id uuid REFERENCES customers(id),
+  -- Brokers take goods to show their own buyers and need not be customers
+  broker_name text,
+  broker_phone text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'partially_settled', 'closed')),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz,
+  UNIQUE (financial_year, serial),
+  CHECK (customer_id IS NOT NULL OR NULLIF(trim(broker_name), '') IS NOT NULL),
+  CHECK (due_date >= issue_date)
+);
+
+CREATE TABLE IF NOT EXISTS approval_memo_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  memo_id uuid NOT NULL REFERENCES approval_memos(id) ON DELETE CASCADE,
+  piece_id uuid NOT NULL REFERENCES product_pieces(id),
+  product_id uuid NOT NULL REFERENCES products(id),
+  price numeric(14,2) NOT NULL CHECK (price >= 0),
+  status text NOT NULL DEFAULT 'out' CHECK (status IN ('out', 'sold', 'returned')),
+  sale_id uuid REFERENCES sales(id),
+  settled_at timestamptz,
+  UNIQUE (memo_id, piece_id)
+);
+
+-- A piece can only be out on one memo at a time
+CREATE UNIQUE INDEX IF NOT EXISTS approval_memo_items_out_idx
+  ON approval_memo_items (piece_id)
+  WHERE status = 'out';
+
+CREATE INDEX IF NOT EXISTS approval_memos_customer_idx
+  ON approval_memos (customer_id, status);
+
+CREATE INDEX IF NOT EXISTS approval_memos_due_idx
+  ON approval_memos (due_date)
+  WHERE status <> 'closed';
+
+ALTER TABLE approval_memo_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approval_memos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approval_memo_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read approval memo series"
+  ON approval_memo_series FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can read approval memos"
+  ON approval_memos FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can read approval memo items"
+  ON approval_memo_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Open while anything is out; closed once every piece is sold or returned
+CREATE OR REPLACE FUNCTION refresh_approval_memo_status(p_memo_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_out integer;
+  v_settled integer;
+BEGIN
+  SELECT
+    count(*) FILTER (WHERE status = 'out'),
+    count(*) FILTER (WHERE status <> 'out')
+  INTO v_out, v_settled
+  FROM approval_memo_items
+  WHERE memo_id = p_memo_id;
+
+  UPDATE approval_memos
+  SET
+    status = CASE
+      WHEN v_out = 0 THEN 'closed'
+      WHEN v_settled > 0 THEN 'partially_settled'
+      ELSE 'open'
+    END,
+    closed_at = CASE WHEN v_out = 0 THEN now() END
+  WHERE id = p_memo_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_approval_memo(p_memo jsonb)
+RETURNS approval_memos
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_items jsonb := p_memo->'items';
+  v_item jsonb;
+  v_piece product_pieces%ROWTYPE;
+  v_year text := financial_year_of(CURRENT_DATE);
+  v_series approval_memo_series%ROWTYPE;
+  v_memo approval_memos%ROWTYPE;
+BEGIN
+  IF jsonb_array_length(COALESCE(v_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one piece to the memo';
+  END IF;
+
+  IF NULLIF(p_memo->>'customer_id', '') IS NULL AND NULLIF(trim(p_memo->>'broker_name'), '') IS NULL THEN
+    RAISE EXCEPTION 'Choose a customer or enter the broker''s name';
+  END IF;
+
+  IF NULLIF(p_memo->>'due_date', '') IS NULL OR (p_memo->>'due_date')::date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Set a due-back date from today onwards';
+  END IF;
+
+  INSERT INTO approval_memo_series (financial_year)
+  VALUES (v_year)
+  ON CONFLICT (financial_year) DO NOTHING;
+
+  UPDATE approval_memo_series
+  SET last_number = last_number + 1
+  WHERE financial_year = v_year
+  RETURNING * INTO v_series;
+
+  INSERT INTO approval_memos (
+    memo_number, financial_year, serial, due_date, customer_id,
+    broker_name, broker_phone, notes
+  )
+  VALUES (
+    v_series.prefix || '/' || v_year || '/' || lpad(v_series.last_number::text, 5, '0'),
+    v_year,
+    v_series.last_number,
+    (p_memo->>'due_date')::date,
+    NULLIF(p_memo->>'customer_id', '')::uuid,
+    NULLIF(trim(p_memo->>'broker_name'), ''),
+    NULLIF(trim(p_memo->>'broker_phone'), ''),
+    NULLIF(trim(p_memo->>'notes'), '')
+  )
+  RETURNING * INTO v_memo;
+
+  PERFORM set_config('app.stock_movement_type', 'transfer', true);
+  PERFORM set_config('app.stock_reference_type', 'approval_memo', true);
+  PERFORM set_config('app.stock_reference_id', v_memo.id::text, true);
+  PERFORM set_config('app.stock_movement_notes', 'Out on approval memo ' || v_memo.memo_number, true);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_items)
+  LOOP
+    SELECT * INTO v_piece
+    FROM product_pieces
+    WHERE id = (v_item->>'piece_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Piece % not found', v_item->>'piece_id';
+    END IF;
+    IF v_piece.status <> 'in_stock' THEN
+      RAISE EXCEPTION 'Piece % is not in stock', v_piece.serial;
+    END IF;
+
+    INSERT INTO approval_memo_items (memo_id, piece_id, product_id, price)
+    VALUES (v_memo.id, v_piece.id, v_piece.product_id, round(COALESCE((v_item->>'price')::numeric, 0), 2));
+
+    UPDATE product_pieces
+    SET status = 'on_approval'
+    WHERE id = v_piece.id;
+  END LOOP;
+
+  PERFORM set_config('app.stock_movement_type', '', true);
+  PERFORM set_config('app.stock_reference_type', '', true);
+  PERFORM set_config('app.stock_reference_id', '', true);
+  PERFORM set_config('app.stock_movement_notes', '', true);
+
+  RETURN v_memo;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_approval_pieces(p_memo_id uuid, p_piece_ids uuid[])
+RETURNS approval_memos
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_memo approval_memos%ROWTYPE;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_memo FROM approval_memos WHERE id = p_memo_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval memo not found';
+  END IF;
+
+  IF COALESCE(array_length(p_piece_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Select the pieces being returned';
+  END IF;
+
+  SELECT count(*) INTO v_count
+  FROM approval_memo_items
+  WHERE memo_id = p_memo_id AND status = 'out' AND piece_id = ANY(p_piece_ids);
+
+  IF v_count <> array_length(p_piece_ids, 1) THEN
+    RAISE EXCEPTION 'Some of these pieces are not out on %', v_memo.memo_number;
+  END IF;
+
+  PERFORM set_config('app.stock_movement_type', 'return', true);
+  PERFORM set_config('app.stock_reference_type', 'approval_memo', true);
+  PERFORM set_config('app.stock_reference_id', v_memo.id::text, true);
+  PERFORM set_config('app.stock_movement_notes', 'Returned from approval memo ' || v_memo.memo_number, true);
+
+  UPDATE product_pieces
+  SET status = 'in_stock'
+  WHERE id = ANY(p_piece_ids);
+
+  PERFORM set_config('app.stock_movement_type', '', true);
+  PERFORM set_config('app.stock_reference_type', '', true);
+  PERFORM set_config('app.stock_reference_id', '', true);
+  PERFORM set_config('app.stock_movement_notes', '', true);
+
+  UPDATE approval_memo_items
+  SET status = 'returned', settled_at = now()
+  WHERE memo_id = p_memo_id AND piece_id = ANY(p_piece_ids);
+
+  PERFORM refresh_approval_memo_status(p_memo_id);
+
+  SELECT * INTO v_memo FROM approval_memos WHERE id = p_memo_id;
+  RETURN v_memo;
+END;
+$$;
+
+-- The pieces to bill are the pieceIds on the sale's items, one unit each
+CREATE OR REPLACE FUNCTION convert_approval_memo(
+  p_memo_id uuid,
+  p_idempotency_key text,
+  p_sale jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_memo approval_memos%ROWTYPE;
+  v_piece_ids uuid[];
+  v_count integer;
+  v_result jsonb;
+BEGIN
+  IF COALESCE(p_idempotency_key, '') = '' THEN
+    RAISE EXCEPTION 'Sale is missing its idempotency key';
+  END IF;
+
+  -- A retried conversion returns the first sale without touching the pieces
+  PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key));
+  IF EXISTS (SELECT 1 FROM sales WHERE idempotency_key = p_idempotency_key) THEN
+    RETURN complete_sale(p_idempotency_key, p_sale);
+  END IF;
+
+  SELECT * INTO v_memo FROM approval_memos WHERE id = p_memo_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval memo not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_sale->'quotation_data'->'items', '[]'::jsonb)) item
+    WHERE (item->>'quantity')::integer <> jsonb_array_length(COALESCE(item->'pieceIds', '[]'::jsonb))
+  ) THEN
+    RAISE EXCEPTION 'Each line must name the memo pieces it bills';
+  END IF;
+
+  SELECT array_agg(DISTINCT piece_id::uuid) INTO v_piece_ids
+  FROM jsonb_array_elements(COALESCE(p_sale->'quotation_data'->'items', '[]'::jsonb)) item,
+    jsonb_array_elements_text(item->'pieceIds') piece_id;
+
+  IF COALESCE(array_length(v_piece_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Select the pieces being bought';
+  END IF;
+
+  SELECT count(*) INTO v_count
+  FROM approval_memo_items
+  WHERE memo_id = p_memo_id AND status = 'out' AND piece_id = ANY(v_piece_ids);
+
+  IF v_count <> array_length(v_piece_ids, 1) THEN
+    RAISE EXCEPTION 'Some of these pieces are not out on %', v_memo.memo_number;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_sale->'quotation_data'->'items') item,
+      jsonb_array_elements_text(item->'pieceIds') piece_id
+    JOIN approval_memo_items memo_item
+      ON memo_item.memo_id = p_memo_id AND memo_item.piece_id = piece_id::uuid
+    WHERE abs(COALESCE((item->>'price')::numeric, 0) - memo_item.price) > 0.005
+  ) THEN
+    RAISE EXCEPTION 'Pieces must be billed at the price on %', v_memo.memo_number;
+  END IF;
+
+  -- Back into stock for a moment so complete_sale can pick them
+  PERFORM set_config('app.stock_movement_type', 'transfer', true);
+  PERFORM set_config('app.stock_reference_type', 'approval_memo', true);
+  PERFORM set_config('app.stock_reference_id', v_memo.id::text, true);
+  PERFORM set_config('app.stock_movement_notes', 'Bought from approval memo ' || v_memo.memo_number, true);
+
+  UPDATE product_pieces
+  SET status = 'in_stock'
+  WHERE id = ANY(v_piece_ids);
+
+  PERFORM set_config('app.stock_movement_type', '', true);
+  PERFORM set_config('app.stock_reference_type', '', true);
+  PERFORM set_config('app.stock_reference_id', '', true);
+  PERFORM set_config('app.stock_movement_notes', '', true);
+
+  v_result := complete_sale(p_idempotency_key, p_sale);
+
+  SELECT count(*) INTO v_count
+  FROM product_pieces
+  WHERE id = ANY(v_piece_ids)
+    AND status = 'sold'
+    AND quotation_id = (v_result->>'quotation_id')::uuid;
+
+  IF v_count <> array_length(v_piece_ids, 1) THEN
+    RAISE EXCEPTION 'The bill did not take the pieces from %', v_memo.memo_number;
+  END IF;
+
+  UPDATE approval_memo_items
+  SET status = 'sold', sale_id = (v_result->>'sale_id')::uuid, settled_at = now()
+  WHERE memo_id = p_memo_id AND piece_id = ANY(v_piece_ids);
+
+  PERFORM refresh_approval_memo_status(p_memo_id);
+
+  RETURN v_result || jsonb_build_object('memo_number', v_memo.memo_number);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_approval_memo_status(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION issue_approval_memo(jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION return_approval_pieces(uuid, uuid[]) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION convert_approval_memo(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION issue_approval_memo(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION return_approval_pieces(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION convert_approval_memo(uuid, text, jsonb) TO authenticated;
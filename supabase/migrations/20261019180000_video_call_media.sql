@@ -0,0 +1,63 @@
+/*
+  # In-app video call timings
+
+  1. Changes
+    - `video_calls.call_started_at`: when staff and customer were first
+      connected in the app
+    - `video_calls.call_ended_at`: when the call was hung up
+    - `video_calls.call_duration_seconds`: time from start to end
+
+  2. Functions
+    - `record_video_call_event` stamps the start or end of the in-app call
+      with the database clock. Starting again after a dropped call keeps the
+      first start time and clears the end.
+
+  Signalling for the call itself goes over Supabase Realtime broadcast and
+  needs no tables.
+*/
+
+ALTER TABLE video_calls
+  ADD COLUMN IF NOT EXISTS call_started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS call_ended_at timestamptz,
+  ADD COLUMN IF NOT EXISTS call_duration_seconds integer CHECK (call_duration_seconds >= 0);
+
+CREATE OR REPLACE FUNCTION record_video_call_event(p_call_id uuid, p_event text)
+RETURNS video_calls
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_call video_calls%ROWTYPE;
+BEGIN
+  IF p_event NOT IN ('started', 'ended') THEN
+    RAISE EXCEPTION 'Unknown call event %', p_event;
+  END IF;
+
+  IF p_event = 'started' THEN
+    UPDATE video_calls
+    SET
+      call_started_at = COALESCE(call_started_at, now()),
+      call_ended_at = NULL,
+      call_duration_seconds = NULL
+    WHERE id = p_call_id
+    RETURNING * INTO v_call;
+  ELSE
+    UPDATE video_calls
+    SET
+      call_ended_at = now(),
+      call_duration_seconds = CASE
+        WHEN call_started_at IS NOT NULL
+          THEN GREATEST(extract(epoch FROM now() - call_started_at)::integer, 0)
+      END
+    WHERE id = p_call_id
+    RETURNING * INTO v_call;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Video call not found';
+  END IF;
+
+  RETURN v_call;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_video_call_event(uuid, text) TO authenticated;
@@ -0,0 +1,163 @@
+/*
+  # Customer join links for video calls
+
+  1. Changes
+    - `video_calls.join_token`: secret in the customer's join link
+    - `video_calls.join_token_expires_at`: the link stops working after this
+    - `video_calls.customer_waiting_at`: when the customer last entered the
+      call from the lobby
+
+  2. Functions
+    - `issue_video_call_join_link` gives staff the call's join token, making
+      one when there is none, it has expired or a fresh one is asked for.
+      Links last until two hours after the scheduled time.
+    - `get_video_call_lobby` returns what the customer's lobby shows for a
+      token: schedule, time zone and staff name. Callable without a login.
+    - `announce_customer_waiting` notifies the assigned staff (or the admins
+      when nobody is assigned) that the customer is in the call. Repeats
+      within two minutes, e.g. a page refresh, are not notified again.
+
+  3. Realtime
+    - `notifications` is added to the realtime publication so staff screens
+      hear about a waiting customer straight away
+*/
+
+ALTER TABLE video_calls
+  ADD COLUMN IF NOT EXISTS join_token text UNIQUE,
+  ADD COLUMN IF NOT EXISTS join_token_expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS customer_waiting_at timestamptz;
+
+CREATE OR REPLACE FUNCTION issue_video_call_join_link(p_call_id uuid, p_renew boolean DEFAULT false)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_call video_calls%ROWTYPE;
+BEGIN
+  SELECT * INTO v_call FROM video_calls WHERE id = p_call_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Video call not found';
+  END IF;
+
+  IF v_call.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Video call is %; no join link can be issued', v_call.status;
+  END IF;
+
+  IF p_renew OR v_call.join_token IS NULL OR v_call.join_token_expires_at <= now() THEN
+    UPDATE video_calls
+    SET
+      join_token = replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+      join_token_expires_at = GREATEST(scheduled_at, now()) + interval '2 hours'
+    WHERE id = p_call_id
+    RETURNING * INTO v_call;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'token', v_call.join_token,
+    'expires_at', v_call.join_token_expires_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_video_call_lobby(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lobby jsonb;
+BEGIN
+  SELECT jsonb_build_object(
+    'call_id', vc.id,
+    'scheduled_at', vc.scheduled_at,
+    'customer_time_zone', vc.customer_time_zone,
+    'customer_name', c.name,
+    'staff_name', s.name,
+    'status', vc.status,
+    'expires_at', vc.join_token_expires_at
+  )
+  INTO v_lobby
+  FROM video_calls vc
+  LEFT JOIN customers c ON c.id = vc.customer_id
+  LEFT JOIN staff s ON s.id = vc.staff_id
+  WHERE vc.join_token = p_token
+    AND vc.join_token_expires_at > now()
+    AND vc.status NOT IN ('completed', 'cancelled');
+
+  IF v_lobby IS NULL THEN
+    RAISE EXCEPTION 'This join link is invalid or has expired';
+  END IF;
+
+  RETURN v_lobby;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION announce_customer_waiting(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_call video_calls%ROWTYPE;
+  v_customer_name text;
+BEGIN
+  SELECT * INTO v_call
+  FROM video_calls
+  WHERE join_token = p_token
+    AND join_token_expires_at > now()
+    AND status NOT IN ('completed', 'cancelled')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This join link is invalid or has expired';
+  END IF;
+
+  IF v_call.customer_waiting_at IS NOT NULL AND v_call.customer_waiting_at > now() - interval '2 minutes' THEN
+    RETURN v_call.id;
+  END IF;
+
+  UPDATE video_calls SET customer_waiting_at = now() WHERE id = v_call.id;
+
+  SELECT name INTO v_customer_name FROM customers WHERE id = v_call.customer_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  SELECT
+    recipient,
+    'video_call_customer_waiting',
+    'Customer waiting',
+    COALESCE(v_customer_name, 'The customer') || ' is waiting in video call #' || COALESCE(v_call.video_call_number::text, ''),
+    jsonb_build_object(
+      'video_call_id', v_call.id,
+      'video_call_number', v_call.video_call_number,
+      'customer_name', v_customer_name
+    )
+  FROM (
+    SELECT v_call.staff_id AS recipient WHERE v_call.staff_id IS NOT NULL
+    UNION
+    SELECT id FROM staff WHERE role = 'admin' AND v_call.staff_id IS NULL
+  ) recipients;
+
+  RETURN v_call.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_video_call_join_link(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_video_call_lobby(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION announce_customer_waiting(text) TO anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END;
+$$;
@@ -0,0 +1,118 @@
+/*
+  # Video call showcase
+
+  1. New Tables
+    - `video_call_showcase_items`: products staff have shown on a call, with
+      the image, weight and price the customer saw and whether the customer
+      shortlisted it. A piece scanned again is moved back to the top rather
+      than listed twice.
+
+  2. Functions
+    - `get_call_showcase` lists a call's showcase for the customer's join
+      token. Callable without a login.
+    - `set_showcase_shortlist` lets the customer heart or un-heart an item
+      with their join token.
+
+  3. Security
+    - RLS enabled; authenticated staff manage showcase items. Customers only
+      reach them through the two token functions.
+*/
+
+CREATE TABLE IF NOT EXISTS video_call_showcase_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_call_id uuid NOT NULL REFERENCES video_calls(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id),
+  piece_id uuid REFERENCES product_pieces(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  sku text NOT NULL,
+  image_url text,
+  gross_weight numeric(10,3),
+  net_weight numeric(10,3),
+  price numeric(12,2) NOT NULL CHECK (price >= 0),
+  shortlisted boolean NOT NULL DEFAULT false,
+  shortlisted_at timestamptz,
+  shown_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS video_call_showcase_items_unique_idx
+  ON video_call_showcase_items (video_call_id, product_id, COALESCE(piece_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE INDEX IF NOT EXISTS video_call_showcase_items_call_idx
+  ON video_call_showcase_items (video_call_id, shown_at DESC);
+
+ALTER TABLE video_call_showcase_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read showcase items"
+  ON video_call_showcase_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can add showcase items"
+  ON video_call_showcase_items FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can update showcase items"
+  ON video_call_showcase_items FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can remove showcase items"
+  ON video_call_showcase_items FOR DELETE
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION get_call_showcase(p_token text)
+RETURNS SETOF video_call_showcase_items
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_call_id uuid;
+BEGIN
+  SELECT id INTO v_call_id
+  FROM video_calls
+  WHERE join_token = p_token
+    AND join_token_expires_at > now()
+    AND status NOT IN ('completed', 'cancelled');
+
+  IF v_call_id IS NULL THEN
+    RAISE EXCEPTION 'This join link is invalid or has expired';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM video_call_showcase_items
+  WHERE video_call_id = v_call_id
+  ORDER BY shown_at DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_showcase_shortlist(p_token text, p_item_id uuid, p_shortlisted boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE video_call_showcase_items i
+  SET
+    shortlisted = p_shortlisted,
+    shortlisted_at = CASE WHEN p_shortlisted THEN now() END
+  FROM video_calls vc
+  WHERE i.id = p_item_id
+    AND vc.id = i.video_call_id
+    AND vc.join_token = p_token
+    AND vc.join_token_expires_at > now()
+    AND vc.status NOT IN ('completed', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showcase item not found or the join link has expired';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_call_showcase(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_showcase_shortlist(text, uuid, boolean) TO anon, authenticated;
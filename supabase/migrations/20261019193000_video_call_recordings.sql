@@ -0,0 +1,183 @@
+/*
+  # Video call recordings and bookmarks
+
+  1. Changes
+    - `video_calls.recording_consent`: the customer agreed to the call being
+      recorded; they give or withdraw it from their side of the call
+    - `video_calls.recording_consent_at`: when they last changed it
+
+  2. New Tables
+    - `video_call_recordings`: recordings made in the staff browser and
+      uploaded to the private `call-recordings` storage bucket
+    - `video_call_bookmarks`: timestamped notes on a call, tied to the SKU and
+      price shown where there is one. Showing a product and the customer
+      shortlisting it are bookmarked automatically.
+
+  3. Functions
+    - `set_recording_consent` records the customer's choice with their join
+      token. Callable without a login.
+    - Recordings can only be added to calls with consent.
+
+  4. Security
+    - RLS enabled; authenticated staff read and add recordings and bookmarks
+    - Storage: authenticated staff read call recordings, and upload them
+      under `<call id>/` only while that call has consent
+*/
+
+ALTER TABLE video_calls
+  ADD COLUMN IF NOT EXISTS recording_consent boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS recording_consent_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS video_call_recordings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_call_id uuid NOT NULL REFERENCES video_calls(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes >= 0),
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz NOT NULL,
+  duration_seconds integer GENERATED ALWAYS AS (GREATEST(extract(epoch FROM ended_at - started_at)::integer, 0)) STORED,
+  recorded_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS video_call_recordings_call_idx
+  ON video_call_recordings (video_call_id, started_at);
+
+CREATE TABLE IF NOT EXISTS video_call_bookmarks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_call_id uuid NOT NULL REFERENCES video_calls(id) ON DELETE CASCADE,
+  showcase_item_id uuid REFERENCES video_call_showcase_items(id) ON DELETE SET NULL,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  sku text,
+  price numeric(12,2),
+  note text NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS video_call_bookmarks_call_idx
+  ON video_call_bookmarks (video_call_id, created_at);
+
+ALTER TABLE video_call_recordings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE video_call_bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read call recordings"
+  ON video_call_recordings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can add call recordings"
+  ON video_call_recordings FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can read call bookmarks"
+  ON video_call_bookmarks FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can add call bookmarks"
+  ON video_call_bookmarks FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Recordings need the customer's consent at the time they are saved
+CREATE OR REPLACE FUNCTION check_recording_consent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM video_calls WHERE id = NEW.video_call_id AND recording_consent
+  ) THEN
+    RAISE EXCEPTION 'The customer has not agreed to this call being recorded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS video_call_recordings_consent ON video_call_recordings;
+CREATE TRIGGER video_call_recordings_consent
+  BEFORE INSERT ON video_call_recordings
+  FOR EACH ROW
+  EXECUTE FUNCTION check_recording_consent();
+
+CREATE OR REPLACE FUNCTION set_recording_consent(p_token text, p_consent boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE video_calls
+  SET
+    recording_consent = p_consent,
+    recording_consent_at = now()
+  WHERE join_token = p_token
+    AND join_token_expires_at > now()
+    AND status NOT IN ('completed', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This join link is invalid or has expired';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_recording_consent(text, boolean) TO anon, authenticated;
+
+-- What was shown, at what price, and what the customer liked
+CREATE OR REPLACE FUNCTION bookmark_showcase_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_note text;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.shown_at IS DISTINCT FROM OLD.shown_at THEN
+    v_note := 'Shown';
+  ELSIF NEW.shortlisted IS DISTINCT FROM OLD.shortlisted THEN
+    v_note := CASE WHEN NEW.shortlisted THEN 'Shortlisted' ELSE 'Removed from shortlist' END;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO video_call_bookmarks (video_call_id, showcase_item_id, product_id, sku, price, note, created_by)
+  VALUES (NEW.video_call_id, NEW.id, NEW.product_id, NEW.sku, NEW.price, v_note, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS video_call_showcase_bookmarks ON video_call_showcase_items;
+CREATE TRIGGER video_call_showcase_bookmarks
+  AFTER INSERT OR UPDATE OF shown_at, shortlisted ON video_call_showcase_items
+  FOR EACH ROW
+  EXECUTE FUNCTION bookmark_showcase_change();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('call-recordings', 'call-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Staff can read call recording files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'call-recordings');
+
+-- Files are stored under the call's id, so the consent check applies to
+-- the upload as well as the recording row
+CREATE POLICY "Staff can upload call recording files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'call-recordings'
+    AND EXISTS (
+      SELECT 1 FROM video_calls
+      WHERE video_calls.id::text = (storage.foldername(objects.name))[1]
+        AND recording_consent
+    )
+  );
@@ -0,0 +1,298 @@
+/*
+  # Configurable video call workflows
+
+  1. New Tables
+    - `workflow_definitions`: named workflows a video call can follow; one is
+      the default for calls that don't name their own
+    - `workflow_steps`: the steps of a workflow in order, with the staff roles
+      allowed to complete each (empty for anyone, admins always can), the
+      condition that skips it and the hours it should take. Seeded with the
+      seven-step video call sale the app used to hard-code.
+
+  2. Changes
+    - `video_calls.workflow_id`: the workflow the call follows, set to the
+      default on insert
+    - `video_calls.workflow_step_started_at`: when the call reached its
+      current step, for the step's SLA
+
+  3. Functions
+    - A trigger on `video_calls` fills in the workflow status of new calls,
+      marks steps whose skip condition applies (hand-carry orders skip QC,
+      packaging and dispatch; calls without a quotation skip the quotation)
+      and rejects starting or completing a step before the steps ahead of it
+      are done, or by staff without one of the step's roles. Steps can only
+      be skipped by their skip condition, and only admins can reopen a
+      completed step.
+    - `complete_workflow_step` completes a step of a call; completing a step
+      that is already done does nothing
+    - `save_workflow_steps` saves a workflow's steps in one go, so they can
+      be reordered; admins only
+
+  4. Security
+    - RLS enabled, authenticated staff can read workflows; only admins can
+      change steps
+*/
+
+CREATE TABLE IF NOT EXISTS workflow_definitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS workflow_definitions_one_default
+  ON workflow_definitions (is_default) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS workflow_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id uuid NOT NULL REFERENCES workflow_definitions(id) ON DELETE CASCADE,
+  -- Key in video_calls.workflow_status
+  step_key text NOT NULL CHECK (step_key ~ '^[a-z_]+$'),
+  label text NOT NULL,
+  position integer NOT NULL,
+  required_roles text[] NOT NULL DEFAULT '{}',
+  skip_when text CHECK (skip_when IN ('hand_carry', 'no_quotation')),
+  sla_hours numeric(6,1) CHECK (sla_hours > 0),
+  UNIQUE (workflow_id, step_key),
+  UNIQUE (workflow_id, position) DEFERRABLE INITIALLY DEFERRED
+);
+
+ALTER TABLE video_calls
+  ADD COLUMN IF NOT EXISTS workflow_id uuid REFERENCES workflow_definitions(id),
+  ADD COLUMN IF NOT EXISTS workflow_step_started_at timestamptz;
+
+ALTER TABLE workflow_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read workflows"
+  ON workflow_definitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can read workflow steps"
+  ON workflow_steps FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION current_staff_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM staff WHERE email = auth.jwt()->>'email' LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION current_staff_role() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION current_staff_role() TO authenticated;
+
+CREATE POLICY "Admins can update workflow steps"
+  ON workflow_steps FOR UPDATE
+  TO authenticated
+  USING (current_staff_role() = 'admin')
+  WITH CHECK (current_staff_role() = 'admin');
+
+DO $$
+DECLARE
+  v_workflow_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM workflow_definitions WHERE is_default) THEN
+    INSERT INTO workflow_definitions (name, description, is_default)
+    VALUES ('Video call sale', 'From the call through quotation and payment to dispatch', true)
+    RETURNING id INTO v_workflow_id;
+
+    INSERT INTO workflow_steps (workflow_id, step_key, label, position, required_roles, skip_when, sla_hours)
+    VALUES
+      (v_workflow_id, 'video_call', 'Video Call', 1, '{}', NULL, 24),
+      (v_workflow_id, 'quotation', 'Quotation', 2, '{}', 'no_quotation', 24),
+      (v_workflow_id, 'profiling', 'Profiling', 3, '{}', NULL, 24),
+      (v_workflow_id, 'payment', 'Payment', 4, '{}', NULL, 48),
+      (v_workflow_id, 'qc', 'Quality Check', 5, '{qc,manager}', 'hand_carry', 12),
+      (v_workflow_id, 'packaging', 'Packaging', 6, '{packaging,manager}', 'hand_carry', 12),
+      (v_workflow_id, 'dispatch', 'Dispatch', 7, '{dispatch,manager}', 'hand_carry', 24);
+  END IF;
+END $$;
+
+-- Whether a step's skip condition applies to the call
+CREATE OR REPLACE FUNCTION workflow_skip_applies(p_skip_when text, p_call video_calls)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_skip_when
+    WHEN 'hand_carry' THEN EXISTS (
+      SELECT 1 FROM quotations q
+      WHERE q.id = p_call.quotation_id AND q.delivery_method = 'hand_carry'
+    )
+    WHEN 'no_quotation' THEN NOT COALESCE(p_call.quotation_required, true)
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_video_call_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_step workflow_steps;
+  v_status jsonb := COALESCE(NEW.workflow_status, '{}'::jsonb);
+  v_old jsonb := '{}'::jsonb;
+  v_state text;
+  v_blocking text;
+  v_role text;
+  v_old_current text;
+  v_new_current text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_old := COALESCE(OLD.workflow_status, '{}'::jsonb);
+  END IF;
+
+  NEW.workflow_id := COALESCE(NEW.workflow_id, (SELECT id FROM workflow_definitions WHERE is_default));
+  IF NEW.workflow_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_step IN
+    SELECT * FROM workflow_steps WHERE workflow_id = NEW.workflow_id ORDER BY position
+  LOOP
+    v_state := COALESCE(v_status->>v_step.step_key, 'pending');
+
+    IF v_state NOT IN ('pending', 'in_progress', 'completed', 'skipped', 'rejected') THEN
+      RAISE EXCEPTION 'Unknown state % for %', v_state, v_step.label;
+    END IF;
+
+    -- Steps are only skipped by their skip condition, which is followed while
+    -- the step hasn't been worked on
+    IF v_state IN ('pending', 'skipped') THEN
+      v_state := CASE
+        WHEN v_step.skip_when IS NOT NULL AND workflow_skip_applies(v_step.skip_when, NEW) THEN 'skipped'
+        ELSE 'pending'
+      END;
+    END IF;
+    v_status := v_status || jsonb_build_object(v_step.step_key, v_state);
+
+    IF v_old->>v_step.step_key = 'completed' AND v_state <> 'completed' AND auth.uid() IS NOT NULL THEN
+      v_role := COALESCE(v_role, current_staff_role());
+      IF v_role IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can reopen %', v_step.label;
+      END IF;
+    END IF;
+
+    IF v_state IN ('in_progress', 'completed') AND v_state IS DISTINCT FROM v_old->>v_step.step_key THEN
+      IF v_blocking IS NOT NULL THEN
+        RAISE EXCEPTION '% must be completed before %', v_blocking, v_step.label;
+      END IF;
+
+      IF v_state = 'completed' AND cardinality(v_step.required_roles) > 0 AND auth.uid() IS NOT NULL THEN
+        v_role := COALESCE(v_role, current_staff_role());
+        IF v_role IS NULL OR (v_role <> 'admin' AND NOT v_role = ANY (v_step.required_roles)) THEN
+          RAISE EXCEPTION 'Only % staff can complete %',
+            array_to_string(v_step.required_roles, ', '), v_step.label;
+        END IF;
+      END IF;
+    END IF;
+
+    IF v_blocking IS NULL AND v_state NOT IN ('completed', 'skipped') THEN
+      v_blocking := v_step.label;
+      v_new_current := v_step.step_key;
+    END IF;
+    IF v_old_current IS NULL AND COALESCE(v_old->>v_step.step_key, 'pending') NOT IN ('completed', 'skipped') THEN
+      v_old_current := v_step.step_key;
+    END IF;
+  END LOOP;
+
+  NEW.workflow_status := v_status;
+  IF TG_OP = 'INSERT' OR NEW.workflow_step_started_at IS NULL OR v_new_current IS DISTINCT FROM v_old_current THEN
+    NEW.workflow_step_started_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS video_calls_workflow ON video_calls;
+CREATE TRIGGER video_calls_workflow
+  BEFORE INSERT OR UPDATE OF workflow_status, workflow_id, quotation_id, quotation_required ON video_calls
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_video_call_workflow();
+
+CREATE OR REPLACE FUNCTION complete_workflow_step(p_call_id uuid, p_step text)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_call video_calls;
+  v_status jsonb;
+BEGIN
+  SELECT * INTO v_call FROM video_calls WHERE id = p_call_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Video call not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM workflow_steps
+    WHERE workflow_id = COALESCE(v_call.workflow_id, (SELECT id FROM workflow_definitions WHERE is_default))
+      AND step_key = p_step
+  ) THEN
+    RAISE EXCEPTION 'This call''s workflow has no % step', p_step;
+  END IF;
+
+  IF COALESCE(v_call.workflow_status->>p_step, 'pending') IN ('completed', 'skipped') THEN
+    RETURN v_call.workflow_status;
+  END IF;
+
+  UPDATE video_calls
+  SET workflow_status = COALESCE(workflow_status, '{}'::jsonb) || jsonb_build_object(p_step, 'completed')
+  WHERE id = p_call_id
+  RETURNING workflow_status INTO v_status;
+
+  RETURN v_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION complete_workflow_step(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION complete_workflow_step(uuid, text) TO authenticated;
+
+-- p_steps: [{id, label, position, required_roles, skip_when, sla_hours}]
+CREATE OR REPLACE FUNCTION save_workflow_steps(p_workflow_id uuid, p_steps jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_step jsonb;
+BEGIN
+  IF current_staff_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change workflows';
+  END IF;
+
+  FOR v_step IN SELECT * FROM jsonb_array_elements(p_steps)
+  LOOP
+    IF COALESCE(trim(v_step->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Every step needs a name';
+    END IF;
+
+    UPDATE workflow_steps
+    SET
+      label = trim(v_step->>'label'),
+      position = (v_step->>'position')::integer,
+      required_roles = ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_step->'required_roles', '[]'::jsonb))),
+      skip_when = NULLIF(v_step->>'skip_when', ''),
+      sla_hours = NULLIF(v_step->>'sla_hours', '')::numeric
+    WHERE id = (v_step->>'id')::uuid
+      AND workflow_id = p_workflow_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Step % is not part of this workflow', v_step->>'id';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_workflow_steps(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_workflow_steps(uuid, jsonb) TO authenticated;
+
+UPDATE video_calls
+SET workflow_id = (SELECT id FROM workflow_definitions WHERE is_default)
+WHERE workflow_id IS NULL;
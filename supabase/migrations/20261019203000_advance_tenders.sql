@@ -0,0 +1,56 @@
+/*
+  # Advance adjustment checked against the customer's advance
+
+  1. Functions
+    - A trigger on `sales` checks that the advance adjustment tendered on a
+      bill is no more than the customer's advance: the credit left on their
+      ledger by receipts not yet set against a bill. The sale's bill posts
+      to the ledger in the same transaction and uses the advance up, so it
+      cannot be spent twice.
+    - Bills for walk-in customers cannot be paid from an advance
+*/
+
+CREATE OR REPLACE FUNCTION check_sale_advance_tender()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tendered numeric;
+  v_advance numeric;
+BEGIN
+  SELECT COALESCE(sum((payment->>'amount')::numeric), 0) INTO v_tendered
+  FROM jsonb_array_elements(COALESCE(NEW.payment_details->'payments', '[]'::jsonb)) payment
+  WHERE payment->>'method' = 'advance';
+
+  IF v_tendered <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.customer_id IS NULL THEN
+    RAISE EXCEPTION 'An advance can only be adjusted against a saved customer''s bill';
+  END IF;
+
+  -- Bills for the same customer wait here, so each sees the advance the
+  -- other used
+  PERFORM 1 FROM customers WHERE id = NEW.customer_id FOR UPDATE;
+
+  SELECT GREATEST(-COALESCE(sum(amount), 0), 0) INTO v_advance
+  FROM customer_ledger
+  WHERE customer_id = NEW.customer_id;
+
+  IF v_tendered > v_advance THEN
+    RAISE EXCEPTION 'Advance adjustment % is more than the % advance the customer holds',
+      v_tendered, v_advance;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sales_check_advance_tender ON sales;
+CREATE TRIGGER sales_check_advance_tender
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION check_sale_advance_tender();
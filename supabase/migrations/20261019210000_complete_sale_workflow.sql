@@ -0,0 +1,226 @@
+/*
+  # Sales move video calls through their workflow
+
+  1. Functions
+    - `complete_sale` no longer writes a fixed workflow status onto the
+      video call it bills. It records the quotation (and how the order
+      leaves the shop, which decides whether QC, packaging and dispatch are
+      skipped), then completes the call's steps in its workflow's order
+      through `complete_workflow_step`, as far as the sale settles them: the
+      call and the quotation, and the payment once the bill is paid.
+*/
+
+CREATE OR REPLACE FUNCTION complete_sale(p_idempotency_key text, p_sale jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quotation jsonb := p_sale->'quotation_data';
+  v_payment jsonb := p_sale->'payment_details';
+  v_customer_id uuid := NULLIF(p_sale->>'customer_id', '')::uuid;
+  v_video_call_id uuid := NULLIF(p_sale->>'video_call_id', '')::uuid;
+  v_hand_carry boolean := COALESCE(v_quotation->>'delivery_method', 'hand_carry') = 'hand_carry';
+  v_paid boolean := v_payment->>'payment_status' = 'completed';
+  v_total numeric := (v_quotation->>'total_amount')::numeric;
+  v_now timestamptz := now();
+  v_existing sales%ROWTYPE;
+  v_quotation_id uuid;
+  v_sale_id uuid;
+  v_item jsonb;
+  v_quantity integer;
+  v_piece_ids uuid[];
+  v_invoice jsonb := p_sale->'tax_invoice';
+  v_invoice_row tax_invoices%ROWTYPE;
+  v_old_gold jsonb := p_sale->'old_gold';
+  v_voucher text;
+  v_credit numeric;
+  v_tendered numeric;
+  v_step text;
+  v_state text;
+BEGIN
+  IF COALESCE(p_idempotency_key, '') = '' THEN
+    RAISE EXCEPTION 'Sale is missing its idempotency key';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(v_quotation->'items', '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item before completing the sale';
+  END IF;
+
+  -- Concurrent retries of the same checkout wait here, then see the first sale
+  PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key));
+
+  SELECT * INTO v_existing FROM sales WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    SELECT * INTO v_invoice_row FROM tax_invoices WHERE sale_id = v_existing.id;
+    SELECT voucher_number INTO v_voucher FROM old_gold_items WHERE sale_id = v_existing.id LIMIT 1;
+    RETURN jsonb_build_object(
+      'sale_id', v_existing.id,
+      'quotation_id', v_existing.quotation_id,
+      'tax_invoice_id', v_invoice_row.id,
+      'invoice_number', v_invoice_row.invoice_number,
+      'exchange_voucher', v_voucher,
+      'duplicate', true
+    );
+  END IF;
+
+  INSERT INTO quotations (
+    customer_id, video_call_id, items, total_amount, status, payment_details,
+    workflow_status, delivery_method, quotation_number, valid_until, bill_status,
+    bill_generated_at, bill_paid_at
+  )
+  VALUES (
+    v_customer_id,
+    v_video_call_id,
+    v_quotation->'items',
+    v_total,
+    'accepted',
+    v_payment,
+    jsonb_build_object(
+      'qc', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+      'packaging', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END,
+      'dispatch', CASE WHEN v_hand_carry THEN 'completed' ELSE 'pending' END
+    ),
+    COALESCE(v_quotation->>'delivery_method', 'hand_carry'),
+    v_quotation->>'quotation_number',
+    v_now + interval '7 days',
+    CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+    v_now,
+    CASE WHEN v_paid THEN v_now END
+  )
+  RETURNING id INTO v_quotation_id;
+
+  IF v_video_call_id IS NOT NULL THEN
+    UPDATE video_calls
+    SET
+      quotation_id = v_quotation_id,
+      quotation_required = true,
+      bill_status = CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+      bill_amount = v_total,
+      bill_generated_at = v_now,
+      bill_paid_at = CASE WHEN v_paid THEN v_now END
+    WHERE id = v_video_call_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Video call % not found', v_video_call_id;
+    END IF;
+
+    -- Steps are done in order, up to the first one the sale doesn't settle
+    FOR v_step IN
+      SELECT ws.step_key
+      FROM video_calls vc
+      JOIN workflow_steps ws ON ws.workflow_id = vc.workflow_id
+      WHERE vc.id = v_video_call_id
+      ORDER BY ws.position
+    LOOP
+      SELECT COALESCE(workflow_status->>v_step, 'pending') INTO v_state
+      FROM video_calls WHERE id = v_video_call_id;
+      CONTINUE WHEN v_state IN ('completed', 'skipped');
+      EXIT WHEN v_step NOT IN ('video_call', 'quotation') AND NOT (v_step = 'payment' AND v_paid);
+
+      PERFORM complete_workflow_step(v_video_call_id, v_step);
+    END LOOP;
+  END IF;
+
+  IF v_customer_id IS NOT NULL THEN
+    UPDATE customers
+    SET
+      total_purchases = COALESCE(total_purchases, 0) + v_total,
+      last_purchase_date = v_now
+    WHERE id = v_customer_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', v_customer_id;
+    END IF;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_quotation->'items')
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT array_agg(id) INTO v_piece_ids
+    FROM (
+      SELECT pp.id
+      FROM product_pieces pp
+      WHERE pp.product_id = (v_item->>'product_id')::uuid
+        AND pp.status = 'in_stock'
+      ORDER BY
+        pp.id::text IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'pieceIds', '[]'::jsonb))) DESC,
+        COALESCE(pp.huid IN (SELECT jsonb_array_elements_text(COALESCE(v_item->'huids', '[]'::jsonb))), false) DESC,
+        pp.serial
+      LIMIT v_quantity
+      FOR UPDATE
+    ) picked;
+
+    IF COALESCE(array_length(v_piece_ids, 1), 0) < v_quantity THEN
+      RAISE EXCEPTION 'Only % of % pieces of % are in stock',
+        COALESCE(array_length(v_piece_ids, 1), 0),
+        v_quantity,
+        COALESCE(v_item->'product'->>'sku', v_item->>'product_id');
+    END IF;
+
+    UPDATE product_pieces
+    SET status = 'sold', quotation_id = v_quotation_id, sold_at = v_now
+    WHERE id = ANY(v_piece_ids);
+
+    UPDATE products
+    SET last_sold_at = v_now
+    WHERE id = (v_item->>'product_id')::uuid;
+  END LOOP;
+
+  INSERT INTO sales (
+    sale_type, customer_id, video_call_id, quotation_id, sale_number,
+    total_amount, payment_status, payment_details, idempotency_key
+  )
+  VALUES (
+    p_sale->>'sale_type',
+    v_customer_id,
+    v_video_call_id,
+    v_quotation_id,
+    v_quotation->>'quotation_number',
+    v_total,
+    CASE WHEN v_paid THEN 'paid' ELSE 'pending' END,
+    v_payment,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_sale_id;
+
+  IF v_invoice IS NOT NULL AND jsonb_typeof(v_invoice) = 'object' THEN
+    IF abs((v_invoice->>'invoice_total')::numeric - v_total) > 1 THEN
+      RAISE EXCEPTION 'Tax invoice total % does not match the sale total %',
+        v_invoice->>'invoice_total', v_total;
+    END IF;
+
+    v_invoice_row := issue_tax_invoice(v_sale_id, v_quotation_id, v_customer_id, v_invoice);
+  END IF;
+
+  IF jsonb_typeof(v_old_gold) = 'array' AND jsonb_array_length(v_old_gold) > 0 THEN
+    v_voucher := record_old_gold(
+      'exchange', v_sale_id, v_customer_id, p_sale->>'buyer_name', v_old_gold
+    );
+  END IF;
+
+  -- An old gold tender is only as good as the exchange recorded with it
+  SELECT COALESCE(sum(value), 0) INTO v_credit FROM old_gold_items WHERE voucher_number = v_voucher;
+  SELECT COALESCE(sum((payment->>'amount')::numeric), 0) INTO v_tendered
+  FROM jsonb_array_elements(COALESCE(v_payment->'payments', '[]'::jsonb)) payment
+  WHERE payment->>'method' = 'old_gold';
+
+  IF abs(v_credit - v_tendered) > 1 THEN
+    RAISE EXCEPTION 'Old gold tendered % does not match the exchange value %', v_tendered, v_credit;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'sale_id', v_sale_id,
+    'quotation_id', v_quotation_id,
+    'tax_invoice_id', v_invoice_row.id,
+    'invoice_number', v_invoice_row.invoice_number,
+    'exchange_voucher', v_voucher,
+    'duplicate', false
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION complete_sale(text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION complete_sale(text, jsonb) TO authenticated;